@@ -15,6 +15,7 @@ import type {
 } from '@anthropic-ai/sdk/resources/messages.js';
 import { buildChatSystemPrompt } from './chat-prompt.js';
 import { contextTools, handleContextTool } from './context-server.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 const MODEL = 'claude-sonnet-4-20250514';
 const MAX_TOKENS = 4096;
@@ -81,6 +82,7 @@ async function runConversationTurn(
       messages: currentMessages,
       tools,
     });
+    await recordLlmUsage(MODEL, response, { purpose: 'chat' });
 
     if (response.stop_reason === 'tool_use') {
       const toolUseBlocks = response.content.filter(
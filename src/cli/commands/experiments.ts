@@ -0,0 +1,162 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import 'dotenv/config';
+import type { Domain } from '../../types/index.js';
+import type { ExperimentRecord } from '../../types/internal.js';
+import {
+  initDataLayer,
+  createExperiment,
+  getExperiments,
+  stopExperiment,
+} from '../../data/provider.js';
+import { listPromptVariants } from '../../prompts/index.js';
+import {
+  getExperimentReport,
+  type ArmSummary,
+  type Interval,
+  MIN_CLOSED_PER_ARM,
+} from '../../experiments/index.js';
+
+const DOMAINS: Domain[] = ['dlmm', 'perps', 'polymarket', 'spot'];
+
+function formatInterval(interval: Interval, scale = 100, unit = '%'): string {
+  const fmt = (v: number) => `${(v * scale).toFixed(1)}${unit}`;
+  return `${fmt(interval.estimate)} ${chalk.dim(`[${fmt(interval.low)}, ${fmt(interval.high)}]`)}`;
+}
+
+function formatArm(label: string, arm: ArmSummary): string {
+  return `  ${label.padEnd(10)} ${String(arm.decisions).padStart(5)} decisions  ${String(arm.closed).padStart(4)} closed  ` +
+    `win ${formatInterval(arm.winRate)}  pnl ${formatInterval(arm.pnlPercent, 1)}`;
+}
+
+function describe(experiment: ExperimentRecord): string {
+  const arms = experiment.kind === 'skill'
+    ? `skill ${experiment.skillName}`
+    : `prompt ${experiment.controlPrompt ?? 'default'} vs ${experiment.treatmentPrompt}`;
+  return `${arms} | ${experiment.domain ?? 'all domains'} | per ${experiment.unit} | ` +
+    `${(experiment.treatmentShare * 100).toFixed(0)}% treatment`;
+}
+
+async function findExperiment(name: string): Promise<ExperimentRecord | null> {
+  const experiment = (await getExperiments()).find(e => e.name === name);
+  if (!experiment) {
+    console.error(chalk.red(`Experiment "${name}" not found.`));
+    return null;
+  }
+  return experiment;
+}
+
+export function registerExperimentsCommand(program: Command): void {
+  const experiments = program
+    .command('experiments')
+    .description('a/b test skills and prompts')
+    .hook('preAction', async () => {
+      await initDataLayer();
+    });
+
+  experiments
+    .command('list')
+    .description('list experiments (default)')
+    .action(async () => {
+      const list = await getExperiments();
+      if (list.length === 0) {
+        console.log(chalk.yellow('No experiments yet.'));
+        return;
+      }
+      for (const experiment of list) {
+        const status = experiment.status === 'running' ? chalk.green('running') : chalk.dim('stopped');
+        console.log(`${chalk.cyan(experiment.name)} ${status}`);
+        console.log(chalk.dim(`  ${describe(experiment)}`));
+      }
+    });
+
+  experiments
+    .command('start <name>')
+    .description('start a skill or prompt experiment')
+    .option('--skill <skill>', 'skill to inject in treatment and withhold in control')
+    .option('--prompt <variant>', 'prompt variant for treatment')
+    .option('--control <variant>', 'prompt variant for control (default: subagent prompt)')
+    .option('-d, --domain <domain>', 'only run in this domain')
+    .option('--unit <unit>', 'assign arms per decision or per cycle', 'decision')
+    .option('--share <number>', 'share of units assigned to treatment', parseFloat, 0.5)
+    .action(async (name, options) => {
+      if (!options.skill === !options.prompt) {
+        console.error(chalk.red('Pass exactly one of --skill or --prompt.'));
+        return;
+      }
+      if (options.domain && !DOMAINS.includes(options.domain)) {
+        console.error(chalk.red(`Unknown domain "${options.domain}".`));
+        return;
+      }
+      if (options.unit !== 'decision' && options.unit !== 'cycle') {
+        console.error(chalk.red('--unit must be "decision" or "cycle".'));
+        return;
+      }
+      if (!(options.share > 0 && options.share < 1)) {
+        console.error(chalk.red('--share must be between 0 and 1.'));
+        return;
+      }
+      const variants = listPromptVariants();
+      for (const variant of [options.prompt, options.control].filter(Boolean)) {
+        if (!variants.includes(variant)) {
+          console.error(chalk.red(`Unknown prompt variant "${variant}". Registered: ${variants.join(', ')}`));
+          return;
+        }
+      }
+
+      const running = await getExperiments('running');
+      const overlapping = running.find(e => !e.domain || !options.domain || e.domain === options.domain);
+      if (overlapping) {
+        console.log(chalk.yellow(`Note: "${overlapping.name}" is also running - the newest experiment takes each domain.`));
+      }
+
+      const experiment = await createExperiment({
+        name,
+        kind: options.skill ? 'skill' : 'prompt',
+        domain: options.domain,
+        unit: options.unit,
+        treatmentShare: options.share,
+        skillName: options.skill?.replace(/\.md$/, ''),
+        controlPrompt: options.control,
+        treatmentPrompt: options.prompt,
+      });
+      console.log(chalk.green(`Started ${experiment.name}`));
+      console.log(chalk.dim(`  ${describe(experiment)}`));
+    });
+
+  experiments
+    .command('report <name>')
+    .description('compare arms with 95% confidence intervals')
+    .action(async (name) => {
+      const experiment = await findExperiment(name);
+      if (!experiment) return;
+
+      const report = await getExperimentReport(experiment);
+      console.log(`${chalk.cyan(experiment.name)} ${chalk.dim(describe(experiment))}\n`);
+      console.log(formatArm('control', report.control));
+      console.log(formatArm('treatment', report.treatment));
+      console.log('');
+      console.log(`  win rate lift  ${formatInterval(report.lift.winRate)}`);
+      console.log(`  pnl lift       ${formatInterval(report.lift.pnlPercent, 1)}`);
+      console.log('');
+
+      if (!report.enoughData) {
+        console.log(chalk.yellow(`  Not enough data yet - need ${MIN_CLOSED_PER_ARM} closed decisions per arm.`));
+      } else if (report.significant) {
+        const direction = report.lift.winRate.estimate > 0 ? chalk.green('helps') : chalk.red('hurts');
+        console.log(`  Treatment ${direction} (win-rate interval excludes zero).`);
+      } else {
+        console.log(chalk.dim('  No significant difference between arms.'));
+      }
+    });
+
+  experiments
+    .command('stop <name>')
+    .description('stop assigning decisions to an experiment')
+    .action(async (name) => {
+      const experiment = await findExperiment(name);
+      if (!experiment) return;
+      await stopExperiment(experiment.id);
+      console.log(chalk.green(`Stopped ${experiment.name}.`));
+    });
+}
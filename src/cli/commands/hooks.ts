@@ -0,0 +1,84 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import 'dotenv/config';
+import type { Domain } from '../../types/index.js';
+import type { HookExecutionRecord } from '../../types/internal.js';
+import { initDataLayer, getHookExecutions } from '../../data/provider.js';
+import { describeHookExecution } from '../../hooks/audit.js';
+
+const DOMAINS: Domain[] = ['dlmm', 'perps', 'polymarket', 'spot'];
+
+const DOMAIN_COLORS: Record<Domain, (text: string) => string> = {
+  dlmm: chalk.blue,
+  perps: chalk.magenta,
+  polymarket: chalk.green,
+  spot: chalk.yellow,
+};
+
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * "30m", "12h" or "2d" in milliseconds
+ */
+function parseDuration(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([mhd])$/.exec(text.trim());
+  return match ? parseFloat(match[1]) * DURATION_UNITS[match[2]] : null;
+}
+
+function formatExecution(execution: HookExecutionRecord): string {
+  const time = execution.createdAt.toLocaleString();
+  const color = execution.proceeded ? (execution.modifiedInput !== undefined ? chalk.yellow : chalk.dim) : chalk.red;
+  return `${chalk.dim(time)} ${DOMAIN_COLORS[execution.domain](execution.domain.padEnd(10))} ` +
+    `${execution.hookName.padEnd(24)} ${color(describeHookExecution(execution))}`;
+}
+
+export function registerHooksCommand(program: Command): void {
+  const hooks = program
+    .command('hooks')
+    .description('inspect hook executions')
+    .hook('preAction', async () => {
+      await initDataLayer();
+    });
+
+  hooks
+    .command('log')
+    .description('show persisted hook executions, newest first')
+    .option('-d, --domain <domain>', 'only this domain')
+    .option('--blocked', 'only executions that blocked a decision or tool call')
+    .option('--hook <name>', 'only this hook')
+    .option('--event <event>', 'only this event (e.g. PreDecision)')
+    .option('--since <duration>', 'only the last 30m / 12h / 2d')
+    .option('-n, --limit <number>', 'number of executions to show', (v) => parseInt(v, 10), 50)
+    .action(async (options) => {
+      if (options.domain && !DOMAINS.includes(options.domain)) {
+        console.error(chalk.red(`Unknown domain "${options.domain}".`));
+        return;
+      }
+      let since: Date | undefined;
+      if (options.since) {
+        const ms = parseDuration(options.since);
+        if (ms === null) {
+          console.error(chalk.red('--since must look like 30m, 12h or 2d.'));
+          return;
+        }
+        since = new Date(Date.now() - ms);
+      }
+
+      const executions = await getHookExecutions({
+        domain: options.domain,
+        blocked: options.blocked ? true : undefined,
+        hookName: options.hook,
+        event: options.event,
+        since,
+        limit: options.limit,
+      });
+
+      if (executions.length === 0) {
+        console.log(chalk.yellow('No hook executions match.'));
+        return;
+      }
+      for (const execution of executions) {
+        console.log(formatExecution(execution));
+      }
+    });
+}
@@ -7,13 +7,26 @@
  *
  * Similar memories merge at 70% similarity.
  * Ineffective patterns (<30% success rate) get pruned.
+ *
+ * --reconcile reports duplicate and contradicting facts; add --apply to
+ * supersede the older ones.
  */
 
 import chalk from 'chalk';
+import 'dotenv/config';
+import type { Domain } from '../../types/index.js';
+import { initDataLayer } from '../../data/provider.js';
+import {
+  reconcileMemory,
+  reconcileAllMemory,
+  type ReconcileReport,
+} from '../../memory/reconcile.js';
 
 interface MemoryOptions {
   show?: boolean;
   clear?: boolean;
+  reconcile?: boolean;
+  apply?: boolean;
   domain?: string;
 }
 
@@ -22,6 +35,11 @@ export async function memoryCommand(options: MemoryOptions): Promise<void> {
   console.log(chalk.cyan('  ─── claudefi memory ───'));
   console.log('\n');
 
+  if (options.reconcile) {
+    await reconcileCommand(options);
+    return;
+  }
+
   if (options.clear) {
     console.log(chalk.yellow('  memory clear not yet implemented'));
     console.log(chalk.gray('  coming in next release\n'));
@@ -42,3 +60,45 @@ export async function memoryCommand(options: MemoryOptions): Promise<void> {
   console.log(chalk.gray('  • patterns from wins (90 day TTL)'));
   console.log('\n');
 }
+
+async function reconcileCommand(options: MemoryOptions): Promise<void> {
+  try {
+    await initDataLayer();
+  } catch (error) {
+    console.log(chalk.red('  database initialization failed'));
+    console.log(chalk.gray(`\n  ${error}\n`));
+    process.exit(1);
+  }
+
+  const reports: ReconcileReport[] = options.domain
+    ? [await reconcileMemory(options.domain.toLowerCase() as Domain | 'general', { apply: options.apply })]
+    : await reconcileAllMemory({ apply: options.apply });
+
+  let total = 0;
+  for (const report of reports) {
+    total += report.conflicts.length;
+
+    console.log(chalk.white(`  ${report.domain}`) + chalk.gray(` (${report.factCount} facts)`));
+
+    if (report.conflicts.length === 0) {
+      console.log(chalk.gray('    no conflicts\n'));
+      continue;
+    }
+
+    for (const conflict of report.conflicts) {
+      const label = conflict.kind === 'contradiction' ? chalk.red('contradiction') : chalk.yellow('duplicate');
+      console.log(`    ${label} ${chalk.gray(`(${(conflict.similarity * 100).toFixed(0)}% overlap)`)}`);
+      console.log(chalk.green(`      keep:      ${conflict.kept.fact}`));
+      console.log(chalk.gray(`      supersede: ${conflict.superseded.fact}`));
+    }
+    console.log('');
+  }
+
+  if (total === 0) {
+    console.log(chalk.gray('  memory is consistent\n'));
+  } else if (options.apply) {
+    console.log(chalk.green(`  superseded ${total} fact(s)\n`));
+  } else {
+    console.log(chalk.gray(`  ${total} fact(s) would be superseded - run with --apply to reconcile\n`));
+  }
+}
@@ -7,6 +7,14 @@ import {
   getInstalledSkills,
   isSkillInstalled,
 } from '../../skills/community/installer.js';
+import type { Domain } from '../../types/index.js';
+import {
+  getSkillHistory,
+  getSkillVersionsById,
+  diffLines,
+  rollbackSkill,
+  type SkillVersionRecord,
+} from '../../skills/skill-versions.js';
 
 function formatList(skills: Awaited<ReturnType<typeof fetchCommunitySkills>>): void {
   if (skills.length === 0) {
@@ -31,6 +39,23 @@ function formatList(skills: Awaited<ReturnType<typeof fetchCommunitySkills>>): v
   }
 }
 
+function formatVersion(version: SkillVersionRecord, current: boolean): string {
+  const stats = version.timesApplied > 0
+    ? `applied ${version.timesApplied}x, ${((version.effectivenessScore ?? 0) * 100).toFixed(0)}% success`
+    : 'not applied yet';
+  const marker = current ? chalk.green(' (current)') : '';
+  return `${chalk.cyan(`v${version.version}`)} ${version.source.padEnd(8)} ${chalk.dim(version.createdAt.toISOString())}  ${stats}${marker}`;
+}
+
+async function loadHistory(name: string, domain?: string): Promise<SkillVersionRecord[] | null> {
+  const history = await getSkillHistory(name.replace(/\.md$/, ''), domain as Domain | undefined);
+  if (history.length === 0) {
+    console.error(chalk.red(`No versions recorded for skill "${name}".`));
+    return null;
+  }
+  return history;
+}
+
 export function registerSkillsCommand(program: Command): void {
   const skills = program.command('skills').description('manage community and installed skills');
 
@@ -83,6 +108,67 @@ export function registerSkillsCommand(program: Command): void {
       }
     });
 
+  skills
+    .command('history <name>')
+    .description('list every version of a reflection skill with its effectiveness')
+    .option('-d, --domain <domain>', 'domain the skill belongs to')
+    .action(async (name, options) => {
+      const history = await loadHistory(name, options.domain);
+      if (!history) return;
+
+      console.log(chalk.green(`${history[0].skillName} [${history[0].domain}]`));
+      for (const version of [...history].reverse()) {
+        console.log(`  ${formatVersion(version, version === history[history.length - 1])}`);
+        if (version.mergedFrom.length > 0) {
+          const parents = await getSkillVersionsById(version.mergedFrom);
+          console.log(chalk.dim(`      merged from ${parents.map(p => `${p.skillName} v${p.version}`).join(', ')}`));
+        }
+      }
+    });
+
+  skills
+    .command('diff <name> [from] [to]')
+    .description('diff two versions of a skill (defaults to the last change)')
+    .option('-d, --domain <domain>', 'domain the skill belongs to')
+    .action(async (name, from, to, options) => {
+      const history = await loadHistory(name, options.domain);
+      if (!history) return;
+
+      const toVersion = to ? parseInt(to, 10) : history[history.length - 1].version;
+      const fromVersion = from ? parseInt(from, 10) : toVersion - 1;
+      const before = history.find(v => v.version === fromVersion);
+      const after = history.find(v => v.version === toVersion);
+      if (!before || !after) {
+        console.error(chalk.red(`Skill "${name}" has versions 1-${history.length}.`));
+        return;
+      }
+
+      console.log(chalk.dim(`--- v${before.version} (${before.source})`));
+      console.log(chalk.dim(`+++ v${after.version} (${after.source})`));
+      for (const line of diffLines(before.content, after.content)) {
+        if (line.op === '+') console.log(chalk.green(`+${line.text}`));
+        else if (line.op === '-') console.log(chalk.red(`-${line.text}`));
+        else console.log(chalk.dim(` ${line.text}`));
+      }
+    });
+
+  skills
+    .command('rollback <name> <version>')
+    .description('restore an earlier version of a skill')
+    .option('-d, --domain <domain>', 'domain the skill belongs to')
+    .action(async (name, version, options) => {
+      const restored = await rollbackSkill(
+        name.replace(/\.md$/, ''),
+        parseInt(version, 10),
+        options.domain as Domain | undefined
+      );
+      if (!restored) {
+        console.error(chalk.red(`Skill "${name}" has no version ${version}.`));
+        return;
+      }
+      console.log(chalk.green(`Restored ${restored.skillName} v${version} as v${restored.version}.`));
+    });
+
   skills
     .command('remove <name>')
     .alias('uninstall')
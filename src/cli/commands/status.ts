@@ -7,8 +7,11 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import 'dotenv/config';
-import { getPortfolio, getOpenPositions, getRecentDecisions, initDatabase } from '../../db/index.js';
+import { getPortfolio, getOpenPositions, getRecentDecisions, getLlmUsage, initDatabase } from '../../db/index.js';
 import type { Domain } from '../../types/index.js';
+import { getJudgeCalibration, MIN_CALIBRATION_SAMPLES } from '../../learning/judge-calibration.js';
+import { summarizeUsage, budgetDayStart, getDailyBudgetUsd } from '../../services/llm-usage.js';
+import { loadHookConfig } from '../../hooks/config.js';
 
 interface StatusOptions {
   domain?: string;
@@ -98,6 +101,68 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
       }
     }
 
+    // Judge calibration
+    console.log('\n');
+    console.log(chalk.gray('  judge calibration'));
+    console.log(chalk.gray('  ─────────────────────────────────'));
+
+    const calibrations = (await getJudgeCalibration(options.domain?.toLowerCase() as Domain | undefined))
+      .filter(c => domains.includes(c.domain));
+
+    if (calibrations.length === 0) {
+      console.log(chalk.gray('\n  no judged decisions with outcomes yet'));
+    } else {
+      for (const calibration of calibrations) {
+        const weight = calibration.weight >= 0.8
+          ? chalk.green(calibration.weight.toFixed(2))
+          : calibration.weight >= 0.4
+            ? chalk.yellow(calibration.weight.toFixed(2))
+            : chalk.red(calibration.weight.toFixed(2));
+        const note = calibration.samples < MIN_CALIBRATION_SAMPLES ? chalk.gray(' (too few to weight)') : '';
+
+        console.log(`\n  ${chalk.cyan(calibration.domain.toUpperCase())} ${chalk.gray(calibration.mode)}  ${calibration.samples} outcomes${note}`);
+        console.log(`    brier:       ${calibration.brierScore.toFixed(3)} (skill ${calibration.brierSkill.toFixed(2)})`);
+        console.log(`    rank corr:   ${calibration.rankCorrelation.toFixed(2)}`);
+        console.log(`    weight:      ${weight}`);
+        const curve = calibration.reliability
+          .filter(bin => bin.count > 0)
+          .map(bin => `${(bin.low * 100).toFixed(0)}-${(bin.high * 100).toFixed(0)}%: ${(bin.winRate * 100).toFixed(0)}% win (${bin.count})`);
+        console.log(chalk.gray(`    ${curve.join('  ')}`));
+      }
+    }
+
+    // LLM usage
+    console.log('\n');
+    console.log(chalk.gray('  llm usage (today, utc)'));
+    console.log(chalk.gray('  ─────────────────────────────────'));
+
+    const usage = summarizeUsage(await getLlmUsage({
+      since: budgetDayStart(),
+      domain: options.domain?.toLowerCase() as Domain | undefined,
+    }));
+    // The budget may only be set in hooks.yaml
+    loadHookConfig();
+    const budget = getDailyBudgetUsd();
+
+    if (usage.calls === 0) {
+      console.log(chalk.gray('\n  no model calls yet today'));
+    } else {
+      const spend = budget > 0 && usage.costUsd >= budget ? chalk.red : chalk.white.bold;
+      console.log(`\n  spend:         ${spend('$' + usage.costUsd.toFixed(2))}${budget > 0 ? chalk.gray(` of $${budget.toFixed(2)} budget`) : ''}`);
+      console.log(`  calls:         ${usage.calls} (${(usage.inputTokens / 1000).toFixed(0)}k in, ${(usage.outputTokens / 1000).toFixed(0)}k out, ${(usage.thinkingTokens / 1000).toFixed(0)}k thinking)`);
+      if (usage.decisions > 0) {
+        console.log(`  per decision:  $${usage.costPerDecisionUsd.toFixed(3)} (${usage.decisions} decisions)`);
+      }
+      const byDomain = Object.entries(usage.byDomain)
+        .sort(([, a], [, b]) => b - a)
+        .map(([domain, cost]) => `${domain} $${cost.toFixed(2)}`);
+      const byPurpose = Object.entries(usage.byPurpose)
+        .sort(([, a], [, b]) => b - a)
+        .map(([purpose, cost]) => `${purpose} $${cost.toFixed(2)}`);
+      console.log(chalk.gray(`    ${byDomain.join('  ')}`));
+      console.log(chalk.gray(`    ${byPurpose.join('  ')}`));
+    }
+
     // Recent decisions
     console.log('\n');
     console.log(chalk.gray('  recent decisions'));
@@ -13,6 +13,8 @@
  *   status    - Quick portfolio status
  *   memory    - View learned patterns and warnings
  *   skills    - Manage Claude Code skills
+ *   experiments - A/B test skills and prompts
+ *   hooks     - Inspect the hook audit log
  *   config    - View/edit configuration
  *   doctor    - Diagnose issues
  *   learn     - Educational content about how claudefi works
@@ -25,6 +27,8 @@ import { runCommand } from './commands/run.js';
 import { monitorCommand } from './commands/monitor.js';
 import { statusCommand } from './commands/status.js';
 import { registerSkillsCommand } from './commands/skills.js';
+import { registerExperimentsCommand } from './commands/experiments.js';
+import { registerHooksCommand } from './commands/hooks.js';
 import { runtimeInfo } from './runtime.js';
 
 // Handle unhandled rejections
@@ -85,6 +89,8 @@ program
   .action(statusCommand);
 
 registerSkillsCommand(program);
+registerExperimentsCommand(program);
+registerHooksCommand(program);
 
 // Memory command - view learned patterns and warnings
 program
@@ -92,6 +98,8 @@ program
   .description('view learned patterns and warnings')
   .option('-s, --show', 'show detailed memory entries')
   .option('-c, --clear', 'clear memory (with confirmation)')
+  .option('-r, --reconcile', 'report duplicate and contradicting facts')
+  .option('--apply', 'with --reconcile, supersede the older facts')
   .option('-d, --domain <domain>', 'filter by domain')
   .action(async (options) => {
     // Placeholder - will be implemented in Phase 2
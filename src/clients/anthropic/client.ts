@@ -5,6 +5,7 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import type { Domain, AgentDecision } from '../../types/index.js';
+import { recordLlmUsage } from '../../services/llm-usage.js';
 
 let anthropicInstance: Anthropic | null = null;
 
@@ -81,6 +82,7 @@ export async function getClaudeDecision(
       },
     ],
   });
+  await recordLlmUsage(message.model, message, { purpose: 'subagent', domain });
 
   // Extract text content
   const textContent = message.content.find(block => block.type === 'text');
@@ -34,6 +34,117 @@ export interface Candle {
   volume: number;
 }
 
+export interface L2BookLevel {
+  price: number;
+  size: number;     // Base asset units
+  orders: number;
+}
+
+export interface L2Book {
+  symbol: string;
+  time: number;
+  bids: L2BookLevel[];  // Best (highest) first
+  asks: L2BookLevel[];  // Best (lowest) first
+}
+
+/**
+ * Exchange-side exits attached to an entry (reduce-only triggers)
+ */
+export interface BracketParams {
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+}
+
+export interface BracketOrderResult {
+  fillPrice: number;
+  orderId: string;
+  takeProfitOrderId?: string;
+  stopLossOrderId?: string;
+}
+
+/**
+ * Perps fee tier, chosen by 14-day traded volume
+ */
+export interface HyperliquidFeeTier {
+  minVolume14dUsd: number;
+  takerRate: number;        // Perps orders are IOC, so fills always take
+}
+
+/**
+ * Paper fill of an IOC order against the L2 book
+ */
+export interface SimulatedOrder {
+  fillPrice: number;        // Average fill price
+  orderId: string;
+  markPrice: number;        // Book mid (mark if the book was unavailable)
+  filledSize: number;       // Base asset units
+  filledUsd: number;        // Notional filled at fillPrice
+  unfilledUsd: number;      // Remainder the IOC cancels, at markPrice
+  slippageUsd: number;      // Cost vs markPrice
+  feeUsd: number;
+  feeRate: number;
+  source: 'book' | 'estimate';
+}
+
+export interface SimulateOrderOptions {
+  leverage?: number;        // Rejected above the asset's max leverage
+  volume14dUsd?: number;    // Fee tier volume (default HYPERLIQUID_VOLUME_14D_USD)
+}
+
+/**
+ * Order leverage above the asset's max (what the exchange would reject)
+ */
+export class LeverageLimitError extends Error {
+  constructor(
+    public readonly symbol: string,
+    public readonly leverage: number,
+    public readonly maxLeverage: number
+  ) {
+    super(`Leverage ${leverage}x exceeds max ${maxLeverage}x for ${symbol}`);
+    this.name = 'LeverageLimitError';
+  }
+}
+
+// Hyperliquid perps taker fee schedule, base tier first
+export const HYPERLIQUID_FEE_TIERS: HyperliquidFeeTier[] = [
+  { minVolume14dUsd: 0, takerRate: 0.00045 },
+  { minVolume14dUsd: 5_000_000, takerRate: 0.0004 },
+  { minVolume14dUsd: 25_000_000, takerRate: 0.00035 },
+  { minVolume14dUsd: 100_000_000, takerRate: 0.0003 },
+  { minVolume14dUsd: 500_000_000, takerRate: 0.00028 },
+  { minVolume14dUsd: 2_000_000_000, takerRate: 0.00026 },
+  { minVolume14dUsd: 7_000_000_000, takerRate: 0.00024 },
+];
+
+// Market orders are IOC limits this far through the mark - the book past it doesn't fill
+const MARKET_ORDER_SLIPPAGE = 0.01;
+
+// Flat slippage when the book is unavailable
+const ESTIMATE_SLIPPAGE_RATE = 0.0005;
+
+interface HyperliquidOrder {
+  a: number;
+  b: boolean;
+  p: string;
+  s: string;
+  r: boolean;
+  t:
+    | { limit: { tif: 'Ioc' | 'Gtc' | 'Alo' } }
+    | { trigger: { isMarket: boolean; triggerPx: string; tpsl: 'tp' | 'sl' } };
+}
+
+interface HyperliquidOrderStatus {
+  filled?: {
+    totalSz: string;
+    avgPx: string;
+    oid: number;
+  };
+  resting?: {
+    oid: number;
+  };
+  error?: string;
+}
+
 interface HyperliquidMeta {
   universe: Array<{
     name: string;
@@ -190,6 +301,42 @@ export class HyperliquidClient {
     return parseFloat(price);
   }
 
+  /**
+   * Fetch the L2 order book for a symbol
+   */
+  async getL2Book(symbol: string): Promise<L2Book> {
+    const data = await resilientFetch<{
+      coin: string;
+      time: number;
+      levels: [
+        Array<{ px: string; sz: string; n: number }>,
+        Array<{ px: string; sz: string; n: number }>,
+      ];
+    }>(
+      `${this.baseUrl}/info`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'l2Book', coin: symbol }),
+      },
+      { timeoutMs: 10000 }
+    );
+
+    const toLevels = (levels: Array<{ px: string; sz: string; n: number }> = []) =>
+      levels.map(level => ({
+        price: parseFloat(level.px),
+        size: parseFloat(level.sz),
+        orders: level.n,
+      }));
+
+    return {
+      symbol,
+      time: data.time,
+      bids: toLevels(data.levels?.[0]),
+      asks: toLevels(data.levels?.[1]),
+    };
+  }
+
   /**
    * Fetch candle data for technical analysis
    */
@@ -279,23 +426,92 @@ export class HyperliquidClient {
     return pnl - fundingPaid;
   }
 
+  /**
+   * Max leverage for a symbol from universe metadata
+   */
+  async getMaxLeverage(symbol: string): Promise<number> {
+    const meta = await this.getMeta();
+    const asset = meta.universe.find(a => a.name === symbol);
+    if (!asset) {
+      throw new Error(`Asset ${symbol} not found in Hyperliquid universe`);
+    }
+    return asset.maxLeverage || 50;
+  }
+
   /**
    * Simulate order execution (paper trading)
+   *
+   * Walks the L2 book the way the live IOC order would: fills up to
+   * MARKET_ORDER_SLIPPAGE through the mid, cancels the rest and pays the
+   * taker fee for the account's tier. Replays the recorded book when
+   * DATA_SOURCE is a replay archive.
    */
   async simulateOrder(
     symbol: string,
     side: 'LONG' | 'SHORT',
-    sizeUsd: number
-  ): Promise<{ fillPrice: number; orderId: string }> {
-    const markPrice = await this.getMarkPrice(symbol);
+    sizeUsd: number,
+    options: SimulateOrderOptions = {}
+  ): Promise<SimulatedOrder> {
+    if (options.leverage !== undefined) {
+      let maxLeverage: number | null = null;
+      try {
+        maxLeverage = await this.getMaxLeverage(symbol);
+      } catch (error) {
+        console.warn(`[Hyperliquid] Max leverage unavailable for ${symbol}, not checked`);
+      }
+      if (maxLeverage !== null && options.leverage > maxLeverage) {
+        throw new LeverageLimitError(symbol, options.leverage, maxLeverage);
+      }
+    }
+
+    const feeRate = getFeeTier(options.volume14dUsd ?? getVolume14dUsd()).takerRate;
+    const orderId = `paper_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const isBuy = side === 'LONG';
+
+    let book: L2Book | null = null;
+    try {
+      book = await this.getL2Book(symbol);
+    } catch (error) {
+      console.warn(`[Hyperliquid] L2 book unavailable for ${symbol}, using flat slippage`);
+    }
 
-    // Simulate 0.05% slippage
-    const slippageFactor = side === 'LONG' ? 1.0005 : 0.9995;
-    const fillPrice = markPrice * slippageFactor;
+    const bestBid = book?.bids[0]?.price;
+    const bestAsk = book?.asks[0]?.price;
+    if (book && bestBid && bestAsk) {
+      const markPrice = (bestBid + bestAsk) / 2;
+      const size = sizeUsd / markPrice;
+      const limitPrice = isBuy ? markPrice * (1 + MARKET_ORDER_SLIPPAGE) : markPrice * (1 - MARKET_ORDER_SLIPPAGE);
+      const { filledSize, filledUsd } = walkL2Book(isBuy ? book.asks : book.bids, size, limitPrice, isBuy);
+
+      return {
+        fillPrice: filledSize > 0 ? filledUsd / filledSize : markPrice,
+        orderId,
+        markPrice,
+        filledSize,
+        filledUsd,
+        unfilledUsd: (size - filledSize) * markPrice,
+        slippageUsd: Math.max(0, isBuy ? filledUsd - filledSize * markPrice : filledSize * markPrice - filledUsd),
+        feeUsd: filledUsd * feeRate,
+        feeRate,
+        source: 'book',
+      };
+    }
+
+    const markPrice = await this.getMarkPrice(symbol);
+    const fillPrice = markPrice * (isBuy ? 1 + ESTIMATE_SLIPPAGE_RATE : 1 - ESTIMATE_SLIPPAGE_RATE);
+    const filledSize = sizeUsd / markPrice;
 
     return {
       fillPrice,
-      orderId: `paper_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      orderId,
+      markPrice,
+      filledSize,
+      filledUsd: filledSize * fillPrice,
+      unfilledUsd: 0,
+      slippageUsd: sizeUsd * ESTIMATE_SLIPPAGE_RATE,
+      feeUsd: filledSize * fillPrice * feeRate,
+      feeRate,
+      source: 'estimate',
     };
   }
 
@@ -385,15 +601,15 @@ export class HyperliquidClient {
     // Validate leverage
     const maxLeverage = assetMeta.maxLeverage || 50;
     if (leverage > maxLeverage) {
-      throw new Error(`Leverage ${leverage}x exceeds max ${maxLeverage}x for ${symbol}`);
+      throw new LeverageLimitError(symbol, leverage, maxLeverage);
     }
 
     // Build order
     const isBuy = side === 'LONG';
     // For market orders, use a price that will definitely fill (1% slippage)
-    const limitPrice = isBuy ? markPrice * 1.01 : markPrice * 0.99;
+    const limitPrice = isBuy ? markPrice * (1 + MARKET_ORDER_SLIPPAGE) : markPrice * (1 - MARKET_ORDER_SLIPPAGE);
 
-    const order = {
+    const order: HyperliquidOrder = {
       a: assetIndex, // asset index
       b: isBuy, // is buy
       p: this.formatPrice(limitPrice), // limit price
@@ -406,12 +622,106 @@ export class HyperliquidClient {
       },
     };
 
+    const [status] = await this.submitOrders([order], 'na');
+    return this.parseEntryStatus(status, markPrice);
+  }
+
+  /**
+   * Place an entry with exchange-side take-profit / stop-loss attached.
+   * The triggers are reduce-only market orders grouped with the entry
+   * (normalTpsl), so they size to the fill and one cancels the other.
+   */
+  async placeBracketOrder(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    sizeUsd: number,
+    leverage: number,
+    bracket: BracketParams
+  ): Promise<BracketOrderResult> {
+    if (!bracket.takeProfitPrice && !bracket.stopLossPrice) {
+      return this.placeOrder(symbol, side, sizeUsd, leverage);
+    }
+
+    if (!this.walletClient || !this.walletAddress) {
+      throw new Error(
+        'Wallet not initialized. Call initializeWallet(privateKey) first, or use simulateOrder() for paper trading.'
+      );
+    }
+
+    const markPrice = await this.getMarkPrice(symbol);
+    validateBracket(side, markPrice, bracket);
+
+    const meta = await this.getMeta();
+    const assetIndex = await this.getAssetIndex(symbol);
+    const assetMeta = meta.universe[assetIndex];
+    const szDecimals = assetMeta.szDecimals || 4;
+
+    const maxLeverage = assetMeta.maxLeverage || 50;
+    if (leverage > maxLeverage) {
+      throw new LeverageLimitError(symbol, leverage, maxLeverage);
+    }
+
+    const isBuy = side === 'LONG';
+    const size = this.formatSize(sizeUsd / markPrice, szDecimals);
+    const orders: HyperliquidOrder[] = [{
+      a: assetIndex,
+      b: isBuy,
+      p: this.formatPrice(isBuy ? markPrice * (1 + MARKET_ORDER_SLIPPAGE) : markPrice * (1 - MARKET_ORDER_SLIPPAGE)),
+      s: size,
+      r: false,
+      t: { limit: { tif: 'Ioc' } },
+    }];
+
+    // Exits close the position, so they trade the opposite side
+    const exitTrigger = (triggerPrice: number, tpsl: 'tp' | 'sl'): HyperliquidOrder => ({
+      a: assetIndex,
+      b: !isBuy,
+      p: this.formatPrice(isBuy ? triggerPrice * 0.9 : triggerPrice * 1.1), // Slippage limit for the market trigger
+      s: size,
+      r: true,
+      t: { trigger: { isMarket: true, triggerPx: this.formatPrice(triggerPrice), tpsl } },
+    });
+
+    if (bracket.takeProfitPrice) orders.push(exitTrigger(bracket.takeProfitPrice, 'tp'));
+    if (bracket.stopLossPrice) orders.push(exitTrigger(bracket.stopLossPrice, 'sl'));
+
+    const statuses = await this.submitOrders(orders, 'normalTpsl');
+    const entry = this.parseEntryStatus(statuses[0], markPrice);
+
+    const triggerIds = statuses.slice(1).map((status, i) => {
+      if (status?.error) {
+        console.warn(`[Hyperliquid] Trigger order ${i + 1} rejected: ${status.error}`);
+        return undefined;
+      }
+      const oid = status?.resting?.oid ?? status?.filled?.oid;
+      return oid !== undefined ? `hl_${oid}` : undefined;
+    });
+
+    let next = 0;
+    return {
+      ...entry,
+      takeProfitOrderId: bracket.takeProfitPrice ? triggerIds[next++] : undefined,
+      stopLossOrderId: bracket.stopLossPrice ? triggerIds[next++] : undefined,
+    };
+  }
+
+  /**
+   * Sign and submit an order action, returning one status per order
+   */
+  private async submitOrders(
+    orders: HyperliquidOrder[],
+    grouping: 'na' | 'normalTpsl' | 'positionTpsl'
+  ): Promise<HyperliquidOrderStatus[]> {
+    if (!this.walletClient) {
+      throw new Error('Wallet not initialized. Call initializeWallet(privateKey) first.');
+    }
+
     // Build the action payload
     const timestamp = Date.now();
     const action = {
       type: 'order',
-      orders: [order],
-      grouping: 'na',
+      orders,
+      grouping,
     };
 
     // Create the request payload (Hyperliquid uses a specific signing scheme)
@@ -469,14 +779,7 @@ export class HyperliquidClient {
         response?: {
           type: string;
           data?: {
-            statuses: Array<{
-              filled?: {
-                totalSz: string;
-                avgPx: string;
-                oid: number;
-              };
-              error?: string;
-            }>;
+            statuses: HyperliquidOrderStatus[];
           };
         };
       };
@@ -486,23 +789,7 @@ export class HyperliquidClient {
         throw new Error(`Order rejected: ${JSON.stringify(result)}`);
       }
 
-      const status = result.response?.data?.statuses?.[0];
-      if (status?.error) {
-        throw new Error(`Order error: ${status.error}`);
-      }
-
-      if (status?.filled) {
-        return {
-          fillPrice: parseFloat(status.filled.avgPx),
-          orderId: `hl_${status.filled.oid}`,
-        };
-      }
-
-      // Order didn't fill immediately - return mark price as estimated fill
-      return {
-        fillPrice: markPrice,
-        orderId: `hl_pending_${timestamp}`,
-      };
+      return result.response?.data?.statuses ?? [];
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error('Hyperliquid order timed out after 15s');
@@ -511,6 +798,31 @@ export class HyperliquidClient {
     }
   }
 
+  /**
+   * Turn the entry order's status into a fill (mark price if still pending)
+   */
+  private parseEntryStatus(
+    status: HyperliquidOrderStatus | undefined,
+    markPrice: number
+  ): { fillPrice: number; orderId: string } {
+    if (status?.error) {
+      throw new Error(`Order error: ${status.error}`);
+    }
+
+    if (status?.filled) {
+      return {
+        fillPrice: parseFloat(status.filled.avgPx),
+        orderId: `hl_${status.filled.oid}`,
+      };
+    }
+
+    // Order didn't fill immediately - return mark price as estimated fill
+    return {
+      fillPrice: markPrice,
+      orderId: `hl_pending_${Date.now()}`,
+    };
+  }
+
   /**
    * Close an existing position
    */
@@ -525,5 +837,64 @@ export class HyperliquidClient {
   }
 }
 
+/**
+ * Check take-profit / stop-loss sit on the right side of the entry
+ */
+export function validateBracket(
+  side: 'LONG' | 'SHORT',
+  entryPrice: number,
+  bracket: BracketParams
+): void {
+  const { takeProfitPrice, stopLossPrice } = bracket;
+  const isLong = side === 'LONG';
+
+  if (takeProfitPrice !== undefined && (isLong ? takeProfitPrice <= entryPrice : takeProfitPrice >= entryPrice)) {
+    throw new Error(`Take-profit $${takeProfitPrice} must be ${isLong ? 'above' : 'below'} entry $${entryPrice} for a ${side}`);
+  }
+  if (stopLossPrice !== undefined && (isLong ? stopLossPrice >= entryPrice : stopLossPrice <= entryPrice)) {
+    throw new Error(`Stop-loss $${stopLossPrice} must be ${isLong ? 'below' : 'above'} entry $${entryPrice} for a ${side}`);
+  }
+}
+
+/**
+ * Fee tier for a 14-day traded volume
+ */
+export function getFeeTier(volume14dUsd: number): HyperliquidFeeTier {
+  let tier = HYPERLIQUID_FEE_TIERS[0];
+  for (const candidate of HYPERLIQUID_FEE_TIERS) {
+    if (volume14dUsd >= candidate.minVolume14dUsd) tier = candidate;
+  }
+  return tier;
+}
+
+function getVolume14dUsd(): number {
+  return parseFloat(process.env.HYPERLIQUID_VOLUME_14D_USD || '') || 0;
+}
+
+/**
+ * Take base size from book levels (best first) up to a limit price
+ */
+export function walkL2Book(
+  levels: Array<Pick<L2BookLevel, 'price' | 'size'>>,
+  size: number,
+  limitPrice: number,
+  isBuy: boolean
+): { filledSize: number; filledUsd: number } {
+  let filledSize = 0;
+  let filledUsd = 0;
+
+  for (const level of levels) {
+    const remaining = size - filledSize;
+    if (remaining <= 0) break;
+    if (isBuy ? level.price > limitPrice : level.price < limitPrice) break;
+
+    const take = Math.min(remaining, level.size);
+    filledSize += take;
+    filledUsd += take * level.price;
+  }
+
+  return { filledSize, filledUsd };
+}
+
 // Singleton instance
 export const hyperliquidClient = new HyperliquidClient();
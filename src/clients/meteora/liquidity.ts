@@ -38,6 +38,22 @@ export interface AddLiquidityResult {
   txid: string;
   amountX: number;
   amountY: number;
+  activeBinId: number;
+  minBinId: number;
+  maxBinId: number;
+}
+
+export interface BinDepth {
+  binId: number;
+  price: number;      // Token Y per token X
+  xAmount: number;    // UI units
+  yAmount: number;    // UI units
+}
+
+export interface PoolBinDepth {
+  activeBinId: number;
+  activePrice: number;
+  bins: BinDepth[];   // Sorted by binId
 }
 
 export interface RemoveLiquidityResult {
@@ -45,6 +61,14 @@ export interface RemoveLiquidityResult {
   amountReturned: number;
 }
 
+export interface RebalanceLiquidityParams extends AddLiquidityParams {
+  positionAddress: string;       // On-chain position to pull; other positions in the pool are left alone
+}
+
+export interface RebalanceLiquidityResult extends AddLiquidityResult {
+  removeTxids: string[];
+}
+
 /**
  * Meteora DLMM Liquidity Helper
  */
@@ -154,6 +178,34 @@ export class MeteoraLiquidity {
     throw new Error(`Transaction failed after ${maxRetries} attempts: ${lastError?.message}`);
   }
 
+  /**
+   * Read per-bin liquidity around the active bin (read-only, no wallet needed)
+   */
+  async getBinDepth(poolAddress: string, binsEachSide: number = 34): Promise<PoolBinDepth> {
+    const { DLMM } = await loadDLMM();
+
+    const dlmmPool = await DLMM.create(this.connection, new PublicKey(poolAddress));
+    const { activeBin, bins } = await dlmmPool.getBinsAroundActiveBin(binsEachSide, binsEachSide);
+
+    const decimalsX: number = dlmmPool.tokenX.mint.decimals;
+    const decimalsY: number = dlmmPool.tokenY.mint.decimals;
+
+    const depth: BinDepth[] = bins.map((bin: any) => ({
+      binId: bin.binId,
+      price: parseFloat(bin.pricePerToken),
+      xAmount: Number(bin.xAmount.toString()) / Math.pow(10, decimalsX),
+      yAmount: Number(bin.yAmount.toString()) / Math.pow(10, decimalsY),
+    }));
+
+    const active = depth.find(bin => bin.binId === activeBin);
+
+    return {
+      activeBinId: activeBin,
+      activePrice: active?.price ?? 0,
+      bins: depth.sort((a, b) => a.binId - b.binId),
+    };
+  }
+
   /**
    * Add liquidity to a Meteora DLMM pool
    */
@@ -198,8 +250,9 @@ export class MeteoraLiquidity {
     const minBinId = activeBin.binId - 34;
     const maxBinId = activeBin.binId + 34;
 
+    const positionKeypair = Keypair.generate();
     const createPositionTx = await dlmmPool.initializePositionAndAddLiquidityByStrategy({
-      positionPubKey: Keypair.generate().publicKey,
+      positionPubKey: positionKeypair.publicKey,
       user: wallet.publicKey,
       totalXAmount: amountX,
       totalYAmount: amountY,
@@ -210,25 +263,30 @@ export class MeteoraLiquidity {
       },
     });
 
-    const txid = await this.sendAndConfirmWithRetry(createPositionTx, [wallet]);
+    const txid = await this.sendAndConfirmWithRetry(createPositionTx, [wallet, positionKeypair]);
 
     console.log(`  ✅ Liquidity added: ${txid}`);
 
     return {
-      positionAddress: pool.toBase58(), // Simplified
+      positionAddress: positionKeypair.publicKey.toBase58(),
       txid,
       amountX: amountX.toNumber(),
       amountY: amountY.toNumber(),
+      activeBinId: activeBin.binId,
+      minBinId,
+      maxBinId,
     };
   }
 
   /**
-   * Remove liquidity from a position
+   * Remove liquidity from the wallet's positions in a pool, or only from
+   * `positionAddress` when given
    */
   async removeLiquidity(
     poolAddress: string,
     wallet: Keypair,
-    percentage: number = 100
+    percentage: number = 100,
+    positionAddress?: string
   ): Promise<RemoveLiquidityResult> {
     console.log(`\n💧 Removing ${percentage}% liquidity from ${poolAddress}...`);
 
@@ -239,12 +297,17 @@ export class MeteoraLiquidity {
     await dlmmPool.refetchStates();
 
     // Get user positions
-    const { userPositions } = await dlmmPool.getPositionsByUserAndLbPair(
+    const { userPositions: allPositions } = await dlmmPool.getPositionsByUserAndLbPair(
       wallet.publicKey
     );
+    const userPositions = positionAddress
+      ? (allPositions ?? []).filter((position: any) => position.publicKey.toBase58() === positionAddress)
+      : allPositions;
 
     if (!userPositions || userPositions.length === 0) {
-      throw new Error('No positions found for this pool');
+      throw new Error(positionAddress
+        ? `Position ${positionAddress} not found in this pool`
+        : 'No positions found for this pool');
     }
 
     const txids: string[] = [];
@@ -292,6 +355,19 @@ export class MeteoraLiquidity {
       amountReturned: totalReturned,
     };
   }
+
+  /**
+   * Pull one position's liquidity and re-add it around the current active bin
+   */
+  async rebalanceLiquidity(
+    params: RebalanceLiquidityParams,
+    wallet: Keypair
+  ): Promise<RebalanceLiquidityResult> {
+    const removed = await this.removeLiquidity(params.poolAddress, wallet, 100, params.positionAddress);
+    const added = await this.addLiquidity(params, wallet);
+
+    return { ...added, removeTxids: removed.txids };
+  }
 }
 
 // Singleton instance
@@ -23,7 +23,18 @@ export interface PolyMarket {
   volume24hrClob?: number;
   volume24hrAmm?: number;
   liquidity?: number;
-  outcomePrices?: number[];
+  outcomePrices?: number[] | string;   // [yes, no]; the API sends a JSON-encoded string
+  clobTokenIds?: string;   // JSON-encoded [yesTokenId, noTokenId]
+  umaResolutionStatus?: string;        // proposed, disputed, resolved
+}
+
+/**
+ * Payout per share once a market has resolved
+ */
+export interface MarketResolution {
+  yesPayout: number;       // 1, 0 or 0.5 (50-50 resolution)
+  noPayout: number;
+  winner?: 'YES' | 'NO';   // Undefined for a 50-50 resolution
 }
 
 export class GammaClient {
@@ -157,6 +168,53 @@ export class GammaClient {
     };
   }
 
+  /**
+   * Get the CLOB token IDs for the YES and NO outcomes
+   */
+  getOutcomeTokenIds(market: PolyMarket): { yes?: string; no?: string } {
+    if (!market.clobTokenIds) return {};
+
+    try {
+      const ids = JSON.parse(market.clobTokenIds) as string[];
+      return { yes: ids[0], no: ids[1] };
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Final payouts of a closed market, or null while it is open or its
+   * outcome is still being proposed/disputed on UMA. Resolved markets
+   * report outcome prices of 1/0 (or 0.5/0.5).
+   */
+  getResolution(market: PolyMarket): MarketResolution | null {
+    if (!market.closed) return null;
+    if (market.umaResolutionStatus && market.umaResolutionStatus !== 'resolved') return null;
+
+    let prices: number[];
+    try {
+      const raw = typeof market.outcomePrices === 'string'
+        ? JSON.parse(market.outcomePrices) as Array<string | number>
+        : market.outcomePrices ?? [];
+      prices = raw.map(Number);
+    } catch {
+      return null;
+    }
+    if (prices.length < 2) return null;
+
+    // Payouts are whole or half dollars; anything else is still trading
+    const [yes, no] = prices.map(p => Math.round(p * 2) / 2);
+    if (Math.abs(yes - prices[0]) > 0.01 || Math.abs(no - prices[1]) > 0.01 || yes + no !== 1) {
+      return null;
+    }
+
+    return {
+      yesPayout: yes,
+      noPayout: no,
+      winner: yes === 1 ? 'YES' : no === 1 ? 'NO' : undefined,
+    };
+  }
+
   /**
    * Calculate implied probability from price (0-100%)
    */
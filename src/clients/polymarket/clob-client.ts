@@ -8,6 +8,8 @@
 import { ClobClient, Side, OrderType } from '@polymarket/clob-client';
 import { Wallet } from 'ethers';
 import { getConfig } from '../../config.js';
+import { resilientFetch } from '../../infra/resilient-fetch.js';
+import type { TimeInForce } from '../../types/index.js';
 
 export interface PolymarketOrder {
   orderId: string;
@@ -29,6 +31,17 @@ export interface PolymarketTrade {
   txHash?: string;
 }
 
+export interface OrderBookLevel {
+  price: number;
+  size: number;     // Shares
+}
+
+export interface OrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[];  // Best (highest) first
+  asks: OrderBookLevel[];  // Best (lowest) first
+}
+
 export class PolymarketClobClient {
   private client: ClobClient | null = null;
   private wallet: Wallet | null = null;
@@ -173,6 +186,98 @@ export class PolymarketClobClient {
     }
   }
 
+  /**
+   * Place a limit order. GTC/GTD orders rest on the book until filled,
+   * cancelled or (GTD) expired; FOK/FAK take what the book offers at
+   * `price` or better and never rest.
+   *
+   * @param expiresAt - Required for GTD
+   */
+  async placeLimitOrder(
+    tokenId: string,
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number,
+    timeInForce: TimeInForce = 'GTC',
+    expiresAt?: Date
+  ): Promise<PolymarketOrder> {
+    if (!this.client) {
+      throw new Error('Client not initialized. Call initializeWallet() first.');
+    }
+
+    const clobSide = side === 'BUY' ? Side.BUY : Side.SELL;
+
+    try {
+      let response: any;
+      if (timeInForce === 'FOK' || timeInForce === 'FAK') {
+        // Market orders are sized in USD for buys, shares for sells
+        response = await this.client.createAndPostMarketOrder(
+          { tokenID: tokenId, price, amount: side === 'BUY' ? price * size : size, side: clobSide },
+          undefined,
+          timeInForce === 'FOK' ? OrderType.FOK : OrderType.FAK
+        );
+      } else if (timeInForce === 'GTD') {
+        if (!expiresAt) {
+          throw new Error('GTD orders need an expiry');
+        }
+        response = await this.client.createAndPostOrder(
+          { tokenID: tokenId, price, size, side: clobSide, expiration: Math.floor(expiresAt.getTime() / 1000) },
+          undefined,
+          OrderType.GTD
+        );
+      } else {
+        response = await this.client.createAndPostOrder(
+          { tokenID: tokenId, price, size, side: clobSide },
+          undefined,
+          OrderType.GTC
+        );
+      }
+
+      if (response?.success === false || !response?.orderID) {
+        throw new Error(response?.errorMsg || 'Order rejected');
+      }
+
+      return {
+        orderId: response.orderID,
+        tokenId,
+        side,
+        price,
+        size,
+        filledSize: 0,
+        status: response.status || 'live',
+      };
+    } catch (error) {
+      console.error('[Polymarket] Limit order failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an order's status and matched size
+   */
+  async getOrder(orderId: string): Promise<PolymarketOrder | null> {
+    if (!this.client) {
+      throw new Error('Client not initialized.');
+    }
+
+    try {
+      const o = await this.client.getOrder(orderId);
+      if (!o) return null;
+      return {
+        orderId: o.id,
+        tokenId: o.asset_id,
+        side: o.side === 'BUY' ? 'BUY' : 'SELL',
+        price: parseFloat(o.price),
+        size: parseFloat(o.original_size),
+        filledSize: parseFloat(o.size_matched || '0'),
+        status: o.status,
+      };
+    } catch (error) {
+      console.error('[Polymarket] Get order failed:', error);
+      return null;
+    }
+  }
+
   /**
    * Cancel an open order
    */
@@ -232,6 +337,25 @@ export class PolymarketClobClient {
     }
   }
 
+  /**
+   * Get the order book for an outcome token (public, no auth required)
+   */
+  async getOrderBook(tokenId: string): Promise<OrderBook> {
+    const data = await resilientFetch<{
+      bids?: Array<{ price: string; size: string }>;
+      asks?: Array<{ price: string; size: string }>;
+    }>(`${this.HOST}/book?token_id=${tokenId}`);
+
+    const toLevels = (levels: Array<{ price: string; size: string }> = []) =>
+      levels.map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }));
+
+    return {
+      tokenId,
+      bids: toLevels(data.bids).sort((a, b) => b.price - a.price),
+      asks: toLevels(data.asks).sort((a, b) => a.price - b.price),
+    };
+  }
+
   /**
    * Simulate order (for paper trading consistency)
    */
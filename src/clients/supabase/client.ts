@@ -11,7 +11,23 @@ import type {
   DecisionHistory,
   Portfolio,
 } from '../../types/index.js';
-import type { AgentWallets, PendingPosition, CommunitySkillRecord } from '../../types/internal.js';
+import type {
+  AgentWallets,
+  PendingPosition,
+  CommunitySkillRecord,
+  ExitConditionRecord,
+  ExitConditionStatus,
+  RestingOrderRecord,
+  RestingOrderStatus,
+  HookExecutionRecord,
+  HookExecutionQuery,
+  LlmUsageRecord,
+  MemoryFactRecord,
+  MemoryImportance,
+  ExperimentRecord,
+  ExperimentDecision,
+  ConfidenceOutcome,
+} from '../../types/internal.js';
 
 let supabaseInstance: SupabaseClient | null = null;
 
@@ -383,6 +399,688 @@ export async function updatePosition(
   }
 }
 
+/**
+ * Add a later fill to an open position (cost basis, value and size grow)
+ */
+export async function increasePosition(
+  positionId: string,
+  fill: { costUsd: number; size: number; price: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  const supabase = getSupabase();
+
+  const { data: position, error: fetchError } = await supabase
+    .from('positions')
+    .select('entry_value_usd, current_value_usd, size, entry_price')
+    .eq('id', positionId)
+    .single();
+
+  if (fetchError || !position) {
+    throw new Error(`Position not found: ${positionId}`);
+  }
+
+  const previousSize = Number(position.size) || 0;
+  const size = previousSize + fill.size;
+  const entryPrice = Number(position.entry_price) || fill.price;
+  const updateData: Record<string, unknown> = {
+    entry_value_usd: Number(position.entry_value_usd) + fill.costUsd,
+    current_value_usd: Number(position.current_value_usd) + fill.size * fill.price,
+    size,
+    entry_price: size > 0 ? (entryPrice * previousSize + fill.price * fill.size) / size : fill.price,
+    current_price: fill.price,
+  };
+  if (fill.metadata) updateData.metadata = fill.metadata;
+
+  const { error } = await supabase
+    .from('positions')
+    .update(updateData)
+    .eq('id', positionId);
+
+  if (error) {
+    throw new Error(`Failed to increase position: ${error.message}`);
+  }
+}
+
+/**
+ * Take a partial sale out of an open position (cost basis, value and size shrink)
+ */
+export async function reducePosition(
+  positionId: string,
+  sale: { proportion: number; currentValueUsd: number; price?: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  const supabase = getSupabase();
+
+  const { data: position, error: fetchError } = await supabase
+    .from('positions')
+    .select('entry_value_usd, size')
+    .eq('id', positionId)
+    .single();
+
+  if (fetchError || !position) {
+    throw new Error(`Position not found: ${positionId}`);
+  }
+
+  const remaining = Math.max(0, 1 - sale.proportion);
+  const updateData: Record<string, unknown> = {
+    entry_value_usd: Number(position.entry_value_usd) * remaining,
+    current_value_usd: Math.max(0, sale.currentValueUsd),
+  };
+  if (position.size != null) updateData.size = Number(position.size) * remaining;
+  if (sale.price !== undefined) updateData.current_price = sale.price;
+  if (sale.metadata) updateData.metadata = sale.metadata;
+
+  const { error } = await supabase
+    .from('positions')
+    .update(updateData)
+    .eq('id', positionId);
+
+  if (error) {
+    throw new Error(`Failed to reduce position: ${error.message}`);
+  }
+}
+
+// =============================================================================
+// EXIT CONDITIONS
+// =============================================================================
+
+function toExitConditionRecord(row: any): ExitConditionRecord {
+  return {
+    id: row.id,
+    positionId: row.position_id,
+    domain: row.domain as Domain,
+    type: row.type,
+    triggerPrice: row.trigger_price ?? undefined,
+    triggerPriceDirection: row.trigger_price_direction ?? undefined,
+    triggerTime: row.trigger_time ? new Date(row.trigger_time) : undefined,
+    marginThreshold: row.margin_threshold ?? undefined,
+    trailingPercent: row.trailing_percent ?? undefined,
+    highWaterMark: row.high_water_mark ?? undefined,
+    status: row.status as ExitConditionStatus,
+    triggerReason: row.trigger_reason ?? undefined,
+    executionPrice: row.execution_price ?? undefined,
+    createdAt: new Date(row.created_at),
+    triggeredAt: row.triggered_at ? new Date(row.triggered_at) : undefined,
+    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : undefined,
+    metadata: row.metadata || {},
+  };
+}
+
+export async function createExitCondition(condition: ExitConditionRecord): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await supabase
+    .from('exit_conditions')
+    .insert({
+      id: condition.id,
+      position_id: condition.positionId,
+      domain: condition.domain,
+      type: condition.type,
+      trigger_price: condition.triggerPrice,
+      trigger_price_direction: condition.triggerPriceDirection,
+      trigger_time: condition.triggerTime?.toISOString(),
+      margin_threshold: condition.marginThreshold,
+      trailing_percent: condition.trailingPercent,
+      high_water_mark: condition.highWaterMark,
+      status: condition.status,
+      created_at: condition.createdAt.toISOString(),
+      metadata: condition.metadata || {},
+    });
+
+  if (error) {
+    throw new Error(`Failed to create exit condition: ${error.message}`);
+  }
+}
+
+export async function updateExitCondition(
+  id: string,
+  updates: Partial<Pick<ExitConditionRecord,
+    'highWaterMark' | 'status' | 'triggerReason' | 'executionPrice' | 'triggeredAt' | 'cancelledAt'
+  >>
+): Promise<void> {
+  const supabase = getSupabase();
+
+  const updateData: Record<string, unknown> = {};
+  if (updates.highWaterMark !== undefined) updateData.high_water_mark = updates.highWaterMark;
+  if (updates.status !== undefined) updateData.status = updates.status;
+  if (updates.triggerReason !== undefined) updateData.trigger_reason = updates.triggerReason;
+  if (updates.executionPrice !== undefined) updateData.execution_price = updates.executionPrice;
+  if (updates.triggeredAt !== undefined) updateData.triggered_at = updates.triggeredAt.toISOString();
+  if (updates.cancelledAt !== undefined) updateData.cancelled_at = updates.cancelledAt.toISOString();
+
+  const { error } = await supabase
+    .from('exit_conditions')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update exit condition: ${error.message}`);
+  }
+}
+
+export async function getActiveExitConditions(): Promise<ExitConditionRecord[]> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('exit_conditions')
+    .select('*')
+    .eq('status', 'active')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch exit conditions: ${error.message}`);
+  }
+
+  return (data || []).map(toExitConditionRecord);
+}
+
+export async function getExitConditionHistory(options?: {
+  positionId?: string;
+  status?: ExitConditionStatus;
+  limit?: number;
+}): Promise<ExitConditionRecord[]> {
+  const supabase = getSupabase();
+
+  let query = supabase
+    .from('exit_conditions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(options?.limit ?? 50);
+
+  if (options?.positionId) query = query.eq('position_id', options.positionId);
+  if (options?.status) query = query.eq('status', options.status);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch exit condition history: ${error.message}`);
+  }
+
+  return (data || []).map(toExitConditionRecord);
+}
+
+// =============================================================================
+// RESTING ORDERS
+// =============================================================================
+
+function toRestingOrderRecord(row: any): RestingOrderRecord {
+  return {
+    id: row.id,
+    domain: row.domain as Domain,
+    venue: row.venue,
+    orderId: row.order_id,
+    target: row.target,
+    side: row.side,
+    limitPrice: Number(row.limit_price),
+    size: Number(row.size),
+    filledSize: Number(row.filled_size) || 0,
+    avgFillPrice: row.avg_fill_price != null ? Number(row.avg_fill_price) : undefined,
+    reservedUsd: Number(row.reserved_usd) || 0,
+    timeInForce: row.time_in_force,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    status: row.status as RestingOrderStatus,
+    cancelReason: row.cancel_reason ?? undefined,
+    positionId: row.position_id ?? undefined,
+    decisionId: row.decision_id ?? undefined,
+    paper: row.paper,
+    metadata: row.metadata || {},
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export async function createRestingOrder(
+  order: Omit<RestingOrderRecord, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<RestingOrderRecord> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('resting_orders')
+    .insert({
+      domain: order.domain,
+      venue: order.venue,
+      order_id: order.orderId,
+      target: order.target,
+      side: order.side,
+      limit_price: order.limitPrice,
+      size: order.size,
+      filled_size: order.filledSize,
+      avg_fill_price: order.avgFillPrice,
+      reserved_usd: order.reservedUsd,
+      time_in_force: order.timeInForce,
+      expires_at: order.expiresAt?.toISOString(),
+      status: order.status,
+      cancel_reason: order.cancelReason,
+      position_id: order.positionId,
+      decision_id: order.decisionId,
+      paper: order.paper,
+      metadata: order.metadata || {},
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create resting order: ${error.message}`);
+  }
+
+  return toRestingOrderRecord(data);
+}
+
+export async function updateRestingOrder(
+  id: string,
+  updates: Partial<Pick<RestingOrderRecord,
+    'filledSize' | 'avgFillPrice' | 'reservedUsd' | 'status' | 'cancelReason' | 'positionId' | 'decisionId'
+  >>
+): Promise<void> {
+  const supabase = getSupabase();
+
+  const updateData: Record<string, unknown> = {};
+  if (updates.filledSize !== undefined) updateData.filled_size = updates.filledSize;
+  if (updates.avgFillPrice !== undefined) updateData.avg_fill_price = updates.avgFillPrice;
+  if (updates.reservedUsd !== undefined) updateData.reserved_usd = updates.reservedUsd;
+  if (updates.status !== undefined) updateData.status = updates.status;
+  if (updates.cancelReason !== undefined) updateData.cancel_reason = updates.cancelReason;
+  if (updates.positionId !== undefined) updateData.position_id = updates.positionId;
+  if (updates.decisionId !== undefined) updateData.decision_id = updates.decisionId;
+
+  const { error } = await supabase
+    .from('resting_orders')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update resting order: ${error.message}`);
+  }
+}
+
+export async function getRestingOrders(options?: {
+  domain?: Domain;
+  status?: RestingOrderStatus;
+  positionId?: string;
+}): Promise<RestingOrderRecord[]> {
+  const supabase = getSupabase();
+
+  let query = supabase
+    .from('resting_orders')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (options?.domain) query = query.eq('domain', options.domain);
+  if (options?.status) query = query.eq('status', options.status);
+  if (options?.positionId) query = query.eq('position_id', options.positionId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch resting orders: ${error.message}`);
+  }
+
+  return (data || []).map(toRestingOrderRecord);
+}
+
+// =============================================================================
+// HOOK EXECUTIONS
+// =============================================================================
+
+function toHookExecutionRecord(row: any): HookExecutionRecord {
+  return {
+    id: row.id,
+    hookName: row.hook_name,
+    event: row.event,
+    domain: row.domain,
+    proceeded: row.proceeded,
+    reason: row.reason ?? undefined,
+    modifiedInput: row.modified_input ?? undefined,
+    action: row.action ?? undefined,
+    target: row.target ?? undefined,
+    decisionId: row.decision_id ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    durationMs: row.duration_ms,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export async function logHookExecution(execution: Omit<HookExecutionRecord, 'id'>): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await supabase.from('hook_executions').insert({
+    hook_name: execution.hookName,
+    event: execution.event,
+    domain: execution.domain,
+    proceeded: execution.proceeded,
+    reason: execution.reason,
+    modified_input: execution.modifiedInput ?? null,
+    action: execution.action,
+    target: execution.target,
+    decision_id: execution.decisionId,
+    session_id: execution.sessionId,
+    duration_ms: Math.round(execution.durationMs),
+    created_at: execution.createdAt.toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to log hook execution: ${error.message}`);
+  }
+}
+
+export async function getHookExecutions(query: HookExecutionQuery = {}): Promise<HookExecutionRecord[]> {
+  const supabase = getSupabase();
+
+  let request = supabase
+    .from('hook_executions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(query.limit ?? 50);
+
+  if (query.domain) request = request.eq('domain', query.domain);
+  if (query.hookName) request = request.eq('hook_name', query.hookName);
+  if (query.event) request = request.eq('event', query.event);
+  if (query.blocked !== undefined) request = request.eq('proceeded', !query.blocked);
+  if (query.since) request = request.gte('created_at', query.since.toISOString());
+
+  const { data, error } = await request;
+
+  if (error) {
+    throw new Error(`Failed to fetch hook executions: ${error.message}`);
+  }
+
+  return (data || []).map(toHookExecutionRecord);
+}
+
+// =============================================================================
+// LLM USAGE
+// =============================================================================
+
+export async function logLlmUsage(usage: Omit<LlmUsageRecord, 'id' | 'createdAt'>): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await supabase.from('llm_usage').insert({
+    model: usage.model,
+    purpose: usage.purpose,
+    domain: usage.domain,
+    cycle_id: usage.cycleId,
+    decision_id: usage.decisionId,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    thinking_tokens: usage.thinkingTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    cache_write_tokens: usage.cacheWriteTokens,
+    cost_usd: usage.costUsd,
+  });
+
+  if (error) {
+    throw new Error(`Failed to log LLM usage: ${error.message}`);
+  }
+}
+
+export async function getLlmUsage(options: {
+  since: Date;
+  domain?: Domain;
+  cycleId?: string;
+}): Promise<LlmUsageRecord[]> {
+  const supabase = getSupabase();
+
+  let query = supabase
+    .from('llm_usage')
+    .select('*')
+    .gte('created_at', options.since.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (options.domain) query = query.eq('domain', options.domain);
+  if (options.cycleId) query = query.eq('cycle_id', options.cycleId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch LLM usage: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    model: row.model,
+    purpose: row.purpose,
+    domain: row.domain ?? undefined,
+    cycleId: row.cycle_id ?? undefined,
+    decisionId: row.decision_id ?? undefined,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    thinkingTokens: row.thinking_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    costUsd: Number(row.cost_usd),
+    createdAt: new Date(row.created_at),
+  }));
+}
+
+export async function getLlmSpend(since: Date): Promise<number> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('llm_usage')
+    .select('cost_usd')
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch LLM spend: ${error.message}`);
+  }
+
+  return (data || []).reduce((sum: number, row: any) => sum + Number(row.cost_usd), 0);
+}
+
+// =============================================================================
+// EXPERIMENTS
+// =============================================================================
+
+function toExperimentRecord(row: any): ExperimentRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    domain: row.domain ?? undefined,
+    unit: row.unit,
+    treatmentShare: Number(row.treatment_share),
+    skillName: row.skill_name ?? undefined,
+    controlPrompt: row.control_prompt ?? undefined,
+    treatmentPrompt: row.treatment_prompt ?? undefined,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    stoppedAt: row.stopped_at ? new Date(row.stopped_at) : undefined,
+  };
+}
+
+export async function createExperiment(
+  experiment: Omit<ExperimentRecord, 'id' | 'status' | 'createdAt' | 'stoppedAt'>
+): Promise<ExperimentRecord> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .insert({
+      name: experiment.name,
+      kind: experiment.kind,
+      domain: experiment.domain,
+      unit: experiment.unit,
+      treatment_share: experiment.treatmentShare,
+      skill_name: experiment.skillName,
+      control_prompt: experiment.controlPrompt,
+      treatment_prompt: experiment.treatmentPrompt,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create experiment: ${error.message}`);
+  }
+
+  return toExperimentRecord(data);
+}
+
+export async function getExperiments(status?: ExperimentRecord['status']): Promise<ExperimentRecord[]> {
+  const supabase = getSupabase();
+
+  let query = supabase.from('experiments').select('*');
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch experiments: ${error.message}`);
+  }
+
+  return (data || []).map(toExperimentRecord);
+}
+
+export async function stopExperiment(id: string): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await supabase
+    .from('experiments')
+    .update({ status: 'stopped', stopped_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to stop experiment: ${error.message}`);
+  }
+}
+
+export async function getExperimentDecisions(experimentId: string): Promise<ExperimentDecision[]> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('decisions')
+    .select('domain, action, outcome, pnl_percent, experiment_arm')
+    .eq('experiment_id', experimentId)
+    .order('decision_timestamp', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch experiment decisions: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    domain: row.domain as Domain,
+    arm: row.experiment_arm,
+    action: row.action,
+    outcome: row.outcome ?? undefined,
+    pnlPercent: row.pnl_percent != null ? Number(row.pnl_percent) : undefined,
+  }));
+}
+
+/**
+ * Confidence and outcome of a domain's most recent closed decisions
+ */
+export async function getConfidenceOutcomes(domain: Domain, limit = 500): Promise<ConfidenceOutcome[]> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('decisions')
+    .select('confidence, outcome')
+    .eq('domain', domain)
+    .in('outcome', ['profit', 'loss'])
+    .order('decision_timestamp', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch confidence outcomes: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    confidence: parseFloat(row.confidence || '0'),
+    won: row.outcome === 'profit',
+  }));
+}
+
+// =============================================================================
+// MEMORY FACTS
+// =============================================================================
+
+function toMemoryFactRecord(row: any): MemoryFactRecord {
+  return {
+    id: row.id,
+    domain: row.domain as Domain | 'general',
+    fact: row.fact,
+    importance: row.importance as MemoryImportance,
+    source: row.source ?? undefined,
+    terms: row.terms || {},
+    createdAt: new Date(row.created_at),
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    supersededById: row.superseded_by_id ?? undefined,
+    supersededAt: row.superseded_at ? new Date(row.superseded_at) : undefined,
+  };
+}
+
+export async function createMemoryFact(
+  fact: Omit<MemoryFactRecord, 'id' | 'createdAt'>
+): Promise<string> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('memory_facts')
+    .insert({
+      domain: fact.domain,
+      fact: fact.fact,
+      importance: fact.importance,
+      source: fact.source,
+      terms: fact.terms,
+      expires_at: fact.expiresAt?.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create memory fact: ${error.message}`);
+  }
+
+  return data.id;
+}
+
+export async function getMemoryFacts(domain: Domain | 'general'): Promise<MemoryFactRecord[]> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('memory_facts')
+    .select('*')
+    .eq('domain', domain)
+    .is('superseded_by_id', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch memory facts: ${error.message}`);
+  }
+
+  return (data || []).map(toMemoryFactRecord);
+}
+
+export async function supersedeMemoryFact(id: string, supersededById: string): Promise<void> {
+  const supabase = getSupabase();
+
+  const { error } = await supabase
+    .from('memory_facts')
+    .update({ superseded_by_id: supersededById, superseded_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to supersede memory fact: ${error.message}`);
+  }
+}
+
+export async function deleteExpiredMemoryFacts(domain: Domain | 'general'): Promise<number> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase
+    .from('memory_facts')
+    .delete()
+    .eq('domain', domain)
+    .lte('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete expired memory facts: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
 /**
  * Close a position
  */
@@ -435,6 +1133,8 @@ export async function logDecision(
     confidence: number;
     skillsApplied?: string[];
     marketConditions?: Record<string, unknown>;
+    experimentId?: string;
+    experimentArm?: ExperimentDecision['arm'];
   }
 ): Promise<{ id: string } | null> {
   const supabase = getSupabase();
@@ -448,6 +1148,8 @@ export async function logDecision(
     confidence: decision.confidence,
     skills_applied: decision.skillsApplied || [],
     market_conditions: decision.marketConditions || {},
+    experiment_id: decision.experimentId,
+    experiment_arm: decision.experimentArm,
     decision_timestamp: new Date().toISOString(),
   };
 
@@ -50,3 +50,40 @@ export function getModelChain(config?: ModelFallbackConfig): string[] {
   const c = config || MODEL_CHAIN;
   return [c.primary, ...c.fallbacks];
 }
+
+// =============================================================================
+// PRICING
+// =============================================================================
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * Anthropic list prices. Thinking tokens are billed as output.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5-20251101': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+/**
+ * Price for a model. Unknown models are priced by family, and as Opus if
+ * the family is unknown too, so spend is never under-counted.
+ */
+export function getModelPrice(model: string): ModelPrice {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+
+  const family = model.includes('haiku') ? 'claude-3-5-haiku-20241022'
+    : model.includes('sonnet') ? 'claude-sonnet-4-20250514'
+    : 'claude-opus-4-5-20251101';
+  return MODEL_PRICES[family];
+}
@@ -1,5 +1,20 @@
 import type { Domain, Position, DecisionHistory, Portfolio } from '../types/index.js';
-import type { AgentWallets, PendingPosition, CommunitySkillRecord } from '../types/internal.js';
+import type {
+  AgentWallets,
+  PendingPosition,
+  CommunitySkillRecord,
+  ExitConditionRecord,
+  ExitConditionStatus,
+  RestingOrderRecord,
+  RestingOrderStatus,
+  HookExecutionRecord,
+  HookExecutionQuery,
+  LlmUsageRecord,
+  MemoryFactRecord,
+  ExperimentRecord,
+  ExperimentDecision,
+  ConfidenceOutcome,
+} from '../types/internal.js';
 import * as prismaDb from '../db/index.js';
 
 type ProviderName = 'prisma' | 'supabase';
@@ -151,6 +166,242 @@ export async function updatePositionValue(
   await prismaDb.updatePositionValue(positionId, currentValueUsd, currentPrice);
 }
 
+export async function updatePositionMetadata(
+  positionId: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.updatePosition(positionId, { metadata });
+    return;
+  }
+  await prismaDb.updatePositionMetadata(positionId, metadata);
+}
+
+export async function increasePosition(
+  positionId: string,
+  fill: { costUsd: number; size: number; price: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.increasePosition(positionId, fill);
+    return;
+  }
+  await prismaDb.increasePosition(positionId, fill);
+}
+
+export async function reducePosition(
+  positionId: string,
+  sale: { proportion: number; currentValueUsd: number; price?: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.reducePosition(positionId, sale);
+    return;
+  }
+  await prismaDb.reducePosition(positionId, sale);
+}
+
+export async function createExitCondition(condition: ExitConditionRecord): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.createExitCondition(condition);
+    return;
+  }
+  await prismaDb.createExitCondition(condition);
+}
+
+export async function updateExitCondition(
+  id: string,
+  updates: Partial<Pick<ExitConditionRecord,
+    'highWaterMark' | 'status' | 'triggerReason' | 'executionPrice' | 'triggeredAt' | 'cancelledAt'
+  >>
+): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.updateExitCondition(id, updates);
+    return;
+  }
+  await prismaDb.updateExitCondition(id, updates);
+}
+
+export async function getActiveExitConditions(): Promise<ExitConditionRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getActiveExitConditions();
+  }
+  return prismaDb.getActiveExitConditions();
+}
+
+export async function getExitConditionHistory(options?: {
+  positionId?: string;
+  status?: ExitConditionStatus;
+  limit?: number;
+}): Promise<ExitConditionRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getExitConditionHistory(options);
+  }
+  return prismaDb.getExitConditionHistory(options);
+}
+
+export async function createRestingOrder(
+  order: Omit<RestingOrderRecord, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<RestingOrderRecord> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.createRestingOrder(order);
+  }
+  return prismaDb.createRestingOrder(order);
+}
+
+export async function updateRestingOrder(
+  id: string,
+  updates: Partial<Pick<RestingOrderRecord,
+    'filledSize' | 'avgFillPrice' | 'reservedUsd' | 'status' | 'cancelReason' | 'positionId' | 'decisionId'
+  >>
+): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.updateRestingOrder(id, updates);
+    return;
+  }
+  await prismaDb.updateRestingOrder(id, updates);
+}
+
+export async function getRestingOrders(options?: {
+  domain?: Domain;
+  status?: RestingOrderStatus;
+  positionId?: string;
+}): Promise<RestingOrderRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getRestingOrders(options);
+  }
+  return prismaDb.getRestingOrders(options);
+}
+
+export async function logHookExecution(execution: Omit<HookExecutionRecord, 'id'>): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.logHookExecution(execution);
+  }
+  return prismaDb.logHookExecution(execution);
+}
+
+export async function getHookExecutions(query?: HookExecutionQuery): Promise<HookExecutionRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getHookExecutions(query);
+  }
+  return prismaDb.getHookExecutions(query);
+}
+
+export async function logLlmUsage(usage: Omit<LlmUsageRecord, 'id' | 'createdAt'>): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.logLlmUsage(usage);
+  }
+  return prismaDb.logLlmUsage(usage);
+}
+
+export async function getLlmUsage(options: {
+  since: Date;
+  domain?: Domain;
+  cycleId?: string;
+}): Promise<LlmUsageRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getLlmUsage(options);
+  }
+  return prismaDb.getLlmUsage(options);
+}
+
+export async function getLlmSpend(since: Date): Promise<number> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getLlmSpend(since);
+  }
+  return prismaDb.getLlmSpend(since);
+}
+
+export async function createExperiment(
+  experiment: Omit<ExperimentRecord, 'id' | 'status' | 'createdAt' | 'stoppedAt'>
+): Promise<ExperimentRecord> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.createExperiment(experiment);
+  }
+  return prismaDb.createExperiment(experiment);
+}
+
+export async function getExperiments(status?: ExperimentRecord['status']): Promise<ExperimentRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getExperiments(status);
+  }
+  return prismaDb.getExperiments(status);
+}
+
+export async function stopExperiment(id: string): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.stopExperiment(id);
+  }
+  return prismaDb.stopExperiment(id);
+}
+
+export async function getExperimentDecisions(experimentId: string): Promise<ExperimentDecision[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getExperimentDecisions(experimentId);
+  }
+  return prismaDb.getExperimentDecisions(experimentId);
+}
+
+export async function getConfidenceOutcomes(domain: Domain, limit?: number): Promise<ConfidenceOutcome[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getConfidenceOutcomes(domain, limit);
+  }
+  return prismaDb.getConfidenceOutcomes(domain, limit);
+}
+
+export async function createMemoryFact(
+  fact: Omit<MemoryFactRecord, 'id' | 'createdAt'>
+): Promise<string> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.createMemoryFact(fact);
+  }
+  return prismaDb.createMemoryFact(fact);
+}
+
+export async function getMemoryFacts(domain: Domain | 'general'): Promise<MemoryFactRecord[]> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.getMemoryFacts(domain);
+  }
+  return prismaDb.getMemoryFacts(domain);
+}
+
+export async function supersedeMemoryFact(id: string, supersededById: string): Promise<void> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    await mod.supersedeMemoryFact(id, supersededById);
+    return;
+  }
+  await prismaDb.supersedeMemoryFact(id, supersededById);
+}
+
+export async function deleteExpiredMemoryFacts(domain: Domain | 'general'): Promise<number> {
+  if (usingSupabase()) {
+    const mod = await loadSupabaseModule();
+    return mod.deleteExpiredMemoryFacts(domain);
+  }
+  return prismaDb.deleteExpiredMemoryFacts(domain);
+}
+
 export async function logDecision(
   domain: Domain,
   decision: {
@@ -162,6 +413,8 @@ export async function logDecision(
     skillsApplied?: string[];
     marketConditions?: Record<string, unknown>;
     metadata?: Record<string, unknown>;
+    experimentId?: string;
+    experimentArm?: ExperimentDecision['arm'];
   }
 ): Promise<{ id: string } | null> {
   if (usingSupabase()) {
@@ -14,7 +14,23 @@ import type {
   DecisionHistory,
   Portfolio,
 } from '../types/index.js';
-import type { AgentWallets, PendingPosition, CommunitySkillRecord } from '../types/internal.js';
+import type {
+  AgentWallets,
+  PendingPosition,
+  CommunitySkillRecord,
+  ExitConditionRecord,
+  ExitConditionStatus,
+  RestingOrderRecord,
+  RestingOrderStatus,
+  HookExecutionRecord,
+  HookExecutionQuery,
+  LlmUsageRecord,
+  MemoryFactRecord,
+  MemoryImportance,
+  ExperimentRecord,
+  ExperimentDecision,
+  ConfidenceOutcome,
+} from '../types/internal.js';
 
 function parseMetadata(raw: string | null | undefined): Record<string, unknown> {
   if (!raw) return {};
@@ -244,6 +260,79 @@ export async function updatePositionValue(
   });
 }
 
+/**
+ * Replace a position's metadata
+ */
+export async function updatePositionMetadata(
+  positionId: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  await prisma.position.update({
+    where: { id: positionId },
+    data: {
+      metadata: JSON.stringify(metadata),
+    },
+  });
+}
+
+/**
+ * Add a later fill to an open position (e.g. a resting limit order filling
+ * in pieces): cost basis, value and size grow, entry price is re-averaged
+ */
+export async function increasePosition(
+  positionId: string,
+  fill: { costUsd: number; size: number; price: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  const position = await prisma.position.findUnique({ where: { id: positionId } });
+  if (!position) {
+    throw new Error(`Position not found: ${positionId}`);
+  }
+
+  const size = (position.size ?? 0) + fill.size;
+  await prisma.position.update({
+    where: { id: positionId },
+    data: {
+      entryValueUsd: position.entryValueUsd + fill.costUsd,
+      currentValueUsd: position.currentValueUsd + fill.size * fill.price,
+      size,
+      entryPrice: size > 0 ? ((position.entryPrice ?? fill.price) * (position.size ?? 0) + fill.price * fill.size) / size : fill.price,
+      currentPrice: fill.price,
+      ...(fill.metadata ? { metadata: JSON.stringify(fill.metadata) } : {}),
+    },
+  });
+
+  const cache = await getCache();
+  await cache.del(CacheKeys.portfolioSummary);
+}
+
+/**
+ * Take a partial sale out of an open position (cost basis, value and size shrink)
+ */
+export async function reducePosition(
+  positionId: string,
+  sale: { proportion: number; currentValueUsd: number; price?: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  const position = await prisma.position.findUnique({ where: { id: positionId } });
+  if (!position) {
+    throw new Error(`Position not found: ${positionId}`);
+  }
+
+  const remaining = Math.max(0, 1 - sale.proportion);
+  await prisma.position.update({
+    where: { id: positionId },
+    data: {
+      entryValueUsd: position.entryValueUsd * remaining,
+      currentValueUsd: Math.max(0, sale.currentValueUsd),
+      ...(position.size != null ? { size: position.size * remaining } : {}),
+      ...(sale.price !== undefined ? { currentPrice: sale.price } : {}),
+      ...(sale.metadata ? { metadata: JSON.stringify(sale.metadata) } : {}),
+    },
+  });
+
+  const cache = await getCache();
+  await cache.del(CacheKeys.portfolioSummary);
+}
+
 /**
  * Close a position
  */
@@ -283,6 +372,532 @@ export async function closePosition(
   await cache.del(CacheKeys.portfolioSummary);
 }
 
+// =============================================================================
+// EXIT CONDITION OPERATIONS
+// =============================================================================
+
+function toExitConditionRecord(row: {
+  id: string;
+  positionId: string;
+  domain: string;
+  type: string;
+  triggerPrice: number | null;
+  triggerPriceDirection: string | null;
+  triggerTime: Date | null;
+  marginThreshold: number | null;
+  trailingPercent: number | null;
+  highWaterMark: number | null;
+  status: string;
+  triggerReason: string | null;
+  executionPrice: number | null;
+  createdAt: Date;
+  triggeredAt: Date | null;
+  cancelledAt: Date | null;
+  metadata: string;
+}): ExitConditionRecord {
+  return {
+    id: row.id,
+    positionId: row.positionId,
+    domain: row.domain as Domain,
+    type: row.type,
+    triggerPrice: row.triggerPrice ?? undefined,
+    triggerPriceDirection: (row.triggerPriceDirection as 'above' | 'below' | null) ?? undefined,
+    triggerTime: row.triggerTime ?? undefined,
+    marginThreshold: row.marginThreshold ?? undefined,
+    trailingPercent: row.trailingPercent ?? undefined,
+    highWaterMark: row.highWaterMark ?? undefined,
+    status: row.status as ExitConditionStatus,
+    triggerReason: row.triggerReason ?? undefined,
+    executionPrice: row.executionPrice ?? undefined,
+    createdAt: row.createdAt,
+    triggeredAt: row.triggeredAt ?? undefined,
+    cancelledAt: row.cancelledAt ?? undefined,
+    metadata: parseMetadata(row.metadata),
+  };
+}
+
+/**
+ * Persist a newly registered exit condition
+ */
+export async function createExitCondition(condition: ExitConditionRecord): Promise<void> {
+  await prisma.exitCondition.create({
+    data: {
+      id: condition.id,
+      positionId: condition.positionId,
+      domain: condition.domain,
+      type: condition.type,
+      triggerPrice: condition.triggerPrice,
+      triggerPriceDirection: condition.triggerPriceDirection,
+      triggerTime: condition.triggerTime,
+      marginThreshold: condition.marginThreshold,
+      trailingPercent: condition.trailingPercent,
+      highWaterMark: condition.highWaterMark,
+      status: condition.status,
+      createdAt: condition.createdAt,
+      metadata: JSON.stringify(condition.metadata || {}),
+    },
+  });
+}
+
+/**
+ * Update an exit condition's state (trailing mark, trigger, cancellation)
+ */
+export async function updateExitCondition(
+  id: string,
+  updates: Partial<Pick<ExitConditionRecord,
+    'highWaterMark' | 'status' | 'triggerReason' | 'executionPrice' | 'triggeredAt' | 'cancelledAt'
+  >>
+): Promise<void> {
+  await prisma.exitCondition.update({
+    where: { id },
+    data: updates,
+  });
+}
+
+/**
+ * Active exit conditions (for rehydrating the monitor)
+ */
+export async function getActiveExitConditions(): Promise<ExitConditionRecord[]> {
+  const rows = await prisma.exitCondition.findMany({
+    where: { status: 'active' },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toExitConditionRecord);
+}
+
+/**
+ * Exit condition history, newest first
+ */
+export async function getExitConditionHistory(options?: {
+  positionId?: string;
+  status?: ExitConditionStatus;
+  limit?: number;
+}): Promise<ExitConditionRecord[]> {
+  const rows = await prisma.exitCondition.findMany({
+    where: {
+      positionId: options?.positionId,
+      status: options?.status,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: options?.limit ?? 50,
+  });
+  return rows.map(toExitConditionRecord);
+}
+
+// =============================================================================
+// RESTING ORDERS
+// =============================================================================
+
+function toRestingOrderRecord(row: {
+  id: string;
+  domain: string;
+  venue: string;
+  orderId: string;
+  target: string;
+  side: string;
+  limitPrice: number;
+  size: number;
+  filledSize: number;
+  avgFillPrice: number | null;
+  reservedUsd: number;
+  timeInForce: string;
+  expiresAt: Date | null;
+  status: string;
+  cancelReason: string | null;
+  positionId: string | null;
+  decisionId: string | null;
+  paper: boolean;
+  metadata: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): RestingOrderRecord {
+  return {
+    id: row.id,
+    domain: row.domain as Domain,
+    venue: row.venue,
+    orderId: row.orderId,
+    target: row.target,
+    side: row.side as RestingOrderRecord['side'],
+    limitPrice: row.limitPrice,
+    size: row.size,
+    filledSize: row.filledSize,
+    avgFillPrice: row.avgFillPrice ?? undefined,
+    reservedUsd: row.reservedUsd,
+    timeInForce: row.timeInForce as RestingOrderRecord['timeInForce'],
+    expiresAt: row.expiresAt ?? undefined,
+    status: row.status as RestingOrderStatus,
+    cancelReason: row.cancelReason ?? undefined,
+    positionId: row.positionId ?? undefined,
+    decisionId: row.decisionId ?? undefined,
+    paper: row.paper,
+    metadata: parseMetadata(row.metadata),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Persist a limit order left on a venue's book
+ */
+export async function createRestingOrder(
+  order: Omit<RestingOrderRecord, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<RestingOrderRecord> {
+  const row = await prisma.restingOrder.create({
+    data: {
+      ...order,
+      metadata: JSON.stringify(order.metadata || {}),
+    },
+  });
+  return toRestingOrderRecord(row);
+}
+
+/**
+ * Update a resting order's fills or status
+ */
+export async function updateRestingOrder(
+  id: string,
+  updates: Partial<Pick<RestingOrderRecord,
+    'filledSize' | 'avgFillPrice' | 'reservedUsd' | 'status' | 'cancelReason' | 'positionId' | 'decisionId'
+  >>
+): Promise<void> {
+  await prisma.restingOrder.update({
+    where: { id },
+    data: updates,
+  });
+}
+
+/**
+ * Resting orders, oldest first
+ */
+export async function getRestingOrders(options?: {
+  domain?: Domain;
+  status?: RestingOrderStatus;
+  positionId?: string;
+}): Promise<RestingOrderRecord[]> {
+  const rows = await prisma.restingOrder.findMany({
+    where: {
+      domain: options?.domain,
+      status: options?.status,
+      positionId: options?.positionId,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toRestingOrderRecord);
+}
+
+// =============================================================================
+// HOOK EXECUTIONS
+// =============================================================================
+
+function toHookExecutionRecord(row: {
+  id: string;
+  hookName: string;
+  event: string;
+  domain: string;
+  proceeded: boolean;
+  reason: string | null;
+  modifiedInput: string | null;
+  action: string | null;
+  target: string | null;
+  decisionId: string | null;
+  sessionId: string | null;
+  durationMs: number;
+  createdAt: Date;
+}): HookExecutionRecord {
+  return {
+    id: row.id,
+    hookName: row.hookName,
+    event: row.event,
+    domain: row.domain as Domain,
+    proceeded: row.proceeded,
+    reason: row.reason ?? undefined,
+    modifiedInput: row.modifiedInput ? JSON.parse(row.modifiedInput) : undefined,
+    action: row.action ?? undefined,
+    target: row.target ?? undefined,
+    decisionId: row.decisionId ?? undefined,
+    sessionId: row.sessionId ?? undefined,
+    durationMs: row.durationMs,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Record a hook execution in the audit log
+ */
+export async function logHookExecution(execution: Omit<HookExecutionRecord, 'id'>): Promise<void> {
+  await prisma.hookExecution.create({
+    data: {
+      hookName: execution.hookName,
+      event: execution.event,
+      domain: execution.domain,
+      proceeded: execution.proceeded,
+      reason: execution.reason,
+      modifiedInput: execution.modifiedInput !== undefined ? JSON.stringify(execution.modifiedInput) : null,
+      action: execution.action,
+      target: execution.target,
+      decisionId: execution.decisionId,
+      sessionId: execution.sessionId,
+      durationMs: Math.round(execution.durationMs),
+      createdAt: execution.createdAt,
+    },
+  });
+}
+
+/**
+ * Hook audit log, newest first
+ */
+export async function getHookExecutions(query: HookExecutionQuery = {}): Promise<HookExecutionRecord[]> {
+  const rows = await prisma.hookExecution.findMany({
+    where: {
+      domain: query.domain,
+      hookName: query.hookName,
+      event: query.event,
+      proceeded: query.blocked === undefined ? undefined : !query.blocked,
+      createdAt: query.since ? { gte: query.since } : undefined,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: query.limit ?? 50,
+  });
+  return rows.map(toHookExecutionRecord);
+}
+
+// =============================================================================
+// LLM USAGE
+// =============================================================================
+
+/**
+ * Record the tokens and cost of a model call
+ */
+export async function logLlmUsage(usage: Omit<LlmUsageRecord, 'id' | 'createdAt'>): Promise<void> {
+  await prisma.llmUsage.create({ data: usage });
+}
+
+/**
+ * Model calls since a time, newest first
+ */
+export async function getLlmUsage(options: {
+  since: Date;
+  domain?: Domain;
+  cycleId?: string;
+}): Promise<LlmUsageRecord[]> {
+  const rows = await prisma.llmUsage.findMany({
+    where: {
+      createdAt: { gte: options.since },
+      domain: options.domain,
+      cycleId: options.cycleId,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(row => ({
+    ...row,
+    purpose: row.purpose as LlmUsageRecord['purpose'],
+    domain: (row.domain ?? undefined) as Domain | undefined,
+    cycleId: row.cycleId ?? undefined,
+    decisionId: row.decisionId ?? undefined,
+  }));
+}
+
+/**
+ * Total model spend since a time
+ */
+export async function getLlmSpend(since: Date): Promise<number> {
+  const result = await prisma.llmUsage.aggregate({
+    where: { createdAt: { gte: since } },
+    _sum: { costUsd: true },
+  });
+  return result._sum.costUsd ?? 0;
+}
+
+// =============================================================================
+// EXPERIMENTS
+// =============================================================================
+
+function toExperimentRecord(row: {
+  id: string;
+  name: string;
+  kind: string;
+  domain: string | null;
+  unit: string;
+  treatmentShare: number;
+  skillName: string | null;
+  controlPrompt: string | null;
+  treatmentPrompt: string | null;
+  status: string;
+  createdAt: Date;
+  stoppedAt: Date | null;
+}): ExperimentRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind as ExperimentRecord['kind'],
+    domain: (row.domain ?? undefined) as Domain | undefined,
+    unit: row.unit as ExperimentRecord['unit'],
+    treatmentShare: row.treatmentShare,
+    skillName: row.skillName ?? undefined,
+    controlPrompt: row.controlPrompt ?? undefined,
+    treatmentPrompt: row.treatmentPrompt ?? undefined,
+    status: row.status as ExperimentRecord['status'],
+    createdAt: row.createdAt,
+    stoppedAt: row.stoppedAt ?? undefined,
+  };
+}
+
+/**
+ * Start an experiment
+ */
+export async function createExperiment(
+  experiment: Omit<ExperimentRecord, 'id' | 'status' | 'createdAt' | 'stoppedAt'>
+): Promise<ExperimentRecord> {
+  const row = await prisma.experiment.create({
+    data: {
+      name: experiment.name,
+      kind: experiment.kind,
+      domain: experiment.domain,
+      unit: experiment.unit,
+      treatmentShare: experiment.treatmentShare,
+      skillName: experiment.skillName,
+      controlPrompt: experiment.controlPrompt,
+      treatmentPrompt: experiment.treatmentPrompt,
+    },
+  });
+  return toExperimentRecord(row);
+}
+
+/**
+ * All experiments, newest first
+ */
+export async function getExperiments(status?: ExperimentRecord['status']): Promise<ExperimentRecord[]> {
+  const rows = await prisma.experiment.findMany({
+    where: { status },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toExperimentRecord);
+}
+
+/**
+ * Stop an experiment so no further decisions are assigned to it
+ */
+export async function stopExperiment(id: string): Promise<void> {
+  await prisma.experiment.update({
+    where: { id },
+    data: { status: 'stopped', stoppedAt: new Date() },
+  });
+}
+
+/**
+ * Decisions logged under an experiment
+ */
+export async function getExperimentDecisions(experimentId: string): Promise<ExperimentDecision[]> {
+  const rows = await prisma.decision.findMany({
+    where: { experimentId },
+    orderBy: { decisionTimestamp: 'asc' },
+  });
+  return rows.map(d => ({
+    domain: d.domain as Domain,
+    arm: d.experimentArm as ExperimentDecision['arm'],
+    action: d.action,
+    outcome: (d.outcome ?? undefined) as ExperimentDecision['outcome'],
+    pnlPercent: d.pnlPercent ?? undefined,
+  }));
+}
+
+/**
+ * Confidence and outcome of a domain's most recent closed decisions
+ */
+export async function getConfidenceOutcomes(domain: Domain, limit = 500): Promise<ConfidenceOutcome[]> {
+  const rows = await prisma.decision.findMany({
+    where: { domain, outcome: { in: ['profit', 'loss'] } },
+    select: { confidence: true, outcome: true },
+    orderBy: { decisionTimestamp: 'desc' },
+    take: limit,
+  });
+  return rows.map(d => ({ confidence: d.confidence, won: d.outcome === 'profit' }));
+}
+
+// =============================================================================
+// MEMORY FACTS
+// =============================================================================
+
+function toMemoryFactRecord(row: {
+  id: string;
+  domain: string;
+  fact: string;
+  importance: string;
+  source: string | null;
+  terms: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  supersededById: string | null;
+  supersededAt: Date | null;
+}): MemoryFactRecord {
+  return {
+    id: row.id,
+    domain: row.domain as Domain | 'general',
+    fact: row.fact,
+    importance: row.importance as MemoryImportance,
+    source: row.source ?? undefined,
+    terms: parseMetadata(row.terms) as Record<string, number>,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt ?? undefined,
+    supersededById: row.supersededById ?? undefined,
+    supersededAt: row.supersededAt ?? undefined,
+  };
+}
+
+/**
+ * Store a memory fact
+ */
+export async function createMemoryFact(
+  fact: Omit<MemoryFactRecord, 'id' | 'createdAt'>
+): Promise<string> {
+  const row = await prisma.memoryFact.create({
+    data: {
+      domain: fact.domain,
+      fact: fact.fact,
+      importance: fact.importance,
+      source: fact.source,
+      terms: JSON.stringify(fact.terms),
+      expiresAt: fact.expiresAt,
+    },
+  });
+  return row.id;
+}
+
+/**
+ * Current (unexpired, not superseded) memory facts for a domain, newest first
+ */
+export async function getMemoryFacts(domain: Domain | 'general'): Promise<MemoryFactRecord[]> {
+  const rows = await prisma.memoryFact.findMany({
+    where: {
+      domain,
+      supersededById: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toMemoryFactRecord);
+}
+
+/**
+ * Mark a memory fact as replaced by another
+ */
+export async function supersedeMemoryFact(id: string, supersededById: string): Promise<void> {
+  await prisma.memoryFact.update({
+    where: { id },
+    data: { supersededById, supersededAt: new Date() },
+  });
+}
+
+/**
+ * Delete expired memory facts, returning how many were removed
+ */
+export async function deleteExpiredMemoryFacts(domain: Domain | 'general'): Promise<number> {
+  const result = await prisma.memoryFact.deleteMany({
+    where: { domain, expiresAt: { lte: new Date() } },
+  });
+  return result.count;
+}
+
 export async function getPendingPositionsForVerification(): Promise<PendingPosition[]> {
   const positions = await prisma.position.findMany({
     where: {
@@ -347,6 +962,8 @@ export async function logDecision(
     metadata?: Record<string, unknown>;
     skillsApplied?: string[];
     marketConditions?: Record<string, unknown>;
+    experimentId?: string;
+    experimentArm?: ExperimentDecision['arm'];
   }
 ): Promise<{ id: string } | null> {
   try {
@@ -360,6 +977,8 @@ export async function logDecision(
         confidence: decision.confidence,
         marketConditions: JSON.stringify(decision.marketConditions || decision.metadata || {}),
         skillsApplied: JSON.stringify(decision.skillsApplied || []),
+        experimentId: decision.experimentId,
+        experimentArm: decision.experimentArm,
       },
     });
 
@@ -674,6 +1293,7 @@ export async function getSkillReflections(options?: {
   effectivenessScore: number | null;
   timesApplied: number;
   successRate: number | null;
+  currentVersion: number;
   createdAt: string;
 }>> {
   const reflections = await prisma.skillReflection.findMany({
@@ -697,6 +1317,7 @@ export async function getSkillReflections(options?: {
     effectivenessScore: r.effectivenessScore,
     timesApplied: r.timesApplied,
     successRate: r.timesApplied > 0 ? r.successCount / r.timesApplied : null,
+    currentVersion: r.currentVersion,
     createdAt: r.createdAt.toISOString(),
   }));
 }
@@ -1067,6 +1688,15 @@ export async function resetTestData(defaultBalance = 1000): Promise<void> {
     },
   });
 
+  // Cancel exit conditions left over from earlier runs
+  await prisma.exitCondition.updateMany({
+    where: { status: 'active' },
+    data: { status: 'cancelled', triggerReason: 'reset', cancelledAt: new Date() },
+  });
+
+  // Memory facts written by earlier runs
+  await prisma.memoryFact.deleteMany({});
+
   // Delete test positions (those with TEST_ in target)
   await prisma.position.deleteMany({
     where: {
@@ -155,6 +155,8 @@ CREATE TABLE IF NOT EXISTS agent_decisions (
   position_id UUID, -- Reference to position if applicable
 
   market_conditions JSONB, -- Snapshot of market state
+  experiment_id UUID, -- Experiment this decision was assigned to
+  experiment_arm TEXT, -- 'control', 'treatment'
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
@@ -525,3 +527,202 @@ CREATE INDEX IF NOT EXISTS idx_telegram_subscribers_active ON telegram_subscribe
 ALTER TABLE telegram_subscribers ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Service role full access" ON telegram_subscribers
   FOR ALL USING (true) WITH CHECK (true);
+
+-- =============================================================================
+-- EXIT CONDITIONS
+-- =============================================================================
+
+-- Stop-loss / take-profit / trailing exits watched by the position monitor.
+-- Rows are kept after they trigger or are cancelled (audit trail).
+CREATE TABLE IF NOT EXISTS exit_conditions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  position_id TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  type TEXT NOT NULL,
+  -- Options: 'stop_loss', 'take_profit', 'time_based', 'liquidation_risk', 'trailing_stop'
+
+  trigger_price DECIMAL,
+  trigger_price_direction TEXT,
+  trigger_time TIMESTAMPTZ,
+  margin_threshold DECIMAL,
+  trailing_percent DECIMAL,
+  high_water_mark DECIMAL,
+
+  status TEXT NOT NULL DEFAULT 'active',
+  -- Options: 'active', 'triggered', 'cancelled', 'failed'
+  trigger_reason TEXT,
+  execution_price DECIMAL,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  triggered_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  metadata JSONB DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_exit_conditions_status ON exit_conditions(status);
+CREATE INDEX IF NOT EXISTS idx_exit_conditions_position ON exit_conditions(position_id);
+
+ALTER TABLE exit_conditions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON exit_conditions
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =============================================================================
+-- RESTING ORDERS
+-- =============================================================================
+
+-- Limit orders resting on a venue's book; fills are booked into positions
+-- as they happen.
+CREATE TABLE IF NOT EXISTS resting_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain TEXT NOT NULL,
+  venue TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  target TEXT NOT NULL,
+  side TEXT NOT NULL,
+  -- Options: 'buy', 'sell'
+  limit_price DECIMAL NOT NULL,
+  size DECIMAL NOT NULL,
+  filled_size DECIMAL NOT NULL DEFAULT 0,
+  avg_fill_price DECIMAL,
+  reserved_usd DECIMAL NOT NULL DEFAULT 0,
+  time_in_force TEXT NOT NULL DEFAULT 'GTC',
+  -- Options: 'GTC', 'GTD'
+  expires_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'open',
+  -- Options: 'open', 'filled', 'cancelled', 'expired'
+  cancel_reason TEXT,
+  position_id TEXT,
+  decision_id TEXT,
+  paper BOOLEAN NOT NULL DEFAULT true,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resting_orders_domain_status ON resting_orders(domain, status);
+CREATE INDEX IF NOT EXISTS idx_resting_orders_position ON resting_orders(position_id);
+
+DROP TRIGGER IF EXISTS update_resting_orders_updated_at ON resting_orders;
+CREATE TRIGGER update_resting_orders_updated_at
+  BEFORE UPDATE ON resting_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE resting_orders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON resting_orders
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =============================================================================
+-- HOOK EXECUTIONS
+-- =============================================================================
+
+-- Every hook run, kept so blocked and resized decisions can be audited.
+CREATE TABLE IF NOT EXISTS hook_executions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hook_name TEXT NOT NULL,
+  event TEXT NOT NULL,
+  -- Options: 'PreToolUse', 'PostToolUse', 'PreDecision', 'PostDecision', 'SessionStart', 'SessionEnd', 'OnError'
+  domain TEXT NOT NULL,
+  proceeded BOOLEAN NOT NULL,
+  reason TEXT,
+  modified_input JSONB, -- replacement input, when the hook changed it
+  action TEXT,
+  target TEXT,
+  decision_id TEXT,
+  session_id TEXT,
+  duration_ms INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hook_executions_domain ON hook_executions(domain, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hook_executions_blocked ON hook_executions(proceeded) WHERE NOT proceeded;
+
+ALTER TABLE hook_executions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON hook_executions
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =============================================================================
+-- LLM USAGE
+-- =============================================================================
+
+-- Tokens and cost of every model call, for cost reports and the daily budget.
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  -- Options: 'subagent', 'coordinator', 'inline_judge', 'judge', 'reflection', 'skill_merge', 'chat', 'other'
+  domain TEXT,
+  cycle_id TEXT,
+  decision_id TEXT,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL, -- includes thinking tokens
+  thinking_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_domain ON llm_usage(domain, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_cycle ON llm_usage(cycle_id);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON llm_usage
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =============================================================================
+-- MEMORY FACTS
+-- =============================================================================
+
+-- Persistent agent memory. `terms` holds normalized term frequencies used for
+-- TF-IDF recall against the current domain context.
+CREATE TABLE IF NOT EXISTS memory_facts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain TEXT NOT NULL,
+  -- Options: 'dlmm', 'perps', 'polymarket', 'spot', 'general'
+  fact TEXT NOT NULL,
+  importance TEXT NOT NULL DEFAULT 'medium',
+  -- Options: 'low', 'medium', 'high'
+  source TEXT,
+  terms JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  expires_at TIMESTAMPTZ,
+
+  -- Set by memory reconciliation; superseded facts are no longer recalled
+  superseded_by_id UUID,
+  superseded_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_facts_domain ON memory_facts(domain);
+CREATE INDEX IF NOT EXISTS idx_memory_facts_expires ON memory_facts(expires_at);
+
+ALTER TABLE memory_facts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON memory_facts
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =============================================================================
+-- EXPERIMENTS
+-- =============================================================================
+
+-- Controlled skill/prompt experiments. Decisions record their arm in
+-- agent_decisions.experiment_id / experiment_arm.
+CREATE TABLE IF NOT EXISTS experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL, -- 'skill', 'prompt'
+  domain TEXT, -- NULL = all domains
+  unit TEXT NOT NULL DEFAULT 'decision', -- 'decision', 'cycle'
+  treatment_share NUMERIC NOT NULL DEFAULT 0.5,
+  skill_name TEXT,
+  control_prompt TEXT,
+  treatment_prompt TEXT,
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'stopped'
+  created_at TIMESTAMPTZ DEFAULT now(),
+  stopped_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_decisions_experiment ON agent_decisions(experiment_id);
+
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access" ON experiments
+  FOR ALL USING (true) WITH CHECK (true);
@@ -1,4 +1,10 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
 import type { AgentDecision } from '../types/index.js';
+import type { ExecutionResult } from './index.js';
+import { getConfig } from '../config.js';
+import { getMeteoraLiquidity, type AddLiquidityParams } from '../clients/meteora/liquidity.js';
+import { simulateDlmmFill, toExecutionFill } from './paper-fills.js';
 
 interface ExecutionOptions {
   paperTrading: boolean;
@@ -7,16 +13,7 @@ interface ExecutionOptions {
 export async function executeDLMMDecision(
   decision: AgentDecision,
   options: ExecutionOptions
-): Promise<{
-  success: boolean;
-  mode: 'paper' | 'real';
-  fills?: Array<{
-    target: string;
-    sizeUsd: number;
-    metadata?: Record<string, unknown>;
-  }>;
-  error?: string;
-}> {
+): Promise<ExecutionResult> {
   // Hold action - always succeeds
   if (decision.action === 'hold') {
     return { success: true, mode: options.paperTrading ? 'paper' : 'real' };
@@ -60,19 +57,17 @@ export async function executeDLMMDecision(
         };
       }
 
-      // Paper mode: validate and return success
+      // Paper mode: price the balancing swap against pool bins
       if (options.paperTrading) {
+        const fill = await simulateDlmmFill(decision.target, 'deposit', decision.amountUsd);
+
         return {
           success: true,
           mode: 'paper',
-          fills: [{
-            target: decision.target,
-            sizeUsd: decision.amountUsd,
-            metadata: {
-              strategy: decision.metadata.strategy,
-              pool_address: decision.target,
-            },
-          }],
+          fills: [toExecutionFill(decision.target, fill, {
+            strategy: decision.metadata.strategy,
+            pool_address: decision.target,
+          })],
         };
       }
 
@@ -94,18 +89,24 @@ export async function executeDLMMDecision(
         };
       }
 
-      // Paper mode: validate and return success
+      // Paper mode: price swapping the token X half back out
       if (options.paperTrading) {
+        const metadata = { position_id: decision.metadata.positionId };
+
+        if (!decision.target || !decision.amountUsd) {
+          return {
+            success: true,
+            mode: 'paper',
+            fills: [{ target: decision.target || 'unknown', sizeUsd: decision.amountUsd || 0, metadata }],
+          };
+        }
+
+        const fill = await simulateDlmmFill(decision.target, 'withdraw', decision.amountUsd);
+
         return {
           success: true,
           mode: 'paper',
-          fills: [{
-            target: decision.target || 'unknown',
-            sizeUsd: decision.amountUsd || 0,
-            metadata: {
-              position_id: decision.metadata.positionId,
-            },
-          }],
+          fills: [toExecutionFill(decision.target, fill, metadata)],
         };
       }
 
@@ -117,6 +118,89 @@ export async function executeDLMMDecision(
       };
     }
 
+    case 'rebalance': {
+      if (!decision.metadata?.positionId) {
+        return {
+          success: false,
+          mode: options.paperTrading ? 'paper' : 'real',
+          error: 'Position ID required for rebalance',
+        };
+      }
+
+      const poolAddress = String(decision.metadata.poolAddress ?? decision.target);
+      if (!decision.amountUsd || decision.amountUsd <= 0) {
+        return {
+          success: false,
+          mode: options.paperTrading ? 'paper' : 'real',
+          error: 'Missing position value to rebalance',
+        };
+      }
+
+      const metadata = {
+        position_id: decision.metadata.positionId,
+        pool_address: poolAddress,
+        rebalance: true,
+      };
+
+      // Paper mode: price the swap back to a 50/50 deposit. Above the range the
+      // position is all token Y and buys X back; below it is all X and sells half.
+      if (options.paperTrading) {
+        const direction = decision.metadata.rangeDirection === 'below' ? 'withdraw' : 'deposit';
+        const fill = await simulateDlmmFill(poolAddress, direction, decision.amountUsd);
+
+        return {
+          success: true,
+          mode: 'paper',
+          fills: [toExecutionFill(poolAddress, fill, metadata)],
+        };
+      }
+
+      // Real mode (devnet in testnet mode): remove and re-add around the active bin
+      const privateKey = getConfig().wallets.solana;
+      if (!privateKey) {
+        return { success: false, mode: 'real', error: 'SOLANA_PRIVATE_KEY not set' };
+      }
+
+      const positionAddress = decision.metadata.positionAddress;
+      if (typeof positionAddress !== 'string' || !positionAddress) {
+        return { success: false, mode: 'real', error: 'On-chain position address required for rebalance' };
+      }
+
+      try {
+        const wallet = Keypair.fromSecretKey(bs58.decode(privateKey));
+        const result = await getMeteoraLiquidity().rebalanceLiquidity({
+          poolAddress,
+          positionAddress,
+          amountUsd: decision.amountUsd,
+          strategy: decision.metadata.strategy as AddLiquidityParams['strategy'],
+        }, wallet);
+
+        return {
+          success: true,
+          mode: 'real',
+          fills: [{
+            target: poolAddress,
+            sizeUsd: decision.amountUsd,
+            txHash: result.txid,
+            metadata: {
+              ...metadata,
+              positionAddress: result.positionAddress,
+              removeTxids: result.removeTxids,
+              activeBinId: result.activeBinId,
+              minBinId: result.minBinId,
+              maxBinId: result.maxBinId,
+            },
+          }],
+        };
+      } catch (error) {
+        return {
+          success: false,
+          mode: 'real',
+          error: error instanceof Error ? error.message : 'Rebalance failed',
+        };
+      }
+    }
+
     default:
       return {
         success: false,
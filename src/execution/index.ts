@@ -5,46 +5,107 @@
  * paper-trading simulations vs. real transactions.
  */
 
-import type { AgentDecision, Domain } from '../types/index.js';
-import { executeSpotDecision } from './spot-executor.js';
-import { executePolymarketDecision } from './polymarket-executor.js';
-import { executeDLMMDecision } from './dlmm-executor.js';
-import { executePerpsDecision } from './perps-executor.js';
+import type { AgentDecision, Domain, TimeInForce } from '../types/index.js';
+import { venueRegistry } from '../venues/index.js';
+
+export {
+  simulatePerpsFill,
+  simulateSpotFill,
+  simulateDlmmFill,
+  simulatePolymarketFill,
+  walkBook,
+  matchRestingOrder,
+  estimateFill,
+  toExecutionFill,
+  PERPS_TAKER_FEE_RATE,
+  POLYMARKET_TAKER_FEE_RATE,
+  type PaperFill,
+  type BookLevel,
+  type FillSide,
+} from './paper-fills.js';
+
+export interface ExecutionFill {
+  target: string;
+  sizeUsd: number;          // Filled notional (at reference price for paper fills)
+  sizeTokens?: number;
+  price?: number;           // Average execution price
+  feeUsd?: number;
+  slippageUsd?: number;     // Cost vs reference price
+  requestedUsd?: number;
+  partial?: boolean;
+  txHash?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * The part of a limit order left on the book after execution
+ */
+export interface RestingOrderRequest {
+  orderId: string;
+  target: string;
+  side: 'buy' | 'sell';
+  limitPrice: number;
+  size: number;             // Shares still resting
+  timeInForce: TimeInForce;
+  expiresAt?: Date;
+  metadata?: Record<string, unknown>;
+}
 
 export interface ExecutionResult {
   success: boolean;
   mode: 'paper' | 'real';
-  fills?: Array<{
-    target: string;
-    sizeUsd: number;
-    sizeTokens?: number;
-    price?: number;
-    feeUsd?: number;
-    txHash?: string;
-    metadata?: Record<string, unknown>;
-  }>;
+  fills?: ExecutionFill[];
+  restingOrder?: RestingOrderRequest;
+  venue?: string;           // Venue adapter that executed the decision
   error?: string;
 }
 
+/**
+ * Total up fills - `costUsd` is what a buy/open takes from the balance,
+ * `proceedsUsd` what a sell/close returns to it
+ */
+export function summarizeFills(fills: ExecutionFill[] = []): {
+  filledUsd: number;
+  requestedUsd: number;
+  feeUsd: number;
+  slippageUsd: number;
+  costUsd: number;
+  proceedsUsd: number;
+  partial: boolean;
+} {
+  const filledUsd = fills.reduce((sum, f) => sum + f.sizeUsd, 0);
+  const requestedUsd = fills.reduce((sum, f) => sum + (f.requestedUsd ?? f.sizeUsd), 0);
+  const feeUsd = fills.reduce((sum, f) => sum + (f.feeUsd ?? 0), 0);
+  const slippageUsd = fills.reduce((sum, f) => sum + (f.slippageUsd ?? 0), 0);
+
+  return {
+    filledUsd,
+    requestedUsd,
+    feeUsd,
+    slippageUsd,
+    costUsd: filledUsd + slippageUsd + feeUsd,
+    proceedsUsd: Math.max(0, filledUsd - slippageUsd - feeUsd),
+    partial: fills.some(f => f.partial),
+  };
+}
+
+/**
+ * Execute a decision on the domain's venue (see venues/registry for selection)
+ */
 export async function executeDecisionForDomain(
   domain: Domain,
   decision: AgentDecision,
   options: { paperTrading: boolean }
 ): Promise<ExecutionResult> {
-  switch (domain) {
-    case 'spot':
-      return executeSpotDecision(decision, options);
-    case 'polymarket':
-      return executePolymarketDecision(decision, options);
-    case 'dlmm':
-      return executeDLMMDecision(decision, options);
-    case 'perps':
-      return executePerpsDecision(decision, options);
-    default:
-      return {
-        success: false,
-        mode: options.paperTrading ? 'paper' : 'real',
-        error: `Execution adapter not implemented for ${domain}`,
-      };
+  const venue = venueRegistry.forDecision(domain, decision);
+  if (!venue) {
+    return {
+      success: false,
+      mode: options.paperTrading ? 'paper' : 'real',
+      error: `No venue registered for ${domain}`,
+    };
   }
+
+  const result = await venue.execute(decision, options);
+  return { ...result, venue: venue.id };
 }
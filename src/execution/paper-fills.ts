@@ -0,0 +1,421 @@
+/**
+ * Paper Fill Simulator
+ *
+ * Prices paper trades against real liquidity instead of filling
+ * `amountUsd` at a perfect price:
+ * - spot: Jupiter quote (price impact + route fees)
+ * - dlmm: bin-by-bin depth around the active bin for the balancing swap
+ * - perps: walks the Hyperliquid L2 book like the IOC order (fee tier, max leverage)
+ * - polymarket: walks the CLOB book for the outcome token
+ *
+ * When live depth is unavailable the fill falls back to a flat estimate
+ * so paper trading never blocks on a data outage.
+ */
+
+import { hyperliquidClient, HYPERLIQUID_FEE_TIERS, LeverageLimitError } from '../clients/hyperliquid/client.js';
+import { jupiterClient, TOKENS } from '../clients/jupiter/client.js';
+import { meteoraClient, type MeteoraPool } from '../clients/meteora/client.js';
+import { getMeteoraLiquidity } from '../clients/meteora/liquidity.js';
+import { gammaClient } from '../clients/polymarket/client.js';
+import { polymarketClobClient } from '../clients/polymarket/clob-client.js';
+import { getDataSource } from '../infra/market-archive.js';
+import { priceStream } from '../services/price-stream.js';
+import type { ExecutionFill } from './index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FillSide = 'buy' | 'sell';
+
+export interface BookLevel {
+  price: number;
+  size: number;   // Base units
+}
+
+export interface PaperFill {
+  requestedUsd: number;
+  filledUsd: number;        // Notional filled, valued at the reference price
+  referencePrice: number;   // Mid/spot before the trade (0 if unknown)
+  avgPrice: number;         // Average execution price (0 if unknown)
+  slippageUsd: number;      // Cost vs reference price
+  feeUsd: number;
+  partial: boolean;
+  source: 'book' | 'bins' | 'quote' | 'estimate';
+  poolPrice?: number;       // DLMM: pool price (token Y per X) at the fill
+  activeBinId?: number;     // DLMM: active bin at the fill, when bins were read
+}
+
+// Hyperliquid base tier taker fee (0.045%)
+export const PERPS_TAKER_FEE_RATE = HYPERLIQUID_FEE_TIERS[0].takerRate;
+
+// Most Polymarket markets charge no taker fee
+export const POLYMARKET_TAKER_FEE_RATE = 0;
+
+// Fallbacks when no depth is available
+const ESTIMATE_SLIPPAGE_RATE = 0.0005;
+const SPOT_ESTIMATE_FEE_RATE = 0.0025;
+const DLMM_MODEL_BINS_EACH_SIDE = 34;
+
+const STABLE_MINTS: string[] = [TOKENS.USDC, TOKENS.USDT];
+
+// =============================================================================
+// BOOK WALKING
+// =============================================================================
+
+/**
+ * Walk price levels (best first) to fill a USD notional.
+ * Buys spend `notionalUsd`; sells offload `notionalUsd / referencePrice` base units.
+ * With `limitPrice`, levels worse than the limit are left alone.
+ */
+export function walkBook(
+  levels: BookLevel[],
+  notionalUsd: number,
+  side: FillSide,
+  referencePrice?: number,
+  limitPrice?: number
+): Omit<PaperFill, 'requestedUsd' | 'feeUsd' | 'source'> {
+  const reference = referencePrice ?? levels[0]?.price ?? 0;
+  if (limitPrice !== undefined) {
+    levels = levels.filter(level => side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice);
+  }
+  let filledUsd = 0;
+  let baseFilled = 0;
+
+  if (side === 'buy') {
+    let remainingUsd = notionalUsd;
+    for (const level of levels) {
+      if (remainingUsd <= 0) break;
+      const takeUsd = Math.min(remainingUsd, level.price * level.size);
+      filledUsd += takeUsd;
+      baseFilled += takeUsd / level.price;
+      remainingUsd -= takeUsd;
+    }
+  } else {
+    let remainingBase = reference > 0 ? notionalUsd / reference : 0;
+    for (const level of levels) {
+      if (remainingBase <= 0) break;
+      const takeBase = Math.min(remainingBase, level.size);
+      baseFilled += takeBase;
+      filledUsd += takeBase * level.price;
+      remainingBase -= takeBase;
+    }
+  }
+
+  // filledUsd is always notional at the reference price, so
+  // buy cost = filledUsd + slippage + fee and sell proceeds = filledUsd - slippage - fee
+  const filledAtReference = reference > 0 ? baseFilled * reference : filledUsd;
+  const slippageUsd = side === 'buy'
+    ? filledUsd - filledAtReference
+    : filledAtReference - filledUsd;
+  const tradedUsd = side === 'buy' ? filledUsd : filledAtReference;
+
+  return {
+    filledUsd: filledAtReference,
+    referencePrice: reference,
+    avgPrice: baseFilled > 0 ? filledUsd / baseFilled : reference,
+    slippageUsd: Math.max(0, slippageUsd),
+    partial: tradedUsd < notionalUsd * 0.999,
+  };
+}
+
+/**
+ * How much of a resting limit order the book now lets through: the
+ * opposite side's levels at or better than the limit, filled at the limit
+ * price (a resting order is the maker). Returns cumulative filled shares
+ * and their average price.
+ */
+export function matchRestingOrder(
+  order: { side: FillSide; limitPrice: number; size: number; filledSize: number; avgFillPrice?: number },
+  levels: BookLevel[]
+): { filledSize: number; avgFillPrice?: number } {
+  const remaining = Math.max(0, order.size - order.filledSize);
+  const crossing = levels
+    .filter(level => order.side === 'buy' ? level.price <= order.limitPrice : level.price >= order.limitPrice)
+    .reduce((sum, level) => sum + level.size, 0);
+  const take = Math.min(remaining, crossing);
+
+  if (take <= 0) {
+    return { filledSize: order.filledSize, avgFillPrice: order.avgFillPrice };
+  }
+
+  const filledSize = order.filledSize + take;
+  const previousCost = order.filledSize * (order.avgFillPrice ?? order.limitPrice);
+  return { filledSize, avgFillPrice: (previousCost + take * order.limitPrice) / filledSize };
+}
+
+/**
+ * Flat-cost fill used when no depth is available
+ */
+export function estimateFill(
+  amountUsd: number,
+  feeRate: number,
+  referencePrice: number = 0,
+  side: FillSide = 'buy'
+): PaperFill {
+  const slippageUsd = amountUsd * ESTIMATE_SLIPPAGE_RATE;
+  const priceFactor = side === 'buy' ? 1 + ESTIMATE_SLIPPAGE_RATE : 1 - ESTIMATE_SLIPPAGE_RATE;
+
+  return {
+    requestedUsd: amountUsd,
+    filledUsd: side === 'buy' ? amountUsd - slippageUsd : amountUsd,
+    referencePrice,
+    avgPrice: referencePrice * priceFactor,
+    slippageUsd,
+    feeUsd: amountUsd * feeRate,
+    partial: false,
+    source: 'estimate',
+  };
+}
+
+/**
+ * Convert a simulated fill into an ExecutionResult fill
+ */
+export function toExecutionFill(
+  target: string,
+  fill: PaperFill,
+  metadata?: Record<string, unknown>
+): ExecutionFill {
+  return {
+    target,
+    sizeUsd: fill.filledUsd,
+    sizeTokens: fill.referencePrice > 0 ? fill.filledUsd / fill.referencePrice : undefined,
+    price: fill.avgPrice || undefined,
+    feeUsd: fill.feeUsd,
+    slippageUsd: fill.slippageUsd,
+    requestedUsd: fill.requestedUsd,
+    partial: fill.partial,
+    metadata: {
+      ...metadata,
+      fillSource: fill.source,
+      referencePrice: fill.referencePrice,
+      ...(fill.poolPrice !== undefined ? { poolPrice: fill.poolPrice, activeBinId: fill.activeBinId } : {}),
+    },
+  };
+}
+
+// =============================================================================
+// DOMAIN SIMULATORS
+// =============================================================================
+
+/**
+ * Perps: the IOC order Hyperliquid would fill (see HyperliquidClient.simulateOrder).
+ * Throws LeverageLimitError above the asset's max leverage.
+ */
+export async function simulatePerpsFill(
+  symbol: string,
+  side: FillSide,
+  notionalUsd: number,
+  leverage?: number
+): Promise<PaperFill> {
+  try {
+    const order = await hyperliquidClient.simulateOrder(
+      symbol,
+      side === 'buy' ? 'LONG' : 'SHORT',
+      notionalUsd,
+      { leverage }
+    );
+
+    return {
+      requestedUsd: notionalUsd,
+      filledUsd: order.filledSize * order.markPrice,
+      referencePrice: order.markPrice,
+      avgPrice: order.fillPrice,
+      slippageUsd: order.slippageUsd,
+      feeUsd: order.feeUsd,
+      partial: order.unfilledUsd > notionalUsd * 0.001,
+      source: order.source,
+    };
+  } catch (error) {
+    if (error instanceof LeverageLimitError) throw error;
+    console.warn(`[PaperFill] No Hyperliquid price for ${symbol}, using estimate`);
+  }
+
+  // The last streamed mid still prices the fill (and lets brackets be validated)
+  const markPrice = priceStream.getPrice('hyperliquid', symbol) ?? 0;
+  return estimateFill(notionalUsd, PERPS_TAKER_FEE_RATE, markPrice, side);
+}
+
+/**
+ * Spot: Jupiter quote - price impact is slippage, the rest of the shortfall is route fees
+ */
+export async function simulateSpotFill(
+  mint: string,
+  side: FillSide,
+  amountUsd: number
+): Promise<PaperFill> {
+  const quote = await jupiterClient.getQuoteUsd({
+    inputMint: side === 'buy' ? TOKENS.USDC : mint,
+    outputMint: side === 'buy' ? mint : TOKENS.USDC,
+    amountUsd,
+  });
+
+  if (!quote) {
+    console.warn(`[PaperFill] Jupiter quote unavailable for ${mint}, using estimate`);
+    return estimateFill(amountUsd, SPOT_ESTIMATE_FEE_RATE, 0, side);
+  }
+
+  const totalCostUsd = Math.max(0, quote.inputAmountUsd - quote.outputAmountUsd);
+  const slippageUsd = Math.min(totalCostUsd, amountUsd * Math.abs(quote.priceImpact));
+
+  // Token leg (amount + market value) vs the USDC actually paid/received
+  const tokenDecimals = mint === TOKENS.SOL ? 9 : 6;
+  const tokenAmount = side === 'buy'
+    ? parseInt(quote.quote.outAmount) / Math.pow(10, tokenDecimals)
+    : parseInt(quote.quote.inAmount) / Math.pow(10, tokenDecimals);
+  const tokenValueUsd = side === 'buy' ? quote.outputAmountUsd : quote.inputAmountUsd;
+  const usdcAmount = side === 'buy' ? quote.inputAmountUsd : quote.outputAmountUsd;
+
+  return {
+    requestedUsd: amountUsd,
+    filledUsd: tokenValueUsd,
+    referencePrice: tokenAmount > 0 ? tokenValueUsd / tokenAmount : 0,
+    avgPrice: tokenAmount > 0 ? usdcAmount / tokenAmount : 0,
+    slippageUsd,
+    feeUsd: totalCostUsd - slippageUsd,
+    partial: false,
+    source: 'quote',
+  };
+}
+
+/**
+ * Polymarket: walk the CLOB book for the chosen outcome token.
+ * With `limitPrice`, only the marketable part of a limit order fills.
+ */
+export async function simulatePolymarketFill(
+  conditionId: string,
+  outcome: 'YES' | 'NO',
+  side: FillSide,
+  amountUsd: number,
+  limitPrice?: number
+): Promise<PaperFill> {
+  const market = await gammaClient.getMarket(conditionId);
+  const prices = market ? gammaClient.getMarketPrices(market) : null;
+  const outcomePrice = prices ? (outcome === 'YES' ? prices.yesPrice : prices.noPrice) : 0;
+  const tokenIds = market ? gammaClient.getOutcomeTokenIds(market) : {};
+  const tokenId = outcome === 'YES' ? tokenIds.yes : tokenIds.no;
+
+  if (tokenId) {
+    try {
+      const book = await polymarketClobClient.getOrderBook(tokenId);
+      const bestBid = book.bids[0]?.price;
+      const bestAsk = book.asks[0]?.price;
+
+      if (bestBid && bestAsk) {
+        const walked = walkBook(side === 'buy' ? book.asks : book.bids, amountUsd, side, (bestBid + bestAsk) / 2, limitPrice);
+        return {
+          ...walked,
+          requestedUsd: amountUsd,
+          feeUsd: walked.filledUsd * POLYMARKET_TAKER_FEE_RATE,
+          source: 'book',
+        };
+      }
+    } catch (error) {
+      console.warn(`[PaperFill] CLOB book unavailable for ${conditionId}, using estimate`);
+    }
+  }
+
+  // Without a book, a limit order only fills if the last price already crosses it
+  const crosses = limitPrice === undefined ||
+    (outcomePrice > 0 && (side === 'buy' ? outcomePrice <= limitPrice : outcomePrice >= limitPrice));
+  if (!crosses) {
+    return {
+      requestedUsd: amountUsd,
+      filledUsd: 0,
+      referencePrice: outcomePrice,
+      avgPrice: 0,
+      slippageUsd: 0,
+      feeUsd: 0,
+      partial: true,
+      source: 'estimate',
+    };
+  }
+
+  return estimateFill(amountUsd, POLYMARKET_TAKER_FEE_RATE, outcomePrice, side);
+}
+
+/**
+ * DLMM: a balanced deposit swaps half the USD into token X (walking bins above
+ * the active bin); a withdrawal sells the X half back (walking bins below).
+ * Costs come from that swap - bin slippage plus the pool's base fee.
+ */
+export async function simulateDlmmFill(
+  poolAddress: string,
+  direction: 'deposit' | 'withdraw',
+  amountUsd: number
+): Promise<PaperFill> {
+  const pool = await meteoraClient.getPool(poolAddress);
+  const feeRate = pool ? (parseFloat(pool.base_fee_percentage) || 0) / 100 : SPOT_ESTIMATE_FEE_RATE;
+
+  if (!pool) {
+    return estimateFill(amountUsd, feeRate / 2);
+  }
+
+  const side: FillSide = direction === 'deposit' ? 'buy' : 'sell';
+  const { levels, referencePrice, priceScale, activeBinId } = await getDlmmLevels(pool, side);
+  const swapUsd = amountUsd / 2;
+
+  const walked = walkBook(levels, swapUsd, side, referencePrice);
+
+  // Only the swapped half pays costs; the other half goes in/out as-is.
+  // A partial swap caps the deposit at twice what could be swapped.
+  const filledUsd = walked.partial ? walked.filledUsd * 2 : amountUsd - walked.slippageUsd;
+
+  return {
+    requestedUsd: amountUsd,
+    filledUsd,
+    referencePrice: walked.referencePrice * priceScale,
+    avgPrice: walked.avgPrice * priceScale,
+    slippageUsd: walked.slippageUsd,
+    feeUsd: swapUsd * feeRate,
+    partial: walked.partial,
+    source: 'bins',
+    poolPrice: pool.current_price,
+    activeBinId,
+  };
+}
+
+/**
+ * Bin depth as book levels in USD. Uses on-chain bins when reachable, otherwise
+ * models the pool's TVL spread evenly over the default strategy range.
+ */
+async function getDlmmLevels(
+  pool: MeteoraPool,
+  side: FillSide
+): Promise<{ levels: BookLevel[]; referencePrice: number; priceScale: number; activeBinId?: number }> {
+  if (getDataSource().mode !== 'replay') {
+    try {
+      const depth = await getMeteoraLiquidity().getBinDepth(pool.address);
+      const yPriceUsd = STABLE_MINTS.includes(pool.mint_y) ? 1 : await jupiterClient.getPrice(pool.mint_y);
+
+      if (depth.activePrice > 0 && yPriceUsd > 0) {
+        const levels = side === 'buy'
+          ? depth.bins
+              .filter(bin => bin.binId >= depth.activeBinId && bin.xAmount > 0)
+              .map(bin => ({ price: bin.price * yPriceUsd, size: bin.xAmount }))
+          : depth.bins
+              .filter(bin => bin.binId <= depth.activeBinId && bin.yAmount > 0)
+              .reverse()
+              .map(bin => ({ price: bin.price * yPriceUsd, size: bin.yAmount / bin.price }));
+
+        return { levels, referencePrice: depth.activePrice * yPriceUsd, priceScale: 1, activeBinId: depth.activeBinId };
+      }
+    } catch (error) {
+      console.warn(`[PaperFill] Bin depth unavailable for ${pool.name}, modelling from TVL`);
+    }
+  }
+
+  // Prices normalised to 1 at the active bin (scaled back by current_price for reporting)
+  const tvl = parseFloat(pool.liquidity) || 0;
+  const binCount = DLMM_MODEL_BINS_EACH_SIDE * 2 + 1;
+  const depthPerBinUsd = tvl / binCount / 2;  // Half of each bin is the side being taken
+  const step = 1 + pool.bin_step / 10000;
+
+  const levels: BookLevel[] = [];
+  for (let i = 0; i <= DLMM_MODEL_BINS_EACH_SIDE; i++) {
+    const price = side === 'buy' ? Math.pow(step, i) : Math.pow(step, -i);
+    levels.push({ price, size: depthPerBinUsd / price });
+  }
+
+  return { levels, referencePrice: 1, priceScale: pool.current_price };
+}
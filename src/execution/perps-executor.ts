@@ -1,4 +1,7 @@
 import type { AgentDecision } from '../types/index.js';
+import type { ExecutionResult } from './index.js';
+import { simulatePerpsFill, toExecutionFill, type PaperFill } from './paper-fills.js';
+import { hyperliquidClient, validateBracket, type BracketParams } from '../clients/hyperliquid/client.js';
 
 interface ExecutionOptions {
   paperTrading: boolean;
@@ -7,16 +10,7 @@ interface ExecutionOptions {
 export async function executePerpsDecision(
   decision: AgentDecision,
   options: ExecutionOptions
-): Promise<{
-  success: boolean;
-  mode: 'paper' | 'real';
-  fills?: Array<{
-    target: string;
-    sizeUsd: number;
-    metadata?: Record<string, unknown>;
-  }>;
-  error?: string;
-}> {
+): Promise<ExecutionResult> {
   // Hold action - always succeeds
   if (decision.action === 'hold') {
     return { success: true, mode: options.paperTrading ? 'paper' : 'real' };
@@ -61,29 +55,85 @@ export async function executePerpsDecision(
         };
       }
 
-      // Paper mode: validate and return success
+      const side = decision.action === 'open_long' ? 'LONG' : 'SHORT';
+      const bracket: BracketParams = {
+        takeProfitPrice: Number(decision.metadata.takeProfitPrice) || undefined,
+        stopLossPrice: Number(decision.metadata.stopLossPrice) || undefined,
+      };
+
+      // Paper mode: fill against the L2 book, rejected above the asset's max leverage
       if (options.paperTrading) {
+        let fill: PaperFill;
+        try {
+          fill = await simulatePerpsFill(
+            decision.target,
+            side === 'LONG' ? 'buy' : 'sell',
+            decision.amountUsd,
+            leverage
+          );
+        } catch (error) {
+          return { success: false, mode: 'paper', error: error instanceof Error ? error.message : String(error) };
+        }
+
+        if (fill.filledUsd <= 0) {
+          return { success: false, mode: 'paper', error: `No liquidity to fill ${decision.target}` };
+        }
+
+        // Same check the exchange applies to trigger orders
+        if (fill.referencePrice > 0) {
+          try {
+            validateBracket(side, fill.referencePrice, bracket);
+          } catch (error) {
+            return { success: false, mode: 'paper', error: error instanceof Error ? error.message : String(error) };
+          }
+        }
+
         return {
           success: true,
           mode: 'paper',
+          fills: [toExecutionFill(decision.target, fill, {
+            leverage: decision.metadata.leverage,
+            side: side.toLowerCase(),
+            symbol: decision.target,
+          })],
+        };
+      }
+
+      // Real mode: IOC entry with exchange-side TP/SL triggers attached
+      try {
+        const result = await hyperliquidClient.placeBracketOrder(
+          decision.target,
+          side,
+          decision.amountUsd,
+          leverage,
+          bracket
+        );
+
+        return {
+          success: true,
+          mode: 'real',
           fills: [{
             target: decision.target,
             sizeUsd: decision.amountUsd,
+            sizeTokens: decision.amountUsd / result.fillPrice,
+            price: result.fillPrice,
             metadata: {
-              leverage: decision.metadata.leverage,
-              side: decision.action === 'open_long' ? 'long' : 'short',
+              leverage,
+              side: side.toLowerCase(),
               symbol: decision.target,
+              orderId: result.orderId,
+              takeProfitOrderId: result.takeProfitOrderId,
+              stopLossOrderId: result.stopLossOrderId,
             },
           }],
         };
+      } catch (error) {
+        return {
+          success: false,
+          mode: 'real',
+          error: error instanceof Error ? error.message : String(error),
+        };
       }
-
-      // Real mode: not implemented yet
-      return {
-        success: false,
-        mode: 'real',
-        error: 'Real trading not implemented yet',
-      };
     }
 
     case 'close_position':
@@ -97,28 +147,80 @@ export async function executePerpsDecision(
         };
       }
 
-      // Paper mode: validate and return success
+      // Paper mode: closing a long sells into bids, closing a short buys from asks
       if (options.paperTrading) {
+        const metadata = {
+          position_id: decision.metadata.positionId,
+          action: decision.action,
+        };
+
+        if (!decision.target || !decision.amountUsd) {
+          return {
+            success: true,
+            mode: 'paper',
+            fills: [{ target: decision.target || 'unknown', sizeUsd: decision.amountUsd || 0, metadata }],
+          };
+        }
+
+        const symbol = String(decision.metadata.symbol ?? decision.target);
+        const side = String(decision.metadata.side ?? 'long').toLowerCase() === 'short' ? 'buy' : 'sell';
+        const fill = await simulatePerpsFill(symbol, side, decision.amountUsd);
+
         return {
           success: true,
           mode: 'paper',
-          fills: [{
-            target: decision.target || 'unknown',
-            sizeUsd: decision.amountUsd || 0,
-            metadata: {
-              position_id: decision.metadata.positionId,
-              action: decision.action,
-            },
-          }],
+          fills: [toExecutionFill(decision.target, fill, metadata)],
         };
       }
 
-      // Real mode: not implemented yet
-      return {
-        success: false,
-        mode: 'real',
-        error: 'Real trading not implemented yet',
+      // Real mode: reduce-only IOC against the open position
+      if (!decision.target || !decision.amountUsd || decision.amountUsd <= 0) {
+        return {
+          success: false,
+          mode: 'real',
+          error: 'Missing symbol (target) or amount for close/reduce',
+        };
+      }
+
+      const symbol = String(decision.metadata.symbol ?? decision.target);
+      const side = String(decision.metadata.side ?? 'long').toLowerCase() === 'short' ? 'SHORT' : 'LONG';
+      const metadata = {
+        position_id: decision.metadata.positionId,
+        action: decision.action,
+        side: side.toLowerCase(),
+        symbol,
       };
+
+      // An exchange-side TP/SL already closed it; only the books need updating
+      if (decision.metadata.filledByExchange) {
+        return {
+          success: true,
+          mode: 'real',
+          fills: [{ target: decision.target, sizeUsd: decision.amountUsd, metadata }],
+        };
+      }
+
+      try {
+        const result = await hyperliquidClient.closePosition(symbol, side, decision.amountUsd);
+
+        return {
+          success: true,
+          mode: 'real',
+          fills: [{
+            target: decision.target,
+            sizeUsd: decision.amountUsd,
+            sizeTokens: decision.amountUsd / result.fillPrice,
+            price: result.fillPrice,
+            metadata: { ...metadata, orderId: result.orderId },
+          }],
+        };
+      } catch (error) {
+        return {
+          success: false,
+          mode: 'real',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
     }
 
     default:
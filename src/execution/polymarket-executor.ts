@@ -1,117 +1,316 @@
-import type { AgentDecision } from '../types/index.js';
+import type { AgentDecision, TimeInForce } from '../types/index.js';
+import type { RestingOrderRecord } from '../types/internal.js';
+import type { ExecutionResult } from './index.js';
+import { gammaClient } from '../clients/polymarket/client.js';
+import { polymarketClobClient } from '../clients/polymarket/clob-client.js';
+import { simulatePolymarketFill, toExecutionFill, matchRestingOrder } from './paper-fills.js';
 
 interface ExecutionOptions {
   paperTrading: boolean;
 }
 
+type Outcome = 'YES' | 'NO';
+
+const TIME_IN_FORCE: TimeInForce[] = ['GTC', 'GTD', 'FOK', 'FAK'];
+
+// Remainders smaller than this aren't worth leaving on the book
+const MIN_RESTING_USD = 1;
+
+/**
+ * Side and outcome of a Polymarket action. Agents submit buy_yes/buy_no;
+ * a plain buy names the outcome in metadata. Null for unsupported actions.
+ */
+export function polymarketOrderSide(
+  decision: AgentDecision
+): { side: 'buy' | 'sell'; outcome?: Outcome } | null {
+  const metadataOutcome = decision.metadata?.outcome
+    ? (String(decision.metadata.outcome).toUpperCase() === 'NO' ? 'NO' : 'YES')
+    : undefined;
+
+  switch (decision.action) {
+    case 'buy_yes':
+      return { side: 'buy', outcome: 'YES' };
+    case 'buy_no':
+      return { side: 'buy', outcome: 'NO' };
+    case 'buy':
+      return { side: 'buy', outcome: metadataOutcome };
+    case 'sell':
+    case 'partial_sell':
+      return { side: 'sell', outcome: metadataOutcome ?? 'YES' };
+    default:
+      return null;
+  }
+}
+
 export async function executePolymarketDecision(
   decision: AgentDecision,
   options: ExecutionOptions
-): Promise<{
-  success: boolean;
-  mode: 'paper' | 'real';
-  fills?: Array<{
-    target: string;
-    sizeUsd: number;
-    metadata?: Record<string, unknown>;
-  }>;
-  error?: string;
-}> {
+): Promise<ExecutionResult> {
+  const mode = options.paperTrading ? 'paper' : 'real';
+
   // Hold action - always succeeds
   if (decision.action === 'hold') {
-    return { success: true, mode: options.paperTrading ? 'paper' : 'real' };
+    return { success: true, mode };
+  }
+
+  const order = polymarketOrderSide(decision);
+  if (!order) {
+    return { success: false, mode, error: `Unsupported action: ${decision.action}` };
   }
 
   // Validate decision structure
-  switch (decision.action) {
-    case 'buy': {
-      // Validate buy decision
-      if (!decision.target) {
-        return {
-          success: false,
-          mode: options.paperTrading ? 'paper' : 'real',
-          error: 'Missing condition_id (target)',
-        };
-      }
+  if (order.side === 'buy') {
+    if (!decision.target) {
+      return { success: false, mode, error: 'Missing condition_id (target)' };
+    }
 
-      if (!decision.amountUsd || decision.amountUsd <= 0) {
-        return {
-          success: false,
-          mode: options.paperTrading ? 'paper' : 'real',
-          error: 'Missing or invalid amount',
-        };
-      }
+    if (!decision.amountUsd || decision.amountUsd <= 0) {
+      return { success: false, mode, error: 'Missing or invalid amount' };
+    }
 
-      if (!decision.metadata?.outcome) {
-        return {
-          success: false,
-          mode: options.paperTrading ? 'paper' : 'real',
-          error: 'Missing outcome (YES or NO)',
-        };
-      }
+    if (!order.outcome) {
+      return { success: false, mode, error: 'Missing outcome (YES or NO)' };
+    }
+  } else if (!decision.metadata?.positionId) {
+    return { success: false, mode, error: 'Position ID required for sell' };
+  }
+
+  const outcome = order.outcome ?? 'YES';
+
+  if (decision.metadata?.limitPrice !== undefined) {
+    return executeLimitOrder(decision, order.side, outcome, options);
+  }
 
-      // Paper mode: validate and return success
-      if (options.paperTrading) {
-        return {
-          success: true,
-          mode: 'paper',
-          fills: [{
-            target: decision.target,
-            sizeUsd: decision.amountUsd,
-            metadata: {
-              outcome: decision.metadata.outcome,
-              condition_id: decision.target,
-            },
-          }],
-        };
+  if (order.side === 'buy') {
+    const target = decision.target!;
+    const amountUsd = decision.amountUsd!;
+
+    // Paper mode: walk the CLOB asks for the outcome token
+    if (options.paperTrading) {
+      const fill = await simulatePolymarketFill(target, outcome, 'buy', amountUsd);
+
+      if (fill.filledUsd <= 0) {
+        return { success: false, mode: 'paper', error: `No liquidity to fill ${target}` };
       }
 
-      // Real mode: not implemented yet
       return {
-        success: false,
-        mode: 'real',
-        error: 'Real trading not implemented yet',
+        success: true,
+        mode: 'paper',
+        fills: [toExecutionFill(target, fill, {
+          outcome,
+          condition_id: target,
+        })],
       };
     }
 
-    case 'sell': {
-      // Validate sell decision
-      if (!decision.metadata?.positionId) {
-        return {
-          success: false,
-          mode: options.paperTrading ? 'paper' : 'real',
-          error: 'Position ID required for sell',
-        };
-      }
+    // Real mode: not implemented yet
+    return {
+      success: false,
+      mode: 'real',
+      error: 'Real trading not implemented yet',
+    };
+  }
 
-      // Paper mode: validate and return success
-      if (options.paperTrading) {
-        return {
-          success: true,
-          mode: 'paper',
-          fills: [{
-            target: decision.target || 'unknown',
-            sizeUsd: decision.amountUsd || 0,
-            metadata: {
-              position_id: decision.metadata.positionId,
-            },
-          }],
-        };
-      }
+  // Paper mode: walk the CLOB bids for the held outcome
+  if (options.paperTrading) {
+    const metadata = { position_id: decision.metadata!.positionId };
 
-      // Real mode: not implemented yet
+    if (!decision.target || !decision.amountUsd) {
       return {
-        success: false,
-        mode: 'real',
-        error: 'Real trading not implemented yet',
+        success: true,
+        mode: 'paper',
+        fills: [{ target: decision.target || 'unknown', sizeUsd: decision.amountUsd || 0, metadata }],
       };
     }
 
-    default:
+    const fill = await simulatePolymarketFill(decision.target, outcome, 'sell', decision.amountUsd);
+
+    return {
+      success: true,
+      mode: 'paper',
+      fills: [toExecutionFill(decision.target, fill, metadata)],
+    };
+  }
+
+  // Real mode: not implemented yet
+  return {
+    success: false,
+    mode: 'real',
+    error: 'Real trading not implemented yet',
+  };
+}
+
+// =============================================================================
+// LIMIT ORDERS
+// =============================================================================
+
+/**
+ * Limit order at metadata.limitPrice. The marketable part fills now; with
+ * GTC/GTD the rest comes back as `restingOrder` for the orchestrator to
+ * track. FOK fails unless the whole order fills, FAK drops the remainder.
+ */
+async function executeLimitOrder(
+  decision: AgentDecision,
+  side: 'buy' | 'sell',
+  outcome: Outcome,
+  options: ExecutionOptions
+): Promise<ExecutionResult> {
+  const mode = options.paperTrading ? 'paper' : 'real';
+  const limitPrice = Number(decision.metadata?.limitPrice);
+  const timeInForce = String(decision.metadata?.timeInForce ?? 'GTC').toUpperCase() as TimeInForce;
+  const expiresAt = decision.metadata?.expiresAt ? new Date(String(decision.metadata.expiresAt)) : undefined;
+
+  if (!(limitPrice >= 0.01 && limitPrice <= 0.99)) {
+    return { success: false, mode, error: 'Limit price must be between 0.01 and 0.99' };
+  }
+  if (!TIME_IN_FORCE.includes(timeInForce)) {
+    return { success: false, mode, error: `Unknown time in force: ${timeInForce}` };
+  }
+  if (timeInForce === 'GTD' && !(expiresAt && expiresAt.getTime() > Date.now())) {
+    return { success: false, mode, error: 'GTD orders need a future expiresAt' };
+  }
+  if (!decision.target || !decision.amountUsd || decision.amountUsd <= 0) {
+    return { success: false, mode, error: 'Limit orders need a target and amount' };
+  }
+
+  // Sells target the position; the market comes from its metadata
+  const target = side === 'buy'
+    ? decision.target
+    : String(decision.metadata?.conditionId ?? decision.metadata?.condition_id ?? decision.target);
+  const amountUsd = decision.amountUsd;
+  const market = await gammaClient.getMarket(target);
+  const tokenIds = market ? gammaClient.getOutcomeTokenIds(market) : {};
+  const tokenId = outcome === 'YES' ? tokenIds.yes : tokenIds.no;
+  const fillMetadata: Record<string, unknown> = side === 'buy'
+    ? { outcome, condition_id: target }
+    : { outcome, position_id: decision.metadata?.positionId };
+  const orderMetadata = { ...fillMetadata, tokenId };
+
+  // Real mode: post to the CLOB; fills arrive through syncPolymarketOrder
+  if (!options.paperTrading) {
+    if (!polymarketClobClient.isReady()) {
+      return { success: false, mode, error: 'Polymarket wallet not initialized' };
+    }
+    if (!tokenId) {
+      return { success: false, mode, error: `No CLOB token for ${outcome} on ${target}` };
+    }
+
+    const prices = market ? gammaClient.getMarketPrices(market) : null;
+    const outcomePrice = prices ? (outcome === 'YES' ? prices.yesPrice : prices.noPrice) : 0;
+    const shares = side === 'buy' ? amountUsd / limitPrice : amountUsd / (outcomePrice || limitPrice);
+
+    try {
+      const placed = await polymarketClobClient.placeLimitOrder(
+        tokenId, side === 'buy' ? 'BUY' : 'SELL', limitPrice, shares, timeInForce, expiresAt
+      );
       return {
-        success: false,
-        mode: options.paperTrading ? 'paper' : 'real',
-        error: `Unsupported action: ${decision.action}`,
+        success: true,
+        mode,
+        restingOrder: {
+          orderId: placed.orderId,
+          target,
+          side,
+          limitPrice,
+          size: shares,
+          timeInForce,
+          expiresAt,
+          metadata: orderMetadata,
+        },
       };
+    } catch (error) {
+      return { success: false, mode, error: error instanceof Error ? error.message : 'Limit order failed' };
+    }
+  }
+
+  // Paper mode: fill what the book offers at the limit or better
+  const fill = await simulatePolymarketFill(target, outcome, side, amountUsd, limitPrice);
+  const filled = fill.filledUsd > 0;
+
+  if (timeInForce === 'FOK' && (!filled || fill.partial)) {
+    return { success: false, mode, error: `FOK order for ${target} can't fill $${amountUsd} at ${limitPrice}` };
   }
+  if (timeInForce === 'FAK' && !filled) {
+    return { success: false, mode, error: `No liquidity at ${limitPrice} or better for ${target}` };
+  }
+
+  const fills = filled ? [toExecutionFill(target, fill, fillMetadata)] : [];
+  if (timeInForce === 'FOK' || timeInForce === 'FAK') {
+    return { success: true, mode, fills };
+  }
+
+  // Buys rest whatever budget is left; sells the shares the book didn't take
+  const reference = fill.referencePrice || limitPrice;
+  const remainingShares = side === 'buy'
+    ? Math.max(0, amountUsd - fill.filledUsd - fill.slippageUsd) / limitPrice
+    : Math.max(0, amountUsd - fill.filledUsd) / reference;
+
+  if (remainingShares * limitPrice < MIN_RESTING_USD) {
+    if (!filled) {
+      return { success: false, mode, error: `Order for ${target} is too small to rest` };
+    }
+    return { success: true, mode, fills };
+  }
+
+  return {
+    success: true,
+    mode,
+    fills,
+    restingOrder: {
+      orderId: polymarketClobClient.simulateOrder(tokenId ?? target, side === 'buy' ? 'BUY' : 'SELL', limitPrice, remainingShares).orderId,
+      target,
+      side,
+      limitPrice,
+      size: remainingShares,
+      timeInForce,
+      expiresAt,
+      metadata: orderMetadata,
+    },
+  };
+}
+
+/**
+ * Cumulative fills of a resting order. Paper orders fill against the live
+ * book at their limit price; real orders report the CLOB's matched size.
+ */
+export async function syncPolymarketOrder(
+  order: RestingOrderRecord
+): Promise<{ filledSize: number; avgFillPrice?: number; status: RestingOrderRecord['status'] }> {
+  const unchanged = { filledSize: order.filledSize, avgFillPrice: order.avgFillPrice, status: order.status };
+  const tokenId = typeof order.metadata.tokenId === 'string' ? order.metadata.tokenId : undefined;
+
+  if (order.paper) {
+    if (!tokenId) return unchanged;
+    try {
+      const book = await polymarketClobClient.getOrderBook(tokenId);
+      const matched = matchRestingOrder(order, order.side === 'buy' ? book.asks : book.bids);
+      return { ...matched, status: matched.filledSize >= order.size * 0.999 ? 'filled' : 'open' };
+    } catch (error) {
+      console.warn(`[Polymarket] Book unavailable for resting order ${order.orderId}`);
+      return unchanged;
+    }
+  }
+
+  if (!polymarketClobClient.isReady()) return unchanged;
+  const live = await polymarketClobClient.getOrder(order.orderId);
+  if (!live) return unchanged;
+
+  const filledSize = live.filledSize ?? order.filledSize;
+  const status = live.status.toUpperCase();
+  return {
+    filledSize,
+    // Resting orders are the maker, so they fill at their limit
+    avgFillPrice: filledSize > 0 ? order.limitPrice : undefined,
+    status: status === 'MATCHED' || filledSize >= order.size * 0.999
+      ? 'filled'
+      : status.startsWith('CANCEL') ? 'cancelled' : 'open',
+  };
+}
+
+/**
+ * Pull a resting order off the book (paper orders only exist locally)
+ */
+export async function cancelPolymarketOrder(order: RestingOrderRecord): Promise<boolean> {
+  if (order.paper) return true;
+  if (!polymarketClobClient.isReady()) return false;
+  return polymarketClobClient.cancelOrder(order.orderId);
 }
@@ -1,6 +1,7 @@
 import type { AgentDecision } from '../types/index.js';
-import { jupiterClient, TOKENS } from '../clients/jupiter/client.js';
 import { getDomainBalance, updateDomainBalance, createPosition, closePosition } from '../data/provider.js';
+import type { ExecutionResult } from './index.js';
+import { simulateSpotFill, toExecutionFill } from './paper-fills.js';
 
 interface ExecutionOptions {
   paperTrading: boolean;
@@ -9,18 +10,7 @@ interface ExecutionOptions {
 export async function executeSpotDecision(
   decision: AgentDecision,
   options: ExecutionOptions
-): Promise<{
-  success: boolean;
-  mode: 'paper' | 'real';
-  fills?: Array<{
-    target: string;
-    sizeUsd: number;
-    sizeTokens?: number;
-    price?: number;
-    metadata?: Record<string, unknown>;
-  }>;
-  error?: string;
-}> {
+): Promise<ExecutionResult> {
   if (decision.action === 'hold') {
     return { success: true, mode: options.paperTrading ? 'paper' : 'real' };
   }
@@ -48,38 +38,29 @@ export async function executeSpotDecision(
       }
 
       if (options.paperTrading || !wallet) {
-        const simulation = await jupiterClient.simulateSwap({
-          inputMint: TOKENS.USDC,
-          outputMint: mint,
-          amountUsd: decision.amountUsd,
-        });
-
-        if (!simulation) {
-          return { success: false, mode: 'paper', error: 'Failed to simulate swap' };
-        }
+        const fill = await simulateSpotFill(mint, 'buy', decision.amountUsd);
+        const executionFill = toExecutionFill(mint, fill, { mint });
+        const costUsd = fill.filledUsd + fill.slippageUsd + fill.feeUsd;
 
-        await updateDomainBalance('spot', balance - simulation.inputAmountUsd);
+        await updateDomainBalance('spot', balance - costUsd);
         await createPosition('spot', {
           target: mint,
           targetName: decision.target,
-          entryValueUsd: simulation.inputAmountUsd,
+          entryValueUsd: costUsd,
           metadata: {
-            tokenAmount: simulation.outputAmountUsd / (simulation.executionPrice || 1),
-            entry_price: simulation.executionPrice,
+            tokenAmount: executionFill.sizeTokens,
+            entry_price: fill.avgPrice,
             mint,
-            position_size_usd: simulation.inputAmountUsd,
+            position_size_usd: costUsd,
+            feesPaidUsd: fill.feeUsd,
+            slippageUsd: fill.slippageUsd,
           },
         });
 
         return {
           success: true,
           mode: 'paper',
-          fills: [{
-            target: mint,
-            sizeUsd: simulation.inputAmountUsd,
-            sizeTokens: simulation.outputAmountUsd / (simulation.executionPrice || 1),
-            price: simulation.executionPrice,
-          }],
+          fills: [executionFill],
         };
       }
 
@@ -93,14 +74,24 @@ export async function executeSpotDecision(
       }
 
       if (options.paperTrading || !wallet) {
-        // Sell logic will be handled by orchestrator's balance adjustments for now
+        // Balance adjustments are handled by the orchestrator; this only prices the exit
+        const mint = typeof decision.metadata?.mint === 'string' ? decision.metadata.mint : decision.target;
+        if (!mint || !decision.amountUsd) {
+          return {
+            success: true,
+            mode: 'paper',
+            fills: [{
+              target: decision.target || 'unknown',
+              sizeUsd: decision.amountUsd || 0,
+            }],
+          };
+        }
+
+        const fill = await simulateSpotFill(mint, 'sell', decision.amountUsd);
         return {
           success: true,
           mode: 'paper',
-          fills: [{
-            target: decision.target || 'unknown',
-            sizeUsd: decision.amountUsd || 0,
-          }],
+          fills: [toExecutionFill(mint, fill, { mint })],
         };
       }
 
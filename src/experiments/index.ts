@@ -0,0 +1,217 @@
+/**
+ * Experiments
+ *
+ * Controlled A/B comparisons of skills and prompts. Each subagent run (or
+ * whole cycle) in a running experiment's domain is assigned to one arm:
+ * - skill experiments: the skill is injected in treatment, withheld in control
+ * - prompt experiments: the system prompt is a named variant per arm
+ *
+ * The arm is stored on the Decision row, and the report compares closed
+ * decisions across arms with confidence intervals on the lift.
+ */
+
+import type { Domain } from '../types/index.js';
+import type { ExperimentArm, ExperimentDecision, ExperimentRecord } from '../types/internal.js';
+import type { QualifiedSkill } from '../skills/types.js';
+import { getExperiments, getExperimentDecisions } from '../data/provider.js';
+import { readSkill } from '../skills/reflection-creator.js';
+import { getSkillType } from '../skills/skill-recommender.js';
+import { getPromptVariant } from '../prompts/index.js';
+import { rateDifference, meanDifference, meanInterval, wilsonInterval, type Interval } from './stats.js';
+
+export * from './stats.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ExperimentAssignment {
+  experiment: ExperimentRecord;
+  arm: ExperimentArm;
+}
+
+export interface ArmSummary {
+  decisions: number;      // All decisions assigned, including holds
+  closed: number;         // Decisions with a realized outcome
+  wins: number;
+  winRate: Interval;
+  pnlPercent: Interval;   // Mean realized P&L % per closed decision
+}
+
+export interface ExperimentReport {
+  experiment: ExperimentRecord;
+  control: ArmSummary;
+  treatment: ArmSummary;
+  lift: {
+    winRate: Interval;    // Treatment minus control
+    pnlPercent: Interval;
+  };
+  significant: boolean;   // Win-rate lift interval excludes zero
+  enoughData: boolean;    // Both arms have MIN_CLOSED_PER_ARM outcomes
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Below this many closed decisions per arm the report is shown but flagged
+ */
+export const MIN_CLOSED_PER_ARM = 10;
+
+// =============================================================================
+// ASSIGNMENT
+// =============================================================================
+
+/**
+ * Deterministically assign a unit to an arm. The same experiment and unit
+ * key always land in the same arm; keys spread uniformly across [0, 1).
+ */
+export function assignArm(experimentId: string, unitKey: string, treatmentShare: number): ExperimentArm {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (const char of `${experimentId}:${unitKey}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash / 0x100000000 < treatmentShare ? 'treatment' : 'control';
+}
+
+/**
+ * Assign a subagent run to the newest running experiment for its domain.
+ * Cycle experiments key on the cycle so every domain in it shares an arm.
+ */
+export async function assignExperiment(
+  domain: Domain,
+  keys: { cycleId: string; decisionKey: string }
+): Promise<ExperimentAssignment | null> {
+  let running: ExperimentRecord[];
+  try {
+    running = await getExperiments('running');
+  } catch (error) {
+    console.warn('[Experiments] Could not load experiments:', error);
+    return null;
+  }
+
+  const experiment = running.find(e => !e.domain || e.domain === domain);
+  if (!experiment) return null;
+
+  const unitKey = experiment.unit === 'cycle' ? keys.cycleId : keys.decisionKey;
+  return { experiment, arm: assignArm(experiment.id, unitKey, experiment.treatmentShare) };
+}
+
+// =============================================================================
+// APPLYING ARMS
+// =============================================================================
+
+/**
+ * Withhold the experiment's skill in control; inject it in treatment even if
+ * the recommender didn't pick it
+ */
+export async function applySkillArm(
+  assignment: ExperimentAssignment | null,
+  domain: Domain,
+  skills: QualifiedSkill[]
+): Promise<QualifiedSkill[]> {
+  const skillName = assignment?.experiment.kind === 'skill' ? assignment.experiment.skillName : undefined;
+  if (!assignment || !skillName) return skills;
+
+  if (assignment.arm === 'control') {
+    return skills.filter(s => s.name !== skillName);
+  }
+
+  if (skills.some(s => s.name === skillName)) return skills;
+
+  const content = await readSkill(`${skillName}.md`);
+  if (!content) {
+    console.warn(`[Experiments] Skill "${skillName}" not found, treatment runs without it`);
+    return skills;
+  }
+
+  return [
+    ...skills,
+    {
+      name: skillName,
+      domain,
+      content,
+      relevanceScore: 1,
+      provenEffective: false,
+      timesApplied: 0,
+      successRate: 0,
+      sourceType: getSkillType(`${skillName}.md`),
+    },
+  ];
+}
+
+/**
+ * System prompt for the assigned arm of a prompt experiment, or undefined to
+ * keep the subagent's default prompt
+ */
+export function experimentPrompt(assignment: ExperimentAssignment | null, domain: Domain): string | undefined {
+  if (!assignment || assignment.experiment.kind !== 'prompt') return undefined;
+
+  const variant = assignment.arm === 'treatment'
+    ? assignment.experiment.treatmentPrompt
+    : assignment.experiment.controlPrompt;
+  if (!variant) return undefined;
+
+  const prompt = getPromptVariant(variant, domain);
+  if (!prompt) {
+    console.warn(`[Experiments] Prompt variant "${variant}" is not registered, using the default prompt`);
+  }
+  return prompt;
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+function summarizeArm(decisions: ExperimentDecision[]): ArmSummary & { pnls: number[] } {
+  const closed = decisions.filter(d => d.outcome === 'profit' || d.outcome === 'loss');
+  const wins = closed.filter(d => d.outcome === 'profit').length;
+  const pnls = closed.map(d => d.pnlPercent ?? 0);
+
+  return {
+    decisions: decisions.length,
+    closed: closed.length,
+    wins,
+    winRate: wilsonInterval(wins, closed.length),
+    pnlPercent: meanInterval(pnls),
+    pnls,
+  };
+}
+
+/**
+ * Compare the arms of an experiment (pure)
+ */
+export function summarizeExperiment(
+  experiment: ExperimentRecord,
+  decisions: ExperimentDecision[]
+): ExperimentReport {
+  const { pnls: controlPnls, ...control } = summarizeArm(decisions.filter(d => d.arm === 'control'));
+  const { pnls: treatmentPnls, ...treatment } = summarizeArm(decisions.filter(d => d.arm === 'treatment'));
+
+  const winRate = rateDifference(
+    { successes: treatment.wins, total: treatment.closed },
+    { successes: control.wins, total: control.closed }
+  );
+
+  return {
+    experiment,
+    control,
+    treatment,
+    lift: {
+      winRate,
+      pnlPercent: meanDifference(treatmentPnls, controlPnls),
+    },
+    significant: control.closed > 0 && treatment.closed > 0 && (winRate.low > 0 || winRate.high < 0),
+    enoughData: control.closed >= MIN_CLOSED_PER_ARM && treatment.closed >= MIN_CLOSED_PER_ARM,
+  };
+}
+
+/**
+ * Load an experiment's decisions and compare its arms
+ */
+export async function getExperimentReport(experiment: ExperimentRecord): Promise<ExperimentReport> {
+  return summarizeExperiment(experiment, await getExperimentDecisions(experiment.id));
+}
@@ -0,0 +1,82 @@
+/**
+ * Experiment Statistics
+ *
+ * Confidence intervals for comparing experiment arms:
+ * - Win rate: Wilson score interval per arm, Newcombe's method for the lift
+ * - Mean P&L %: normal interval per arm, Welch standard error for the lift
+ */
+
+import { wilsonScoreLowerBound } from '../skills/skill-outcome.js';
+
+/**
+ * Z-score for 95% two-sided confidence intervals
+ */
+export const Z_95 = 1.96;
+
+export interface Interval {
+  estimate: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Wilson score interval for a success rate. The upper bound is the
+ * complement of the failure rate's lower bound.
+ */
+export function wilsonInterval(successes: number, total: number, z: number = Z_95): Interval {
+  if (total === 0) return { estimate: 0, low: 0, high: 1 };
+  return {
+    estimate: successes / total,
+    low: wilsonScoreLowerBound(successes, total, z),
+    high: 1 - wilsonScoreLowerBound(total - successes, total, z),
+  };
+}
+
+/**
+ * Difference of two rates (treatment - control), Newcombe hybrid score interval
+ */
+export function rateDifference(
+  treatment: { successes: number; total: number },
+  control: { successes: number; total: number },
+  z: number = Z_95
+): Interval {
+  const t = wilsonInterval(treatment.successes, treatment.total, z);
+  const c = wilsonInterval(control.successes, control.total, z);
+  const estimate = t.estimate - c.estimate;
+
+  return {
+    estimate,
+    low: estimate - Math.sqrt((t.estimate - t.low) ** 2 + (c.high - c.estimate) ** 2),
+    high: estimate + Math.sqrt((t.high - t.estimate) ** 2 + (c.estimate - c.low) ** 2),
+  };
+}
+
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance };
+}
+
+/**
+ * Normal-approximation interval for a mean
+ */
+export function meanInterval(values: number[], z: number = Z_95): Interval {
+  if (values.length === 0) return { estimate: 0, low: 0, high: 0 };
+  const { mean, variance } = meanAndVariance(values);
+  const margin = z * Math.sqrt(variance / values.length);
+  return { estimate: mean, low: mean - margin, high: mean + margin };
+}
+
+/**
+ * Difference of two means (treatment - control) with Welch's standard error
+ */
+export function meanDifference(treatment: number[], control: number[], z: number = Z_95): Interval {
+  if (treatment.length === 0 || control.length === 0) return { estimate: 0, low: 0, high: 0 };
+  const t = meanAndVariance(treatment);
+  const c = meanAndVariance(control);
+  const estimate = t.mean - c.mean;
+  const margin = z * Math.sqrt(t.variance / treatment.length + c.variance / control.length);
+  return { estimate, low: estimate - margin, high: estimate + margin };
+}
@@ -0,0 +1,65 @@
+/**
+ * Hook Audit Log
+ *
+ * Persists every hook execution (HookExecution table) so blocked and
+ * resized decisions can be reviewed later with `claudefi hooks log` or in
+ * the TUI activity panel. The registry's in-memory log only keeps the
+ * last 100 entries.
+ */
+
+import { logHookExecution } from '../data/provider.js';
+import type { HookExecutionRecord } from '../types/internal.js';
+import { hookRegistry } from './registry.js';
+
+/**
+ * Start persisting hook executions
+ */
+export function enableHookAudit(): void {
+  hookRegistry.setExecutionSink(summary =>
+    logHookExecution({
+      hookName: summary.hookName,
+      event: summary.event,
+      domain: summary.domain,
+      proceeded: summary.proceeded,
+      reason: summary.reason,
+      modifiedInput: summary.modifiedInput,
+      action: summary.action,
+      target: summary.target,
+      decisionId: summary.decisionId,
+      sessionId: summary.sessionId,
+      durationMs: summary.durationMs,
+      createdAt: summary.timestamp,
+    })
+  );
+}
+
+/**
+ * Stop persisting hook executions
+ */
+export function disableHookAudit(): void {
+  hookRegistry.setExecutionSink(null);
+}
+
+/**
+ * What a hook changed, e.g. "amountUsd → $200.00"
+ */
+export function describeModification(execution: Pick<HookExecutionRecord, 'modifiedInput'>): string | undefined {
+  const input = execution.modifiedInput;
+  if (input === undefined || input === null) return undefined;
+
+  if (typeof input === 'object' && 'amountUsd' in input && typeof input.amountUsd === 'number') {
+    return `amountUsd → $${input.amountUsd.toFixed(2)}`;
+  }
+  return 'input modified';
+}
+
+/**
+ * One-line summary of an execution: "BLOCKED open_long ETH - reason"
+ */
+export function describeHookExecution(execution: HookExecutionRecord): string {
+  const outcome = execution.proceeded ? (execution.modifiedInput !== undefined ? 'MODIFIED' : 'ok') : 'BLOCKED';
+  const subject = [execution.action, execution.target].filter(Boolean).join(' ');
+  const detail = execution.proceeded ? describeModification(execution) ?? execution.reason : execution.reason;
+
+  return [outcome, subject, detail ? `- ${detail}` : ''].filter(Boolean).join(' ');
+}
@@ -5,18 +5,31 @@
  * - Balance validation
  * - Position limits
  * - Confidence thresholds
+ * - Portfolio VaR and cross-domain exposure limits
+ * - Kelly / volatility-target position sizing
  * - Human approval for high-value trades
+ * - Daily LLM spend budget
  * - Logging and metrics
+ *
+ * Thresholds are read through hookParam() so hooks.yaml can override them
+ * (see config.ts).
  */
 
 import { hookRegistry } from './registry.js';
 import { getDomainBalance, getOpenPositions, getPortfolio, getPerformanceSnapshots } from '../db/index.js';
+import { evaluateDecisionRisk } from '../services/risk-engine.js';
+import { sizeDecision, getSizingConfig } from '../services/position-sizing.js';
+import { getBudgetStatus, getDailyBudgetUsd } from '../services/llm-usage.js';
+import { hookParam } from './config.js';
 import type { HookContext, HookResult } from './types.js';
 
 // Track portfolio peak for drawdown calculation
 let portfolioPeak: number | null = null;
 let lastPeakUpdate: Date | null = null;
 
+// Exits (and rebalances, which move liquidity already deployed) don't spend new capital
+const CLOSE_ACTIONS = ['close_position', 'partial_close', 'remove_liquidity', 'partial_remove', 'rebalance', 'sell', 'partial_sell'];
+
 /**
  * Balance Check Hook
  * Ensures trades don't exceed available balance or position sizing rules
@@ -33,8 +46,7 @@ hookRegistry.register({
     }
 
     // Skip for close/remove actions
-    const closeActions = ['close_position', 'partial_close', 'remove_liquidity', 'partial_remove', 'sell', 'partial_sell'];
-    if (closeActions.includes(decision.action)) {
+    if (CLOSE_ACTIONS.includes(decision.action)) {
       return { proceed: true };
     }
 
@@ -48,12 +60,13 @@ hookRegistry.register({
       };
     }
 
-    // Check position sizing (max 20% of balance)
-    const maxPositionSize = balance * 0.2;
+    // Check position sizing (max 20% of balance by default)
+    const maxPositionPct = hookParam('balance-check', 'maxPositionPct', ctx.domain, 0.2);
+    const maxPositionSize = balance * maxPositionPct;
     if (decision.amountUsd > maxPositionSize) {
       return {
         proceed: false,
-        reason: `Position too large: $${decision.amountUsd.toFixed(2)} exceeds max $${maxPositionSize.toFixed(2)} (20% of balance)`,
+        reason: `Position too large: $${decision.amountUsd.toFixed(2)} exceeds max $${maxPositionSize.toFixed(2)} (${(maxPositionPct * 100).toFixed(0)}% of balance)`,
       };
     }
 
@@ -83,7 +96,7 @@ hookRegistry.register({
     }
 
     const positions = await getOpenPositions(ctx.domain);
-    const maxPositions = parseInt(process.env.MAX_POSITIONS_PER_DOMAIN || '3');
+    const maxPositions = hookParam('position-limit', 'maxPositions', ctx.domain, 3, 'MAX_POSITIONS_PER_DOMAIN');
 
     if (positions.length >= maxPositions) {
       return {
@@ -111,7 +124,7 @@ hookRegistry.register({
       return { proceed: true };
     }
 
-    const threshold = parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.6');
+    const threshold = hookParam('confidence-threshold', 'threshold', ctx.domain, 0.6, 'CONFIDENCE_THRESHOLD');
     const confidence = decision.confidence || 0;
 
     if (confidence < threshold) {
@@ -125,6 +138,66 @@ hookRegistry.register({
   },
 });
 
+/**
+ * Position Sizing Hook
+ * Proposes a size when the agent gave none, and caps (or with
+ * SIZING_ENFORCEMENT=replace, replaces) agent sizes with the Kelly /
+ * vol-target recommendation
+ */
+hookRegistry.register({
+  name: 'position-sizing',
+  event: 'PreDecision',
+  priority: 4, // Before drawdown, risk and balance checks, so they act on the final size
+  enabled: true,
+  hook: async (ctx: HookContext): Promise<HookResult> => {
+    const decision = ctx.decision;
+    if (!decision || decision.action === 'hold') {
+      return { proceed: true };
+    }
+
+    try {
+      const suggestion = await sizeDecision(ctx.domain, decision);
+      if (!suggestion) {
+        return { proceed: true };
+      }
+
+      const metadata = { sizing: suggestion };
+      const minSizeUsd = hookParam('position-sizing', 'minPositionUsd', ctx.domain, 10, 'MIN_POSITION_USD');
+
+      if (suggestion.recommendedUsd < minSizeUsd) {
+        return {
+          proceed: false,
+          reason: `Position sizing: recommended $${suggestion.recommendedUsd.toFixed(2)} below $${minSizeUsd} minimum (${suggestion.rationale.join('; ')})`,
+          metadata,
+        };
+      }
+
+      const { enforcement } = getSizingConfig();
+      const requested = decision.amountUsd;
+      if (requested !== undefined && enforcement === 'cap' && requested <= suggestion.recommendedUsd) {
+        return { proceed: true, metadata };
+      }
+
+      const amountUsd = suggestion.recommendedUsd;
+      const reason = requested === undefined
+        ? `Sized at $${amountUsd.toFixed(2)} (${suggestion.mode})`
+        : `Resized from $${requested.toFixed(2)} to $${amountUsd.toFixed(2)} (${suggestion.mode})`;
+      console.log(`📐 [Sizing] ${reason}`);
+
+      return {
+        proceed: true,
+        reason,
+        modifiedInput: { ...decision, amountUsd },
+        metadata,
+      };
+    } catch (error) {
+      // If sizing fails, keep the agent's size
+      console.warn('[Sizing] Could not size decision:', error);
+      return { proceed: true };
+    }
+  },
+});
+
 /**
  * Global Drawdown Limit Hook
  * Pauses new trades if portfolio drops >15% from peak
@@ -164,7 +237,7 @@ hookRegistry.register({
       // Calculate drawdown
       if (portfolioPeak && currentValue < portfolioPeak) {
         const drawdown = (portfolioPeak - currentValue) / portfolioPeak;
-        const maxDrawdown = parseFloat(process.env.MAX_DRAWDOWN || '0.15'); // 15% default
+        const maxDrawdown = hookParam('global-drawdown-limit', 'maxDrawdown', undefined, 0.15, 'MAX_DRAWDOWN');
 
         if (drawdown > maxDrawdown) {
           console.log(`⚠️ [Drawdown] Portfolio down ${(drawdown * 100).toFixed(1)}% from peak $${portfolioPeak.toFixed(2)}`);
@@ -219,14 +292,14 @@ hookRegistry.register({
 
       if (currentValue < peakValue) {
         const drawdown = (peakValue - currentValue) / peakValue;
-        const domainMaxDrawdown = parseFloat(process.env.DOMAIN_MAX_DRAWDOWN || '0.20'); // 20% default
+        const domainMaxDrawdown = hookParam('domain-drawdown-limit', 'maxDrawdown', ctx.domain, 0.2, 'DOMAIN_MAX_DRAWDOWN');
 
         if (drawdown > domainMaxDrawdown) {
           console.log(`⚠️ [Drawdown] ${ctx.domain.toUpperCase()} down ${(drawdown * 100).toFixed(1)}% from peak`);
 
           // Reduce position size instead of blocking entirely
           if (decision.amountUsd) {
-            const reducedAmount = decision.amountUsd * 0.5;
+            const reducedAmount = decision.amountUsd * hookParam('domain-drawdown-limit', 'sizeMultiplier', ctx.domain, 0.5);
             console.log(`   Reducing position size from $${decision.amountUsd.toFixed(2)} to $${reducedAmount.toFixed(2)}`);
             decision.amountUsd = reducedAmount;
           }
@@ -241,6 +314,65 @@ hookRegistry.register({
   },
 });
 
+/**
+ * Portfolio Risk Hook
+ * Rejects or downsizes trades that push 1-day VaR or net exposure to one
+ * asset (across all domains) past the configured limits
+ */
+hookRegistry.register({
+  name: 'portfolio-risk',
+  event: 'PreDecision',
+  priority: 8, // After drawdown limits, before balance/position checks
+  enabled: true,
+  hook: async (ctx: HookContext): Promise<HookResult> => {
+    const decision = ctx.decision;
+    if (!decision?.amountUsd || decision.action === 'hold') {
+      return { proceed: true };
+    }
+
+    try {
+      const risk = await evaluateDecisionRisk(ctx.domain, decision);
+      if (!risk || risk.allowed) {
+        return { proceed: true };
+      }
+
+      const metadata = {
+        portfolioRisk: {
+          varUsd: risk.after.varUsd,
+          varPct: risk.after.varPct,
+          scale: risk.scale,
+          topExposures: risk.after.exposures.slice(0, 5),
+        },
+      };
+
+      // Downsize if a meaningful fraction fits, otherwise reject
+      const minSizeUsd = hookParam('portfolio-risk', 'minDownsizeUsd', ctx.domain, 10, 'MIN_RISK_DOWNSIZE_USD');
+      const reducedAmount = decision.amountUsd * risk.scale;
+      if (risk.scale < 0.1 || reducedAmount < minSizeUsd) {
+        return {
+          proceed: false,
+          reason: `Portfolio risk limit: ${risk.reason}`,
+          metadata,
+        };
+      }
+
+      console.log(`⚠️ [Risk] ${risk.reason}`);
+      console.log(`   Reducing position size from $${decision.amountUsd.toFixed(2)} to $${reducedAmount.toFixed(2)}`);
+
+      return {
+        proceed: true,
+        reason: `Downsized to $${reducedAmount.toFixed(2)}: ${risk.reason}`,
+        modifiedInput: { ...decision, amountUsd: reducedAmount },
+        metadata,
+      };
+    } catch (error) {
+      // If we can't assess risk, allow the trade but log warning
+      console.warn('[Risk] Could not evaluate portfolio risk:', error);
+      return { proceed: true };
+    }
+  },
+});
+
 /**
  * Human Approval Hook
  * Requires manual approval for high-value trades (real trading only)
@@ -261,7 +393,7 @@ hookRegistry.register({
       return { proceed: true };
     }
 
-    const threshold = parseFloat(process.env.APPROVAL_THRESHOLD_USD || '500');
+    const threshold = hookParam('human-approval', 'thresholdUsd', ctx.domain, 500, 'APPROVAL_THRESHOLD_USD');
 
     if (decision.amountUsd <= threshold) {
       return { proceed: true };
@@ -277,6 +409,60 @@ hookRegistry.register({
   },
 });
 
+/**
+ * Whether today's LLM spend is within the daily budget
+ */
+async function checkLlmBudget(): Promise<HookResult> {
+  if (getDailyBudgetUsd() <= 0) {
+    return { proceed: true };
+  }
+
+  try {
+    const { spentUsd, budgetUsd, exceeded } = await getBudgetStatus();
+    if (exceeded) {
+      return {
+        proceed: false,
+        reason: `Daily LLM budget spent ($${spentUsd.toFixed(2)} of $${budgetUsd.toFixed(2)}). Resumes at 00:00 UTC.`,
+      };
+    }
+  } catch (error) {
+    // If we can't read spend, don't stop trading over it
+    console.warn('[LlmBudget] Could not check LLM spend:', error);
+  }
+  return { proceed: true };
+}
+
+/**
+ * LLM Budget Hook
+ * Skips agent sessions once the day's model spend exceeds the budget
+ */
+hookRegistry.register({
+  name: 'llm-budget',
+  event: 'SessionStart',
+  priority: 1,
+  enabled: true,
+  hook: async (): Promise<HookResult> => checkLlmBudget(),
+});
+
+/**
+ * LLM Budget Decision Hook
+ * Blocks decisions made after the budget ran out, so they don't go on to
+ * spend more on judging and reflection. Exits always go through, so an
+ * exhausted budget never traps a position.
+ */
+hookRegistry.register({
+  name: 'llm-budget-decision',
+  event: 'PreDecision',
+  priority: 1,
+  enabled: true,
+  hook: async (ctx: HookContext): Promise<HookResult> => {
+    if (!ctx.decision || ctx.decision.action === 'hold' || CLOSE_ACTIONS.includes(ctx.decision.action)) {
+      return { proceed: true };
+    }
+    return checkLlmBudget();
+  },
+});
+
 /**
  * Decision Logger Hook
  * Logs all decisions for auditing
@@ -367,10 +553,14 @@ hookRegistry.register({
 export const BUILT_IN_HOOKS = [
   'global-drawdown-limit',
   'domain-drawdown-limit',
+  'portfolio-risk',
   'balance-check',
   'position-limit',
   'confidence-threshold',
+  'position-sizing',
   'human-approval',
+  'llm-budget',
+  'llm-budget-decision',
   'decision-logger',
   'session-start-logger',
   'session-end-logger',
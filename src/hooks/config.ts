@@ -0,0 +1,283 @@
+/**
+ * Hook Configuration File
+ *
+ * Enables/disables hooks, sets their parameters and defines declarative
+ * rules from hooks.yaml (or hooks.yml / hooks.json, or HOOKS_CONFIG):
+ *
+ *   hooks:
+ *     human-approval:
+ *       enabled: false
+ *     confidence-threshold:
+ *       threshold: 0.6
+ *       domains:
+ *         perps: { threshold: 0.7 }
+ *   rules:
+ *     - name: no-high-leverage-in-fear
+ *       domains: [perps]
+ *       when: ["leverage > 5", "fearGreed < 20"]
+ *       reason: Leverage above 5x during extreme fear
+ *
+ * Parameters fall back to their environment variables, then to defaults.
+ * The file is watched while the Ralph Loop runs; an invalid edit is
+ * reported and the previous config stays in effect.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { Domain } from '../types/index.js';
+import { hookRegistry } from './registry.js';
+import { createRuleHook, parseCondition, RULE_HOOK_PREFIX, type HookRule } from './rules.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type HookParams = Record<string, number | string | boolean>;
+
+export interface HookSettings {
+  enabled?: boolean;
+  params: HookParams;
+  domains: Partial<Record<Domain, HookParams>>;
+}
+
+export interface HookConfig {
+  hooks: Record<string, HookSettings>;
+  rules: HookRule[];
+}
+
+const DOMAINS: Domain[] = ['dlmm', 'perps', 'polymarket', 'spot'];
+
+const CONFIG_FILES = ['hooks.yaml', 'hooks.yml', 'hooks.json'];
+
+const WATCH_INTERVAL_MS = 2000;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseParams(raw: Record<string, unknown>, where: string): HookParams {
+  const params: HookParams = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'boolean') {
+      throw new Error(`${where}.${key} must be a number, string or boolean`);
+    }
+    params[key] = value;
+  }
+  return params;
+}
+
+function parseDomains(raw: unknown, where: string): Domain[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || raw.some(d => !DOMAINS.includes(d))) {
+    throw new Error(`${where} must be a list of domains (${DOMAINS.join(', ')})`);
+  }
+  return raw as Domain[];
+}
+
+function parseRule(raw: unknown, index: number): HookRule {
+  const where = `rules[${index}]`;
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+  if (typeof raw.name !== 'string' || !raw.name) throw new Error(`${where}.name is required`);
+
+  const when = Array.isArray(raw.when) ? raw.when : [raw.when];
+  if (when.length === 0 || when.some(c => typeof c !== 'string')) {
+    throw new Error(`${where}.when must be a condition or list of conditions`);
+  }
+
+  const action = raw.action ?? 'block';
+  if (action !== 'block' && action !== 'scale') {
+    throw new Error(`${where}.action must be "block" or "scale"`);
+  }
+  if (raw.scale !== undefined && (typeof raw.scale !== 'number' || raw.scale < 0)) {
+    throw new Error(`${where}.scale must be a non-negative number`);
+  }
+
+  return {
+    name: raw.name,
+    domains: parseDomains(raw.domains, `${where}.domains`),
+    when: (when as string[]).map(parseCondition),
+    action,
+    scale: raw.scale as number | undefined,
+    reason: typeof raw.reason === 'string' ? raw.reason : undefined,
+    priority: typeof raw.priority === 'number' ? raw.priority : undefined,
+  };
+}
+
+/**
+ * Validate a parsed config file. Throws with the first problem found.
+ */
+export function parseHookConfig(raw: unknown): HookConfig {
+  if (raw === null || raw === undefined) return { hooks: {}, rules: [] };
+  if (!isObject(raw)) throw new Error('Hook config must be an object');
+
+  const hooks: Record<string, HookSettings> = {};
+  if (raw.hooks !== undefined) {
+    if (!isObject(raw.hooks)) throw new Error('hooks must be a map of hook name to settings');
+
+    for (const [name, settings] of Object.entries(raw.hooks)) {
+      if (settings === null) {
+        hooks[name] = { params: {}, domains: {} };
+        continue;
+      }
+      if (!isObject(settings)) throw new Error(`hooks.${name} must be an object`);
+
+      const { enabled, domains, ...params } = settings;
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        throw new Error(`hooks.${name}.enabled must be true or false`);
+      }
+
+      const overrides: Partial<Record<Domain, HookParams>> = {};
+      if (domains !== undefined) {
+        if (!isObject(domains)) throw new Error(`hooks.${name}.domains must map domain to params`);
+        for (const [domain, domainParams] of Object.entries(domains)) {
+          if (!DOMAINS.includes(domain as Domain) || !isObject(domainParams)) {
+            throw new Error(`hooks.${name}.domains.${domain} must be a known domain with params`);
+          }
+          overrides[domain as Domain] = parseParams(domainParams, `hooks.${name}.domains.${domain}`);
+        }
+      }
+
+      hooks[name] = { enabled, params: parseParams(params, `hooks.${name}`), domains: overrides };
+    }
+  }
+
+  if (raw.rules !== undefined && !Array.isArray(raw.rules)) throw new Error('rules must be a list');
+  const rules = ((raw.rules as unknown[] | undefined) ?? []).map(parseRule);
+  const names = new Set<string>();
+  for (const rule of rules) {
+    if (names.has(rule.name)) throw new Error(`Duplicate rule name "${rule.name}"`);
+    names.add(rule.name);
+  }
+
+  return { hooks, rules };
+}
+
+// =============================================================================
+// CURRENT CONFIG
+// =============================================================================
+
+let currentConfig: HookConfig = { hooks: {}, rules: [] };
+const defaultEnabled = new Map<string, boolean>();
+
+/**
+ * A hook parameter: per-domain override, then hook-wide value, then the
+ * environment variable, then the default
+ */
+export function hookParam(hook: string, key: string, domain: Domain | undefined, fallback: number, envVar?: string): number {
+  const settings = currentConfig.hooks[hook];
+  const value = (domain ? settings?.domains[domain]?.[key] : undefined) ?? settings?.params[key];
+  if (value !== undefined) {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+
+  if (envVar && process.env[envVar] !== undefined) {
+    const parsed = parseFloat(process.env[envVar]!);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return fallback;
+}
+
+export function getHookConfig(): HookConfig {
+  return currentConfig;
+}
+
+/**
+ * Make a config current: set enabled flags and replace the rule hooks.
+ * Hooks the previous config switched off go back to their default.
+ */
+export function applyHookConfig(config: HookConfig): void {
+  for (const entry of hookRegistry.getHooks()) {
+    if (entry.name.startsWith(RULE_HOOK_PREFIX)) {
+      hookRegistry.unregister(entry.name);
+      continue;
+    }
+    if (!defaultEnabled.has(entry.name)) defaultEnabled.set(entry.name, entry.enabled);
+
+    const wanted = config.hooks[entry.name]?.enabled ?? defaultEnabled.get(entry.name)!;
+    if (entry.enabled !== wanted) hookRegistry.setEnabled(entry.name, wanted);
+  }
+
+  for (const name of Object.keys(config.hooks)) {
+    if (!hookRegistry.getHooks().some(h => h.name === name)) {
+      console.warn(`[HookConfig] Unknown hook "${name}" in config`);
+    }
+  }
+
+  for (const rule of config.rules) {
+    hookRegistry.register(createRuleHook(rule));
+  }
+
+  currentConfig = config;
+}
+
+// =============================================================================
+// FILE LOADING
+// =============================================================================
+
+/**
+ * HOOKS_CONFIG, or the first of hooks.yaml / hooks.yml / hooks.json in the
+ * working directory (hooks.yaml if none exist yet)
+ */
+export function resolveHookConfigPath(): string {
+  if (process.env.HOOKS_CONFIG) return path.resolve(process.env.HOOKS_CONFIG);
+  const candidates = CONFIG_FILES.map(file => path.resolve(file));
+  return candidates.find(file => fs.existsSync(file)) ?? candidates[0];
+}
+
+/**
+ * Load and apply the config file. Returns false (keeping the current
+ * config) if the file is invalid; a missing file means no overrides.
+ */
+export function loadHookConfig(file: string = resolveHookConfigPath()): boolean {
+  let config: HookConfig;
+  try {
+    if (!fs.existsSync(file)) {
+      config = { hooks: {}, rules: [] };
+    } else {
+      const text = fs.readFileSync(file, 'utf-8');
+      config = parseHookConfig(file.endsWith('.json') ? JSON.parse(text) : parseYaml(text));
+    }
+  } catch (error) {
+    console.warn(`[HookConfig] Ignoring invalid ${path.basename(file)}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+
+  applyHookConfig(config);
+  if (fs.existsSync(file)) {
+    console.log(`[HookConfig] Loaded ${path.basename(file)} (${Object.keys(config.hooks).length} hooks, ${config.rules.length} rules)`);
+  }
+  return true;
+}
+
+let watchedFile: string | null = null;
+
+/**
+ * Load the config file and reload it whenever it changes
+ */
+export function startHookConfigWatcher(file: string = resolveHookConfigPath()): void {
+  loadHookConfig(file);
+  if (watchedFile) return;
+
+  watchedFile = file;
+  fs.watchFile(file, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    console.log(`[HookConfig] ${path.basename(file)} changed, reloading`);
+    loadHookConfig(file);
+  });
+}
+
+/**
+ * Stop watching the config file
+ */
+export function stopHookConfigWatcher(): void {
+  if (watchedFile) {
+    fs.unwatchFile(watchedFile);
+    watchedFile = null;
+  }
+}
@@ -34,11 +34,25 @@ export type {
   Hook,
   HookEntry,
   HookExecutionSummary,
+  HookExecutionSink,
 } from './types.js';
 
 // Registry (singleton)
 export { hookRegistry } from './registry.js';
 
+// Config file (hooks.yaml) and declarative rules
+export {
+  hookParam,
+  loadHookConfig,
+  startHookConfigWatcher,
+  stopHookConfigWatcher,
+  type HookConfig,
+} from './config.js';
+export type { HookRule, RuleCondition } from './rules.js';
+
+// Persisted audit log
+export { enableHookAudit, disableHookAudit, describeHookExecution } from './audit.js';
+
 // Built-in hooks (auto-registered on import)
 export { BUILT_IN_HOOKS } from './built-in.js';
 
@@ -5,13 +5,15 @@
  * Hooks are run in priority order (lower priority = runs first).
  */
 
-import type { HookEvent, Hook, HookContext, HookResult, HookEntry, HookExecutionSummary } from './types.js';
-import type { Domain } from '../types/index.js';
+import type { HookEvent, Hook, HookContext, HookResult, HookEntry, HookExecutionSummary, HookExecutionSink } from './types.js';
+import type { AgentDecision, Domain } from '../types/index.js';
 
 class HookRegistry {
   private hooks: HookEntry[] = [];
   private executionLog: HookExecutionSummary[] = [];
   private maxLogSize = 100;
+  private executionSink: HookExecutionSink | null = null;
+  private sinkFailing = false;
 
   /**
    * Register a new hook
@@ -57,7 +59,9 @@ class HookRegistry {
 
   /**
    * Run all applicable hooks for an event
-   * Returns a combined result - proceeds only if ALL hooks proceed
+   * Returns a combined result - proceeds only if ALL hooks proceed.
+   * For PreDecision, modifiedInput is a replacement decision and later hooks
+   * see it as ctx.decision.
    */
   async run(event: HookEvent, ctx: HookContext): Promise<HookResult> {
     const applicable = this.hooks
@@ -69,22 +73,25 @@ class HookRegistry {
     }
 
     let currentInput = ctx.toolInput;
+    let currentDecision = ctx.decision;
     let combinedMetadata: Record<string, unknown> = {};
 
     for (const entry of applicable) {
       const start = Date.now();
       try {
-        const contextWithInput = { ...ctx, toolInput: currentInput };
+        const contextWithInput = { ...ctx, toolInput: currentInput, decision: currentDecision };
         const result = await entry.hook(contextWithInput);
         const durationMs = Date.now() - start;
 
         // Log execution
         this.logExecution({
+          ...this.describeContext(contextWithInput),
           hookName: entry.name,
           event,
           domain: ctx.domain,
           proceeded: result.proceed,
           reason: result.reason,
+          modifiedInput: result.modifiedInput,
           durationMs,
           timestamp: new Date(),
         });
@@ -98,6 +105,9 @@ class HookRegistry {
         // Accumulate modifications
         if (result.modifiedInput !== undefined) {
           currentInput = result.modifiedInput;
+          if (event === 'PreDecision' && currentDecision) {
+            currentDecision = result.modifiedInput as AgentDecision;
+          }
         }
         if (result.metadata) {
           combinedMetadata = { ...combinedMetadata, ...result.metadata };
@@ -106,6 +116,7 @@ class HookRegistry {
         const durationMs = Date.now() - start;
         console.error(`[Hooks] Error in ${entry.name}:`, error);
         this.logExecution({
+          ...this.describeContext({ ...ctx, decision: currentDecision }),
           hookName: entry.name,
           event,
           domain: ctx.domain,
@@ -147,6 +158,15 @@ class HookRegistry {
     return this.executionLog.slice(-limit);
   }
 
+  /**
+   * Send every execution to a sink as well as the in-memory log
+   * (the Ralph Loop persists them - see audit.ts). Pass null to stop.
+   */
+  setExecutionSink(sink: HookExecutionSink | null): void {
+    this.executionSink = sink;
+    this.sinkFailing = false;
+  }
+
   /**
    * Clear all hooks (for testing)
    */
@@ -155,11 +175,33 @@ class HookRegistry {
     this.executionLog = [];
   }
 
+  private describeContext(ctx: HookContext): Pick<HookExecutionSummary, 'action' | 'target' | 'decisionId' | 'sessionId'> {
+    return {
+      action: ctx.decision?.action,
+      target: ctx.decision?.target,
+      decisionId: ctx.decision?.metadata?.decisionId as string | undefined,
+      sessionId: ctx.sessionId,
+    };
+  }
+
   private logExecution(summary: HookExecutionSummary): void {
     this.executionLog.push(summary);
     if (this.executionLog.length > this.maxLogSize) {
       this.executionLog.shift();
     }
+
+    if (this.executionSink) {
+      // Don't hold up the decision; warn once until the sink recovers
+      this.executionSink(summary).then(
+        () => { this.sinkFailing = false; },
+        (error) => {
+          if (!this.sinkFailing) {
+            console.warn('[Hooks] Failed to record hook execution:', error instanceof Error ? error.message : error);
+          }
+          this.sinkFailing = true;
+        }
+      );
+    }
   }
 }
 
@@ -0,0 +1,206 @@
+/**
+ * Declarative Hook Rules
+ *
+ * Simple PreDecision guards defined in the hook config file instead of code:
+ *
+ *   - name: no-high-leverage-in-fear
+ *     domains: [perps]
+ *     when: ["leverage > 5", "fearGreed < 20"]
+ *     action: block
+ *     reason: Leverage above 5x during extreme fear
+ *
+ * Every condition must hold for the rule to fire. Conditions compare a fact
+ * about the decision or market with a number or string.
+ */
+
+import type { AgentDecision, Domain } from '../types/index.js';
+import type { HookEntry, HookResult } from './types.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export interface RuleCondition {
+  field: string;
+  op: RuleOperator;
+  value: number | string;
+}
+
+export interface HookRule {
+  name: string;
+  domains?: Domain[];
+  when: RuleCondition[];
+  action: 'block' | 'scale';
+  scale?: number;              // For 'scale': multiplier applied to amountUsd
+  reason?: string;
+  priority?: number;
+}
+
+/**
+ * Facts a condition can reference. Anything else is read from the
+ * decision's metadata (`metadata.<key>` or just `<key>`).
+ */
+export type RuleFacts = Record<string, number | string | undefined>;
+
+/**
+ * Rules run after position sizing (4) and the drawdown limits (5/6), so
+ * they see the final size, and before the balance and position checks
+ */
+export const DEFAULT_RULE_PRIORITY = 9;
+
+export const RULE_HOOK_PREFIX = 'rule:';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const CONDITION_PATTERN = /^\s*([\w.]+)\s*(>=|<=|==|!=|>|<)\s*(.+?)\s*$/;
+
+/**
+ * Parse "leverage > 5" into a condition
+ */
+export function parseCondition(text: string): RuleCondition {
+  const match = CONDITION_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid condition "${text}" - expected "<field> <op> <value>"`);
+  }
+
+  const [, field, op, rawValue] = match;
+  const unquoted = rawValue.replace(/^['"](.*)['"]$/, '$1');
+  const numeric = Number(unquoted);
+  return {
+    field,
+    op: op as RuleOperator,
+    value: unquoted === rawValue && Number.isFinite(numeric) ? numeric : unquoted,
+  };
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Facts available to rules without a market lookup
+ */
+export function decisionFacts(domain: Domain, decision: AgentDecision): RuleFacts {
+  const facts: RuleFacts = {
+    domain,
+    action: decision.action,
+    target: decision.target,
+    amountUsd: decision.amountUsd,
+    confidence: decision.confidence,
+  };
+
+  for (const [key, value] of Object.entries(decision.metadata ?? {})) {
+    if (typeof value === 'number' || typeof value === 'string') {
+      facts[`metadata.${key}`] = value;
+      facts[key] ??= value;
+    }
+  }
+
+  // Leverage is a string in some tool inputs ("5x")
+  if (typeof facts.leverage === 'string') {
+    facts.leverage = parseFloat(facts.leverage) || undefined;
+  }
+  return facts;
+}
+
+/**
+ * Whether a condition holds. Missing facts never match.
+ */
+export function conditionHolds(condition: RuleCondition, facts: RuleFacts): boolean {
+  const actual = facts[condition.field];
+  if (actual === undefined) return false;
+
+  const expected = condition.value;
+  if (typeof expected === 'number') {
+    const value = typeof actual === 'number' ? actual : Number(actual);
+    if (!Number.isFinite(value)) return false;
+    switch (condition.op) {
+      case '>': return value > expected;
+      case '>=': return value >= expected;
+      case '<': return value < expected;
+      case '<=': return value <= expected;
+      case '==': return value === expected;
+      case '!=': return value !== expected;
+    }
+  }
+
+  switch (condition.op) {
+    case '==': return String(actual) === expected;
+    case '!=': return String(actual) !== expected;
+    default: return false;
+  }
+}
+
+/**
+ * Apply a rule to a decision (pure). Returns null when the rule doesn't fire.
+ */
+export function evaluateRule(rule: HookRule, decision: AgentDecision, facts: RuleFacts): HookResult | null {
+  if (!rule.when.every(condition => conditionHolds(condition, facts))) return null;
+
+  const reason = rule.reason ?? `Rule ${rule.name}: ${rule.when.map(c => `${c.field} ${c.op} ${c.value}`).join(' and ')}`;
+  if (rule.action === 'scale' && decision.amountUsd) {
+    return {
+      proceed: true,
+      reason,
+      modifiedInput: { ...decision, amountUsd: decision.amountUsd * (rule.scale ?? 0.5) },
+    };
+  }
+  return rule.action === 'block' ? { proceed: false, reason } : null;
+}
+
+// =============================================================================
+// MARKET FACTS
+// =============================================================================
+
+const FEAR_GREED_TTL_MS = 15 * 60 * 1000;
+let fearGreedCache: { value: number; at: number } | null = null;
+
+async function getFearGreed(): Promise<number | undefined> {
+  if (fearGreedCache && Date.now() - fearGreedCache.at < FEAR_GREED_TTL_MS) {
+    return fearGreedCache.value;
+  }
+  try {
+    const { fetchFearGreedIndex } = await import('../subagents/portfolio-coordinator.js');
+    fearGreedCache = { value: await fetchFearGreedIndex(), at: Date.now() };
+    return fearGreedCache.value;
+  } catch (error) {
+    console.warn('[HookRules] Could not fetch Fear & Greed index:', error);
+    return undefined;
+  }
+}
+
+// =============================================================================
+// HOOKS
+// =============================================================================
+
+/**
+ * Wrap a rule as a PreDecision hook
+ */
+export function createRuleHook(rule: HookRule): HookEntry {
+  const needsFearGreed = rule.when.some(c => c.field === 'fearGreed');
+
+  return {
+    name: `${RULE_HOOK_PREFIX}${rule.name}`,
+    event: 'PreDecision',
+    priority: rule.priority ?? DEFAULT_RULE_PRIORITY,
+    domains: rule.domains,
+    enabled: true,
+    hook: async (ctx) => {
+      const decision = ctx.decision;
+      if (!decision || decision.action === 'hold') {
+        return { proceed: true };
+      }
+
+      const facts = decisionFacts(ctx.domain, decision);
+      if (needsFearGreed) {
+        facts.fearGreed = await getFearGreed();
+      }
+
+      return evaluateRule(rule, decision, facts) ?? { proceed: true };
+    },
+  };
+}
@@ -42,7 +42,7 @@ export interface HookResult {
   proceed: boolean;
   /** Reason for blocking (if proceed is false) */
   reason?: string;
-  /** Modified input to use instead (optional) */
+  /** Modified input to use instead (optional). For PreDecision, a replacement AgentDecision. */
   modifiedInput?: unknown;
   /** Additional metadata to attach */
   metadata?: Record<string, unknown>;
@@ -80,6 +80,18 @@ export interface HookExecutionSummary {
   domain: Domain;
   proceeded: boolean;
   reason?: string;
+  /** Replacement input, when the hook returned one */
+  modifiedInput?: unknown;
+  /** Decision being checked, if any */
+  action?: string;
+  target?: string;
+  decisionId?: string;
+  sessionId?: string;
   durationMs: number;
   timestamp: Date;
 }
+
+/**
+ * Receives every hook execution (e.g. to persist it)
+ */
+export type HookExecutionSink = (summary: HookExecutionSummary) => Promise<void>;
@@ -13,6 +13,18 @@ export {
   type RetryConfig,
 } from './resilient-fetch.js';
 
+export {
+  MarketArchive,
+  getMarketArchive,
+  getDataSource,
+  setDataSource,
+  parseDataSource,
+  getRequestKey,
+  type ArchiveEntry,
+  type DataSourceConfig,
+  type DataSourceMode,
+} from './market-archive.js';
+
 export {
   RateLimitTracker,
   globalRateLimitTracker,
@@ -0,0 +1,256 @@
+/**
+ * Market Archive
+ *
+ * Records every market-data HTTP response to a compressed on-disk archive
+ * and serves them back for deterministic offline runs.
+ *
+ * Selected with DATA_SOURCE:
+ *   live (default)   - normal HTTP
+ *   record:/path     - HTTP, plus every successful response is archived
+ *   replay:/path     - no HTTP, responses come from the archive
+ *
+ * Structure:
+ * /path/
+ *   2025-01-07T14.jsonl.gz   (one gzip member per response, bucketed by hour)
+ *   2025-01-07T15.jsonl.gz
+ *
+ * Each line is an ArchiveEntry. In replay, a request resolves to the latest
+ * entry recorded at or before the replay clock (or the latest overall when
+ * no clock is set), so stepping the clock walks through history.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gzipSync, gunzipSync } from 'zlib';
+
+export type DataSourceMode = 'live' | 'record' | 'replay';
+
+export interface DataSourceConfig {
+  mode: DataSourceMode;
+  path?: string;
+}
+
+/**
+ * A single recorded response
+ */
+export interface ArchiveEntry {
+  timestamp: string;
+  key: string;
+  method: string;
+  url: string;
+  body?: string;
+  data: unknown;
+}
+
+/**
+ * Parse a DATA_SOURCE value (e.g. "replay:./data/archive")
+ */
+export function parseDataSource(value: string | undefined): DataSourceConfig {
+  if (!value || value === 'live') {
+    return { mode: 'live' };
+  }
+
+  const separator = value.indexOf(':');
+  const mode = separator === -1 ? value : value.slice(0, separator);
+  const archivePath = separator === -1 ? '' : value.slice(separator + 1);
+
+  if ((mode === 'record' || mode === 'replay') && archivePath) {
+    return { mode, path: path.resolve(archivePath) };
+  }
+
+  console.warn(`[MarketArchive] Invalid DATA_SOURCE "${value}", falling back to live`);
+  return { mode: 'live' };
+}
+
+/**
+ * Build the lookup key for a request (method + url + body)
+ */
+export function getRequestKey(url: string, init?: RequestInit): string {
+  const method = (init?.method || 'GET').toUpperCase();
+  const body = typeof init?.body === 'string' ? init.body : '';
+  return body ? `${method} ${url} ${body}` : `${method} ${url}`;
+}
+
+export class MarketArchive {
+  private readonly dir: string;
+  private entries = new Map<string, ArchiveEntry[]>();
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private clock: Date | null = null;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Append a response to the archive (writes are serialized).
+   * Entries go straight to disk; the in-memory index is only built for lookups.
+   */
+  record(url: string, init: RequestInit | undefined, data: unknown, at: Date = new Date()): Promise<void> {
+    const entry: ArchiveEntry = {
+      timestamp: at.toISOString(),
+      key: getRequestKey(url, init),
+      method: (init?.method || 'GET').toUpperCase(),
+      url,
+      body: typeof init?.body === 'string' ? init.body : undefined,
+      data,
+    };
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(this.dir, { recursive: true });
+        const filePath = path.join(this.dir, `${entry.timestamp.slice(0, 13)}.jsonl.gz`);
+        await fs.appendFile(filePath, gzipSync(JSON.stringify(entry) + '\n'));
+      })
+      .catch(error => {
+        console.error('[MarketArchive] Failed to record response:', error);
+      });
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Find the recorded response for a request at the replay clock
+   */
+  async lookup<T>(url: string, init?: RequestInit): Promise<T | undefined> {
+    await this.load();
+
+    const candidates = this.entries.get(getRequestKey(url, init));
+    if (!candidates || candidates.length === 0) return undefined;
+
+    if (!this.clock) {
+      return candidates[candidates.length - 1].data as T;
+    }
+
+    const cutoff = this.clock.toISOString();
+    let match: ArchiveEntry | undefined;
+    for (const entry of candidates) {
+      if (entry.timestamp > cutoff) break;
+      match = entry;
+    }
+    return match?.data as T | undefined;
+  }
+
+  /**
+   * Set the replay clock (null = always serve the latest recording)
+   */
+  setClock(at: Date | null): void {
+    this.clock = at;
+  }
+
+  getClock(): Date | null {
+    return this.clock;
+  }
+
+  /**
+   * First and last recorded timestamps
+   */
+  async getTimeRange(): Promise<{ start: Date; end: Date } | null> {
+    await this.load();
+
+    let start: string | undefined;
+    let end: string | undefined;
+    for (const list of this.entries.values()) {
+      const first = list[0].timestamp;
+      const last = list[list.length - 1].timestamp;
+      if (!start || first < start) start = first;
+      if (!end || last > end) end = last;
+    }
+
+    return start && end ? { start: new Date(start), end: new Date(end) } : null;
+  }
+
+  /**
+   * Wait for pending writes to hit disk
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Read every archive file into the in-memory index (once)
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    await this.writeQueue;
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter(f => f.endsWith('.jsonl.gz')).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      console.warn(`[MarketArchive] No archive found at ${this.dir}`);
+      return;
+    }
+
+    for (const file of files) {
+      const content = gunzipSync(await fs.readFile(path.join(this.dir, file))).toString('utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.index(JSON.parse(line));
+        } catch (parseError) {
+          console.error(`[MarketArchive] Failed to parse line in ${file}`, parseError);
+        }
+      }
+    }
+  }
+
+  private index(entry: ArchiveEntry): void {
+    const list = this.entries.get(entry.key) ?? [];
+    list.push(entry);
+    if (list.length > 1 && list[list.length - 2].timestamp > entry.timestamp) {
+      list.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+    this.entries.set(entry.key, list);
+  }
+}
+
+// =============================================================================
+// ACTIVE DATA SOURCE
+// =============================================================================
+
+let activeConfig: DataSourceConfig | null = null;
+let activeArchive: MarketArchive | null = null;
+
+/**
+ * Current data source (from DATA_SOURCE unless overridden)
+ */
+export function getDataSource(): DataSourceConfig {
+  if (!activeConfig) {
+    activeConfig = parseDataSource(process.env.DATA_SOURCE);
+    if (activeConfig.mode !== 'live') {
+      console.log(`[MarketArchive] ${activeConfig.mode.toUpperCase()} mode: ${activeConfig.path}`);
+    }
+  }
+  return activeConfig;
+}
+
+/**
+ * Archive for the current data source (null when live)
+ */
+export function getMarketArchive(): MarketArchive | null {
+  const config = getDataSource();
+  if (config.mode === 'live' || !config.path) return null;
+
+  if (!activeArchive) {
+    activeArchive = new MarketArchive(config.path);
+  }
+  return activeArchive;
+}
+
+/**
+ * Switch data source at runtime (replay tooling, tests)
+ */
+export function setDataSource(config: DataSourceConfig | string): void {
+  activeConfig = typeof config === 'string' ? parseDataSource(config) : config;
+  activeArchive = null;
+}
@@ -13,6 +13,7 @@ import {
   getModelChain,
   type ModelFallbackConfig,
 } from '../config/models.js';
+import { recordLlmUsage, type UsageTags } from '../services/llm-usage.js';
 
 /**
  * Track model cooldowns and failure state
@@ -61,9 +62,12 @@ export class ModelExecutor {
    *
    * Tries each model in the chain until one succeeds. On retryable errors,
    * puts the model in cooldown and tries the next. On non-retryable errors,
-   * throws immediately.
+   * throws immediately. Successful calls are recorded in the usage ledger.
    */
-  async execute(params: Omit<MessageCreateParamsNonStreaming, 'model'>): Promise<ModelExecutionResult> {
+  async execute(
+    params: Omit<MessageCreateParamsNonStreaming, 'model'>,
+    usageTags: UsageTags = { purpose: 'other' }
+  ): Promise<ModelExecutionResult> {
     const models = getModelChain(this.config);
     let lastError: Error | null = null;
 
@@ -87,6 +91,7 @@ export class ModelExecutor {
         // Success - record it and return
         this.recordSuccess(model);
         console.log(`  [ModelExecutor] Success with ${model}`);
+        await recordLlmUsage(model, message, usageTags);
 
         return { message, modelUsed: model };
       } catch (error) {
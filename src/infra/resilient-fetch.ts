@@ -7,8 +7,11 @@
  * - 429 rate limit handling with Retry-After parsing
  * - Timeout via AbortController
  * - Error classification (retryable vs permanent)
+ * - Record/replay via the market archive (DATA_SOURCE)
  */
 
+import { getDataSource, getMarketArchive, getRequestKey } from './market-archive.js';
+
 /**
  * Configuration for retry behavior
  */
@@ -241,6 +244,25 @@ export async function resilientFetch<T>(
   const mergedConfig: RetryConfig = { ...DEFAULT_CONFIG, ...config };
   const shouldRetry = mergedConfig.retryOn ?? defaultShouldRetry;
 
+  // Replay mode - serve from the archive, never touch the network.
+  // Misses look like a 404 so clients fall back the same way they do live.
+  const archive = getMarketArchive();
+  const dataSource = getDataSource();
+  if (archive && dataSource.mode === 'replay') {
+    const recorded = await archive.lookup<T>(url, options);
+    if (recorded === undefined) {
+      throw new ResilientFetchError(
+        `No recorded response for ${getRequestKey(url, options)}`,
+        url,
+        0,
+        new Error('Replay miss'),
+        new Response(null, { status: 404, statusText: 'Not Recorded' }),
+        false
+      );
+    }
+    return recorded;
+  }
+
   let lastError: Error = new Error('No attempts made');
   let lastResponse: Response | undefined;
 
@@ -262,7 +284,11 @@ export async function resilientFetch<T>(
 
       // Check if response is successful
       if (response.ok) {
-        return (await response.json()) as T;
+        const data = (await response.json()) as T;
+        if (archive && dataSource.mode === 'record') {
+          void archive.record(url, options, data);
+        }
+        return data;
       }
 
       // Response not OK - create error for retry logic
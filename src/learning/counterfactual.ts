@@ -0,0 +1,356 @@
+/**
+ * Counterfactual Evaluation
+ *
+ * Decisions that never execute - holds, hook blocks, inline judge rejections -
+ * normally leave no outcome behind, so the judge only ever learns from trades
+ * it let through. This module records the trade each of them would have
+ * opened, marks it to market after a horizon, and stores what it would have
+ * made on the decision's DecisionEvaluation:
+ * - a profitable counterfactual means we were too conservative
+ * - a losing one means the hold or the hook saved money
+ *
+ * The loop tracks holds, hook blocks and inline judge rejections
+ * (reasons 'hold', 'hook_blocked' and 'inline_judge').
+ */
+
+import { prisma } from '../db/prisma.js';
+import type { AgentDecision, Domain, Position } from '../types/index.js';
+import type { VenueQuote } from '../venues/types.js';
+import { venueRegistry } from '../venues/index.js';
+import { polymarketOrderSide } from '../execution/polymarket-executor.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CounterfactualReason = 'hold' | 'hook_blocked' | 'inline_judge';
+
+export interface CounterfactualResult {
+  decisionId: string;
+  domain: Domain;
+  target: string;
+  reason: CounterfactualReason;
+  pnlPercent: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Hours after the decision at which the hypothetical trade is marked
+ */
+export const COUNTERFACTUAL_HORIZON_HOURS = Number(process.env.COUNTERFACTUAL_HORIZON_HOURS) || 24;
+
+/**
+ * Notional for holds that didn't size a trade
+ */
+const DEFAULT_AMOUNT_USD = 100;
+
+/**
+ * How often the tracker looks for due counterfactuals
+ */
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Counterfactuals still unpriced this long after their horizon are dropped
+ */
+const EXPIRE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Opening action per domain, for decisions that name a target but not a trade
+ */
+const OPENING_ACTIONS: Record<Domain, string[]> = {
+  dlmm: ['add_liquidity'],
+  perps: ['open_long', 'open_short'],
+  polymarket: ['buy_yes', 'buy_no', 'buy'],
+  spot: ['buy'],
+};
+
+// =============================================================================
+// HYPOTHETICAL TRADES
+// =============================================================================
+
+/**
+ * The opening trade a non-executed decision stands for, or null when there is
+ * nothing to open (closes, holds without a target)
+ */
+export function hypotheticalTrade(domain: Domain, decision: AgentDecision): AgentDecision | null {
+  if (!decision.target) return null;
+
+  const amountUsd = decision.amountUsd && decision.amountUsd > 0 ? decision.amountUsd : DEFAULT_AMOUNT_USD;
+  if (OPENING_ACTIONS[domain].includes(decision.action)) {
+    return { ...decision, domain, amountUsd };
+  }
+  if (decision.action !== 'hold') return null;
+
+  const short = String(decision.metadata?.side ?? '').toUpperCase() === 'SHORT';
+  const no = String(decision.metadata?.outcome ?? '').toUpperCase() === 'NO';
+  const action = domain === 'perps' && short
+    ? 'open_short'
+    : domain === 'polymarket' && no
+      ? 'buy_no'
+      : OPENING_ACTIONS[domain][0];
+  return { ...decision, domain, action, amountUsd };
+}
+
+/**
+ * Position metadata the domain's venue needs to value the hypothetical trade.
+ * Null when the quote has no usable price.
+ */
+export function counterfactualMetadata(
+  domain: Domain,
+  trade: AgentDecision,
+  quote: VenueQuote
+): Record<string, unknown> | null {
+  const base = { venue: quote.venue, counterfactual: true };
+  if (domain === 'dlmm') return base;
+  if (!(quote.price > 0) || !(quote.filledUsd > 0)) return null;
+
+  switch (domain) {
+    case 'perps':
+      return {
+        ...base,
+        symbol: quote.target,
+        side: trade.action === 'open_short' ? 'SHORT' : 'LONG',
+        leverage: Number(trade.metadata?.leverage) || 1,
+        entryPrice: quote.price,
+        size_usd: quote.filledUsd,
+      };
+    case 'polymarket':
+      return {
+        ...base,
+        // buy_yes / buy_no name the outcome; a plain buy carries it in metadata
+        outcome: polymarketOrderSide(trade)?.outcome ?? 'YES',
+        fillPrice: quote.price,
+        shares: quote.filledUsd / quote.price,
+      };
+    case 'spot':
+      return {
+        ...base,
+        mint: quote.target,
+        tokenAmount: quote.filledUsd / quote.price,
+      };
+  }
+}
+
+/**
+ * P&L % of a hypothetical trade, net of the entry costs in its entry value
+ */
+export function counterfactualPnlPercent(entryValueUsd: number, currentValueUsd: number): number {
+  if (entryValueUsd <= 0) return 0;
+  return ((currentValueUsd - entryValueUsd) / entryValueUsd) * 100;
+}
+
+/**
+ * Whether not trading was the right call
+ */
+export function skippingWasRight(pnlPercent: number): boolean {
+  return pnlPercent <= 0;
+}
+
+/**
+ * One-line insight stored on the evaluation
+ */
+export function describeCounterfactual(result: Omit<CounterfactualResult, 'decisionId' | 'domain'>, hours: number): string {
+  const pnl = `${result.pnlPercent >= 0 ? '+' : ''}${result.pnlPercent.toFixed(1)}%`;
+  const subject = result.reason === 'hold'
+    ? `Holding off ${result.target}`
+    : result.reason === 'hook_blocked'
+      ? `Hook block on ${result.target}`
+      : `Inline judge rejection of ${result.target}`;
+
+  return skippingWasRight(result.pnlPercent)
+    ? `${subject} avoided ${pnl} over ${hours}h`
+    : `${subject} missed ${pnl} over ${hours}h - too conservative`;
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Record the trade a non-executed decision would have made. The entry is
+ * priced now through the domain's venue; the exit once the horizon passes.
+ */
+export async function trackCounterfactual(
+  domain: Domain,
+  decision: AgentDecision,
+  reason: CounterfactualReason,
+  blockReason?: string
+): Promise<string | null> {
+  const trade = hypotheticalTrade(domain, decision);
+  if (!trade?.target) return null;
+
+  const venue = venueRegistry.forDecision(domain, trade);
+  if (!venue) return null;
+
+  try {
+    const quote = await venue.quote(trade);
+    const metadata = quote ? counterfactualMetadata(domain, trade, quote) : null;
+    if (!quote || !metadata) return null;
+
+    const decisionId = typeof decision.metadata?.decisionId === 'string'
+      ? decision.metadata.decisionId
+      : `${domain}-${Date.now()}`;
+
+    const row = await prisma.counterfactualTrade.create({
+      data: {
+        decisionId,
+        domain,
+        action: trade.action,
+        target: trade.target,
+        reason,
+        blockReason,
+        amountUsd: trade.amountUsd!,
+        entryPrice: quote.price,
+        metadata: JSON.stringify(metadata),
+        evaluateAfter: new Date(Date.now() + COUNTERFACTUAL_HORIZON_HOURS * 60 * 60 * 1000),
+      },
+    });
+    return row.id;
+  } catch (error) {
+    console.warn(`[Counterfactual] Failed to track ${reason} on ${trade.target}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store a counterfactual outcome on the decision's evaluation. Judged
+ * decisions are validated against it; holds without an evaluation get one.
+ */
+async function recordCounterfactualOutcome(result: CounterfactualResult, action: string): Promise<void> {
+  const counterfactualOutcome = result.pnlPercent > 0 ? 'profit' : 'loss';
+  const evaluations = await prisma.decisionEvaluation.findMany({
+    where: { decisionId: result.decisionId },
+  });
+
+  if (evaluations.length > 0) {
+    // The judge approved a trade that would have lost, or flagged one that would have won
+    for (const evaluation of evaluations) {
+      await prisma.decisionEvaluation.update({
+        where: { id: evaluation.id },
+        data: {
+          counterfactualReason: result.reason,
+          counterfactualPnlPercent: result.pnlPercent,
+          counterfactualOutcome,
+          judgeWasRight: evaluation.wasGoodDecision === (counterfactualOutcome === 'profit'),
+        },
+      });
+    }
+    return;
+  }
+
+  await prisma.decisionEvaluation.create({
+    data: {
+      decisionId: result.decisionId,
+      domain: result.domain,
+      action,
+      target: result.target,
+      wasGoodDecision: skippingWasRight(result.pnlPercent),
+      keyInsight: describeCounterfactual(result, COUNTERFACTUAL_HORIZON_HOURS),
+      insightType: result.reason === 'hold' ? 'timing' : 'risk',
+      counterfactualReason: result.reason,
+      counterfactualPnlPercent: result.pnlPercent,
+      counterfactualOutcome,
+    },
+  });
+}
+
+// =============================================================================
+// TRACKER SERVICE
+// =============================================================================
+
+class CounterfactualTracker {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  /**
+   * Start checking for due counterfactuals
+   */
+  start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => {
+      this.check().catch(error => console.warn('[Counterfactual] Check failed:', error));
+    }, intervalMs);
+    console.log(`[Counterfactual] Tracking skipped trades over ${COUNTERFACTUAL_HORIZON_HOURS}h`);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Mark every counterfactual past its horizon to market and store the result
+   */
+  async check(now: Date = new Date()): Promise<CounterfactualResult[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      const due = await prisma.counterfactualTrade.findMany({
+        where: { status: 'pending', evaluateAfter: { lte: now } },
+        orderBy: { evaluateAfter: 'asc' },
+        take: 50,
+      });
+
+      const results: CounterfactualResult[] = [];
+      for (const row of due) {
+        const domain = row.domain as Domain;
+        const position: Position = {
+          id: row.id,
+          domain,
+          target: row.target,
+          entryValueUsd: row.amountUsd,
+          currentValueUsd: row.amountUsd,
+          status: 'open',
+          openedAt: row.createdAt.toISOString(),
+          metadata: JSON.parse(row.metadata),
+        };
+
+        const venue = venueRegistry.forDomain(domain, position.metadata.venue as string | undefined);
+        const sync = venue
+          ? (await venue.syncPositions([position]).catch(() => [])).find(s => s.positionId === row.id)
+          : undefined;
+
+        if (!sync) {
+          if (now.getTime() - row.evaluateAfter.getTime() > EXPIRE_AFTER_MS) {
+            await prisma.counterfactualTrade.update({ where: { id: row.id }, data: { status: 'failed' } });
+          }
+          continue;
+        }
+
+        const result: CounterfactualResult = {
+          decisionId: row.decisionId,
+          domain,
+          target: row.target,
+          reason: row.reason as CounterfactualReason,
+          pnlPercent: counterfactualPnlPercent(row.amountUsd, sync.currentValueUsd),
+        };
+
+        await prisma.counterfactualTrade.update({
+          where: { id: row.id },
+          data: {
+            status: 'evaluated',
+            exitValueUsd: sync.currentValueUsd,
+            pnlPercent: result.pnlPercent,
+            evaluatedAt: now,
+          },
+        });
+        await recordCounterfactualOutcome(result, result.reason === 'hold' ? 'hold' : row.action);
+        results.push(result);
+      }
+
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Singleton instance
+export const counterfactualTracker = new CounterfactualTracker();
@@ -11,6 +11,9 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import type { Domain, AgentDecision, DomainContext } from '../types/index.js';
+import { saveJudgeEvaluation } from './judge-feedback.js';
+import { getCachedCalibration, describeCalibration, getJudgeWeight } from './judge-calibration.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 // =============================================================================
 // TYPES
@@ -90,7 +93,8 @@ export async function evaluateInline(
     };
   }
 
-  const prompt = buildInlinePrompt(decision, context, mode);
+  const calibration = await getCachedCalibration(context.domain, mode);
+  const prompt = buildInlinePrompt(decision, context, mode, calibration ? describeCalibration(calibration) : null);
 
   try {
     const response = await anthropic.messages.create({
@@ -99,11 +103,34 @@ export async function evaluateInline(
       messages: [{ role: 'user', content: prompt }],
     });
 
+    const decisionId = decision.metadata?.decisionId;
+    await recordLlmUsage(config.model, response, {
+      purpose: 'inline_judge',
+      domain: context.domain,
+      decisionId: typeof decisionId === 'string' ? decisionId : undefined,
+    });
+
     const content = response.content[0].type === 'text' ? response.content[0].text : '';
     const result = parseInlineResponse(content, decision);
 
     result.latencyMs = Date.now() - startTime;
 
+    // Stored so the score can be calibrated against the outcome
+    if (typeof decisionId === 'string') {
+      saveJudgeEvaluation({
+        decisionId,
+        domain: context.domain,
+        action: decision.action,
+        target: decision.target,
+        wasGoodDecision: result.shouldProceed,
+        qualityScore: result.qualityScore,
+        weaknesses: result.warnings.length > 0 ? result.warnings.join('; ') : undefined,
+        keyInsight: result.keyInsight ?? result.warnings[0] ?? 'No issues found',
+        insightType: 'execution',
+        judgeMode: mode,
+      }).catch(error => console.warn('[InlineJudge] Failed to save evaluation:', error));
+    }
+
     return result;
   } catch (error) {
     console.warn(`[InlineJudge] Evaluation failed:`, error);
@@ -125,7 +152,8 @@ export async function evaluateInline(
 function buildInlinePrompt(
   decision: AgentDecision,
   context: DomainContext,
-  mode: JudgeMode
+  mode: JudgeMode,
+  calibrationNote: string | null = null
 ): string {
   const modeInstructions = mode === 'fast'
     ? 'Be concise. Focus on critical issues only.'
@@ -156,7 +184,7 @@ ${modeInstructions}
 ${context.recentDecisions.slice(0, 3).map(d =>
   `- ${d.action} ${d.target || ''}: ${d.outcome || 'pending'} (conf: ${d.confidence})`
 ).join('\n')}
-
+${calibrationNote ? `\n## Your Calibration\n${calibrationNote}\n` : ''}
 ## Your Task
 
 Quickly evaluate if this trade should proceed. Focus on:
@@ -273,6 +301,37 @@ export async function evaluateWithAutoMode(
   return evaluateInline(decision, context, mode);
 }
 
+/**
+ * Result of reviewing a decision before execution
+ */
+export interface InlineReview {
+  decision: AgentDecision | null;  // null when the judge blocked it
+  result: InlineJudgeResult;
+  mode: JudgeMode;
+}
+
+/**
+ * Judge a decision before execution (mode picked by stakes). Blocked
+ * decisions come back null; the rest have the judge's modifications applied,
+ * weighted by its calibration for the domain and mode.
+ */
+export async function reviewDecision(
+  decision: AgentDecision,
+  context: DomainContext
+): Promise<InlineReview> {
+  const mode = selectJudgeMode(decision);
+  const result = await evaluateInline(decision, context, mode);
+
+  if (!result.shouldProceed) {
+    return { decision: null, result, mode };
+  }
+  return {
+    decision: await applyCalibratedModifications(context.domain, decision, result, mode),
+    result,
+    mode,
+  };
+}
+
 // =============================================================================
 // INTEGRATION HELPERS
 // =============================================================================
@@ -308,22 +367,42 @@ export function wasModified(result: InlineJudgeResult): boolean {
 }
 
 /**
- * Apply judge modifications to decision (if any)
+ * Apply judge modifications to decision (if any). A weight below 1 moves
+ * confidence and amount only part of the way to the judge's suggestion.
  */
 export function applyModifications(
   decision: AgentDecision,
-  result: InlineJudgeResult
+  result: InlineJudgeResult,
+  weight = 1
 ): AgentDecision {
   if (!result.suggestedModifications) {
     return decision;
   }
 
+  const blend = (original: number | undefined, suggested: number | undefined) =>
+    suggested === undefined || original === undefined
+      ? suggested ?? original
+      : original + (suggested - original) * weight;
+
   return {
     ...decision,
-    confidence: result.suggestedModifications.adjustedConfidence ?? decision.confidence,
-    amountUsd: result.suggestedModifications.adjustedAmount ?? decision.amountUsd,
+    confidence: blend(decision.confidence, result.suggestedModifications.adjustedConfidence) ?? decision.confidence,
+    amountUsd: blend(decision.amountUsd, result.suggestedModifications.adjustedAmount),
     reasoning: result.suggestedModifications.additionalReasoning
       ? `${decision.reasoning}\n\n[InlineJudge]: ${result.suggestedModifications.additionalReasoning}`
       : decision.reasoning,
   };
 }
+
+/**
+ * Apply judge modifications weighted by how well the judge's scores have
+ * predicted P&L in this domain and mode (see judge-calibration.ts)
+ */
+export async function applyCalibratedModifications(
+  domain: Domain,
+  decision: AgentDecision,
+  result: InlineJudgeResult,
+  mode: JudgeMode
+): Promise<AgentDecision> {
+  return applyModifications(decision, result, await getJudgeWeight(domain, mode));
+}
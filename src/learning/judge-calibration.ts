@@ -0,0 +1,279 @@
+/**
+ * Judge Calibration
+ *
+ * Measures whether the judge's quality scores predict P&L, per domain and
+ * judge mode. Each evaluation with a realized (or counterfactual) outcome is
+ * one sample:
+ * - Reliability curve: win rate per quality-score bin
+ * - Brier score: squared error of the quality score as a win probability
+ * - Rank correlation: Spearman's rho between quality score and P&L %
+ *
+ * A poorly calibrated judge gets a lower weight, which scales how far the
+ * inline judge's suggested modifications move a decision, and a calibration
+ * note in its prompt so it can correct its own bias.
+ */
+
+import { prisma } from '../db/prisma.js';
+import type { Domain } from '../types/index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Inline judge modes, plus the post-decision judge
+ */
+export type JudgeEvaluationMode = 'fast' | 'thorough' | 'async';
+
+export interface CalibrationSample {
+  qualityScore: number;
+  pnlPercent: number;
+}
+
+export interface ReliabilityBin {
+  low: number;
+  high: number;
+  count: number;
+  meanScore: number;
+  winRate: number;
+  meanPnlPercent: number;
+}
+
+export interface JudgeCalibration {
+  domain: Domain;
+  mode: JudgeEvaluationMode;
+  samples: number;
+  brierScore: number;
+  brierSkill: number;         // 1 - Brier / base-rate Brier; > 0 beats always guessing the win rate
+  rankCorrelation: number;    // Spearman's rho, -1 to 1
+  reliability: ReliabilityBin[];
+  weight: number;             // 0-1 trust in the judge's modifications
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Below this many samples the judge keeps full weight
+ */
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+/**
+ * Brier skill and rank correlation at which the judge earns full weight
+ */
+const TARGET_BRIER_SKILL = 0.1;
+const TARGET_RANK_CORRELATION = 0.3;
+
+const RELIABILITY_BINS = 5;
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+/**
+ * Ranks with ties averaged (1-based)
+ */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+/**
+ * Spearman's rank correlation (0 when either side is constant)
+ */
+export function rankCorrelation(xs: number[], ys: number[]): number {
+  if (xs.length < 2) return 0;
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+  const mean = (xs.length + 1) / 2;
+
+  let covariance = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (rx[i] - mean) * (ry[i] - mean);
+    varX += (rx[i] - mean) ** 2;
+    varY += (ry[i] - mean) ** 2;
+  }
+  return varX > 0 && varY > 0 ? covariance / Math.sqrt(varX * varY) : 0;
+}
+
+/**
+ * Mean squared error of quality scores read as win probabilities
+ */
+export function brierScore(samples: CalibrationSample[]): number {
+  if (samples.length === 0) return 0;
+  return samples.reduce((sum, s) => sum + (s.qualityScore - (s.pnlPercent > 0 ? 1 : 0)) ** 2, 0) / samples.length;
+}
+
+/**
+ * Win rate and mean P&L per equal-width quality-score bin
+ */
+export function reliabilityCurve(samples: CalibrationSample[], bins = RELIABILITY_BINS): ReliabilityBin[] {
+  return Array.from({ length: bins }, (_, i) => {
+    const low = i / bins;
+    const high = (i + 1) / bins;
+    const inBin = samples.filter(s => s.qualityScore >= low && (s.qualityScore < high || (i === bins - 1 && s.qualityScore <= 1)));
+    const count = inBin.length;
+
+    return {
+      low,
+      high,
+      count,
+      meanScore: count ? inBin.reduce((sum, s) => sum + s.qualityScore, 0) / count : 0,
+      winRate: count ? inBin.filter(s => s.pnlPercent > 0).length / count : 0,
+      meanPnlPercent: count ? inBin.reduce((sum, s) => sum + s.pnlPercent, 0) / count : 0,
+    };
+  });
+}
+
+/**
+ * Trust in the judge: full weight until there's enough data, then scaled by
+ * whichever of Brier skill and rank correlation is further from its target
+ */
+export function judgeWeight(samples: number, brierSkill: number, rho: number): number {
+  if (samples < MIN_CALIBRATION_SAMPLES) return 1;
+  const weight = Math.min(brierSkill / TARGET_BRIER_SKILL, rho / TARGET_RANK_CORRELATION);
+  return Math.max(0, Math.min(1, weight));
+}
+
+/**
+ * Calibrate one domain and mode from its samples (pure)
+ */
+export function calibrate(domain: Domain, mode: JudgeEvaluationMode, samples: CalibrationSample[]): JudgeCalibration {
+  const brier = brierScore(samples);
+  const baseRate = samples.length ? samples.filter(s => s.pnlPercent > 0).length / samples.length : 0;
+  const baseBrier = baseRate * (1 - baseRate);
+  const brierSkill = baseBrier > 0 ? 1 - brier / baseBrier : 0;
+  const rho = rankCorrelation(samples.map(s => s.qualityScore), samples.map(s => s.pnlPercent));
+
+  return {
+    domain,
+    mode,
+    samples: samples.length,
+    brierScore: brier,
+    brierSkill,
+    rankCorrelation: rho,
+    reliability: reliabilityCurve(samples),
+    weight: judgeWeight(samples.length, brierSkill, rho),
+  };
+}
+
+/**
+ * Prompt note telling the judge how its past scores turned out, or null
+ * when there isn't enough data or the scores were already close
+ */
+export function describeCalibration(calibration: JudgeCalibration): string | null {
+  if (calibration.samples < MIN_CALIBRATION_SAMPLES) return null;
+
+  const scored = calibration.reliability.filter(b => b.count > 0);
+  const total = scored.reduce((sum, b) => sum + b.count, 0);
+  const meanScore = scored.reduce((sum, b) => sum + b.meanScore * b.count, 0) / total;
+  const winRate = scored.reduce((sum, b) => sum + b.winRate * b.count, 0) / total;
+  const gap = meanScore - winRate;
+
+  const lines: string[] = [];
+  if (Math.abs(gap) >= 0.1) {
+    lines.push(
+      `Your quality scores averaged ${(meanScore * 100).toFixed(0)}% but ${(winRate * 100).toFixed(0)}% ` +
+      `of these trades were profitable - score ${gap > 0 ? 'more conservatively' : 'more generously'}.`
+    );
+  }
+  if (calibration.rankCorrelation < TARGET_RANK_CORRELATION / 2) {
+    lines.push(
+      `Higher scores have not meant better P&L (rank correlation ${calibration.rankCorrelation.toFixed(2)}) - ` +
+      'focus on what actually drove past outcomes.'
+    );
+  }
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Calibrate the judge from evaluations with outcomes, per domain and mode.
+ * Evaluations from before modes were recorded count as the async judge.
+ */
+export async function getJudgeCalibration(domain?: Domain, limit = 500): Promise<JudgeCalibration[]> {
+  const evaluations = await prisma.decisionEvaluation.findMany({
+    where: {
+      domain,
+      qualityScore: { not: null },
+      OR: [
+        { actualPnlPercent: { not: null } },
+        { counterfactualPnlPercent: { not: null } },
+      ],
+    },
+    select: {
+      domain: true,
+      judgeMode: true,
+      qualityScore: true,
+      actualPnlPercent: true,
+      counterfactualPnlPercent: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const evaluation of evaluations) {
+    const key = `${evaluation.domain}:${evaluation.judgeMode ?? 'async'}`;
+    groups.set(key, [
+      ...(groups.get(key) ?? []),
+      {
+        qualityScore: evaluation.qualityScore!,
+        pnlPercent: evaluation.actualPnlPercent ?? evaluation.counterfactualPnlPercent!,
+      },
+    ]);
+  }
+
+  return [...groups.entries()].map(([key, samples]) => {
+    const [groupDomain, mode] = key.split(':');
+    return calibrate(groupDomain as Domain, mode as JudgeEvaluationMode, samples);
+  });
+}
+
+const cache = new Map<string, { calibration: JudgeCalibration | null; at: number }>();
+
+/**
+ * Cached calibration for one domain and mode (null without outcomes yet)
+ */
+export async function getCachedCalibration(domain: Domain, mode: JudgeEvaluationMode): Promise<JudgeCalibration | null> {
+  const key = `${domain}:${mode}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.calibration;
+
+  try {
+    const calibrations = await getJudgeCalibration(domain);
+    for (const calibration of calibrations) {
+      cache.set(`${calibration.domain}:${calibration.mode}`, { calibration, at: Date.now() });
+    }
+    const calibration = calibrations.find(c => c.mode === mode) ?? null;
+    cache.set(key, { calibration, at: Date.now() });
+    return calibration;
+  } catch (error) {
+    console.warn('[JudgeCalibration] Failed to load calibration:', error);
+    return null;
+  }
+}
+
+/**
+ * Weight for the judge's modifications in a domain and mode
+ */
+export async function getJudgeWeight(domain: Domain, mode: JudgeEvaluationMode): Promise<number> {
+  return (await getCachedCalibration(domain, mode))?.weight ?? 1;
+}
@@ -13,6 +13,8 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { prisma } from '../db/prisma.js';
 import type { Domain } from '../types/index.js';
+import { getCachedCalibration, describeCalibration, type JudgeEvaluationMode } from './judge-calibration.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 // Types
 export interface JudgeInsight {
@@ -31,6 +33,8 @@ export interface JudgeInsight {
   actualOutcome: string | null;
   actualPnlPercent: number | null;
   judgeWasRight: boolean | null;
+  counterfactualReason: string | null;
+  counterfactualPnlPercent: number | null;
   createdAt: Date;
 }
 
@@ -44,6 +48,27 @@ export interface SynthesizedFeedback {
   fullText: string;
 }
 
+// Executor tracking ids (`${domain}-${timestamp}`) mapped to the logged decision id
+const loggedDecisionIds = new Map<string, string>();
+const MAX_LOGGED_DECISION_IDS = 1000;
+
+/**
+ * Move a decision's evaluations from its executor tracking id to the logged
+ * decision id that outcomes are recorded against. Evaluations saved later
+ * (the async judge usually finishes after logging) follow the same link.
+ */
+export async function linkEvaluationsToDecision(trackingId: string, decisionId: string): Promise<void> {
+  loggedDecisionIds.set(trackingId, decisionId);
+  if (loggedDecisionIds.size > MAX_LOGGED_DECISION_IDS) {
+    loggedDecisionIds.delete(loggedDecisionIds.keys().next().value!);
+  }
+
+  await prisma.decisionEvaluation.updateMany({
+    where: { decisionId: trackingId },
+    data: { decisionId },
+  });
+}
+
 /**
  * Save a judge evaluation to the database
  */
@@ -61,10 +86,20 @@ export async function saveJudgeEvaluation(evaluation: {
   keyInsight: string;
   insightType: 'timing' | 'sizing' | 'selection' | 'risk' | 'market_read' | 'execution';
   applicability?: 'domain' | 'cross_domain' | 'general';
+  judgeMode?: JudgeEvaluationMode;
 }): Promise<string> {
+  const decisionId = loggedDecisionIds.get(evaluation.decisionId) ?? evaluation.decisionId;
+
+  // The trade may already have closed by the time a slow evaluation lands
+  const decision = await prisma.decision.findUnique({
+    where: { id: decisionId },
+    select: { outcome: true, pnlPercent: true },
+  }).catch(() => null);
+  const outcome = decision?.outcome === 'profit' || decision?.outcome === 'loss' ? decision.outcome : null;
+
   const record = await prisma.decisionEvaluation.create({
     data: {
-      decisionId: evaluation.decisionId,
+      decisionId,
       domain: evaluation.domain,
       action: evaluation.action,
       target: evaluation.target,
@@ -77,6 +112,14 @@ export async function saveJudgeEvaluation(evaluation: {
       keyInsight: evaluation.keyInsight,
       insightType: evaluation.insightType,
       applicability: evaluation.applicability || 'domain',
+      judgeMode: evaluation.judgeMode,
+      ...(outcome
+        ? {
+            actualOutcome: outcome,
+            actualPnlPercent: decision?.pnlPercent,
+            judgeWasRight: evaluation.wasGoodDecision === (outcome === 'profit'),
+          }
+        : {}),
     },
   });
 
@@ -91,29 +134,28 @@ export async function updateEvaluationOutcome(
   outcome: 'profit' | 'loss',
   pnlPercent: number
 ): Promise<void> {
-  const evaluation = await prisma.decisionEvaluation.findFirst({
+  // A decision can have an inline and a post-decision evaluation
+  const evaluations = await prisma.decisionEvaluation.findMany({
     where: { decisionId },
   });
 
-  if (!evaluation) {
-    return;
+  for (const evaluation of evaluations) {
+    // Determine if judge was right
+    // Judge said good decision + profit = right
+    // Judge said bad decision + loss = right
+    const judgeWasRight =
+      (evaluation.wasGoodDecision && outcome === 'profit') ||
+      (!evaluation.wasGoodDecision && outcome === 'loss');
+
+    await prisma.decisionEvaluation.update({
+      where: { id: evaluation.id },
+      data: {
+        actualOutcome: outcome,
+        actualPnlPercent: pnlPercent,
+        judgeWasRight,
+      },
+    });
   }
-
-  // Determine if judge was right
-  // Judge said good decision + profit = right
-  // Judge said bad decision + loss = right
-  const judgeWasRight =
-    (evaluation.wasGoodDecision && outcome === 'profit') ||
-    (!evaluation.wasGoodDecision && outcome === 'loss');
-
-  await prisma.decisionEvaluation.update({
-    where: { id: evaluation.id },
-    data: {
-      actualOutcome: outcome,
-      actualPnlPercent: pnlPercent,
-      judgeWasRight,
-    },
-  });
 }
 
 /**
@@ -233,10 +275,13 @@ export async function synthesizeInsights(
     .filter(i => i.qualityScore !== null)
     .reduce((sum, i) => sum + (i.qualityScore || 0), 0) / (insights.filter(i => i.qualityScore !== null).length || 1);
 
+  const counterfactualNotes = await getCounterfactualNotes(domain);
+
   const calibrationNotes = `
 Recent decision quality: ${(avgQuality * 100).toFixed(0)}% average
 Judge accuracy: ${judgeAccuracy}% (${correctInsights.length}/${validatedInsights.length} predictions correct)
 Insight types: ${[...new Set(insights.map(i => i.insightType))].join(', ')}
+${counterfactualNotes.join('\n')}
   `.trim();
 
   // Build full text for prompt injection
@@ -253,6 +298,49 @@ Insight types: ${[...new Set(insights.map(i => i.insightType))].join(', ')}
   };
 }
 
+/**
+ * Summarize what skipped trades would have made, per reason (pure).
+ * A majority of profitable counterfactuals means we're too conservative.
+ */
+export function summarizeCounterfactuals(
+  evaluations: Array<Pick<JudgeInsight, 'counterfactualReason' | 'counterfactualPnlPercent'>>
+): string[] {
+  const labels: Record<string, string> = {
+    hold: 'Holds',
+    hook_blocked: 'Hook blocks',
+    inline_judge: 'Inline judge rejections',
+  };
+
+  const notes: string[] = [];
+  for (const [reason, label] of Object.entries(labels)) {
+    const pnls = evaluations
+      .filter(e => e.counterfactualReason === reason && e.counterfactualPnlPercent !== null)
+      .map(e => e.counterfactualPnlPercent!);
+    if (pnls.length === 0) continue;
+
+    const missed = pnls.filter(p => p > 0).length;
+    const avg = pnls.reduce((sum, p) => sum + p, 0) / pnls.length;
+    const verdict = missed > pnls.length / 2 ? 'too conservative' : 'saved money';
+    notes.push(
+      `${label}: ${missed}/${pnls.length} would have profited, avg ${avg >= 0 ? '+' : ''}${avg.toFixed(1)}% - ${verdict}`
+    );
+  }
+  return notes;
+}
+
+/**
+ * Counterfactual calibration lines for a domain's recent skipped trades
+ */
+async function getCounterfactualNotes(domain: Domain, limit = 50): Promise<string[]> {
+  const evaluations = await prisma.decisionEvaluation.findMany({
+    where: { domain, counterfactualPnlPercent: { not: null } },
+    select: { counterfactualReason: true, counterfactualPnlPercent: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return summarizeCounterfactuals(evaluations);
+}
+
 /**
  * Build the feedback text that gets injected into prompts
  */
@@ -336,6 +424,9 @@ export async function evaluateDecision(
 ): Promise<string | null> {
   const anthropic = new Anthropic();
 
+  const calibration = await getCachedCalibration(domain, 'async');
+  const calibrationNote = calibration ? describeCalibration(calibration) : null;
+
   const prompt = `
 You are the decision judge for Claudefi, an autonomous DeFi trading agent.
 Your role is to evaluate trading decisions and provide insights that will improve future decisions.
@@ -350,7 +441,7 @@ Your role is to evaluate trading decisions and provide insights that will improv
 
 ## Market Conditions at Decision Time
 ${JSON.stringify(marketConditions, null, 2)}
-
+${calibrationNote ? `\n## Your Calibration\n${calibrationNote}\n` : ''}
 ## Your Task
 
 Evaluate this decision and provide structured feedback.
@@ -380,6 +471,7 @@ Respond ONLY with the JSON object, no other text.
       max_tokens: 1000,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'judge', domain, decisionId });
 
     const content = response.content[0].type === 'text' ? response.content[0].text : '';
 
@@ -413,6 +505,7 @@ Respond ONLY with the JSON object, no other text.
       keyInsight: evaluation.keyInsight,
       insightType: evaluation.insightType || 'execution',
       applicability: evaluation.applicability || 'domain',
+      judgeMode: 'async',
     });
 
     console.log(`📋 Judge evaluated decision ${decisionId}: ${evaluation.wasGoodDecision ? '✓ Good' : '✗ Poor'} (${evaluation.keyInsight})`);
@@ -465,6 +558,7 @@ export async function getProvenInsights(domain?: Domain): Promise<JudgeInsight[]
  */
 export default {
   saveJudgeEvaluation,
+  linkEvaluationsToDecision,
   updateEvaluationOutcome,
   getRecentJudgeInsights,
   getInsightsByType,
@@ -70,7 +70,7 @@ export async function promoteInsightsToMemory(): Promise<number> {
         if (!isDuplicate) {
           // Promote to memory
           const importance = (insight.qualityScore ?? 0) >= 0.85 ? 'high' : 'medium';
-          await remember(domain, insight.keyInsight, importance, `judge-${insight.insightType}`);
+          const factId = await remember(domain, insight.keyInsight, importance, `judge-${insight.insightType}`);
 
           // Create learning link
           await prisma.learningLink.create({
@@ -78,7 +78,7 @@ export async function promoteInsightsToMemory(): Promise<number> {
               sourceType: 'judge',
               sourceId: insight.id,
               targetType: 'memory',
-              targetId: `${domain}-${Date.now()}`,
+              targetId: factId,
               linkType: 'promoted',
               metadata: JSON.stringify({
                 qualityScore: insight.qualityScore,
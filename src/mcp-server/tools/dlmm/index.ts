@@ -17,6 +17,7 @@ import {
   updateDomainBalance,
   logDecision,
 } from '../../../db/index.js';
+import { dlmmPnlBreakdown } from '../../../services/dlmm-accounting.js';
 
 export const dlmmTools: Tool[] = [
   {
@@ -98,7 +99,7 @@ Can remove all (100%) or partial amount.`,
   },
   {
     name: 'dlmm_get_positions',
-    description: 'Get all open DLMM liquidity positions with current values and fees earned.',
+    description: 'Get all open DLMM liquidity positions with current values, fees earned and impermanent loss.',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -114,6 +115,20 @@ Can remove all (100%) or partial amount.`,
   },
 ];
 
+/**
+ * Fees vs impermanent loss, as recorded by the last position sync
+ */
+function pnlBreakdown(metadata: Record<string, unknown> | undefined) {
+  const breakdown = dlmmPnlBreakdown(metadata ?? {});
+  return {
+    feesEarned: breakdown.feesUsd.toFixed(2),
+    impermanentLoss: breakdown.impermanentLossUsd.toFixed(2),
+    pricePnl: breakdown.pricePnlUsd.toFixed(2),
+    netLp: breakdown.netLpUsd.toFixed(2),
+    inRange: breakdown.inRange ?? 'unknown',
+  };
+}
+
 export async function handleDLMMTool(
   name: string,
   args: Record<string, unknown>
@@ -445,7 +460,7 @@ export async function handleDLMMTool(
           currentValueUsd: p.currentValueUsd.toFixed(2),
           pnl: (p.currentValueUsd - p.entryValueUsd).toFixed(2),
           pnlPercent: (((p.currentValueUsd - p.entryValueUsd) / p.entryValueUsd) * 100).toFixed(1) + '%',
-          feesEarned: (p.metadata as Record<string, unknown>)?.fees_earned || 0,
+          ...pnlBreakdown(p.metadata),
           strategy: (p.metadata as Record<string, unknown>)?.strategy || 'unknown',
           openedAt: p.openedAt,
         })),
@@ -196,37 +196,63 @@ export async function handlePerpsTool(
       );
 
       if (paperMode) {
-        // Simulate order execution
-        const simulation = await hyperliquidClient.simulateOrder(symbol, side, sizeUsd);
+        // Simulate the IOC order against the L2 book
+        let simulation;
+        try {
+          simulation = await hyperliquidClient.simulateOrder(symbol, side, sizeUsd, { leverage });
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+
+        if (simulation.filledSize <= 0) {
+          return {
+            success: false,
+            error: `No liquidity to fill ${symbol} within 1% of mid`,
+          };
+        }
+
+        // Only the filled part becomes the position; the IOC remainder is cancelled
+        const filledUsd = simulation.filledUsd;
+        const marginUsed = filledUsd / leverage;
+        const fillLiquidationPrice = hyperliquidClient.calculateLiquidationPrice(
+          simulation.fillPrice,
+          side,
+          leverage
+        );
+        const newBalance = balance - marginUsed - simulation.feeUsd;
 
         const positionId = await createPosition('perps', {
           target: symbol,
           targetName: symbol,
-          entryValueUsd: marginRequired,
+          entryValueUsd: marginUsed,
           side,
-          size: sizeUsd,
+          size: filledUsd,
           entryPrice: simulation.fillPrice,
           metadata: {
             symbol,
             side,
-            size_usd: sizeUsd,
+            size_usd: filledUsd,
             leverage,
-            liquidation_price: liquidationPrice,
+            liquidation_price: fillLiquidationPrice,
             unrealized_pnl: 0,
-            margin_used: marginRequired,
+            margin_used: marginUsed,
+            fee_usd: simulation.feeUsd,
             order_id: simulation.orderId,
             paperTrade: true,
           },
         });
 
-        // Deduct margin from balance
-        await updateDomainBalance('perps', balance - marginRequired);
+        // Deduct margin and fee from balance
+        await updateDomainBalance('perps', newBalance);
 
         await logDecision('perps', {
           action: side === 'LONG' ? 'open_long' : 'open_short',
           target: symbol,
-          amountUsd: sizeUsd,
-          reasoning: `Opened ${leverage}x ${side} on ${symbol}, notional $${sizeUsd}`,
+          amountUsd: filledUsd,
+          reasoning: `Opened ${leverage}x ${side} on ${symbol}, notional $${filledUsd.toFixed(2)}`,
           confidence: 0.8,
         });
 
@@ -236,12 +262,14 @@ export async function handlePerpsTool(
           positionId,
           symbol,
           side,
-          sizeUsd,
+          sizeUsd: filledUsd,
+          unfilledUsd: simulation.unfilledUsd.toFixed(2),
           leverage,
-          marginUsed: marginRequired.toFixed(2),
+          marginUsed: marginUsed.toFixed(2),
+          feeUsd: simulation.feeUsd.toFixed(2),
           entryPrice: simulation.fillPrice.toFixed(4),
-          liquidationPrice: liquidationPrice.toFixed(4),
-          newBalance: (balance - marginRequired).toFixed(2),
+          liquidationPrice: fillLiquidationPrice.toFixed(4),
+          newBalance: newBalance.toFixed(2),
         };
       } else {
         // Real trading via Hyperliquid API
@@ -2,12 +2,13 @@
  * Memory System
  *
  * Provides persistent memory for agents across sessions.
- * Memory is stored in markdown files for easy inspection.
  *
- * Structure:
+ * Facts are stored in the database with a TF-IDF term vector and recalled
+ * by relevance to the subagent's current context (see semantic.ts). Daily
+ * logs stay in markdown files for easy inspection:
+ *
  * .claude/memory/
  *   ├── dlmm/
- *   │   ├── MEMORY.md        # Persistent facts
  *   │   ├── 2024-01-07.md    # Daily log
  *   │   └── 2024-01-06.md
  *   ├── perps/
@@ -17,12 +18,22 @@
  *   ├── spot/
  *   │   └── ...
  *   └── general/
- *       └── MEMORY.md        # Cross-domain facts
+ *       └── ...
+ *
+ * MEMORY.md files from before the fact store are imported on init.
  */
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { Domain } from '../types/index.js';
+import type { Domain, DomainContext } from '../types/index.js';
+import type { MemoryFactRecord } from '../types/internal.js';
+import {
+  createMemoryFact,
+  getMemoryFacts,
+  deleteExpiredMemoryFacts,
+} from '../data/provider.js';
+import { estimateTokens } from '../context/tokenizer.js';
+import { contextQuery, rankFacts, termFrequencies } from './semantic.js';
 
 // =============================================================================
 // TYPES
@@ -59,6 +70,16 @@ export interface MemoryContext {
   generalFacts: string[];
 }
 
+/**
+ * How to pick facts in recall - without a query or context every
+ * unexpired fact is returned, most important first
+ */
+export interface RecallOptions {
+  query?: string;
+  context?: DomainContext;
+  limit?: number;
+}
+
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
@@ -66,6 +87,9 @@ export interface MemoryContext {
 const MEMORY_BASE_DIR = path.join(process.cwd(), '.claude', 'memory');
 const DAYS_TO_LOAD = 7; // Load last 7 days of daily logs
 const MAX_FACTS_IN_PROMPT = 20; // Limit facts in prompt to avoid context bloat
+const MAX_GENERAL_FACTS_IN_PROMPT = 10;
+const MEMORY_TOKEN_BUDGET = parseInt(process.env.MEMORY_TOKEN_BUDGET || '1500', 10);
+const IMPORTANCE_ORDER = { high: 0, medium: 1, low: 2 } as const;
 
 // =============================================================================
 // FILE HELPERS
@@ -106,142 +130,162 @@ async function ensureMemoryDirs(domain: Domain | 'general'): Promise<void> {
 // =============================================================================
 
 /**
- * Remember a fact persistently
+ * Remember a fact persistently, returning its id
  */
 export async function remember(
   domain: Domain | 'general',
   fact: string,
   importance: 'low' | 'medium' | 'high' = 'medium',
-  source?: string
-): Promise<void> {
-  await ensureMemoryDirs(domain);
-
-  const filePath = getMemoryFilePath(domain);
+  source?: string,
+  expiresAt?: Date
+): Promise<string> {
+  const id = await createMemoryFact({
+    domain,
+    fact,
+    importance,
+    source,
+    terms: termFrequencies(fact),
+    expiresAt,
+  });
+  console.log(`[Memory] Remembered ${importance} fact for ${domain}`);
+  return id;
+}
 
-  // Read existing content
-  let content = '';
-  try {
-    content = await fs.readFile(filePath, 'utf-8');
-  } catch {
-    // File doesn't exist, start fresh
-    content = `# ${domain === 'general' ? 'General' : domain.toUpperCase()} Memory\n\nPersistent facts and knowledge.\n\n---\n\n`;
+/**
+ * Unexpired facts for a domain, ranked by relevance when a query or context
+ * is given (top `limit`), otherwise most important first
+ */
+export async function recallFacts(
+  domain: Domain | 'general',
+  options: RecallOptions = {}
+): Promise<MemoryFactRecord[]> {
+  const facts = await getMemoryFacts(domain);
+
+  const query = options.query ?? (options.context ? contextQuery(options.context) : undefined);
+  if (!query) {
+    const sorted = [...facts].sort((a, b) =>
+      IMPORTANCE_ORDER[a.importance] - IMPORTANCE_ORDER[b.importance] ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+    );
+    return options.limit ? sorted.slice(0, options.limit) : sorted;
   }
 
-  // Add new fact
-  const timestamp = new Date().toISOString();
-  const importanceEmoji = { low: '📝', medium: '📌', high: '⭐' }[importance];
-  const sourceText = source ? ` (from: ${source})` : '';
-
-  const newFact = `${importanceEmoji} **[${importance.toUpperCase()}]** ${fact}${sourceText}\n_Added: ${timestamp}_\n\n`;
-
-  content += newFact;
-
-  await fs.writeFile(filePath, content, 'utf-8');
-  console.log(`[Memory] Remembered ${importance} fact for ${domain}`);
+  return rankFacts(facts, query)
+    .slice(0, options.limit ?? MAX_FACTS_IN_PROMPT)
+    .map(scored => scored.record);
 }
 
 /**
- * Read all persistent facts for a domain
+ * Read persistent facts for a domain (see recallFacts for ordering)
  */
-export async function recall(domain: Domain | 'general'): Promise<string[]> {
-  const filePath = getMemoryFilePath(domain);
-
+export async function recall(
+  domain: Domain | 'general',
+  options: RecallOptions = {}
+): Promise<string[]> {
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-
-    // Parse facts from markdown
-    const facts: string[] = [];
-    const lines = content.split('\n');
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      // Match fact lines (emoji followed by importance tag)
-      if (line.match(/^[📝📌⭐] \*\*\[/)) {
-        // Extract just the fact text
-        const factMatch = line.match(/^\S+ \*\*\[\w+\]\*\* (.+?)(?:\s*\(from:.*\))?$/);
-        if (factMatch) {
-          facts.push(factMatch[1]);
-        }
-      }
-    }
-
-    return facts;
-  } catch {
+    const facts = await recallFacts(domain, options);
+    return facts.map(f => f.fact);
+  } catch (error) {
+    console.warn(`[Memory] Failed to recall ${domain} facts:`, error);
     return [];
   }
 }
 
 /**
  * Clear expired facts from memory
- * Parses expiration dates from facts and removes expired entries
  */
 export async function clearExpiredFacts(domain: Domain | 'general'): Promise<number> {
-  const filePath = getMemoryFilePath(domain);
-
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const lines = content.split('\n');
-    const now = new Date();
-    let removedCount = 0;
-    const keptLines: string[] = [];
-    let skipNextLine = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Skip lines marked for removal
-      if (skipNextLine) {
-        skipNextLine = false;
-        continue;
-      }
-
-      // Check for expiration in fact metadata
-      // Format: "_Expires: 2024-01-15T00:00:00.000Z_" or "_Added: ... | Expires: ..._"
-      const expiresMatch = line.match(/_(?:Expires|expires):\s*(\d{4}-\d{2}-\d{2}(?:T[\d:\.]+Z)?)/);
-
-      if (expiresMatch) {
-        const expiresDate = new Date(expiresMatch[1]);
-        if (expiresDate < now) {
-          // This is an expiration line, and it's expired
-          // Remove the previous fact line too (fact is above its metadata)
-          if (keptLines.length > 0) {
-            const lastLine = keptLines[keptLines.length - 1];
-            if (lastLine.match(/^[📝📌⭐] \*\*\[/)) {
-              keptLines.pop(); // Remove the expired fact
-              removedCount++;
-            }
-          }
-          continue; // Skip the expiration line itself
-        }
-      }
+    const removedCount = await deleteExpiredMemoryFacts(domain);
+    if (removedCount > 0) {
+      console.log(`[Memory] Cleared ${removedCount} expired fact(s) from ${domain}`);
+    }
+    return removedCount;
+  } catch {
+    return 0;
+  }
+}
 
-      // Check for inline expiration in the fact line itself
-      // Format: "[EXPIRES: 2024-01-15]" within the fact text
-      if (line.match(/^[📝📌⭐] \*\*\[/)) {
-        const inlineExpires = line.match(/\[EXPIRES:\s*(\d{4}-\d{2}-\d{2})\]/i);
-        if (inlineExpires) {
-          const expiresDate = new Date(inlineExpires[1]);
-          if (expiresDate < now) {
-            removedCount++;
-            // Skip the metadata line that follows
-            skipNextLine = true;
-            continue;
-          }
-        }
-      }
+/**
+ * A fact read from a pre-database MEMORY.md file
+ */
+export interface LegacyMemoryFact {
+  fact: string;
+  importance: 'low' | 'medium' | 'high';
+  source?: string;
+  expiresAt?: Date;
+}
 
-      keptLines.push(line);
+/**
+ * Parse a pre-database MEMORY.md file, dropping facts that already expired.
+ * Expiry is either inline ("[EXPIRES: 2024-01-15]") or on the metadata line
+ * under the fact ("_Expires: ..._" or "_Added: ... | Expires: ..._").
+ */
+export function parseLegacyMemoryFile(content: string, now: Date = new Date()): LegacyMemoryFact[] {
+  const facts: LegacyMemoryFact[] = [];
+
+  for (const line of content.split('\n')) {
+    // Fact lines: "<emoji> **[IMPORTANCE]** fact (from: source)"
+    const match = line.match(/^\S+ \*\*\[(\w+)\]\*\* (.+?)(?:\s*\(from: (.*)\))?$/);
+    if (match) {
+      const importance = match[1].toLowerCase();
+      const inlineExpires = match[2].match(/\[EXPIRES:\s*(\d{4}-\d{2}-\d{2})\]/i);
+      facts.push({
+        fact: match[2],
+        importance: importance === 'high' || importance === 'low' ? importance : 'medium',
+        source: match[3],
+        expiresAt: inlineExpires ? new Date(inlineExpires[1]) : undefined,
+      });
+      continue;
     }
 
-    if (removedCount > 0) {
-      await fs.writeFile(filePath, keptLines.join('\n'), 'utf-8');
-      console.log(`[Memory] Cleared ${removedCount} expired fact(s) from ${domain}`);
+    // Metadata line belonging to the fact above it
+    const expiresMatch = line.match(/_(?:.*\|\s*)?[Ee]xpires:\s*(\d{4}-\d{2}-\d{2}(?:T[\d:.]+Z)?)/);
+    const last = facts[facts.length - 1];
+    if (expiresMatch && last && !last.expiresAt) {
+      last.expiresAt = new Date(expiresMatch[1]);
     }
+  }
 
-    return removedCount;
+  return facts.filter(f => !f.expiresAt || f.expiresAt >= now);
+}
+
+/**
+ * Import facts from a pre-database MEMORY.md file, then rename it so it
+ * isn't imported again. Facts already in the store are skipped, so an
+ * import interrupted part-way can simply be rerun.
+ */
+async function importLegacyMemoryFile(domain: Domain | 'general'): Promise<number> {
+  const filePath = getMemoryFilePath(domain);
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
   } catch {
     return 0;
   }
+
+  const existing = new Set((await getMemoryFacts(domain)).map(f => f.fact));
+  let imported = 0;
+  let failed = 0;
+  for (const legacy of parseLegacyMemoryFile(content)) {
+    if (existing.has(legacy.fact)) continue;
+
+    try {
+      await remember(domain, legacy.fact, legacy.importance, legacy.source, legacy.expiresAt);
+      existing.add(legacy.fact);
+      imported++;
+    } catch (error) {
+      console.warn(`[Memory] Failed to import fact from ${domain}/MEMORY.md:`, error);
+      failed++;
+    }
+  }
+
+  // Leave the file in place to retry what failed on the next init
+  if (failed === 0) {
+    await fs.rename(filePath, `${filePath}.imported`);
+  }
+  return imported;
 }
 
 // =============================================================================
@@ -335,58 +379,66 @@ export async function readRecentDailyLogs(
 // =============================================================================
 
 /**
- * Get full memory context for a domain (for injection into prompts)
+ * Get full memory context for a domain (for injection into prompts).
+ * With a DomainContext, facts are the ones most relevant to it.
  */
-export async function getMemoryContext(domain: Domain): Promise<MemoryContext> {
+export async function getMemoryContext(domain: Domain, context?: DomainContext): Promise<MemoryContext> {
   const [domainFacts, generalFacts, recentLogs] = await Promise.all([
-    recall(domain),
-    recall('general'),
+    recall(domain, { context, limit: MAX_FACTS_IN_PROMPT }),
+    recall('general', { context, limit: MAX_GENERAL_FACTS_IN_PROMPT }),
     readRecentDailyLogs(domain, 3), // Last 3 days for prompts
   ]);
 
   return {
-    persistentFacts: domainFacts.slice(0, MAX_FACTS_IN_PROMPT),
+    persistentFacts: domainFacts,
     recentDailyLogs: recentLogs,
-    generalFacts: generalFacts.slice(0, 10), // Limit general facts
+    generalFacts,
   };
 }
 
 /**
- * Format memory context for injection into prompts
+ * Format memory context for injection into prompts, keeping the facts
+ * within `tokenBudget` (most relevant kept first)
  */
-export async function formatMemoryForPrompt(domain: Domain): Promise<string> {
-  const context = await getMemoryContext(domain);
+export async function formatMemoryForPrompt(
+  domain: Domain,
+  context?: DomainContext,
+  tokenBudget: number = MEMORY_TOKEN_BUDGET
+): Promise<string> {
+  const memory = await getMemoryContext(domain, context);
 
   if (
-    context.persistentFacts.length === 0 &&
-    context.generalFacts.length === 0 &&
-    context.recentDailyLogs.length === 0
+    memory.persistentFacts.length === 0 &&
+    memory.generalFacts.length === 0 &&
+    memory.recentDailyLogs.length === 0
   ) {
     return '';
   }
 
   let output = '## Agent Memory\n\n';
-
-  // General facts
-  if (context.generalFacts.length > 0) {
-    output += '### Cross-Domain Knowledge\n';
-    for (const fact of context.generalFacts) {
-      output += `- ${fact}\n`;
+  let remaining = tokenBudget - estimateTokens(output);
+
+  const section = (title: string, facts: string[]): string => {
+    let text = `### ${title}\n`;
+    let included = 0;
+    for (const fact of facts) {
+      const line = `- ${fact}\n`;
+      const cost = estimateTokens(line) + (included === 0 ? estimateTokens(text) : 0);
+      if (cost > remaining) break;
+      text += line;
+      remaining -= cost;
+      included++;
     }
-    output += '\n';
-  }
+    return included > 0 ? `${text}\n` : '';
+  };
 
-  // Domain-specific facts
-  if (context.persistentFacts.length > 0) {
-    output += `### ${domain.toUpperCase()} Knowledge\n`;
-    for (const fact of context.persistentFacts) {
-      output += `- ${fact}\n`;
-    }
-    output += '\n';
-  }
+  // Domain-specific facts take the budget first
+  const domainSection = section(`${domain.toUpperCase()} Knowledge`, memory.persistentFacts);
+  const generalSection = section('Cross-Domain Knowledge', memory.generalFacts);
+  output += generalSection + domainSection;
 
   // Recent activity (summarized)
-  if (context.recentDailyLogs.length > 0) {
+  if (memory.recentDailyLogs.length > 0) {
     output += '### Recent Activity Summary\n';
     output += '_Last few days of activity are available for context._\n\n';
     // Don't include full logs to avoid context bloat
@@ -419,8 +471,10 @@ export async function handleRememberTool(args: {
  */
 export async function handleRecallTool(args: {
   domain: Domain | 'general';
+  query?: string;
+  limit?: number;
 }): Promise<string> {
-  const facts = await recall(args.domain);
+  const facts = await recall(args.domain, { query: args.query, limit: args.limit });
 
   if (facts.length === 0) {
     return `No facts stored in ${args.domain} memory.`;
@@ -454,6 +508,15 @@ export async function initMemorySystem(): Promise<void> {
 
   for (const domain of domains) {
     await ensureMemoryDirs(domain);
+
+    try {
+      const imported = await importLegacyMemoryFile(domain);
+      if (imported > 0) {
+        console.log(`[Memory] Imported ${imported} fact(s) from ${domain}/MEMORY.md`);
+      }
+    } catch (error) {
+      console.warn(`[Memory] Failed to import ${domain}/MEMORY.md:`, error);
+    }
   }
 
   console.log('[Memory] Memory system initialized');
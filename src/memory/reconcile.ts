@@ -0,0 +1,223 @@
+/**
+ * Memory Reconciliation
+ *
+ * Facts are only ever appended, so memory drifts into holding near-duplicates
+ * and contradictions ("binStep 10 pools are safe" vs "avoid binStep 10").
+ * This pass compares a domain's current facts pairwise:
+ * - duplicate: nearly the same terms and the same stance - the more important
+ *   fact is kept (newer on a tie)
+ * - contradiction: overlapping subject, opposite stance - the newer fact is kept
+ *
+ * Applying the report marks the losers superseded (they stop being recalled)
+ * and records a 'superseded' LearningLink from each loser to the fact that
+ * replaced it, so the provenance chain can be walked back.
+ */
+
+import { prisma } from '../db/prisma.js';
+import type { Domain } from '../types/index.js';
+import type { MemoryFactRecord } from '../types/internal.js';
+import { getMemoryFacts, supersedeMemoryFact } from '../data/provider.js';
+import {
+  tokenize,
+  inverseDocumentFrequencies,
+  cosineSimilarity,
+  type TermVector,
+} from './semantic.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ConflictKind = 'duplicate' | 'contradiction';
+
+export interface MemoryConflict {
+  kind: ConflictKind;
+  kept: MemoryFactRecord;
+  superseded: MemoryFactRecord;
+  similarity: number;   // Cosine similarity of the facts' subject terms
+}
+
+export interface ReconcileReport {
+  domain: Domain | 'general';
+  factCount: number;
+  conflicts: MemoryConflict[];
+  applied: boolean;
+}
+
+export interface ProvenanceStep {
+  sourceType: string;
+  sourceId: string;
+  linkType: string;
+  createdAt: Date;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DUPLICATE_SIMILARITY = 0.85;
+const CONTRADICTION_SIMILARITY = 0.35;
+
+// Words that set a fact's stance. They're excluded from the subject
+// comparison so "X is safe" and "avoid X" are about the same thing.
+const NEGATIVE_WORDS = [
+  'avoid', 'never', 'not', "don't", 'dont', 'no', 'unsafe', 'risky', 'dangerous',
+  'bad', 'worse', 'worst', 'stop', 'skip', 'underperform', 'underperforms', 'unprofitable',
+];
+const POSITIVE_WORDS = [
+  'safe', 'always', 'prefer', 'good', 'better', 'best', 'profitable', 'works',
+  'favor', 'favour', 'outperform', 'outperforms', 'reliable',
+];
+const STANCE_TERMS = new Set(tokenize([...NEGATIVE_WORDS, ...POSITIVE_WORDS].join(' ')));
+
+const IMPORTANCE_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+const DOMAINS: Array<Domain | 'general'> = ['dlmm', 'perps', 'polymarket', 'spot', 'general'];
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * -1 for advice against something, 1 for advice for it, 0 for neutral statements
+ */
+export function factStance(text: string): -1 | 0 | 1 {
+  const words = text.toLowerCase().split(/[^a-z']+/);
+  const negative = words.filter(w => NEGATIVE_WORDS.includes(w)).length;
+  const positive = words.filter(w => POSITIVE_WORDS.includes(w)).length;
+  return negative > positive ? -1 : positive > negative ? 1 : 0;
+}
+
+function subjectTerms(record: MemoryFactRecord): TermVector {
+  return Object.fromEntries(Object.entries(record.terms).filter(([term]) => !STANCE_TERMS.has(term)));
+}
+
+function newer(a: MemoryFactRecord, b: MemoryFactRecord): MemoryFactRecord {
+  return a.createdAt.getTime() >= b.createdAt.getTime() ? a : b;
+}
+
+/**
+ * Find duplicate and contradicting pairs among a domain's facts (pure).
+ * Each fact is superseded at most once; the strongest matches win.
+ */
+export function detectConflicts(facts: MemoryFactRecord[]): MemoryConflict[] {
+  const subjects = facts.map(subjectTerms);
+  const stances = facts.map(f => factStance(f.fact));
+  const idf = inverseDocumentFrequencies(subjects);
+
+  const candidates: MemoryConflict[] = [];
+  for (let i = 0; i < facts.length; i++) {
+    for (let j = i + 1; j < facts.length; j++) {
+      const similarity = cosineSimilarity(subjects[i], subjects[j], idf);
+      const [a, b] = [facts[i], facts[j]];
+
+      if (stances[i] !== stances[j] && (stances[i] < 0 || stances[j] < 0)) {
+        if (similarity >= CONTRADICTION_SIMILARITY) {
+          const kept = newer(a, b);
+          candidates.push({ kind: 'contradiction', kept, superseded: kept === a ? b : a, similarity });
+        }
+      } else if (similarity >= DUPLICATE_SIMILARITY) {
+        const rankA = IMPORTANCE_RANK[a.importance];
+        const rankB = IMPORTANCE_RANK[b.importance];
+        const kept = rankA === rankB ? newer(a, b) : rankA > rankB ? a : b;
+        candidates.push({ kind: 'duplicate', kept, superseded: kept === a ? b : a, similarity });
+      }
+    }
+  }
+
+  // Strongest first; skip pairs that involve an already superseded fact
+  const superseded = new Set<string>();
+  const conflicts: MemoryConflict[] = [];
+  for (const conflict of candidates.sort((x, y) => y.similarity - x.similarity)) {
+    if (superseded.has(conflict.kept.id) || superseded.has(conflict.superseded.id)) continue;
+    superseded.add(conflict.superseded.id);
+    conflicts.push(conflict);
+  }
+
+  return conflicts;
+}
+
+// =============================================================================
+// RECONCILIATION
+// =============================================================================
+
+/**
+ * Detect conflicts in a domain's memory, and with `apply` supersede the losers
+ */
+export async function reconcileMemory(
+  domain: Domain | 'general',
+  options: { apply?: boolean } = {}
+): Promise<ReconcileReport> {
+  const facts = await getMemoryFacts(domain);
+  const conflicts = detectConflicts(facts);
+
+  if (options.apply) {
+    for (const conflict of conflicts) {
+      await supersedeMemoryFact(conflict.superseded.id, conflict.kept.id);
+      await prisma.learningLink.create({
+        data: {
+          sourceType: 'memory',
+          sourceId: conflict.superseded.id,
+          targetType: 'memory',
+          targetId: conflict.kept.id,
+          linkType: 'superseded',
+          metadata: JSON.stringify({
+            kind: conflict.kind,
+            similarity: conflict.similarity,
+            supersededFact: conflict.superseded.fact,
+          }),
+        },
+      });
+    }
+
+    if (conflicts.length > 0) {
+      console.log(`[Memory] Superseded ${conflicts.length} fact(s) in ${domain}`);
+    }
+  }
+
+  return { domain, factCount: facts.length, conflicts, applied: !!options.apply };
+}
+
+/**
+ * Reconcile every domain plus general memory
+ */
+export async function reconcileAllMemory(options: { apply?: boolean } = {}): Promise<ReconcileReport[]> {
+  const reports: ReconcileReport[] = [];
+  for (const domain of DOMAINS) {
+    reports.push(await reconcileMemory(domain, options));
+  }
+  return reports;
+}
+
+/**
+ * Walk a fact's history back through LearningLinks: the facts it superseded
+ * and the judge insight it was promoted from, most recent first
+ */
+export async function getFactProvenance(factId: string, maxDepth = 20): Promise<ProvenanceStep[]> {
+  const steps: ProvenanceStep[] = [];
+  let frontier = [factId];
+  const seen = new Set(frontier);
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const links = await prisma.learningLink.findMany({
+      where: { targetType: 'memory', targetId: { in: frontier } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    frontier = [];
+    for (const link of links) {
+      steps.push({
+        sourceType: link.sourceType,
+        sourceId: link.sourceId,
+        linkType: link.linkType,
+        createdAt: link.createdAt,
+      });
+      if (link.sourceType === 'memory' && !seen.has(link.sourceId)) {
+        seen.add(link.sourceId);
+        frontier.push(link.sourceId);
+      }
+    }
+  }
+
+  return steps;
+}
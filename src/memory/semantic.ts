@@ -0,0 +1,157 @@
+/**
+ * Semantic Recall
+ *
+ * Local TF-IDF vectors for ranking memory facts against the current domain
+ * context. Each fact stores its term frequencies when remembered; IDF is
+ * computed over the facts being ranked, so no model or external service is
+ * involved.
+ */
+
+import type { DomainContext } from '../types/index.js';
+import type { MemoryFactRecord, MemoryImportance } from '../types/internal.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type TermVector = Record<string, number>;
+
+export interface ScoredFact {
+  record: MemoryFactRecord;
+  similarity: number;   // Cosine similarity to the query (0-1)
+  score: number;        // Similarity plus importance prior
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Added to similarity so important facts win ties and still surface when
+// nothing in memory matches the query
+const IMPORTANCE_PRIOR: Record<MemoryImportance, number> = {
+  low: 0,
+  medium: 0.05,
+  high: 0.1,
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has',
+  'have', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'than',
+  'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'were',
+  'when', 'which', 'while', 'with', 'will', 'can', 'should', 'would', 'not',
+  'no', 'do', 'does', 'been', 'being', 'we', 'you', 'they', 'our', 'my',
+]);
+
+// =============================================================================
+// VECTORS
+// =============================================================================
+
+/**
+ * Lowercase word tokens without stopwords, with plurals folded ("trades" -> "trade")
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9%$.]+/)
+    .map(token => token.replace(/^[.]+|[.]+$/g, ''))
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Term frequencies normalized by token count
+ */
+export function termFrequencies(text: string): TermVector {
+  const tokens = tokenize(text);
+  const tf: TermVector = {};
+  for (const token of tokens) {
+    tf[token] = (tf[token] ?? 0) + 1;
+  }
+  for (const term of Object.keys(tf)) {
+    tf[term] /= tokens.length;
+  }
+  return tf;
+}
+
+/**
+ * Smoothed inverse document frequency of every term in the corpus
+ */
+export function inverseDocumentFrequencies(documents: TermVector[]): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of Object.keys(doc)) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, count] of df) {
+    idf.set(term, Math.log((documents.length + 1) / (count + 1)) + 1);
+  }
+  return idf;
+}
+
+/**
+ * Cosine similarity of two TF vectors weighted by IDF
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector, idf: Map<string, number>): number {
+  const weight = (term: string) => idf.get(term) ?? 1;
+
+  let dot = 0;
+  for (const [term, value] of Object.entries(a)) {
+    if (b[term] !== undefined) {
+      dot += value * b[term] * weight(term) ** 2;
+    }
+  }
+  if (dot === 0) return 0;
+
+  const norm = (v: TermVector) => Math.sqrt(
+    Object.entries(v).reduce((sum, [term, value]) => sum + (value * weight(term)) ** 2, 0)
+  );
+  return dot / (norm(a) * norm(b));
+}
+
+// =============================================================================
+// RANKING
+// =============================================================================
+
+/**
+ * Rank facts by relevance to a query, most relevant first
+ */
+export function rankFacts(facts: MemoryFactRecord[], query: string): ScoredFact[] {
+  const queryVector = termFrequencies(query);
+  const idf = inverseDocumentFrequencies([...facts.map(f => f.terms), queryVector]);
+
+  return facts
+    .map(record => {
+      const similarity = cosineSimilarity(queryVector, record.terms, idf);
+      return { record, similarity, score: similarity + IMPORTANCE_PRIOR[record.importance] };
+    })
+    .sort((a, b) => b.score - a.score || b.record.createdAt.getTime() - a.record.createdAt.getTime());
+}
+
+/**
+ * Describe what a subagent is looking at, as recall query text: its open
+ * positions, the markets on offer and what it decided recently
+ */
+export function contextQuery(context: DomainContext): string {
+  const parts: string[] = [context.domain];
+
+  for (const position of context.positions.slice(0, 10)) {
+    const metadata = position.metadata ?? {};
+    parts.push(position.target);
+    for (const key of ['symbol', 'poolName', 'question', 'side', 'outcome', 'strategy']) {
+      if (typeof metadata[key] === 'string') parts.push(metadata[key] as string);
+    }
+  }
+
+  for (const market of context.markets.slice(0, 10)) {
+    parts.push(market.name);
+  }
+
+  for (const decision of context.recentDecisions.slice(0, 5)) {
+    parts.push(decision.action, decision.target ?? '', decision.reasoning);
+  }
+
+  return parts.filter(Boolean).join(' ');
+}
@@ -126,33 +126,12 @@ export async function testExpirationLogic(
   const start = Date.now();
 
   try {
-    // Create an expired fact by modifying the memory file directly
-    const memoryPath = path.join(
-      process.cwd(),
-      '.claude',
-      'memory',
-      domain,
-      'MEMORY.md'
-    );
-
-    // Read current content
-    let content = '';
-    try {
-      content = await fs.readFile(memoryPath, 'utf-8');
-    } catch {
-      // File might not exist yet
-      content = `# ${domain.toUpperCase()} Memory\n\n`;
-    }
-
-    // Add an expired fact
+    // Store a fact that has already expired
     const pastDate = new Date();
     pastDate.setHours(pastDate.getHours() - hoursInPast);
-    const expiredFact = `⭐ **[HIGH]** Test expired fact [EXPIRES: ${pastDate.toISOString().split('T')[0]}]\n_Added: ${new Date().toISOString()}_\n\n`;
-    content += expiredFact;
-
-    await fs.writeFile(memoryPath, content, 'utf-8');
+    await remember(domain, 'Test expired fact', 'high', 'test-expiration', pastDate);
 
-    // Get facts before cleanup
+    // Expired facts are never recalled, even before cleanup
     const factsBefore = await recall(domain);
     const countBefore = factsBefore.length;
 
@@ -164,7 +143,7 @@ export async function testExpirationLogic(
     const countAfter = factsAfter.length;
 
     // Verify removal
-    const passed = removed > 0 && countAfter < countBefore;
+    const passed = removed > 0 && !factsBefore.includes('Test expired fact') && countAfter === countBefore;
 
     return {
       test: 'testExpirationLogic',
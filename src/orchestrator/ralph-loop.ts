@@ -14,7 +14,6 @@
 import 'dotenv/config';
 import Anthropic from '@anthropic-ai/sdk';
 import {
-  getPortfolio,
   getOpenPositions,
   getRecentDecisions,
   getDomainBalance,
@@ -23,11 +22,13 @@ import {
   updateDomainBalance,
   closePosition,
   updatePositionValue,
+  updatePositionMetadata,
   takeAllPerformanceSnapshots,
   initDataLayer,
   shutdownDataLayer,
   dataProviderName,
   updateDecisionOutcome,
+  getLlmUsage,
 } from '../data/provider.js';
 import {
   processTradeOutcome,
@@ -38,7 +39,13 @@ import {
 import { analyzeAndCreateGeneralSkills } from '../skills/cross-domain-patterns.js';
 import { recordSkillOutcome } from '../skills/skill-outcome.js';
 import { executeAllSubagentsParallel } from '../subagents/executor.js';
-import { hookRegistry } from '../hooks/index.js';
+import {
+  hookRegistry,
+  startHookConfigWatcher,
+  stopHookConfigWatcher,
+  enableHookAudit,
+  disableHookAudit,
+} from '../hooks/index.js';
 import {
   getPortfolioDirective,
   fetchMarketSummary,
@@ -47,16 +54,43 @@ import {
 import {
   positionMonitor,
   perpsLiquidationMonitor,
+  registerBracketExits,
+  type ExitCondition,
 } from '../services/position-monitor.js';
-import type { Domain, AgentDecision, DomainContext, Market } from '../types/index.js';
+import { perpsPaperSimulator } from '../services/perps-simulator.js';
+import { polymarketResolutionWatcher } from '../services/resolution-watcher.js';
+import { dlmmRangeMonitor, rebalanceDecision, applyDlmmRebalance } from '../services/dlmm-range-monitor.js';
+import { sendPositionClosedAlert, sendCustomAlert } from '../telegram/alerts.js';
+import { isBotRunning } from '../telegram/bot.js';
+import { counterfactualTracker, trackCounterfactual } from '../learning/counterfactual.js';
+import { reviewDecision, formatInlineResult } from '../learning/inline-judge.js';
+import { linkEvaluationsToDecision, updateEvaluationOutcome } from '../learning/judge-feedback.js';
+import { applyConfidenceCalibration, getRawConfidence } from '../services/confidence-calibration.js';
+import { priceStream } from '../services/price-stream.js';
+import { setUsageCycle, summarizeUsage, getBudgetStatus } from '../services/llm-usage.js';
+import {
+  syncRestingOrders,
+  trackRestingOrder,
+  linkRestingOrderDecision,
+  cancelPositionOrders,
+  saleOutcome,
+  reduceSoldPosition,
+} from '../services/resting-orders.js';
+import type {
+  Domain,
+  AgentDecision,
+  DomainContext,
+  DecisionHistory,
+  Market,
+  Position,
+} from '../types/index.js';
+import type { ExperimentArm } from '../types/internal.js';
 import { idempotencyService, startIdempotencyCleanup, stopIdempotencyCleanup } from '../services/idempotency.js';
 import { TranscriptStore } from '../transcripts/store.js';
-import { meteoraClient } from '../clients/meteora/client.js';
-import { hyperliquidClient } from '../clients/hyperliquid/client.js';
-import { gammaClient } from '../clients/polymarket/client.js';
-import { geckoTerminalClient } from '../clients/geckoterminal/client.js';
+import { initMemorySystem } from '../memory/index.js';
 import { positionCache } from '../services/position-cache.js';
-import { executeDecisionForDomain } from '../execution/index.js';
+import { executeDecisionForDomain, summarizeFills } from '../execution/index.js';
+import { venueRegistry, syncVenuePositions } from '../venues/index.js';
 
 // Types
 export interface CycleResult {
@@ -111,13 +145,21 @@ export async function recordTradeOutcome(
   pnl: number,
   pnlPercent: number
 ): Promise<void> {
+  const isProfit = pnl >= 0;
+
+  // Evaluations are stored, so they get the outcome even after a restart
+  try {
+    await updateEvaluationOutcome(decisionId, isProfit ? 'profit' : 'loss', pnlPercent);
+  } catch (error) {
+    console.warn('   ⚠️ Failed to record judge evaluation outcome:', error);
+  }
+
   const outcome = pendingOutcomes.get(decisionId);
   if (!outcome) {
     console.log(`⚠️  No pending outcome found for decision ${decisionId}`);
     return;
   }
 
-  const isProfit = pnl >= 0;
   outcome.outcome = isProfit ? 'profit' : 'loss';
   outcome.pnl = pnl;
   outcome.pnlPercent = pnlPercent;
@@ -161,75 +203,18 @@ export async function recordTradeOutcome(
   }
 }
 
-async function loadDomainMarkets(domain: Domain): Promise<Market[]> {
+/**
+ * Fetch the markets a subagent sees for a domain from its venue
+ */
+export async function loadDomainMarkets(domain: Domain): Promise<Market[]> {
+  const venue = venueRegistry.forDomain(domain);
+  if (!venue) {
+    console.warn(`[${domain}] No venue registered`);
+    return [];
+  }
+
   try {
-    switch (domain) {
-      case 'dlmm': {
-        const pools = await meteoraClient.getTopPools(10);
-        return pools.map(pool => ({
-          id: pool.address,
-          name: pool.name,
-          domain: 'dlmm',
-          metadata: {
-            tvl: parseFloat(pool.liquidity),
-            apr: meteoraClient.calculateApr(pool),
-            currentPrice: pool.current_price,
-            fees24h: pool.fees_24h,
-          },
-        }));
-      }
-      case 'perps': {
-        const markets = await hyperliquidClient.getMarkets();
-        return markets.slice(0, 20).map(market => ({
-          id: market.symbol,
-          name: `${market.symbol} Perp`,
-          domain: 'perps',
-          metadata: {
-            price: market.markPrice,
-            change24h: market.volume24h,
-            fundingRate: market.fundingRate,
-            volume24h: market.volume24h,
-            openInterest: market.openInterest,
-          },
-        }));
-      }
-      case 'polymarket': {
-        const markets = await gammaClient.getTrendingMarkets(20);
-        return markets.map(market => {
-          const prices = gammaClient.getMarketPrices(market);
-          const volume = (market.volume24hrClob || 0) + (market.volume24hrAmm || 0);
-          return {
-            id: market.id || market.condition_id,
-            name: market.question,
-            domain: 'polymarket' as const,
-            metadata: {
-              conditionId: market.condition_id,
-              yesPrice: prices.yesPrice,
-              noPrice: prices.noPrice,
-              volume24h: volume,
-              liquidity: market.liquidity,
-              endDate: market.endDate,
-            },
-          };
-        });
-      }
-      case 'spot': {
-        const pools = await geckoTerminalClient.getTrendingPools(20);
-        return pools.map(pool => ({
-          id: pool.address,
-          name: pool.symbol || pool.name,
-          domain: 'spot',
-          metadata: {
-            price: pool.priceUsd,
-            change24h: pool.priceChange24h,
-            volume24h: pool.volume24h,
-            liquidity: pool.liquidity,
-            buys24h: pool.buys24h,
-            sells24h: pool.sells24h,
-          },
-        }));
-      }
-    }
+    return await venue.listMarkets();
   } catch (error) {
     console.warn(`[${domain}] Failed to load market data:`, error);
   }
@@ -237,18 +222,36 @@ async function loadDomainMarkets(domain: Domain): Promise<Market[]> {
   return [];
 }
 
+/**
+ * Optional inputs for buildDomainContext.
+ * Anything provided here is used as-is instead of hitting the data layer or
+ * live clients (the replay backtester feeds recorded markets and its own ledger).
+ */
+export interface DomainContextOverrides {
+  balance?: number;
+  positions?: Position[];
+  recentDecisions?: DecisionHistory[];
+  markets?: Market[];
+  now?: Date;
+}
+
 /**
  * Build domain context for subagent execution
  */
-async function buildDomainContext(domain: Domain): Promise<DomainContext> {
-  const balance = await getDomainBalance(domain);
-  const positions = await getOpenPositions(domain);
-  const recentDecisions = await getRecentDecisions(domain, 10);
-  const portfolio = await getPortfolio();
-  positionCache.update(domain, positions);
-  const markets = await loadDomainMarkets(domain);
-
-  const now = new Date();
+export async function buildDomainContext(
+  domain: Domain,
+  overrides: DomainContextOverrides = {}
+): Promise<DomainContext> {
+  const balance = overrides.balance ?? await getDomainBalance(domain);
+  const positions = overrides.positions
+    ?? await syncVenuePositions(domain, await getOpenPositions(domain));
+  const recentDecisions = overrides.recentDecisions ?? await getRecentDecisions(domain, 10);
+  if (!overrides.positions) {
+    positionCache.update(domain, positions);
+  }
+  const markets = overrides.markets ?? await loadDomainMarkets(domain);
+
+  const now = overrides.now ?? new Date();
   return {
     domain,
     balance,
@@ -270,7 +273,13 @@ async function executeDecision(
   decision: AgentDecision,
   paperTrading: boolean,
   context: DomainContext
-): Promise<{ executed: boolean; idempotencyKey?: string; closeSummary?: { positionId: string; pnl: number; pnlPercent: number } }> {
+): Promise<{
+  executed: boolean;
+  idempotencyKey?: string;
+  openedPosition?: { id: string; metadata: Record<string, unknown> };
+  closeSummary?: { positionId: string; pnl: number; pnlPercent: number };
+  restingOrderId?: string;
+}> {
   console.log(`📊 Executing ${domain} decision: ${decision.action}`);
   console.log(`   Target: ${decision.target || 'N/A'}`);
   console.log(`   Amount: $${decision.amountUsd || 0}`);
@@ -297,8 +306,41 @@ async function executeDecision(
   }
 
   try {
+    const openActions = ['add_liquidity', 'open_long', 'open_short', 'buy_yes', 'buy_no', 'buy'];
+    const closeActions = ['remove_liquidity', 'partial_remove', 'close_position', 'partial_close', 'sell', 'partial_sell'];
+
+    // DLMM rebalances pull and re-add the whole position around the active bin
+    const rebalancing = decision.action === 'rebalance';
+
+    // Closes are priced at the position's size, so fill in the amount when the agent didn't
+    const position = closeActions.includes(decision.action) || rebalancing
+      ? findPositionForDecision(context, decision)
+      : undefined;
+    const percentage = Math.max(0, Math.min(decision.percentage ?? 100, 100));
+    const baselineValue = position
+      ? (position.currentValueUsd > 0 ? position.currentValueUsd : position.entryValueUsd)
+      : 0;
+    const executableDecision: AgentDecision = position && rebalancing
+      ? rebalanceDecision(position, decision.reasoning, { confidence: decision.confidence, metadata: decision.metadata })
+      : position
+      ? {
+          ...decision,
+          amountUsd: decision.amountUsd || baselineValue * (percentage / 100 || 1),
+          metadata: {
+            ...decision.metadata,
+            side: decision.metadata?.side ?? position.metadata?.side,
+            symbol: decision.metadata?.symbol ?? position.metadata?.symbol ?? position.target,
+            // Exit on the venue the position was opened on
+            venue: decision.metadata?.venue ?? position.metadata?.venue,
+            // Polymarket exits sell the outcome held, in the market it was bought in
+            outcome: decision.metadata?.outcome ?? position.metadata?.outcome,
+            conditionId: decision.metadata?.conditionId ?? position.metadata?.conditionId ?? position.metadata?.condition_id,
+          },
+        }
+      : decision;
+
     // PHASE 1: Call executor FIRST to validate decision
-    const executionResult = await executeDecisionForDomain(domain, decision, {
+    const executionResult = await executeDecisionForDomain(domain, executableDecision, {
       paperTrading,
     });
 
@@ -307,69 +349,145 @@ async function executeDecision(
     }
 
     // PHASE 2: Only if execution succeeds, update balances and positions
-    const openActions = ['add_liquidity', 'open_long', 'open_short', 'buy_yes', 'buy_no', 'buy'];
-    const closeActions = ['remove_liquidity', 'partial_remove', 'close_position', 'partial_close', 'sell', 'partial_sell'];
+    const fills = executionResult.fills ?? [];
+    const fillSummary = summarizeFills(fills);
+    const pricedFills = fills.some(fill => fill.requestedUsd !== undefined);
 
+    let openedPosition: { id: string; metadata: Record<string, unknown> } | undefined;
     let closeSummary: { positionId: string; pnl: number; pnlPercent: number } | undefined;
 
-    if (openActions.includes(decision.action) && decision.amountUsd) {
+    // A limit order that rested without trading has nothing to book yet
+    const traded = fills.length > 0 || !executionResult.restingOrder;
+
+    if (traded && openActions.includes(decision.action) && decision.amountUsd) {
+      // Cost basis includes slippage and fees; the position is worth what was filled
+      const costUsd = pricedFills ? fillSummary.costUsd : decision.amountUsd;
       const balance = await getDomainBalance(domain);
-      await updateDomainBalance(domain, balance - decision.amountUsd);
+      await updateDomainBalance(domain, balance - costUsd);
 
       // Create position record
-      await createPosition(domain, {
+      const metadata: Record<string, unknown> = pricedFills
+        ? {
+            ...decision.metadata,
+            side: fills[0]?.metadata?.side ?? decision.metadata?.side,
+            fillPrice: fills[0]?.price,
+            feesPaidUsd: fillSummary.feeUsd,
+            slippageUsd: fillSummary.slippageUsd,
+            partialFill: fillSummary.partial,
+            venue: executionResult.venue,
+            // DLMM ranges are centred on the pool at the deposit, not at the first sync
+            ...(domain === 'dlmm'
+              ? { entryPoolPrice: fills[0]?.metadata?.poolPrice, entryActiveBinId: fills[0]?.metadata?.activeBinId }
+              : {}),
+          }
+        : { ...decision.metadata, venue: executionResult.venue };
+      const positionId = await createPosition(domain, {
         target: decision.target || 'unknown',
         targetName: decision.target,
-        entryValueUsd: decision.amountUsd,
-        metadata: decision.metadata,
+        entryValueUsd: costUsd,
+        side: typeof fills[0]?.metadata?.side === 'string' ? fills[0].metadata.side : undefined,
+        size: fills[0]?.sizeTokens,
+        entryPrice: fills[0]?.price,
+        metadata,
       });
-    }
+      openedPosition = { id: positionId, metadata };
+
+      // Mirror perps TP/SL/trailing legs so paper and live exit the same way
+      if (domain === 'perps') {
+        const fillMetadata = fills[0]?.metadata ?? {};
+        registerBracketExits(positionId, domain, decision.action === 'open_short' ? 'SHORT' : 'LONG', {
+          takeProfitPrice: Number(decision.metadata?.takeProfitPrice) || undefined,
+          stopLossPrice: Number(decision.metadata?.stopLossPrice) || undefined,
+          trailingStopPercent: Number(decision.metadata?.trailingStopPercent) || undefined,
+          takeProfitOrderId: fillMetadata.takeProfitOrderId as string | undefined,
+          stopLossOrderId: fillMetadata.stopLossOrderId as string | undefined,
+        });
+      }
 
-    if (closeActions.includes(decision.action)) {
-      const position = findPositionForDecision(context, decision);
+      if (pricedFills && fillSummary.filledUsd < costUsd) {
+        await updatePositionValue(positionId, fillSummary.filledUsd, fills[0]?.price);
+      }
+    }
 
+    if (traded && closeActions.includes(decision.action)) {
       if (!position) {
         console.warn(`   ⚠️ No matching position found for close action in ${domain}`);
       } else {
-        const percentage = Math.max(0, Math.min(decision.percentage ?? 100, 100));
-        const proportion = percentage / 100 || 1;
-        const baselineValue = position.currentValueUsd > 0 ? position.currentValueUsd : position.entryValueUsd;
-        const realizedValue = baselineValue * proportion;
-        const costBasis = position.entryValueUsd * proportion;
-        const pnl = realizedValue - costBasis;
-        const pnlPercent = costBasis > 0 ? (pnl / costBasis) * 100 : 0;
+        // A partial exit fill only closes what the book could absorb
+        const fillRatio = pricedFills && fillSummary.partial && fillSummary.requestedUsd > 0
+          ? fillSummary.filledUsd / fillSummary.requestedUsd
+          : 1;
+        const proportion = (percentage / 100 || 1) * fillRatio;
+        const exitCosts = pricedFills ? fillSummary.slippageUsd + fillSummary.feeUsd : 0;
+        const realizedValue = Math.max(0, baselineValue * proportion - exitCosts);
+        const closesAll = proportion >= 0.999;
+        // Earlier partial sales already took their share of the cost basis out
+        const sale = saleOutcome(position, closesAll ? 1 : proportion, realizedValue);
+        const pnl = closesAll ? sale.realizedPnlUsd : sale.pnl;
+        const pnlPercent = closesAll
+          ? sale.realizedPnlPercent
+          : sale.costBasisUsd > 0 ? (sale.pnl / sale.costBasisUsd) * 100 : 0;
 
         const balance = await getDomainBalance(domain);
         await updateDomainBalance(domain, balance + realizedValue);
 
-        positionCache.recordPartialClose(domain, position, proportion, realizedValue, pnl);
+        positionCache.recordPartialClose(domain, position, proportion, realizedValue, sale.pnl);
 
-        if (proportion >= 0.999) {
+        if (closesAll) {
           await closePosition(domain, position.id, {
                 currentValueUsd: baselineValue - realizedValue,
                 realizedPnl: pnl,
                 metadata: {
                   ...position.metadata,
+                  realizedPnlUsd: sale.realizedPnlUsd,
+                  realizedCostBasisUsd: sale.realizedCostBasisUsd,
                   closedByDecision: true,
                 },
               });
           positionCache.markClosed(domain, position, pnl);
+
+          // A limit sell left working on it would credit proceeds for shares it no longer has
+          await cancelPositionOrders(domain, position.id).catch(error => {
+            console.warn('   ⚠️ Failed to cancel resting orders for closed position:', error);
+          });
         } else {
-          const remainingValue = Math.max(baselineValue - realizedValue, 0);
-          await updatePositionValue(position.id, remainingValue, position.metadata?.currentPrice as number | undefined);
+          // Shares, size and cost basis shrink with the sale so a later close or settlement counts only what is left
+          const remainingValue = Math.max(baselineValue * (1 - proportion), 0);
+          await reduceSoldPosition(position, proportion, sale, remainingValue, position.metadata?.currentPrice as number | undefined);
         }
 
         closeSummary = { positionId: position.id, pnl, pnlPercent };
       }
     }
 
+    if (rebalancing) {
+      if (!position) {
+        console.warn(`   ⚠️ No matching position found for rebalance in ${domain}`);
+      } else {
+        await applyDlmmRebalance(position, executionResult);
+      }
+    }
+
+    // The rest of a limit order waits on the book; fills are booked by syncRestingOrders
+    let restingOrderId: string | undefined;
+    if (executionResult.restingOrder) {
+      const resting = await trackRestingOrder(domain, executionResult.restingOrder, {
+        venue: executionResult.venue ?? domain,
+        paper: paperTrading,
+        positionId: openedPosition?.id ?? position?.id,
+        closesPosition: closeActions.includes(decision.action) && percentage >= 100,
+      });
+      restingOrderId = resting.id;
+      console.log(`   📌 Resting ${resting.side} order: ${resting.size.toFixed(2)} @ ${resting.limitPrice} (${resting.timeInForce})`);
+    }
+
     console.log(`   Mode: ${paperTrading ? 'PAPER' : 'REAL'}`);
     console.log('   ✅ Decision executed');
 
     // Update idempotency record with success
     await idempotencyService.updateResult(key, { status: 'success', timestamp: new Date().toISOString() });
 
-    return { executed: true, idempotencyKey: key, closeSummary };
+    return { executed: true, idempotencyKey: key, openedPosition, closeSummary, restingOrderId };
   } catch (error) {
     // Remove the idempotency reservation so we can retry
     await idempotencyService.remove(key);
@@ -406,6 +524,63 @@ function findPositionForDecision(
   return context.positions[0];
 }
 
+// Action that fully exits a position in each domain
+const EXIT_ACTIONS: Record<Domain, string> = {
+  dlmm: 'remove_liquidity',
+  perps: 'close_position',
+  polymarket: 'sell',
+  spot: 'sell',
+};
+
+/**
+ * Close a position whose stop-loss / take-profit / trailing exit fired.
+ * Runs through executeDecision so the exit fills, balance, realized P&L
+ * and trade outcome are booked exactly like an agent's close.
+ */
+async function executeTriggeredExit(
+  condition: ExitCondition,
+  valueUsd: number,
+  reason: string,
+  paperTrading: boolean
+): Promise<void> {
+  const position = (await getOpenPositions(condition.domain)).find(p => p.id === condition.positionId);
+  if (!position) {
+    console.warn(`   ⚠️ Exit ${condition.type} fired for ${condition.positionId}, which is no longer open`);
+    return;
+  }
+
+  // Close at the value the trigger saw, not the last sync
+  const marked = { ...position, currentValueUsd: valueUsd };
+  const context = await buildDomainContext(condition.domain, {
+    positions: [marked],
+    markets: [],
+    recentDecisions: [],
+  });
+
+  const result = await executeDecision(condition.domain, {
+    domain: condition.domain,
+    action: EXIT_ACTIONS[condition.domain],
+    target: position.target,
+    reasoning: reason,
+    confidence: 1,
+    metadata: {
+      positionId: position.id,
+      exitConditionId: condition.id,
+      // Live, the exchange-side bracket order has already closed it
+      filledByExchange: !paperTrading && Boolean(condition.metadata?.exchangeOrderId),
+    },
+  }, paperTrading, context);
+
+  if (!result.executed) {
+    throw new Error(`Exit for ${position.id} was not executed`);
+  }
+
+  const decisionId = position.metadata?.decisionId;
+  if (result.closeSummary && typeof decisionId === 'string') {
+    await recordTradeOutcome(decisionId, result.closeSummary.pnl, result.closeSummary.pnlPercent);
+  }
+}
+
 /**
  * Main Ralph Loop with Parallel Subagent Execution
  */
@@ -414,6 +589,10 @@ export async function runRalphLoop(
 ): Promise<void> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
 
+  // Apply hooks.yaml and reload it on change; persist every hook execution
+  startHookConfigWatcher();
+  enableHookAudit();
+
   console.log('🚀 Starting Ralph Loop (Agent SDK Mode)');
   console.log(`   Domains: ${cfg.domains.join(', ')} ${cfg.parallel ? '(PARALLEL)' : '(sequential)'}`);
   console.log(`   Mode: ${cfg.paperTrading ? 'PAPER' : 'REAL'}`);
@@ -425,20 +604,77 @@ export async function runRalphLoop(
 
   // Start background monitors
   console.log('\n📡 Starting background monitors...');
+  if (cfg.domains.includes('perps') || cfg.domains.includes('polymarket')) {
+    // Live prices so exits fire between monitor intervals
+    priceStream.start();
+  }
+  positionMonitor.setExitExecutor((condition, valueUsd, reason) =>
+    executeTriggeredExit(condition, valueUsd, reason, cfg.paperTrading)
+  );
   positionMonitor.start();
   if (cfg.domains.includes('perps')) {
     perpsLiquidationMonitor.start();
+
+    // Paper positions need funding and liquidations simulated
+    if (cfg.paperTrading) {
+      perpsPaperSimulator.onPositionClosed(async ({ position, pnl, pnlPercent }) => {
+        const decisionId = position.metadata?.decisionId;
+        if (typeof decisionId === 'string') {
+          await recordTradeOutcome(decisionId, pnl, pnlPercent);
+        }
+      });
+      perpsPaperSimulator.start();
+    }
+  }
+  if (cfg.domains.includes('polymarket')) {
+    // Resolved markets pay out $1/$0 per share and close their positions
+    polymarketResolutionWatcher.onPositionSettled(async ({ position, settlement }) => {
+      const decisionId = position.metadata?.decisionId;
+      if (typeof decisionId === 'string') {
+        await recordTradeOutcome(decisionId, settlement.pnl, settlement.pnlPercent);
+      }
+      if (isBotRunning()) {
+        await sendPositionClosedAlert(
+          'polymarket',
+          { ...position, entryValueUsd: settlement.costBasisUsd },
+          settlement.costBasisUsd + settlement.pnl
+        );
+      }
+    });
+    polymarketResolutionWatcher.start();
+  }
+  if (cfg.domains.includes('dlmm')) {
+    // Out-of-range positions earn nothing; flag them and rebalance when it pays
+    dlmmRangeMonitor.onOutOfRange(async (position, status) => {
+      if (isBotRunning()) {
+        await sendCustomAlert(
+          'DLMM Out of Range',
+          `${position.target} moved ${Math.abs(status.activeBinOffset)} bins ${status.direction} its entry ` +
+          `(range: ${status.binsEachSide} bins each side)`,
+          '⚠️'
+        );
+      }
+    });
+    dlmmRangeMonitor.start(cfg.paperTrading);
   }
 
   // Start idempotency cleanup job (runs every hour)
   startIdempotencyCleanup();
 
+  // Mark held and blocked trades to market once their horizon passes
+  counterfactualTracker.start();
+
   // Continuous loop
   while (true) {
     console.log('\n' + '='.repeat(60));
     console.log(`📍 New cycle started at ${new Date().toISOString()}`);
     console.log('='.repeat(60));
 
+    // Tag every model call in this cycle for the usage ledger
+    const cycleStart = new Date();
+    const cycleId = `cycle-${cycleStart.getTime()}`;
+    setUsageCycle(cycleId);
+
     // 0. SKILL MAINTENANCE - Archive expired skills
     try {
       const expirationResult = await archiveExpiredSkills();
@@ -486,6 +722,25 @@ export async function runRalphLoop(
       console.warn('   ⚠️  Portfolio coordination failed:', error);
     }
 
+    // 0.6. RESTING ORDERS - Book limit order fills, cancel expired and stale orders
+    for (const domain of cfg.domains) {
+      const orderSync = await syncRestingOrders(domain);
+      if (orderSync.filled + orderSync.cancelled + orderSync.expired > 0) {
+        console.log(`   [${domain}] Resting orders: ${orderSync.filled} filled, ${orderSync.cancelled} cancelled, ${orderSync.expired} expired`);
+      }
+
+      // Limit sells that closed a position report it like any other exit
+      for (const { position, pnl, pnlPercent, exitValueUsd } of orderSync.closed) {
+        const decisionId = position.metadata?.decisionId;
+        if (typeof decisionId === 'string') {
+          await recordTradeOutcome(decisionId, pnl, pnlPercent);
+        }
+        if (isBotRunning()) {
+          await sendPositionClosedAlert(domain, { ...position, entryValueUsd: exitValueUsd - pnl }, exitValueUsd);
+        }
+      }
+    }
+
     // 1. BUILD CONTEXTS - Fetch context for all domains
     console.log('\n📥 Building contexts for all domains...');
     const contexts = new Map<Domain, DomainContext>();
@@ -506,14 +761,15 @@ export async function runRalphLoop(
       anthropic,
       cfg.domains,
       contexts,
-      portfolioDirective
+      portfolioDirective,
+      cycleId
     );
 
     // 3. VALIDATE & ACT - Process decisions with hooks
     const results: CycleResult[] = [];
 
     for (const domain of cfg.domains) {
-      const decision = decisions.get(domain);
+      let decision = decisions.get(domain);
       const domainContext = contexts.get(domain);
 
       if (!decision) {
@@ -529,6 +785,7 @@ export async function runRalphLoop(
       // Track holds
       if (decision.action === 'hold') {
         consecutiveHolds[domain]++;
+        trackCounterfactual(domain, decision, 'hold').catch(() => {});
         results.push({ domain, decision, executed: false, outcome: 'skipped' });
         continue;
       }
@@ -536,6 +793,28 @@ export async function runRalphLoop(
       // Reset hold counter on action
       consecutiveHolds[domain] = 0;
 
+      // Hooks read confidence as a win probability, so calibrate it first
+      decision = await applyConfidenceCalibration(domain, decision);
+      const rawConfidence = getRawConfidence(decision);
+      if (rawConfidence !== decision.confidence) {
+        console.log(`🎯 [${domain}] Confidence ${(rawConfidence * 100).toFixed(0)}% → ${(decision.confidence * 100).toFixed(0)}% calibrated`);
+      }
+
+      // Inline judge (opt-in, one LLM call per trade): block or adjust before the hooks validate it
+      if (process.env.INLINE_JUDGE === 'true') {
+        const review = await reviewDecision(decision, domainContext);
+        console.log(`   [${domain}] ${formatInlineResult(review.result)}`);
+
+        if (!review.decision) {
+          const reason = review.result.warnings.join('; ') || 'Rejected by inline judge';
+          console.log(`❌ [${domain}] Blocked by inline judge: ${reason}`);
+          trackCounterfactual(domain, decision, 'inline_judge', reason).catch(() => {});
+          results.push({ domain, decision, executed: false, outcome: 'blocked', error: reason });
+          continue;
+        }
+        decision = review.decision;
+      }
+
       // Run PreDecision hooks (validation)
       const hookResult = await hookRegistry.run('PreDecision', {
         domain,
@@ -545,10 +824,16 @@ export async function runRalphLoop(
 
       if (!hookResult.proceed) {
         console.log(`❌ [${domain}] Blocked by hooks: ${hookResult.reason}`);
+        trackCounterfactual(domain, decision, 'hook_blocked', hookResult.reason).catch(() => {});
         results.push({ domain, decision, executed: false, outcome: 'blocked', error: hookResult.reason });
         continue;
       }
 
+      // Hooks may resize the decision (position sizing, risk limits)
+      if (hookResult.modifiedInput) {
+        decision = hookResult.modifiedInput as AgentDecision;
+      }
+
       // Execute the decision
       const context = contexts.get(domain);
       const execResult = await executeDecision(domain, decision, cfg.paperTrading, domainContext);
@@ -566,9 +851,19 @@ export async function runRalphLoop(
         target: decision.target,
         amountUsd: decision.amountUsd,
         reasoning: decision.reasoning,
-        confidence: decision.confidence,
+        confidence: rawConfidence,
+        experimentId: decision.metadata?.experimentId as string | undefined,
+        experimentArm: decision.metadata?.experimentArm as ExperimentArm | undefined,
       });
 
+      // Judge evaluations were saved under the executor's tracking id
+      const trackingId = decision.metadata?.decisionId;
+      if (decisionRecord?.id && typeof trackingId === 'string') {
+        await linkEvaluationsToDecision(trackingId, decisionRecord.id).catch(error => {
+          console.warn('   ⚠️ Failed to link judge evaluations to decision:', error);
+        });
+      }
+
       // Track for skill generation
       if (decisionRecord?.id && decision.action !== 'hold') {
         pendingOutcomes.set(decisionRecord.id, {
@@ -578,11 +873,30 @@ export async function runRalphLoop(
           target: decision.target,
           amountUsd: decision.amountUsd,
           reasoning: decision.reasoning,
-          confidence: decision.confidence,
+          confidence: rawConfidence,
           outcome: 'pending',
           timestamp: new Date(),
         });
 
+        // Link the opened position back to its decision so later closes
+        // (e.g. simulated liquidations) can report the outcome
+        if (execResult.openedPosition) {
+          try {
+            await updatePositionMetadata(execResult.openedPosition.id, {
+              ...execResult.openedPosition.metadata,
+              decisionId: decisionRecord.id,
+            });
+          } catch (error) {
+            console.warn('   ⚠️ Failed to link position to decision:', error);
+          }
+        }
+
+        if (execResult.restingOrderId) {
+          await linkRestingOrderDecision(execResult.restingOrderId, decisionRecord.id).catch(error => {
+            console.warn('   ⚠️ Failed to link resting order to decision:', error);
+          });
+        }
+
         if (execResult.closeSummary) {
           await recordTradeOutcome(
             decisionRecord.id,
@@ -645,6 +959,17 @@ export async function runRalphLoop(
       }
     }
 
+    // 4.7. COST - What this cycle's model calls cost
+    try {
+      const usage = summarizeUsage(await getLlmUsage({ since: cycleStart, cycleId }));
+      const budget = await getBudgetStatus();
+      const budgetNote = budget.budgetUsd > 0 ? ` of $${budget.budgetUsd.toFixed(2)}` : '';
+      console.log(`\n💸 LLM cost: $${usage.costUsd.toFixed(2)} this cycle (${usage.calls} calls), $${budget.spentUsd.toFixed(2)}${budgetNote} today`);
+    } catch (error) {
+      console.warn('   ⚠️ LLM cost summary failed:', error);
+    }
+    setUsageCycle(undefined);
+
     // 5. REPEAT
     console.log(`\n⏰ Next cycle in ${cfg.cycleIntervalMs / 1000 / 60} minutes...`);
     await sleep(cfg.cycleIntervalMs);
@@ -734,6 +1059,7 @@ Features:
   // Initialize database
   console.log('[DB] Initializing database...');
   await initDataLayer();
+  await initMemorySystem();
 
   // Get domains from env or default
   const envDomains = process.env.ACTIVE_DOMAINS?.split(',').map(d => d.trim()) as Domain[] | undefined;
@@ -757,7 +1083,14 @@ Features:
     console.log('\n\n🛑 Shutting down...');
     positionMonitor.stop();
     perpsLiquidationMonitor.stop();
+    perpsPaperSimulator.stop();
+    polymarketResolutionWatcher.stop();
+    dlmmRangeMonitor.stop();
+    priceStream.stop();
     stopIdempotencyCleanup();
+    counterfactualTracker.stop();
+    stopHookConfigWatcher();
+    disableHookAudit();
     await shutdownDataLayer();
     process.exit(0);
   };
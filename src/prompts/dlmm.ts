@@ -78,12 +78,19 @@ DLMM is an advanced AMM that provides CONCENTRATED LIQUIDITY. Instead of spreadi
 - **Minimum TVL**: $100k (prevents liquidity traps)
 - **Exit when**: TVL drops 80%+, IL exceeds fees, better opportunities exist
 
+## Rebalancing
+
+A position earns nothing once the active bin leaves its range. \`rebalance\` removes the
+liquidity and re-adds it around the current active bin, paying gas and a swap back to 50/50.
+Out-of-range positions are rebalanced automatically once they have stayed out long enough and
+the expected fees cover the costs; rebalance yourself sooner only if the pool is worth staying in.
+
 ## Decision Format
 
 Respond with valid JSON:
 \`\`\`json
 {
-  "action": "add_liquidity" | "remove_liquidity" | "hold",
+  "action": "add_liquidity" | "remove_liquidity" | "rebalance" | "hold",
   "target": "POOL_ADDRESS",
   "amountUsd": 500,  // REQUIRED for add/remove (use position value for removes)
   "strategy": "spot" | "curve" | "bid-ask",
@@ -199,6 +206,7 @@ export function buildDLMMUserPrompt(context: DomainContext): string {
       let ilWarning = '';
       if (pnlPct < -15) ilWarning = ' 🚨 HIGH IL';
       else if (pnlPct < -10) ilWarning = ' ⚠️ IL';
+      if (p.metadata?.inRange === false) ilWarning += ' ⛔ OUT OF RANGE';
 
       return `${idx + 1}. Pool: ${p.target.substring(0, 12)}... | Entry: $${p.entryValueUsd.toFixed(0)} → $${p.currentValueUsd.toFixed(0)} | P&L: ${pnlSign}${pnlPct.toFixed(1)}% | ${hoursOpen.toFixed(0)}h${ilWarning}`;
     }).join('\n');
@@ -253,7 +261,8 @@ ${memeSection}
 Choose ONE action:
 1. **add_liquidity** - New position (max 20% of AUM per pool)
 2. **remove_liquidity** - Exit if IL > fees or better opportunity exists
-3. **hold** - If current positions are performing well
+3. **rebalance** - Re-centre an out-of-range position on the active bin (target: position ID)
+4. **hold** - If current positions are performing well
 
 **Strategy Selection:**
 - **spot** - Tight range, max fees, high IL risk (for stable pairs)
@@ -49,3 +49,36 @@ export function getUserPrompt(domain: Domain, context: DomainContext): string {
       throw new Error(`Unknown domain: ${domain}`);
   }
 }
+
+// =============================================================================
+// PROMPT VARIANTS
+// =============================================================================
+
+/**
+ * Named system prompt variants, compared by prompt experiments.
+ * 'rich' is the full prompt built in this directory.
+ */
+const promptVariants = new Map<string, (domain: Domain) => string>([
+  ['rich', getSystemPrompt],
+]);
+
+/**
+ * Register a system prompt variant for prompt experiments
+ */
+export function registerPromptVariant(name: string, build: (domain: Domain) => string): void {
+  promptVariants.set(name, build);
+}
+
+/**
+ * Build a named variant's system prompt, or undefined if it isn't registered
+ */
+export function getPromptVariant(name: string, domain: Domain): string | undefined {
+  return promptVariants.get(name)?.(domain);
+}
+
+/**
+ * Names of all registered prompt variants
+ */
+export function listPromptVariants(): string[] {
+  return [...promptVariants.keys()];
+}
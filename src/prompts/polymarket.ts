@@ -73,6 +73,14 @@ Polymarket is a prediction market where you buy YES or NO shares on event outcom
 - **Correlation**: Don't overload on related events
 - **Time decay**: Markets near expiry are risky
 
+## Limit Orders
+
+Add \`limit_price\` to rest a bid at your fair value instead of crossing the spread.
+The part the book already offers at your price fills now; the rest waits (GTC by default,
+GTD with \`expires_in_minutes\`) and its USD stays reserved. Check \`get_open_orders\` before
+placing more, and \`cancel_order\` orders whose thesis no longer holds. Stale orders are
+cancelled automatically.
+
 ## Decision Format
 
 \`\`\`json
@@ -18,3 +18,16 @@ export {
   type MarketDataPoint,
   type ApprovalThresholds,
 } from './strategy-runner.js';
+
+export {
+  runReplayBacktest,
+  loadMarketSnapshots,
+  buildSnapshotsFromArchive,
+  markPositionValue,
+  getMarketPrice,
+  type MarketSnapshot,
+  type ReplayDecider,
+  type ReplayBacktestOptions,
+  type ReplayBacktestReport,
+  type ReplayDecisionRecord,
+} from './replay-backtester.js';
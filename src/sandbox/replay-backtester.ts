@@ -0,0 +1,547 @@
+/**
+ * Replay Backtester
+ *
+ * Replays the Ralph loop against recorded market snapshots instead of live
+ * clients. Each step:
+ * 1. Marks the simulated ledger to the snapshot's prices
+ * 2. Builds domain contexts from the snapshot (buildDomainContext overrides)
+ * 3. Runs the real domain subagents
+ * 4. Sends submitted decisions through executeDecisionForDomain in paper mode
+ * 5. Books fills into the ledger
+ *
+ * Produces a BacktestResult per domain so prompt/skill changes can be
+ * compared against past markets before they are deployed.
+ *
+ * Snapshots come from a JSON/JSONL file (loadMarketSnapshots) or from a
+ * recorded market archive (buildSnapshotsFromArchive). With an archive, the
+ * replay clock follows each snapshot so subagent MCP tools see the same history.
+ *
+ * Note: subagent tools and the spot paper executor still go through the data
+ * layer, so point DATABASE_URL at a scratch database when replaying.
+ */
+
+import fs from 'fs/promises';
+import Anthropic from '@anthropic-ai/sdk';
+import { buildDomainContext, loadDomainMarkets } from '../orchestrator/ralph-loop.js';
+import { executeAllSubagentsParallel } from '../subagents/executor.js';
+import { executeDecisionForDomain, summarizeFills, type ExecutionFill } from '../execution/index.js';
+import { getDataSource, getMarketArchive, setDataSource } from '../infra/market-archive.js';
+import {
+  analyzeBacktest,
+  DEFAULT_THRESHOLDS,
+  type ApprovalThresholds,
+  type BacktestResult,
+  type SimulatedTrade,
+} from './strategy-runner.js';
+import type {
+  AgentDecision,
+  DecisionHistory,
+  Domain,
+  DomainContext,
+  Market,
+  Position,
+} from '../types/index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Markets for every recorded domain at a point in time
+ */
+export interface MarketSnapshot {
+  timestamp: string;
+  markets: Partial<Record<Domain, Market[]>>;
+}
+
+/**
+ * Decision source - defaults to running the real subagents
+ */
+export type ReplayDecider = (
+  domains: Domain[],
+  contexts: Map<Domain, DomainContext>
+) => Promise<Map<Domain, AgentDecision | null>>;
+
+export interface ReplayBacktestOptions {
+  domains?: Domain[];
+  initialBalance?: number;    // Starting balance per domain (default: 2500)
+  label?: string;             // Used as BacktestResult.strategyName
+  thresholds?: Partial<ApprovalThresholds>;
+  anthropic?: Anthropic;
+  decide?: ReplayDecider;
+}
+
+/**
+ * One replayed decision and what happened to it
+ */
+export interface ReplayDecisionRecord {
+  timestamp: string;
+  domain: Domain;
+  decision: AgentDecision;
+  executed: boolean;
+  error?: string;
+}
+
+export interface ReplayBacktestReport {
+  results: Partial<Record<Domain, BacktestResult>>;
+  decisions: ReplayDecisionRecord[];
+  snapshots: number;
+  executionTimeMs: number;
+}
+
+interface DomainLedger {
+  balance: number;
+  positions: Position[];
+  history: DecisionHistory[];
+  trades: SimulatedTrade[];
+}
+
+const DEFAULT_DOMAINS: Domain[] = ['dlmm', 'perps', 'polymarket', 'spot'];
+
+// Same action sets the Ralph loop uses for balance bookkeeping
+const OPEN_ACTIONS = ['add_liquidity', 'open_long', 'open_short', 'buy_yes', 'buy_no', 'buy'];
+const CLOSE_ACTIONS = [
+  'remove_liquidity', 'partial_remove', 'close_position', 'partial_close',
+  'reduce_position', 'sell', 'partial_sell',
+];
+
+// =============================================================================
+// SNAPSHOT LOADING
+// =============================================================================
+
+/**
+ * Load recorded snapshots from a JSON array or JSONL file, sorted by time
+ */
+export async function loadMarketSnapshots(filePath: string): Promise<MarketSnapshot[]> {
+  const raw = (await fs.readFile(filePath, 'utf-8')).trim();
+  if (!raw) return [];
+
+  const snapshots: MarketSnapshot[] = raw.startsWith('[')
+    ? JSON.parse(raw)
+    : raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+  return snapshots.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Build snapshots from a recorded market archive by stepping the replay clock
+ * through it and loading markets exactly as the live loop would.
+ * Leaves the process in replay mode so subagent tools also read the archive.
+ */
+export async function buildSnapshotsFromArchive(
+  archivePath: string,
+  options: { domains?: Domain[]; intervalMs?: number } = {}
+): Promise<MarketSnapshot[]> {
+  const domains = options.domains ?? DEFAULT_DOMAINS;
+  const intervalMs = options.intervalMs ?? 30 * 60 * 1000;
+
+  setDataSource({ mode: 'replay', path: archivePath });
+  const archive = getMarketArchive()!;
+  const range = await archive.getTimeRange();
+  if (!range) return [];
+
+  const snapshots: MarketSnapshot[] = [];
+  for (let t = range.start.getTime(); t <= range.end.getTime(); t += intervalMs) {
+    const at = new Date(t);
+    archive.setClock(at);
+
+    const markets: MarketSnapshot['markets'] = {};
+    for (const domain of domains) {
+      markets[domain] = await loadDomainMarkets(domain);
+    }
+    snapshots.push({ timestamp: at.toISOString(), markets });
+  }
+
+  archive.setClock(null);
+  return snapshots;
+}
+
+// =============================================================================
+// MARK TO MARKET
+// =============================================================================
+
+/**
+ * Price a position's market is quoted at, from domain-specific metadata
+ */
+export function getMarketPrice(
+  domain: Domain,
+  market: Market,
+  side?: string
+): number | undefined {
+  const meta = market.metadata;
+  let price: unknown;
+
+  switch (domain) {
+    case 'dlmm':
+      price = meta.currentPrice;
+      break;
+    case 'polymarket':
+      price = side === 'no' ? meta.noPrice : meta.yesPrice;
+      break;
+    case 'perps':
+    case 'spot':
+      price = meta.price;
+      break;
+  }
+
+  const value = Number(price);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Value a simulated position at a new price
+ *
+ * - dlmm: constant-product LP value (sqrt of price ratio) plus fees at pool APR
+ * - perps: margin plus linear PnL on the notional, floored at zero (liquidated)
+ * - polymarket/spot: linear in price
+ */
+export function markPositionValue(
+  position: Position,
+  price: number,
+  now: Date,
+  market?: Market
+): number {
+  const entryPrice = Number(position.metadata.entryPrice);
+  if (!Number.isFinite(entryPrice) || entryPrice <= 0) {
+    return position.currentValueUsd;
+  }
+
+  const ratio = price / entryPrice;
+
+  switch (position.domain) {
+    case 'dlmm': {
+      const apr = Number(market?.metadata.apr ?? position.metadata.apr ?? 0);
+      const daysHeld = (now.getTime() - new Date(position.openedAt).getTime()) / 86_400_000;
+      const fees = position.entryValueUsd * (apr / 100) * (Math.max(daysHeld, 0) / 365);
+      return position.entryValueUsd * Math.sqrt(ratio) + fees;
+    }
+    case 'perps': {
+      // Entry value is the margin; amountUsd was the notional (margin = notional / leverage)
+      const leverage = Number(position.metadata.leverage) || 1;
+      const notionalUsd = Number(position.metadata.notionalUsd) || position.entryValueUsd * leverage;
+      const direction = position.metadata.side === 'short' ? -1 : 1;
+      return Math.max(0, position.entryValueUsd + notionalUsd * direction * (ratio - 1));
+    }
+    default:
+      return position.entryValueUsd * ratio;
+  }
+}
+
+function findMarket(markets: Market[], target?: string): Market | undefined {
+  if (!target) return undefined;
+  return markets.find(m =>
+    m.id === target ||
+    m.name === target ||
+    m.metadata.conditionId === target
+  );
+}
+
+function getPositionSide(decision: AgentDecision): string | undefined {
+  switch (decision.action) {
+    case 'open_long':
+      return 'long';
+    case 'open_short':
+      return 'short';
+    case 'buy_yes':
+      return 'yes';
+    case 'buy_no':
+      return 'no';
+    default:
+      return undefined;
+  }
+}
+
+function markLedger(domain: Domain, ledger: DomainLedger, markets: Market[], now: Date): void {
+  for (const position of ledger.positions) {
+    const market = findMarket(markets, position.target);
+    if (!market) continue;
+
+    const price = getMarketPrice(domain, market, position.metadata.side as string | undefined);
+    if (price === undefined) continue;
+
+    position.currentValueUsd = markPositionValue(position, price, now, market);
+    position.metadata.currentPrice = price;
+  }
+}
+
+// =============================================================================
+// LEDGER BOOKKEEPING
+// =============================================================================
+
+function openPosition(
+  domain: Domain,
+  ledger: DomainLedger,
+  decision: AgentDecision,
+  markets: Market[],
+  now: Date,
+  fills: ExecutionFill[] = []
+): string | undefined {
+  if ((decision.amountUsd ?? 0) <= 0) return 'Missing amount';
+
+  // Size at what actually filled; slippage and fees are charged on top
+  const priced = fills.some(fill => fill.requestedUsd !== undefined);
+  const summary = summarizeFills(fills);
+  const amountUsd = priced ? summary.filledUsd : decision.amountUsd!;
+  const entryCostsUsd = priced ? summary.slippageUsd + summary.feeUsd : 0;
+
+  const side = getPositionSide(decision);
+  const market = findMarket(markets, decision.target);
+  const entryPrice = market ? getMarketPrice(domain, market, side) : undefined;
+
+  // Perps amounts are notional; only the margin leaves the balance
+  const leverage = domain === 'perps' ? Number(decision.metadata?.leverage) || 1 : 1;
+  const stakeUsd = amountUsd / leverage;
+  if (stakeUsd + entryCostsUsd > ledger.balance) return 'Insufficient balance';
+
+  ledger.balance -= stakeUsd + entryCostsUsd;
+  ledger.positions.push({
+    id: `replay_${domain}_${now.getTime()}_${ledger.positions.length}`,
+    domain,
+    target: decision.target || 'unknown',
+    entryValueUsd: stakeUsd,
+    currentValueUsd: stakeUsd,
+    status: 'open',
+    openedAt: now.toISOString(),
+    metadata: {
+      ...decision.metadata,
+      side,
+      entryPrice,
+      currentPrice: entryPrice,
+      apr: market?.metadata.apr,
+      entryCostsUsd,
+      ...(domain === 'perps' ? { leverage, notionalUsd: amountUsd } : {}),
+    },
+  });
+
+  return undefined;
+}
+
+function closePosition(
+  ledger: DomainLedger,
+  position: Position,
+  percentage: number,
+  now: Date,
+  reason: string,
+  exitCostsUsd: number = 0
+): void {
+  const proportion = Math.max(0, Math.min(percentage, 100)) / 100 || 1;
+  const markedValue = position.currentValueUsd * proportion;
+  const realizedValue = Math.max(0, markedValue - exitCostsUsd);
+  const costBasis = position.entryValueUsd * proportion;
+  const entryCosts = (Number(position.metadata.entryCostsUsd) || 0) * proportion;
+  const pnl = realizedValue - costBasis - entryCosts;
+
+  ledger.balance += realizedValue;
+  ledger.trades.push({
+    entryTime: new Date(position.openedAt),
+    exitTime: now,
+    entryPrice: Number(position.metadata.entryPrice) || 0,
+    exitPrice: Number(position.metadata.currentPrice) || 0,
+    direction: position.metadata.side === 'short' ? 'short' : 'long',
+    size: costBasis,
+    pnl,
+    pnlPercent: costBasis > 0 ? (pnl / costBasis) * 100 : 0,
+    reason,
+  });
+
+  if (proportion >= 0.999) {
+    ledger.positions = ledger.positions.filter(p => p.id !== position.id);
+  } else {
+    position.entryValueUsd -= costBasis;
+    position.currentValueUsd -= markedValue;
+    position.metadata.entryCostsUsd = (Number(position.metadata.entryCostsUsd) || 0) - entryCosts;
+    if (position.metadata.notionalUsd !== undefined) {
+      position.metadata.notionalUsd = Number(position.metadata.notionalUsd) * (1 - proportion);
+    }
+  }
+}
+
+/**
+ * What an exit trades: perps close their notional at the current price,
+ * everything else its marked value
+ */
+function exitSizeUsd(position: Position): number {
+  const notionalUsd = Number(position.metadata.notionalUsd);
+  const entryPrice = Number(position.metadata.entryPrice);
+  const currentPrice = Number(position.metadata.currentPrice);
+  if (position.domain === 'perps' && notionalUsd > 0 && entryPrice > 0 && currentPrice > 0) {
+    return notionalUsd * (currentPrice / entryPrice);
+  }
+  return position.currentValueUsd;
+}
+
+function findLedgerPosition(ledger: DomainLedger, decision: AgentDecision): Position | undefined {
+  const positionId = decision.metadata?.positionId;
+  if (typeof positionId === 'string') {
+    const byId = ledger.positions.find(p => p.id === positionId);
+    if (byId) return byId;
+  }
+
+  if (decision.target) {
+    const byTarget = ledger.positions.find(p => p.target === decision.target);
+    if (byTarget) return byTarget;
+  }
+
+  return ledger.positions[0];
+}
+
+// =============================================================================
+// REPLAY
+// =============================================================================
+
+/**
+ * Replay recorded snapshots through the subagents and paper executors
+ */
+export async function runReplayBacktest(
+  snapshots: MarketSnapshot[],
+  options: ReplayBacktestOptions = {}
+): Promise<ReplayBacktestReport> {
+  const startTime = Date.now();
+  const domains = options.domains ?? DEFAULT_DOMAINS;
+  const initialBalance = options.initialBalance ?? 2500;
+  const label = options.label ?? 'replay';
+  const decide: ReplayDecider = options.decide ?? (() => {
+    const anthropic = options.anthropic ?? new Anthropic();
+    return (activeDomains, contexts) =>
+      executeAllSubagentsParallel(anthropic, activeDomains, contexts);
+  })();
+
+  const ledgers = new Map<Domain, DomainLedger>();
+  for (const domain of domains) {
+    ledgers.set(domain, { balance: initialBalance, positions: [], history: [], trades: [] });
+  }
+
+  const decisions: ReplayDecisionRecord[] = [];
+
+  console.log(`[Replay] Backtesting ${label} over ${snapshots.length} snapshots (${domains.join(', ')})`);
+
+  const archive = getDataSource().mode === 'replay' ? getMarketArchive() : null;
+
+  for (const snapshot of snapshots) {
+    const now = new Date(snapshot.timestamp);
+    const activeDomains = domains.filter(d => snapshot.markets[d]?.length);
+    if (activeDomains.length === 0) continue;
+
+    archive?.setClock(now);
+
+    // 1. MARK + BUILD CONTEXTS
+    const contexts = new Map<Domain, DomainContext>();
+    for (const domain of activeDomains) {
+      const ledger = ledgers.get(domain)!;
+      const markets = snapshot.markets[domain] ?? [];
+      markLedger(domain, ledger, markets, now);
+
+      contexts.set(domain, await buildDomainContext(domain, {
+        balance: ledger.balance,
+        positions: ledger.positions.map(p => ({ ...p, metadata: { ...p.metadata } })),
+        recentDecisions: ledger.history.slice(-10).reverse(),
+        markets,
+        now,
+      }));
+    }
+
+    // 2. RUN SUBAGENTS
+    const domainDecisions = await decide(activeDomains, contexts);
+
+    // 3. EXECUTE (PAPER) + BOOK
+    for (const domain of activeDomains) {
+      const decision = domainDecisions.get(domain);
+      if (!decision) continue;
+
+      const ledger = ledgers.get(domain)!;
+      const markets = snapshot.markets[domain] ?? [];
+      let error: string | undefined;
+
+      if (decision.action !== 'hold') {
+        // Size closes from the ledger so the exit is priced against the book
+        const position = CLOSE_ACTIONS.includes(decision.action)
+          ? findLedgerPosition(ledger, decision)
+          : undefined;
+        const percentage = decision.percentage ?? 100;
+        const executable: AgentDecision = position && !decision.amountUsd
+          ? {
+              ...decision,
+              amountUsd: exitSizeUsd(position) * (Math.max(0, Math.min(percentage, 100)) / 100 || 1),
+              metadata: {
+                ...decision.metadata,
+                side: decision.metadata?.side ?? position.metadata.side,
+                symbol: decision.metadata?.symbol ?? position.metadata.symbol ?? position.target,
+              },
+            }
+          : decision;
+
+        const execution = await executeDecisionForDomain(domain, executable, { paperTrading: true });
+        const fills = execution.fills ?? [];
+
+        if (!execution.success) {
+          error = execution.error || 'Execution failed';
+        } else if (OPEN_ACTIONS.includes(decision.action)) {
+          error = openPosition(domain, ledger, decision, markets, now, fills);
+        } else if (CLOSE_ACTIONS.includes(decision.action)) {
+          if (position) {
+            const exit = summarizeFills(fills);
+            closePosition(ledger, position, percentage, now, decision.action, exit.slippageUsd + exit.feeUsd);
+          } else {
+            error = 'No matching position';
+          }
+        }
+      }
+
+      ledger.history.push({
+        action: decision.action,
+        target: decision.target,
+        amountUsd: decision.amountUsd,
+        reasoning: decision.reasoning,
+        confidence: decision.confidence,
+        outcome: 'pending',
+        timestamp: now.toISOString(),
+      });
+
+      decisions.push({
+        timestamp: snapshot.timestamp,
+        domain,
+        decision,
+        executed: decision.action !== 'hold' && !error,
+        error,
+      });
+    }
+  }
+
+  archive?.setClock(null);
+
+  // 4. SETTLE - close whatever is still open at the last recorded marks
+  const endTime = snapshots.length > 0
+    ? new Date(snapshots[snapshots.length - 1].timestamp)
+    : new Date();
+  const startDate = snapshots.length > 0 ? new Date(snapshots[0].timestamp) : endTime;
+
+  const results: Partial<Record<Domain, BacktestResult>> = {};
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+
+  for (const domain of domains) {
+    const ledger = ledgers.get(domain)!;
+    for (const position of [...ledger.positions]) {
+      closePosition(ledger, position, 100, endTime, 'end_of_replay');
+    }
+
+    const result = analyzeBacktest(ledger.trades, label, domain, [], thresholds);
+    result.startDate = startDate;
+    result.endDate = endTime;
+    result.executionTimeMs = Date.now() - startTime;
+    results[domain] = result;
+
+    console.log(
+      `[Replay] ${domain}: ${result.totalTrades} trades, ` +
+      `${(result.winRate * 100).toFixed(1)}% win rate, PnL $${result.totalPnl.toFixed(2)}`
+    );
+  }
+
+  return {
+    results,
+    decisions,
+    snapshots: snapshots.length,
+    executionTimeMs: Date.now() - startTime,
+  };
+}
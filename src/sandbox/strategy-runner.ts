@@ -104,7 +104,7 @@ export interface ApprovalThresholds {
   minPnlPercent: number;      // Default: 5%
 }
 
-const DEFAULT_THRESHOLDS: ApprovalThresholds = {
+export const DEFAULT_THRESHOLDS: ApprovalThresholds = {
   minWinRate: 0.40,
   minTrades: 10,
   maxDrawdown: 0.20,
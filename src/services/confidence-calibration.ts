@@ -0,0 +1,222 @@
+/**
+ * Confidence Calibration Service
+ *
+ * The agent's self-reported confidence is read as a win probability by the
+ * confidence-threshold hook and the position sizer, but nothing checks it
+ * against outcomes. This service fits a per-domain mapping from the raw
+ * confidence of closed decisions to their win rate:
+ * - isotonic: pool-adjacent-violators step fit, interpolated between blocks.
+ *   Monotone without assuming a shape; needs more data to be smooth.
+ * - platt: logistic fit of win rate on confidence. Smooth with little data,
+ *   but can only stretch and shift the curve.
+ *
+ * The Ralph Loop rewrites each opening decision's confidence with the
+ * calibrated value before PreDecision hooks run and keeps the raw value in
+ * metadata.rawConfidence. Decisions are logged with their raw confidence so
+ * later fits aren't fitted to their own output.
+ */
+
+import type { AgentDecision, Domain } from '../types/index.js';
+import type { ConfidenceOutcome } from '../types/internal.js';
+import { getConfidenceOutcomes } from '../data/provider.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+export interface CalibrationConfig {
+  method: CalibrationMethod | 'off';
+  minSamples: number;            // Below this the raw confidence is kept
+}
+
+export interface ConfidenceModel {
+  method: CalibrationMethod;
+  samples: number;
+  points?: Array<{ confidence: number; winRate: number }>;  // isotonic
+  slope?: number;                                            // platt
+  intercept?: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export function getCalibrationConfig(): CalibrationConfig {
+  const method = (process.env.CONFIDENCE_CALIBRATION || 'isotonic').toLowerCase();
+  return {
+    method: method === 'platt' || method === 'off' ? method : 'isotonic',
+    minSamples: Number(process.env.CONFIDENCE_CALIBRATION_MIN_SAMPLES) || 30,
+  };
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Only entries are calibrated; exits and holds keep the agent's confidence
+const OPENING_ACTIONS = ['add_liquidity', 'open_long', 'open_short', 'buy_yes', 'buy_no', 'buy'];
+
+// =============================================================================
+// FITTING
+// =============================================================================
+
+/**
+ * Isotonic regression by pool-adjacent-violators. Each pooled block becomes
+ * one point at its mean confidence.
+ */
+export function fitIsotonic(outcomes: ConfidenceOutcome[]): ConfidenceModel {
+  const sorted = [...outcomes].sort((a, b) => a.confidence - b.confidence);
+  const blocks: Array<{ confidence: number; wins: number; weight: number }> = [];
+
+  for (const outcome of sorted) {
+    blocks.push({ confidence: outcome.confidence, wins: outcome.won ? 1 : 0, weight: 1 });
+
+    // Merge backwards while the win rate decreases
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.wins / prev.weight < last.wins / last.weight && prev.confidence !== last.confidence) break;
+
+      blocks.pop();
+      blocks[blocks.length - 1] = {
+        confidence: (prev.confidence * prev.weight + last.confidence * last.weight) / (prev.weight + last.weight),
+        wins: prev.wins + last.wins,
+        weight: prev.weight + last.weight,
+      };
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    samples: outcomes.length,
+    points: blocks.map(b => ({ confidence: b.confidence, winRate: b.wins / b.weight })),
+  };
+}
+
+/**
+ * Platt scaling: logistic regression of win on confidence by Newton's method,
+ * with Platt's smoothed targets so a perfectly separable history doesn't
+ * diverge
+ */
+export function fitPlatt(outcomes: ConfidenceOutcome[], iterations = 100): ConfidenceModel {
+  const wins = outcomes.filter(o => o.won).length;
+  const losses = outcomes.length - wins;
+  const hi = (wins + 1) / (wins + 2);
+  const lo = 1 / (losses + 2);
+
+  let slope = 0;
+  let intercept = Math.log((wins + 1) / (losses + 1));
+
+  for (let i = 0; i < iterations; i++) {
+    let gSlope = 0, gIntercept = 0, hSS = 1e-9, hSI = 0, hII = 1e-9;
+    for (const o of outcomes) {
+      const p = 1 / (1 + Math.exp(-(slope * o.confidence + intercept)));
+      const error = p - (o.won ? hi : lo);
+      const w = p * (1 - p);
+      gSlope += error * o.confidence;
+      gIntercept += error;
+      hSS += w * o.confidence * o.confidence;
+      hSI += w * o.confidence;
+      hII += w;
+    }
+
+    const det = hSS * hII - hSI * hSI;
+    if (Math.abs(det) < 1e-12) break;
+    const dSlope = (hII * gSlope - hSI * gIntercept) / det;
+    const dIntercept = (hSS * gIntercept - hSI * gSlope) / det;
+    slope -= dSlope;
+    intercept -= dIntercept;
+    if (Math.abs(dSlope) < 1e-9 && Math.abs(dIntercept) < 1e-9) break;
+  }
+
+  return { method: 'platt', samples: outcomes.length, slope, intercept };
+}
+
+/**
+ * Calibrated win probability for a raw confidence
+ */
+export function calibratedConfidence(model: ConfidenceModel, raw: number): number {
+  if (model.method === 'platt') {
+    return 1 / (1 + Math.exp(-((model.slope ?? 0) * raw + (model.intercept ?? 0))));
+  }
+
+  const points = model.points ?? [];
+  if (points.length === 0) return raw;
+  if (raw <= points[0].confidence) return points[0].winRate;
+  if (raw >= points[points.length - 1].confidence) return points[points.length - 1].winRate;
+
+  // Linear between the surrounding block means
+  const upper = points.findIndex(p => p.confidence >= raw);
+  const a = points[upper - 1];
+  const b = points[upper];
+  return a.winRate + ((raw - a.confidence) / (b.confidence - a.confidence)) * (b.winRate - a.winRate);
+}
+
+/**
+ * Rewrite an opening decision's confidence with the calibrated value, keeping
+ * the raw one in metadata (pure)
+ */
+export function calibrateDecision(decision: AgentDecision, model: ConfidenceModel | null): AgentDecision {
+  if (!model || !OPENING_ACTIONS.includes(decision.action)) return decision;
+
+  const raw = decision.confidence;
+  return {
+    ...decision,
+    confidence: calibratedConfidence(model, raw),
+    metadata: {
+      ...decision.metadata,
+      rawConfidence: raw,
+      confidenceCalibration: model.method,
+    },
+  };
+}
+
+/**
+ * The model's self-reported confidence, before calibration
+ */
+export function getRawConfidence(decision: AgentDecision): number {
+  const raw = decision.metadata?.rawConfidence;
+  return typeof raw === 'number' ? raw : decision.confidence;
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+const cache = new Map<Domain, { model: ConfidenceModel | null; at: number }>();
+
+/**
+ * Fit (or reuse) the calibration model for a domain. Null when calibration
+ * is off or there are too few closed decisions.
+ */
+export async function getConfidenceModel(
+  domain: Domain,
+  config: CalibrationConfig = getCalibrationConfig()
+): Promise<ConfidenceModel | null> {
+  if (config.method === 'off') return null;
+
+  const cached = cache.get(domain);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS && (cached.model?.method ?? config.method) === config.method) {
+    return cached.model;
+  }
+
+  let model: ConfidenceModel | null = null;
+  try {
+    const outcomes = await getConfidenceOutcomes(domain);
+    if (outcomes.length >= config.minSamples) {
+      model = config.method === 'platt' ? fitPlatt(outcomes) : fitIsotonic(outcomes);
+    }
+  } catch (error) {
+    console.warn(`[ConfidenceCalibration] Failed to fit ${domain}:`, error);
+  }
+
+  cache.set(domain, { model, at: Date.now() });
+  return model;
+}
+
+/**
+ * Calibrate a decision's confidence for its domain
+ */
+export async function applyConfidenceCalibration(domain: Domain, decision: AgentDecision): Promise<AgentDecision> {
+  return calibrateDecision(decision, await getConfidenceModel(domain));
+}
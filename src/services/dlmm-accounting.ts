@@ -0,0 +1,312 @@
+/**
+ * DLMM Accounting
+ *
+ * Values an open DLMM position bin by bin and splits its P&L into
+ * - price: what holding the deposited tokens would have made (HODL)
+ * - fees: swap fees earned while the active bin was inside the range
+ * - impermanent loss: how far the liquidity has fallen behind HODL as bins
+ *   were converted from one token to the other
+ *
+ * The deposit is modelled as `binsEachSide` bins either side of the entry
+ * price, weighted by strategy (spot: flat, curve: peaked at the entry,
+ * bid-ask: heavier at the edges). Bins above the price hold token X and are
+ * sold at their bin price as the price climbs through them; bins below hold
+ * token Y and buy X on the way down. Values are in the quote token (Y),
+ * which is the dollar value for USDC/USDT pools.
+ *
+ * Fees accrue on each sync from the pool's 24h volume, fee rate (base fee,
+ * or bin step when unknown) and the position's share of pool liquidity,
+ * only while the active bin is in range. When the pool's live active bin is
+ * known it is checked against the position's bins (its on-chain
+ * `minBinId`-`maxBinId`, or `binsEachSide` around the deposit's active bin);
+ * otherwise the range is estimated from the price. Accounting state is kept
+ * in the position's metadata so accrual carries across restarts.
+ *
+ * A rebalance re-centres the range on the current price: what the old range
+ * was worth becomes the new range's deposit, and its IL and price P&L carry
+ * over as realized so the split still adds up over the position's life.
+ */
+
+import type { Position } from '../types/index.js';
+import type { MeteoraPool } from '../clients/meteora/client.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DlmmStrategy = 'spot' | 'curve' | 'bid-ask';
+
+/**
+ * Position value relative to an entry value of 1
+ */
+export interface DlmmValueRatios {
+  lp: number;                  // Liquidity at the current price, before fees
+  hodl: number;                // Deposited tokens held instead
+  inRange: boolean;
+}
+
+export interface DlmmAccounting {
+  positionId: string;
+  price: number;               // Pool price (X in Y)
+  inRange: boolean;
+  lpValueUsd: number;
+  hodlValueUsd: number;
+  impermanentLossUsd: number;  // HODL minus liquidity value (>= 0)
+  feesAccruedUsd: number;      // This sync
+  feesEarnedUsd: number;       // Cumulative
+  pricePnlUsd: number;         // HODL minus entry value
+  currentValueUsd: number;     // Liquidity plus fees
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Bins a position's liquidity covers, inclusive
+ */
+export interface DlmmBinRange {
+  lowerBinId: number;
+  upperBinId: number;
+}
+
+/**
+ * P&L split shown to agents and in the TUI
+ */
+export interface DlmmPnlBreakdown {
+  feesUsd: number;
+  impermanentLossUsd: number;
+  pricePnlUsd: number;
+  rebalanceCostsUsd: number;
+  netLpUsd: number;            // Fees minus IL and rebalance costs: what providing liquidity added over HODL
+  inRange?: boolean;
+}
+
+// Matches the paper fill model's default strategy range
+export const DLMM_DEFAULT_BINS_EACH_SIDE = 34;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// CALCULATIONS
+// =============================================================================
+
+/**
+ * Share of the deposit in each bin, from the lowest bin to the highest
+ */
+export function binWeights(strategy: DlmmStrategy, binsEachSide: number): number[] {
+  const weights: number[] = [];
+  for (let i = -binsEachSide; i <= binsEachSide; i++) {
+    const distance = Math.abs(i);
+    weights.push(
+      strategy === 'curve' ? binsEachSide + 1 - distance :
+      strategy === 'bid-ask' ? distance + 1 :
+      1
+    );
+  }
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+}
+
+/**
+ * Liquidity and HODL value at `priceRatio` (current / entry price)
+ */
+export function dlmmValueRatios(
+  priceRatio: number,
+  binStep: number,
+  binsEachSide: number = DLMM_DEFAULT_BINS_EACH_SIDE,
+  strategy: DlmmStrategy = 'spot'
+): DlmmValueRatios {
+  const step = 1 + binStep / 10000;
+  const weights = binWeights(strategy, binsEachSide);
+
+  let lp = 0;
+  let xAmount = 0;     // Token X deposited, in entry-price units
+  let yAmount = 0;
+  weights.forEach((weight, index) => {
+    const i = index - binsEachSide;
+    const binPrice = Math.pow(step, i);
+
+    // X bins sell at their price on the way up, Y bins buy X on the way down
+    lp += weight * Math.min(priceRatio, binPrice) / Math.min(1, binPrice);
+
+    if (i > 0) xAmount += weight;
+    else if (i < 0) yAmount += weight;
+    else {
+      xAmount += weight / 2;
+      yAmount += weight / 2;
+    }
+  });
+
+  return {
+    lp,
+    hodl: xAmount * priceRatio + yAmount,
+    inRange: priceRatio >= Math.pow(step, -binsEachSide) && priceRatio <= Math.pow(step, binsEachSide),
+  };
+}
+
+/**
+ * Bins a position covers: the on-chain range when it has one, else
+ * `binsEachSide` around the active bin at the deposit (null when neither
+ * was recorded)
+ */
+export function dlmmBinRange(metadata: Record<string, unknown>): DlmmBinRange | null {
+  const minBinId = metadata.minBinId;
+  const maxBinId = metadata.maxBinId;
+  if (typeof minBinId === 'number' && typeof maxBinId === 'number') {
+    return { lowerBinId: minBinId, upperBinId: maxBinId };
+  }
+
+  const entryActiveBinId = metadata.entryActiveBinId;
+  if (typeof entryActiveBinId !== 'number') return null;
+  const binsEachSide = Number(metadata.binsEachSide) || DLMM_DEFAULT_BINS_EACH_SIDE;
+  return { lowerBinId: entryActiveBinId - binsEachSide, upperBinId: entryActiveBinId + binsEachSide };
+}
+
+/**
+ * Pool fee rate as a fraction (base fee, or the bin step when unknown)
+ */
+export function poolFeeRate(pool: Pick<MeteoraPool, 'base_fee_percentage' | 'bin_step'>): number {
+  const baseFee = parseFloat(pool.base_fee_percentage) / 100;
+  return baseFee > 0 ? baseFee : pool.bin_step / 10000;
+}
+
+/**
+ * Fees a position earns per day: its share of the pool's liquidity times
+ * the fees on 24h volume, nothing while the active bin is out of range
+ */
+export function estimateDailyFeesUsd(params: {
+  volume24hUsd: number;
+  feeRate: number;
+  positionValueUsd: number;
+  poolTvlUsd: number;
+  inRange: boolean;
+}): number {
+  if (!params.inRange || params.poolTvlUsd <= 0) return 0;
+  const share = Math.min(1, params.positionValueUsd / params.poolTvlUsd);
+  return params.volume24hUsd * params.feeRate * share;
+}
+
+/**
+ * Mark a DLMM position to the pool and accrue fees since the last sync.
+ * `activeBinId` is the pool's live active bin, when it was read.
+ */
+export function accountDlmmPosition(
+  position: Position,
+  pool: MeteoraPool,
+  now: Date = new Date(),
+  activeBinId?: number
+): DlmmAccounting | null {
+  const metadata = position.metadata ?? {};
+  const price = Number(pool.current_price);
+  if (!(price > 0)) return null;
+
+  // Recorded from the deposit fill; positions opened without a pool price are pinned by their first sync
+  const entryPrice = Number(metadata.entryPoolPrice) || price;
+  const binStep = Number(metadata.binStep) || pool.bin_step;
+  const binsEachSide = Number(metadata.binsEachSide) || DLMM_DEFAULT_BINS_EACH_SIDE;
+  const strategy = (['spot', 'curve', 'bid-ask'].includes(String(metadata.strategy))
+    ? metadata.strategy
+    : 'spot') as DlmmStrategy;
+
+  // Values are relative to what went into the current range
+  const rangeValueUsd = Number(metadata.rangeEntryValueUsd) || position.entryValueUsd;
+  const ratios = dlmmValueRatios(price / entryPrice, binStep, binsEachSide, strategy);
+  const binRange = dlmmBinRange({ ...metadata, binsEachSide });
+  const inRange = binRange && activeBinId !== undefined
+    ? activeBinId >= binRange.lowerBinId && activeBinId <= binRange.upperBinId
+    : ratios.inRange;
+  const lpValueUsd = rangeValueUsd * ratios.lp;
+  const hodlValueUsd = rangeValueUsd * ratios.hodl;
+
+  const lastAccrual = new Date(String(metadata.lastFeeAccrualAt ?? position.openedAt));
+  const elapsedDays = Math.max(0, (now.getTime() - lastAccrual.getTime()) / MS_PER_DAY) || 0;
+  const feesAccruedUsd = estimateDailyFeesUsd({
+    volume24hUsd: pool.trade_volume_24h || 0,
+    feeRate: poolFeeRate(pool),
+    positionValueUsd: lpValueUsd,
+    poolTvlUsd: parseFloat(pool.liquidity) || 0,
+    inRange,
+  }) * elapsedDays;
+  const feesEarnedUsd = (Number(metadata.feesEarned) || 0) + feesAccruedUsd;
+  const rangeFeesUsd = feesEarnedUsd - (Number(metadata.rangeFeesStartUsd) || 0);
+  const impermanentLossUsd = (Number(metadata.realizedImpermanentLossUsd) || 0)
+    + Math.max(0, hodlValueUsd - lpValueUsd);
+  const pricePnlUsd = (Number(metadata.realizedPricePnlUsd) || 0) + hodlValueUsd - rangeValueUsd;
+  const step = 1 + binStep / 10000;
+
+  return {
+    positionId: position.id,
+    price,
+    inRange,
+    lpValueUsd,
+    hodlValueUsd,
+    impermanentLossUsd,
+    feesAccruedUsd,
+    feesEarnedUsd,
+    pricePnlUsd,
+    currentValueUsd: lpValueUsd + rangeFeesUsd,
+    metadata: {
+      ...metadata,
+      entryPoolPrice: entryPrice,
+      binStep,
+      binsEachSide,
+      lowerPrice: entryPrice * Math.pow(step, -binsEachSide),
+      upperPrice: entryPrice * Math.pow(step, binsEachSide),
+      poolPrice: price,
+      poolActiveBinId: binRange ? activeBinId : undefined,
+      inRange,
+      outOfRangeSince: inRange ? undefined : String(metadata.outOfRangeSince ?? now.toISOString()),
+      feesEarned: feesEarnedUsd,
+      lastFeeAccrualAt: now.toISOString(),
+      impermanentLossUsd,
+      hodlValueUsd,
+      pricePnlUsd,
+    },
+  };
+}
+
+/**
+ * Metadata for a position whose liquidity was pulled and re-added around
+ * the current price. `valueUsd` is what went back in after `costsUsd`.
+ */
+export function recenterDlmmMetadata(
+  accounting: DlmmAccounting,
+  valueUsd: number,
+  costsUsd: number,
+  now: Date = new Date()
+): Record<string, unknown> {
+  const { metadata } = accounting;
+  const step = 1 + Number(metadata.binStep) / 10000;
+  const binsEachSide = Number(metadata.binsEachSide);
+
+  return {
+    ...metadata,
+    entryPoolPrice: accounting.price,
+    lowerPrice: accounting.price * Math.pow(step, -binsEachSide),
+    upperPrice: accounting.price * Math.pow(step, binsEachSide),
+    inRange: true,
+    outOfRangeSince: undefined,
+    rangeEntryValueUsd: valueUsd,
+    rangeFeesStartUsd: accounting.feesEarnedUsd,
+    realizedImpermanentLossUsd: accounting.impermanentLossUsd,
+    realizedPricePnlUsd: accounting.pricePnlUsd,
+    rebalanceCostsUsd: (Number(metadata.rebalanceCostsUsd) || 0) + costsUsd,
+    rebalanceCount: (Number(metadata.rebalanceCount) || 0) + 1,
+    lastRebalanceAt: now.toISOString(),
+  };
+}
+
+/**
+ * P&L split recorded on a position by its last sync
+ */
+export function dlmmPnlBreakdown(metadata: Record<string, unknown>): DlmmPnlBreakdown {
+  const feesUsd = Number(metadata.feesEarned) || 0;
+  const impermanentLossUsd = Number(metadata.impermanentLossUsd) || 0;
+  const rebalanceCostsUsd = Number(metadata.rebalanceCostsUsd) || 0;
+  return {
+    feesUsd,
+    impermanentLossUsd,
+    pricePnlUsd: Number(metadata.pricePnlUsd) || 0,
+    rebalanceCostsUsd,
+    netLpUsd: feesUsd - impermanentLossUsd - rebalanceCostsUsd,
+    inRange: typeof metadata.inRange === 'boolean' ? metadata.inRange : undefined,
+  };
+}
@@ -0,0 +1,444 @@
+/**
+ * DLMM Range Monitor
+ *
+ * A DLMM position only earns fees while the pool's active bin is inside its
+ * range. This service checks open positions between agent cycles and:
+ * - Flags positions whose active bin has left the range
+ * - Rebalances them (remove, then re-add around the new active bin) once
+ *   they have been out for `DLMM_REBALANCE_WAIT_MINUTES` and the fees
+ *   expected over `DLMM_REBALANCE_PAYBACK_HOURS` outweigh gas and swap costs
+ *
+ * The range is checked against the pool's live active bin, read at each
+ * sync, for positions that recorded their bins. Otherwise the active bin is
+ * estimated from the entry price: bins are a fixed `binStep` apart, so the
+ * bin offset is log(price / entry) / log(1 + binStep).
+ * Agents can also submit a `rebalance` decision; both paths book the result
+ * through applyDlmmRebalance.
+ */
+
+import type { DLMMDecision, Position } from '../types/index.js';
+import type { ExecutionResult } from '../execution/index.js';
+import { summarizeFills } from '../execution/index.js';
+import {
+  getOpenPositions,
+  updatePositionValue,
+  updatePositionMetadata,
+} from '../data/provider.js';
+import { meteoraClient, type MeteoraPool } from '../clients/meteora/client.js';
+import { venueRegistry, syncVenuePositions } from '../venues/index.js';
+import {
+  type DlmmStrategy,
+  DLMM_DEFAULT_BINS_EACH_SIDE,
+  accountDlmmPosition,
+  dlmmBinRange,
+  estimateDailyFeesUsd,
+  poolFeeRate,
+  recenterDlmmMetadata,
+} from './dlmm-accounting.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * When out-of-range positions are rebalanced automatically
+ */
+export interface DlmmRebalanceRules {
+  autoRebalance: boolean;
+  waitMinutes: number;         // Time out of range before rebalancing
+  gasUsd: number;              // Network cost of the remove + add transactions
+  paybackHours: number;        // Horizon the recentred range's fees must cover costs in
+}
+
+/**
+ * Where a position's range sits relative to the pool's active bin
+ */
+export interface DlmmRangeStatus {
+  positionId: string;
+  activeBinOffset: number;     // Bins from the range centre
+  binsEachSide: number;
+  inRange: boolean;
+  direction?: 'above' | 'below';
+  outOfRangeMinutes: number;
+}
+
+export interface RebalanceCheck {
+  rebalance: boolean;
+  reason: string;
+  expectedFeesUsd: number;
+  costUsd: number;
+}
+
+/**
+ * Emitted when a position's liquidity has been re-added around the active bin
+ */
+export interface DlmmRebalanced {
+  position: Position;
+  valueUsd: number;            // Position value after costs
+  costsUsd: number;
+  price: number;
+}
+
+type OutOfRangeHandler = (position: Position, status: DlmmRangeStatus) => Promise<void> | void;
+type RebalancedHandler = (event: DlmmRebalanced) => Promise<void> | void;
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Rebalance rules from the environment
+ */
+export function getDlmmRebalanceRules(): DlmmRebalanceRules {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value ?? '');
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    autoRebalance: process.env.DLMM_AUTO_REBALANCE !== 'false',
+    waitMinutes: number(process.env.DLMM_REBALANCE_WAIT_MINUTES, 30),
+    gasUsd: number(process.env.DLMM_REBALANCE_GAS_USD, 0.5),
+    paybackHours: number(process.env.DLMM_REBALANCE_PAYBACK_HOURS, 24),
+  };
+}
+
+// =============================================================================
+// CALCULATIONS
+// =============================================================================
+
+/**
+ * Bins between the entry price and the current price
+ */
+export function activeBinOffset(price: number, entryPrice: number, binStep: number): number {
+  if (!(price > 0) || !(entryPrice > 0) || !(binStep > 0)) return 0;
+  return Math.round(Math.log(price / entryPrice) / Math.log(1 + binStep / 10000));
+}
+
+/**
+ * Live active bin against the position's bins when the last sync read it,
+ * else estimated from the pool price
+ */
+function binOffset(metadata: Record<string, unknown>): { offset: number; binsEachSide: number } | null {
+  const binRange = dlmmBinRange(metadata);
+  const poolActiveBinId = metadata.poolActiveBinId;
+  if (binRange && typeof poolActiveBinId === 'number') {
+    const centre = (binRange.lowerBinId + binRange.upperBinId) / 2;
+    return { offset: poolActiveBinId - centre, binsEachSide: (binRange.upperBinId - binRange.lowerBinId) / 2 };
+  }
+
+  const price = Number(metadata.poolPrice);
+  const entryPrice = Number(metadata.entryPoolPrice);
+  const binStep = Number(metadata.binStep);
+  if (!(price > 0) || !(entryPrice > 0) || !(binStep > 0)) return null;
+
+  return {
+    offset: activeBinOffset(price, entryPrice, binStep),
+    binsEachSide: Number(metadata.binsEachSide) || DLMM_DEFAULT_BINS_EACH_SIDE,
+  };
+}
+
+/**
+ * Range status from the accounting a position's last sync recorded
+ * (null until it has been synced once)
+ */
+export function dlmmRangeStatus(position: Position, now: Date = new Date()): DlmmRangeStatus | null {
+  const metadata = position.metadata ?? {};
+  const range = binOffset(metadata);
+  if (!range) return null;
+
+  const { offset, binsEachSide } = range;
+  const inRange = Math.abs(offset) <= binsEachSide;
+  const since = metadata.outOfRangeSince ? new Date(String(metadata.outOfRangeSince)).getTime() : now.getTime();
+
+  return {
+    positionId: position.id,
+    activeBinOffset: offset,
+    binsEachSide,
+    inRange,
+    direction: inRange ? undefined : offset > 0 ? 'above' : 'below',
+    outOfRangeMinutes: inRange ? 0 : Math.max(0, (now.getTime() - since) / 60_000) || 0,
+  };
+}
+
+/**
+ * Whether the rules allow rebalancing a position now
+ */
+export function evaluateRebalance(
+  position: Position,
+  status: DlmmRangeStatus,
+  pool: Pick<MeteoraPool, 'trade_volume_24h' | 'liquidity' | 'base_fee_percentage' | 'bin_step'>,
+  rules: DlmmRebalanceRules
+): RebalanceCheck {
+  const feeRate = poolFeeRate(pool);
+  const valueUsd = position.currentValueUsd > 0 ? position.currentValueUsd : position.entryValueUsd;
+
+  // Recentred, the position earns its share of volume again
+  const expectedFeesUsd = estimateDailyFeesUsd({
+    volume24hUsd: pool.trade_volume_24h || 0,
+    feeRate,
+    positionValueUsd: valueUsd,
+    poolTvlUsd: parseFloat(pool.liquidity) || 0,
+    inRange: true,
+  }) * (rules.paybackHours / 24);
+
+  // Gas plus the pool fee on swapping half the position back to 50/50
+  const costUsd = rules.gasUsd + (valueUsd / 2) * feeRate;
+
+  if (status.inRange) {
+    return { rebalance: false, reason: 'In range', expectedFeesUsd, costUsd };
+  }
+  if (status.outOfRangeMinutes < rules.waitMinutes) {
+    return {
+      rebalance: false,
+      reason: `Out of range for ${status.outOfRangeMinutes.toFixed(0)}m, waiting ${rules.waitMinutes}m`,
+      expectedFeesUsd,
+      costUsd,
+    };
+  }
+  if (expectedFeesUsd <= costUsd) {
+    return {
+      rebalance: false,
+      reason: `Fees over ${rules.paybackHours}h ($${expectedFeesUsd.toFixed(2)}) don't cover costs ($${costUsd.toFixed(2)})`,
+      expectedFeesUsd,
+      costUsd,
+    };
+  }
+  return {
+    rebalance: true,
+    reason: `Out of range ${status.direction} for ${status.outOfRangeMinutes.toFixed(0)}m`,
+    expectedFeesUsd,
+    costUsd,
+  };
+}
+
+/**
+ * Decision that re-adds a position's liquidity around the active bin
+ */
+export function rebalanceDecision(
+  position: Position,
+  reasoning: string,
+  base?: Partial<DLMMDecision>
+): DLMMDecision {
+  const metadata = position.metadata ?? {};
+  const status = dlmmRangeStatus(position);
+
+  return {
+    confidence: 1,
+    ...base,
+    domain: 'dlmm',
+    action: 'rebalance',
+    target: position.id,
+    amountUsd: position.currentValueUsd > 0 ? position.currentValueUsd : position.entryValueUsd,
+    reasoning,
+    metadata: {
+      ...base?.metadata,
+      positionId: position.id,
+      poolAddress: position.target,
+      positionAddress: metadata.positionAddress,
+      strategy: (base?.metadata?.strategy ?? metadata.strategy) as DlmmStrategy | undefined,
+      rangeDirection: status?.direction,
+      venue: metadata.venue,
+    },
+  };
+}
+
+// =============================================================================
+// BOOKING
+// =============================================================================
+
+/**
+ * Book an executed rebalance: mark the old range to the pool, take swap and
+ * gas costs out of its value and start a new range at the current price
+ */
+export async function applyDlmmRebalance(
+  position: Position,
+  result: ExecutionResult,
+  now: Date = new Date()
+): Promise<DlmmRebalanced | null> {
+  const pool = await meteoraClient.getPool(position.target).catch(() => null);
+  const accounting = pool ? accountDlmmPosition(position, pool, now) : null;
+  if (!accounting) {
+    console.warn(`[DlmmRangeMonitor] No pool price to rebalance ${position.id}`);
+    return null;
+  }
+
+  const fills = result.fills ?? [];
+  const summary = summarizeFills(fills);
+  const costsUsd = summary.slippageUsd + summary.feeUsd + getDlmmRebalanceRules().gasUsd;
+  const valueUsd = Math.max(0, accounting.currentValueUsd - costsUsd);
+
+  // Live rebalances open a new on-chain position
+  const onChain = fills[0]?.metadata ?? {};
+  const metadata = {
+    ...recenterDlmmMetadata(accounting, valueUsd, costsUsd, now),
+    // The new range is centred on the bin active at the rebalance
+    entryActiveBinId: onChain.activeBinId,
+    poolActiveBinId: onChain.activeBinId,
+    ...(fills[0]?.txHash
+      ? {
+          positionAddress: onChain.positionAddress,
+          activeBinId: onChain.activeBinId,
+          minBinId: onChain.minBinId,
+          maxBinId: onChain.maxBinId,
+          rebalanceTxid: fills[0].txHash,
+        }
+      : {}),
+  };
+
+  await updatePositionValue(position.id, valueUsd, accounting.price);
+  await updatePositionMetadata(position.id, metadata);
+
+  console.log(`🔄 [DlmmRangeMonitor] Rebalanced ${position.target} around ${accounting.price}`);
+  console.log(`   Value: $${valueUsd.toFixed(2)} after $${costsUsd.toFixed(2)} costs`);
+
+  return { position: { ...position, currentValueUsd: valueUsd, metadata }, valueUsd, costsUsd, price: accounting.price };
+}
+
+// =============================================================================
+// RANGE MONITOR CLASS
+// =============================================================================
+
+/**
+ * Flags and rebalances DLMM positions whose active bin left their range
+ * Call start() to run in the background
+ */
+export class DlmmRangeMonitor {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private paperTrading = true;
+  private outOfRangeHandlers: OutOfRangeHandler[] = [];
+  private rebalancedHandlers: RebalancedHandler[] = [];
+  private readonly CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+  start(paperTrading: boolean = process.env.PAPER_TRADING !== 'false'): void {
+    if (this.isRunning) {
+      console.log('[DlmmRangeMonitor] Already running');
+      return;
+    }
+
+    console.log('[DlmmRangeMonitor] Starting DLMM range monitor...');
+    this.isRunning = true;
+    this.paperTrading = paperTrading;
+
+    // Run immediately
+    this.check().catch(err => console.error('[DlmmRangeMonitor] Initial check failed:', err));
+
+    // Set up interval
+    this.checkInterval = setInterval(async () => {
+      try {
+        await this.check();
+      } catch (error) {
+        console.error('[DlmmRangeMonitor] Check failed:', error);
+      }
+    }, this.CHECK_INTERVAL_MS);
+
+    console.log(`[DlmmRangeMonitor] Checking every ${this.CHECK_INTERVAL_MS / 1000} seconds`);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.isRunning = false;
+    console.log('[DlmmRangeMonitor] Stopped');
+  }
+
+  /**
+   * Subscribe to positions leaving their range
+   */
+  onOutOfRange(handler: OutOfRangeHandler): void {
+    this.outOfRangeHandlers.push(handler);
+  }
+
+  /**
+   * Subscribe to automatic rebalances
+   */
+  onRebalanced(handler: RebalancedHandler): void {
+    this.rebalancedHandlers.push(handler);
+  }
+
+  /**
+   * Mark positions to their pools, flag newly out-of-range ones and
+   * rebalance those the rules allow
+   */
+  async check(): Promise<DlmmRangeStatus[]> {
+    const positions = await getOpenPositions('dlmm');
+    if (positions.length === 0) return [];
+
+    const before = new Map(positions.map(p => [p.id, p]));
+    const synced = await syncVenuePositions('dlmm', positions);
+    const rules = getDlmmRebalanceRules();
+    const statuses: DlmmRangeStatus[] = [];
+
+    for (const position of synced) {
+      const status = dlmmRangeStatus(position);
+      if (!status) continue;
+      statuses.push(status);
+      if (status.inRange) continue;
+
+      // Flag once, on the sync that first saw it out of range
+      if (!before.get(position.id)?.metadata?.outOfRangeSince) {
+        console.log(`⚠️ [DlmmRangeMonitor] ${position.target} out of range (${status.direction}, ${status.activeBinOffset} bins)`);
+        await this.emitOutOfRange(position, status);
+      }
+
+      if (rules.autoRebalance) {
+        await this.maybeRebalance(position, status, rules);
+      }
+    }
+
+    return statuses;
+  }
+
+  private async maybeRebalance(
+    position: Position,
+    status: DlmmRangeStatus,
+    rules: DlmmRebalanceRules
+  ): Promise<void> {
+    const pool = await meteoraClient.getPool(position.target).catch(() => null);
+    if (!pool) return;
+
+    const check = evaluateRebalance(position, status, pool, rules);
+    if (!check.rebalance) return;
+
+    const venue = venueRegistry.forDomain('dlmm', position.metadata?.venue as string | undefined);
+    if (!venue) return;
+
+    try {
+      const decision = rebalanceDecision(position, `Auto-rebalance: ${check.reason}`);
+      const result = await venue.execute(decision, { paperTrading: this.paperTrading });
+      if (!result.success) {
+        console.warn(`[DlmmRangeMonitor] Rebalance of ${position.id} failed: ${result.error}`);
+        return;
+      }
+
+      const rebalanced = await applyDlmmRebalance(position, result);
+      if (rebalanced) {
+        for (const handler of this.rebalancedHandlers) {
+          try {
+            await handler(rebalanced);
+          } catch (error) {
+            console.warn('[DlmmRangeMonitor] Rebalance handler failed:', error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[DlmmRangeMonitor] Failed to rebalance ${position.id}:`, error);
+    }
+  }
+
+  private async emitOutOfRange(position: Position, status: DlmmRangeStatus): Promise<void> {
+    for (const handler of this.outOfRangeHandlers) {
+      try {
+        await handler(position, status);
+      } catch (error) {
+        console.warn('[DlmmRangeMonitor] Out-of-range handler failed:', error);
+      }
+    }
+  }
+}
+
+// Singleton range monitor
+export const dlmmRangeMonitor = new DlmmRangeMonitor();
@@ -5,3 +5,11 @@
 
 export * from './trade-verifier.js';
 export * from './idempotency.js';
+export * from './risk-engine.js';
+export * from './position-sizing.js';
+export * from './confidence-calibration.js';
+export * from './llm-usage.js';
+export * from './resting-orders.js';
+export * from './resolution-watcher.js';
+export * from './dlmm-accounting.js';
+export * from './dlmm-range-monitor.js';
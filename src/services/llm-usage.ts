@@ -0,0 +1,195 @@
+/**
+ * LLM Usage Ledger
+ *
+ * Records input, output and thinking tokens of every model call with its
+ * dollar cost (from MODEL_PRICES), tagged with purpose, domain, cycle and
+ * decision. Feeds `claudefi status` and the llm-budget hooks, which skip
+ * sessions once the day's spend passes LLM_DAILY_BUDGET_USD (or
+ * hooks.yaml `llm-budget.dailyBudgetUsd`).
+ *
+ * Thinking tokens are billed as output and already included in
+ * outputTokens; thinkingTokens is an estimate from the thinking blocks,
+ * kept to show how much of the output was reasoning.
+ */
+
+import type { Message } from '@anthropic-ai/sdk/resources/messages';
+import type { Domain } from '../types/index.js';
+import type { LlmPurpose, LlmUsageRecord } from '../types/internal.js';
+import { getModelPrice } from '../config/models.js';
+import { hookParam } from '../hooks/config.js';
+import { logLlmUsage, getLlmSpend } from '../data/provider.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface UsageTags {
+  purpose: LlmPurpose;
+  domain?: Domain;
+  decisionId?: string;
+  cycleId?: string;              // Defaults to the cycle set by setUsageCycle
+}
+
+export type TokenUsage = Pick<
+  LlmUsageRecord,
+  'inputTokens' | 'outputTokens' | 'thinkingTokens' | 'cacheReadTokens' | 'cacheWriteTokens'
+>;
+
+export interface UsageSummary {
+  calls: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  byDomain: Record<string, number>;    // USD, 'shared' for untagged calls
+  byPurpose: Record<string, number>;   // USD
+  decisions: number;                   // Distinct decision ids
+  costPerDecisionUsd: number;          // Total spend / decisions
+}
+
+export interface BudgetStatus {
+  spentUsd: number;
+  budgetUsd: number;                   // 0 = no budget
+  exceeded: boolean;
+}
+
+// Rough size of a token in English text, for estimating thinking tokens
+const CHARS_PER_TOKEN = 4;
+
+// =============================================================================
+// PRICING
+// =============================================================================
+
+/**
+ * Token counts from an API response
+ */
+export function usageFromMessage(message: Pick<Message, 'usage' | 'content'>): TokenUsage {
+  const thinkingChars = (message.content ?? []).reduce(
+    (sum, block) => sum + (block.type === 'thinking' ? block.thinking.length : 0),
+    0
+  );
+  const outputTokens = message.usage?.output_tokens ?? 0;
+
+  return {
+    inputTokens: message.usage?.input_tokens ?? 0,
+    outputTokens,
+    thinkingTokens: Math.min(outputTokens, Math.ceil(thinkingChars / CHARS_PER_TOKEN)),
+    cacheReadTokens: message.usage?.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: message.usage?.cache_creation_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Dollar cost of a call
+ */
+export function usageCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1_000_000;
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+let currentCycleId: string | undefined;
+
+/**
+ * Tag calls made from now on with a cycle (undefined between cycles)
+ */
+export function setUsageCycle(cycleId: string | undefined): void {
+  currentCycleId = cycleId;
+}
+
+/**
+ * Record a model call. Never throws - a ledger failure must not stop a cycle.
+ */
+export async function recordLlmUsage(
+  model: string,
+  message: Pick<Message, 'usage' | 'content'>,
+  tags: UsageTags
+): Promise<void> {
+  try {
+    const usage = usageFromMessage(message);
+    await logLlmUsage({
+      model,
+      purpose: tags.purpose,
+      domain: tags.domain,
+      cycleId: tags.cycleId ?? currentCycleId,
+      decisionId: tags.decisionId,
+      ...usage,
+      costUsd: usageCost(model, usage),
+    });
+  } catch (error) {
+    console.warn('[LlmUsage] Failed to record usage:', error instanceof Error ? error.message : error);
+  }
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+/**
+ * Totals by domain and purpose, and cost per decision (pure)
+ */
+export function summarizeUsage(records: LlmUsageRecord[]): UsageSummary {
+  const summary: UsageSummary = {
+    calls: records.length,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    thinkingTokens: 0,
+    byDomain: {},
+    byPurpose: {},
+    decisions: 0,
+    costPerDecisionUsd: 0,
+  };
+  const decisionIds = new Set<string>();
+
+  for (const record of records) {
+    summary.costUsd += record.costUsd;
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.thinkingTokens += record.thinkingTokens;
+
+    const domain = record.domain ?? 'shared';
+    summary.byDomain[domain] = (summary.byDomain[domain] ?? 0) + record.costUsd;
+    summary.byPurpose[record.purpose] = (summary.byPurpose[record.purpose] ?? 0) + record.costUsd;
+    if (record.decisionId) decisionIds.add(record.decisionId);
+  }
+
+  summary.decisions = decisionIds.size;
+  summary.costPerDecisionUsd = decisionIds.size > 0 ? summary.costUsd / decisionIds.size : 0;
+  return summary;
+}
+
+// =============================================================================
+// BUDGET
+// =============================================================================
+
+/**
+ * Start of the budget day (UTC midnight)
+ */
+export function budgetDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Daily budget in USD (0 = unlimited)
+ */
+export function getDailyBudgetUsd(): number {
+  return hookParam('llm-budget', 'dailyBudgetUsd', undefined, 0, 'LLM_DAILY_BUDGET_USD');
+}
+
+/**
+ * Today's spend against the daily budget
+ */
+export async function getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus> {
+  const budgetUsd = getDailyBudgetUsd();
+  const spentUsd = await getLlmSpend(budgetDayStart(now));
+  return { spentUsd, budgetUsd, exceeded: budgetUsd > 0 && spentUsd >= budgetUsd };
+}
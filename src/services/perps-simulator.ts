@@ -0,0 +1,339 @@
+/**
+ * Perps Paper Simulator
+ *
+ * Paper perps positions are otherwise frozen at their entry value: they never
+ * pay or receive funding and are never force-closed. This service runs
+ * alongside the liquidation monitor in paper mode and, on every check:
+ * - Accrues funding for each whole hour held at the market's current rate
+ *   (positive rate = longs pay shorts)
+ * - Marks the position to the Hyperliquid mark price, net of funding paid
+ * - Liquidates positions whose mark crosses the liquidation price (or whose
+ *   margin has been eaten by funding) - the whole margin is lost
+ *
+ * Funding is booked into the position's value, so it flows into realizedPnl
+ * when the position closes. Liquidations close the position here and notify
+ * listeners so the outcome reaches the learning system.
+ */
+
+import type { Position } from '../types/index.js';
+import {
+  getOpenPositions,
+  getDomainBalance,
+  updateDomainBalance,
+  closePosition,
+  updatePositionValue,
+  updatePositionMetadata,
+} from '../data/provider.js';
+import { hyperliquidClient, type PerpMarket } from '../clients/hyperliquid/client.js';
+import { positionCache } from './position-cache.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PerpsSide = 'LONG' | 'SHORT';
+
+/**
+ * Position terms read from a paper perps position
+ */
+export interface PerpsPositionTerms {
+  symbol: string;
+  side: PerpsSide;
+  leverage: number;
+  entryPrice: number;
+  notionalUsd: number;         // Notional at entry
+  marginUsd: number;
+  liquidationPrice: number;
+  fundingPaidUsd: number;      // Cumulative (negative = received)
+  lastFundingAt: Date;
+}
+
+/**
+ * Result of simulating one position
+ */
+export interface PerpsSimulationResult {
+  positionId: string;
+  symbol: string;
+  markPrice: number;
+  fundingRate: number;
+  fundingHours: number;
+  fundingUsd: number;          // Paid this run (negative = received)
+  fundingPaidUsd: number;      // Cumulative
+  currentValueUsd: number;
+  liquidationPrice: number;
+  liquidated: boolean;
+  realizedPnl?: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Emitted when the simulator closes a position
+ */
+export interface PerpsPositionClosed {
+  position: Position;
+  result: PerpsSimulationResult;
+  pnl: number;
+  pnlPercent: number;
+  reason: 'liquidation';
+}
+
+type PositionClosedHandler = (event: PerpsPositionClosed) => Promise<void> | void;
+
+// Hyperliquid settles funding hourly
+const FUNDING_INTERVAL_MS = 60 * 60 * 1000;
+
+// Maintenance margin used when the position didn't record a liquidation price
+const MAINTENANCE_MARGIN = 0.03;
+
+// =============================================================================
+// CALCULATIONS
+// =============================================================================
+
+/**
+ * Funding owed for a period. Positive = the position pays.
+ */
+export function calculateFundingPayment(
+  notionalUsd: number,
+  hourlyFundingRate: number,
+  side: PerpsSide,
+  hours: number
+): number {
+  const direction = side === 'LONG' ? 1 : -1;
+  return notionalUsd * hourlyFundingRate * hours * direction;
+}
+
+/**
+ * Whether the mark has crossed the liquidation price
+ */
+export function isLiquidated(side: PerpsSide, markPrice: number, liquidationPrice: number): boolean {
+  if (liquidationPrice <= 0) return false;
+  return side === 'LONG' ? markPrice <= liquidationPrice : markPrice >= liquidationPrice;
+}
+
+/**
+ * Read side, leverage, entry and funding state from a paper position.
+ * Returns null when the position doesn't carry enough to simulate.
+ */
+export function getPerpsPositionTerms(position: Position): PerpsPositionTerms | null {
+  const metadata = position.metadata ?? {};
+
+  const entryPrice = Number(metadata.entryPrice ?? metadata.fillPrice ?? metadata.entry_price);
+  if (!Number.isFinite(entryPrice) || entryPrice <= 0) return null;
+
+  const side: PerpsSide = String(metadata.side ?? 'LONG').toUpperCase() === 'SHORT' ? 'SHORT' : 'LONG';
+  const leverage = Number(metadata.leverage) || 1;
+
+  // Entry value includes paper fill costs; the notional is what actually filled
+  const entryCosts = (Number(metadata.feesPaidUsd) || 0) + (Number(metadata.slippageUsd) || 0);
+  const notionalUsd = Number(metadata.size_usd) || Math.max(0, position.entryValueUsd - entryCosts);
+
+  const recordedLiquidation = Number(metadata.liquidationPrice);
+  const liquidationPrice = recordedLiquidation > 0
+    ? recordedLiquidation
+    : hyperliquidClient.calculateLiquidationPrice(entryPrice, side, leverage, MAINTENANCE_MARGIN);
+
+  const lastFunding = typeof metadata.lastFundingAt === 'string' ? metadata.lastFundingAt : position.openedAt;
+
+  return {
+    symbol: String(metadata.symbol ?? position.target),
+    side,
+    leverage,
+    entryPrice,
+    notionalUsd,
+    marginUsd: notionalUsd / leverage,
+    liquidationPrice,
+    fundingPaidUsd: Number(metadata.fundingPaidUsd) || 0,
+    lastFundingAt: new Date(lastFunding),
+  };
+}
+
+/**
+ * Accrue funding and mark (or liquidate) one position at the given market state
+ */
+export function simulatePerpsPosition(
+  position: Position,
+  market: Pick<PerpMarket, 'markPrice' | 'fundingRate'>,
+  now: Date = new Date()
+): PerpsSimulationResult | null {
+  const terms = getPerpsPositionTerms(position);
+  if (!terms || market.markPrice <= 0) return null;
+
+  const direction = terms.side === 'LONG' ? 1 : -1;
+  const priceRatio = market.markPrice / terms.entryPrice;
+
+  // Funding for each whole hour since the last accrual, on the current notional
+  const fundingHours = Math.max(0, Math.floor((now.getTime() - terms.lastFundingAt.getTime()) / FUNDING_INTERVAL_MS));
+  const fundingUsd = calculateFundingPayment(
+    terms.notionalUsd * priceRatio,
+    market.fundingRate,
+    terms.side,
+    fundingHours
+  );
+  const fundingPaidUsd = terms.fundingPaidUsd + fundingUsd;
+  const lastFundingAt = new Date(terms.lastFundingAt.getTime() + fundingHours * FUNDING_INTERVAL_MS);
+
+  const pricePnl = terms.notionalUsd * direction * (priceRatio - 1);
+  const equity = terms.marginUsd + pricePnl - fundingPaidUsd;
+  const liquidated = isLiquidated(terms.side, market.markPrice, terms.liquidationPrice) || equity <= 0;
+
+  // Liquidation forfeits the whole margin
+  const currentValueUsd = liquidated
+    ? Math.max(0, terms.notionalUsd - terms.marginUsd)
+    : Math.max(0, terms.notionalUsd + pricePnl - fundingPaidUsd);
+
+  return {
+    positionId: position.id,
+    symbol: terms.symbol,
+    markPrice: market.markPrice,
+    fundingRate: market.fundingRate,
+    fundingHours,
+    fundingUsd,
+    fundingPaidUsd,
+    currentValueUsd,
+    liquidationPrice: terms.liquidationPrice,
+    liquidated,
+    realizedPnl: liquidated ? currentValueUsd - position.entryValueUsd : undefined,
+    metadata: {
+      ...position.metadata,
+      currentPrice: market.markPrice,
+      liquidationPrice: terms.liquidationPrice,
+      fundingPaidUsd,
+      lastFundingAt: lastFundingAt.toISOString(),
+    },
+  };
+}
+
+// =============================================================================
+// PERPS PAPER SIMULATOR CLASS
+// =============================================================================
+
+/**
+ * Applies funding and liquidations to open paper perps positions
+ * Call start() to run in the background
+ */
+export class PerpsPaperSimulator {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private handlers: PositionClosedHandler[] = [];
+  private readonly CHECK_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('[PerpsSimulator] Already running');
+      return;
+    }
+
+    console.log('[PerpsSimulator] Starting paper funding/liquidation simulation...');
+    this.isRunning = true;
+
+    // Run immediately
+    this.check().catch(err => console.error('[PerpsSimulator] Initial check failed:', err));
+
+    // Set up interval
+    this.checkInterval = setInterval(async () => {
+      try {
+        await this.check();
+      } catch (error) {
+        console.error('[PerpsSimulator] Check failed:', error);
+      }
+    }, this.CHECK_INTERVAL_MS);
+
+    console.log(`[PerpsSimulator] Checking every ${this.CHECK_INTERVAL_MS / 1000} seconds`);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.isRunning = false;
+    console.log('[PerpsSimulator] Stopped');
+  }
+
+  /**
+   * Subscribe to positions closed by the simulator (liquidations)
+   */
+  onPositionClosed(handler: PositionClosedHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Simulate all open paper perps positions against current markets
+   */
+  async check(now: Date = new Date()): Promise<PerpsSimulationResult[]> {
+    const positions = await getOpenPositions('perps');
+    if (positions.length === 0) return [];
+
+    const markets = await hyperliquidClient.getMarkets();
+    if (markets.length === 0) {
+      console.warn('[PerpsSimulator] No Hyperliquid markets, skipping simulation');
+      return [];
+    }
+    const marketsBySymbol = new Map(markets.map(m => [m.symbol, m]));
+
+    const results: PerpsSimulationResult[] = [];
+
+    for (const position of positions) {
+      const market = marketsBySymbol.get(String(position.metadata?.symbol ?? position.target));
+      if (!market) continue;
+
+      const result = simulatePerpsPosition(position, market, now);
+      if (!result) continue;
+
+      try {
+        if (result.liquidated) {
+          await this.liquidate(position, result);
+        } else {
+          await updatePositionValue(position.id, result.currentValueUsd, result.markPrice);
+          if (result.fundingHours > 0) {
+            await updatePositionMetadata(position.id, result.metadata);
+          }
+        }
+        results.push(result);
+      } catch (error) {
+        console.error(`[PerpsSimulator] Failed to update ${position.id}:`, error);
+      }
+    }
+
+    const funded = results.filter(r => r.fundingHours > 0);
+    if (funded.length > 0) {
+      const total = funded.reduce((sum, r) => sum + r.fundingUsd, 0);
+      console.log(`[PerpsSimulator] Funding accrued on ${funded.length} positions: $${total.toFixed(2)}`);
+    }
+
+    return results;
+  }
+
+  private async liquidate(position: Position, result: PerpsSimulationResult): Promise<void> {
+    const pnl = result.realizedPnl ?? result.currentValueUsd - position.entryValueUsd;
+    const pnlPercent = position.entryValueUsd > 0 ? (pnl / position.entryValueUsd) * 100 : 0;
+
+    console.log(`🚨 [PerpsSimulator] ${result.symbol} LIQUIDATED at $${result.markPrice} (liq: $${result.liquidationPrice.toFixed(2)})`);
+    console.log(`   P&L: $${pnl.toFixed(2)} incl. $${result.fundingPaidUsd.toFixed(2)} funding`);
+
+    await closePosition('perps', position.id, {
+      currentValueUsd: result.currentValueUsd,
+      realizedPnl: pnl,
+      metadata: {
+        ...result.metadata,
+        liquidated: true,
+        closeReason: 'liquidation',
+      },
+    });
+
+    const balance = await getDomainBalance('perps');
+    await updateDomainBalance('perps', balance + result.currentValueUsd);
+    positionCache.markClosed('perps', position, pnl);
+
+    for (const handler of this.handlers) {
+      try {
+        await handler({ position, result, pnl, pnlPercent, reason: 'liquidation' });
+      } catch (error) {
+        console.warn('[PerpsSimulator] Close handler failed:', error);
+      }
+    }
+  }
+}
+
+// Singleton perps paper simulator
+export const perpsPaperSimulator = new PerpsPaperSimulator();
@@ -12,12 +12,33 @@
  * 1. Parsed from agent reasoning (e.g., "stop loss at $50")
  * 2. Registered manually via registerExit()
  * 3. Auto-generated for safety (liquidation prevention)
+ * 4. Mirrored from perps bracket orders (TP/SL/trailing set at entry)
+ *
+ * Conditions sharing a metadata.ocoGroup are one-cancels-other: when one
+ * triggers, its siblings are deactivated.
+ *
+ * Conditions are persisted (ExitCondition table) and rehydrated on start(),
+ * so stops survive restarts. Triggered and cancelled conditions are kept as
+ * an audit trail.
+ *
+ * Between interval checks, ticks from the price stream for watched perps and
+ * Polymarket outcomes trigger a re-check (throttled), so exits fire within
+ * seconds of the price crossing.
  */
 
+import { randomUUID } from 'crypto';
 import type { Domain, Position } from '../types/index.js';
-import { getOpenPositions, closePosition, updatePositionValue } from '../db/index.js';
+import type { ExitConditionRecord, ExitConditionStatus } from '../types/internal.js';
+import {
+  getOpenPositions,
+  closePosition,
+  createExitCondition,
+  updateExitCondition,
+  getActiveExitConditions,
+} from '../data/provider.js';
 import { hyperliquidClient } from '../clients/hyperliquid/client.js';
 import { meteoraClient } from '../clients/meteora/client.js';
+import { priceStream, type PriceTick } from './price-stream.js';
 
 // =============================================================================
 // TYPES
@@ -41,7 +62,7 @@ export interface ExitCondition {
   triggerTime?: Date;          // For time_based
   marginThreshold?: number;    // For liquidation_risk (e.g., 0.25 = 25% margin)
   trailingPercent?: number;    // For trailing_stop (e.g., 0.05 = 5%)
-  highWaterMark?: number;      // Highest price seen (for trailing stop)
+  highWaterMark?: number;      // Best price seen (for trailing stop: highest, or lowest when direction is 'above')
   active: boolean;
   createdAt: Date;
   triggeredAt?: Date;
@@ -62,13 +83,59 @@ export interface ExecutedExit {
   error?: string;
 }
 
+/**
+ * Closes the position for a triggered exit and books the result.
+ * valueUsd is the position's value at the trigger price.
+ */
+export type ExitExecutor = (condition: ExitCondition, valueUsd: number, reason: string) => Promise<void>;
+
 /**
  * Current price data for position monitoring
  */
 interface PriceData {
   positionId: string;
   currentPrice: number;
+  markPrice?: number;   // For perps: market price (triggers compare against this)
   marginRatio?: number; // For perps
+  streamKey?: string;   // Price stream key (`source:symbol`) when the price is streamed
+}
+
+// Minimum gap between tick-driven checks
+const TICK_CHECK_MIN_INTERVAL_MS = 2000;
+
+/**
+ * Throttle tick-driven checks: at most one run in flight and one per interval.
+ * Ticks arriving meanwhile coalesce into a single follow-up run.
+ */
+function createTickScheduler(run: () => Promise<unknown>, label: string): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let lastRun = 0;
+
+  const schedule = (): void => {
+    if (timer) return;
+
+    const wait = Math.max(0, lastRun + TICK_CHECK_MIN_INTERVAL_MS - Date.now());
+    timer = setTimeout(async () => {
+      timer = null;
+      if (running) {
+        schedule();
+        return;
+      }
+
+      running = true;
+      lastRun = Date.now();
+      try {
+        await run();
+      } catch (error) {
+        console.error(`[${label}] Tick check failed:`, error);
+      } finally {
+        running = false;
+      }
+    }, wait);
+  };
+
+  return schedule;
 }
 
 // =============================================================================
@@ -83,8 +150,12 @@ export class PositionMonitor {
   private exitConditions: Map<string, ExitCondition> = new Map();
   private checkInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
+  private streamKeys: Set<string> = new Set();
+  private unsubscribeStream: (() => void) | null = null;
+  private scheduleTickCheck = createTickScheduler(() => this.checkAllExits({ streamedOnly: true }), 'PositionMonitor');
+  private exitExecutor: ExitExecutor | null = null;
 
-  // Check interval in milliseconds (5 minutes)
+  // Check interval in milliseconds (5 minutes) - ticks trigger checks in between
   private readonly CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
   /**
@@ -99,10 +170,10 @@ export class PositionMonitor {
     console.log('[PositionMonitor] Starting position monitor...');
     this.isRunning = true;
 
-    // Run immediately
-    this.checkAllExits().catch(err =>
-      console.error('[PositionMonitor] Initial check failed:', err)
-    );
+    // Restore persisted conditions, then run immediately
+    this.rehydrate()
+      .then(() => this.checkAllExits())
+      .catch(err => console.error('[PositionMonitor] Initial check failed:', err));
 
     // Set up interval
     this.checkInterval = setInterval(async () => {
@@ -113,6 +184,9 @@ export class PositionMonitor {
       }
     }, this.CHECK_INTERVAL_MS);
 
+    // Re-check when a watched price moves
+    this.unsubscribeStream = priceStream.onTick(tick => this.handleTick(tick));
+
     console.log(`[PositionMonitor] Monitoring every ${this.CHECK_INTERVAL_MS / 1000 / 60} minutes`);
   }
 
@@ -124,15 +198,56 @@ export class PositionMonitor {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
     }
+    this.unsubscribeStream?.();
+    this.unsubscribeStream = null;
     this.isRunning = false;
     console.log('[PositionMonitor] Stopped');
   }
 
+  /**
+   * Route triggered exits through the caller's close path (execution,
+   * balance, realized P&L, trade outcome) instead of only closing the record
+   */
+  setExitExecutor(executor: ExitExecutor | null): void {
+    this.exitExecutor = executor;
+  }
+
+  /**
+   * Schedule a check when a tick arrives for a position with active exits
+   */
+  handleTick(tick: PriceTick): void {
+    if (this.streamKeys.has(`${tick.source}:${tick.symbol}`)) {
+      this.scheduleTickCheck();
+    }
+  }
+
+  /**
+   * Load active exit conditions saved by a previous process
+   */
+  async rehydrate(): Promise<number> {
+    try {
+      const records = await getActiveExitConditions();
+      for (const record of records) {
+        if (!this.exitConditions.has(record.id)) {
+          this.exitConditions.set(record.id, fromRecord(record));
+        }
+      }
+
+      if (records.length > 0) {
+        console.log(`[PositionMonitor] Rehydrated ${records.length} exit conditions`);
+      }
+      return records.length;
+    } catch (error) {
+      console.error('[PositionMonitor] Failed to rehydrate exit conditions:', error);
+      return 0;
+    }
+  }
+
   /**
    * Register an exit condition for monitoring
    */
   registerExit(condition: Omit<ExitCondition, 'id' | 'createdAt' | 'active'>): string {
-    const id = `exit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const id = randomUUID();
 
     const fullCondition: ExitCondition = {
       ...condition,
@@ -144,16 +259,22 @@ export class PositionMonitor {
     this.exitConditions.set(id, fullCondition);
     console.log(`[PositionMonitor] Registered ${condition.type} for position ${condition.positionId}`);
 
+    this.persist(createExitCondition(toRecord(fullCondition, 'active')), id);
+
     return id;
   }
 
   /**
    * Remove an exit condition
    */
-  removeExit(exitId: string): boolean {
+  removeExit(exitId: string, reason: string = 'removed'): boolean {
+    const condition = this.exitConditions.get(exitId);
     const removed = this.exitConditions.delete(exitId);
     if (removed) {
       console.log(`[PositionMonitor] Removed exit condition ${exitId}`);
+      if (condition?.active) {
+        this.cancel(condition, reason);
+      }
     }
     return removed;
   }
@@ -161,17 +282,41 @@ export class PositionMonitor {
   /**
    * Remove all exit conditions for a position
    */
-  removeExitsForPosition(positionId: string): number {
+  removeExitsForPosition(positionId: string, reason: string = 'removed'): number {
     let removed = 0;
     for (const [id, condition] of this.exitConditions) {
       if (condition.positionId === positionId) {
         this.exitConditions.delete(id);
+        if (condition.active) {
+          this.cancel(condition, reason);
+        }
         removed++;
       }
     }
     return removed;
   }
 
+  /**
+   * Deactivate a condition and record why
+   */
+  private cancel(condition: ExitCondition, reason: string): void {
+    condition.active = false;
+    this.persist(updateExitCondition(condition.id, {
+      status: 'cancelled',
+      triggerReason: reason,
+      cancelledAt: new Date(),
+    }), condition.id);
+  }
+
+  /**
+   * Write-behind persistence: monitoring never blocks on the database
+   */
+  private persist(write: Promise<void>, exitId: string): void {
+    write.catch(error =>
+      console.warn(`[PositionMonitor] Failed to persist exit condition ${exitId}:`, error)
+    );
+  }
+
   /**
    * Parse exit conditions from agent's reasoning
    * Returns null if no exit conditions are mentioned
@@ -271,43 +416,54 @@ export class PositionMonitor {
   }
 
   /**
-   * Check all exit conditions and execute triggered ones
+   * Check all exit conditions and execute triggered ones.
+   * streamedOnly (tick checks) limits this to perps/Polymarket positions with a
+   * fresh streamed price; DLMM and spot wait for the regular interval.
    */
-  async checkAllExits(): Promise<ExecutedExit[]> {
+  async checkAllExits(options: { streamedOnly?: boolean } = {}): Promise<ExecutedExit[]> {
     if (this.exitConditions.size === 0) {
       return [];
     }
 
     console.log(`[PositionMonitor] Checking ${this.exitConditions.size} exit conditions...`);
 
-    const prices = await getCurrentPrices();
+    const prices = await getCurrentPrices(options);
     const executedExits: ExecutedExit[] = [];
+    const streamKeys = new Set<string>();
 
     for (const [id, condition] of this.exitConditions) {
       if (!condition.active) continue;
 
       const priceData = prices.get(condition.positionId);
       if (!priceData) {
+        if (options.streamedOnly) continue;
+
         // Position may have been closed
         this.exitConditions.delete(id);
+        this.cancel(condition, 'position_closed');
         continue;
       }
 
+      if (priceData.streamKey) {
+        streamKeys.add(priceData.streamKey);
+      }
+
       let triggered = false;
       let reason = '';
+      const price = priceData.markPrice ?? priceData.currentPrice;
 
       switch (condition.type) {
         case 'stop_loss':
-          if (condition.triggerPrice && condition.triggerPriceDirection === 'below') {
-            triggered = priceData.currentPrice <= condition.triggerPrice;
-            reason = `Stop loss triggered at $${priceData.currentPrice} (trigger: $${condition.triggerPrice})`;
+          if (condition.triggerPrice) {
+            triggered = crossesTrigger(price, condition.triggerPrice, condition.triggerPriceDirection ?? 'below');
+            reason = `Stop loss triggered at $${price} (trigger: $${condition.triggerPrice})`;
           }
           break;
 
         case 'take_profit':
-          if (condition.triggerPrice && condition.triggerPriceDirection === 'above') {
-            triggered = priceData.currentPrice >= condition.triggerPrice;
-            reason = `Take profit triggered at $${priceData.currentPrice} (trigger: $${condition.triggerPrice})`;
+          if (condition.triggerPrice) {
+            triggered = crossesTrigger(price, condition.triggerPrice, condition.triggerPriceDirection ?? 'above');
+            reason = `Take profit triggered at $${price} (trigger: $${condition.triggerPrice})`;
           }
           break;
 
@@ -327,14 +483,23 @@ export class PositionMonitor {
 
         case 'trailing_stop':
           if (condition.trailingPercent) {
-            // Update high water mark
-            condition.highWaterMark = Math.max(
-              condition.highWaterMark || priceData.currentPrice,
-              priceData.currentPrice
-            );
-            const trailPrice = condition.highWaterMark * (1 - condition.trailingPercent);
-            triggered = priceData.currentPrice <= trailPrice;
-            reason = `Trailing stop triggered at $${priceData.currentPrice} (trail from $${condition.highWaterMark})`;
+            const previousMark = condition.highWaterMark;
+            if (condition.triggerPriceDirection === 'above') {
+              // Short: trail up from the lowest price seen
+              condition.highWaterMark = Math.min(condition.highWaterMark || price, price);
+              const trailPrice = condition.highWaterMark * (1 + condition.trailingPercent);
+              triggered = price >= trailPrice;
+            } else {
+              // Update high water mark
+              condition.highWaterMark = Math.max(condition.highWaterMark || price, price);
+              const trailPrice = condition.highWaterMark * (1 - condition.trailingPercent);
+              triggered = price <= trailPrice;
+            }
+            reason = `Trailing stop triggered at $${price} (trail from $${condition.highWaterMark})`;
+
+            if (condition.highWaterMark !== previousMark && !triggered) {
+              this.persist(updateExitCondition(id, { highWaterMark: condition.highWaterMark }), id);
+            }
           }
           break;
       }
@@ -347,9 +512,31 @@ export class PositionMonitor {
         // Mark as triggered
         condition.active = false;
         condition.triggeredAt = new Date();
+
+        this.persist(updateExitCondition(id, {
+          status: exit.success ? 'triggered' : 'failed',
+          triggerReason: exit.success ? reason : `${reason} (failed: ${exit.error})`,
+          executionPrice: price,
+          triggeredAt: condition.triggeredAt,
+          highWaterMark: condition.highWaterMark,
+        }), id);
+
+        // One-cancels-other: the rest of the bracket is void once a leg fires
+        if (exit.success && condition.metadata?.ocoGroup) {
+          for (const sibling of this.exitConditions.values()) {
+            if (sibling.active && sibling.metadata?.ocoGroup === condition.metadata.ocoGroup) {
+              this.cancel(sibling, `oco: ${condition.type} triggered`);
+            }
+          }
+        }
       }
     }
 
+    // Only a full check sees every position
+    if (!options.streamedOnly) {
+      this.streamKeys = streamKeys;
+    }
+
     if (executedExits.length > 0) {
       console.log(`[PositionMonitor] Executed ${executedExits.length} exits`);
     }
@@ -368,11 +555,14 @@ export class PositionMonitor {
     console.log(`[PositionMonitor] Executing ${condition.type} for ${condition.positionId}: ${reason}`);
 
     try {
-      // Close the position in the database
-      // In production, this would also execute the actual trade
-      await closePosition(condition.domain, condition.positionId, {
-        currentValueUsd: priceData.currentPrice,
-      });
+      if (this.exitExecutor) {
+        await this.exitExecutor(condition, priceData.currentPrice, reason);
+      } else {
+        // No executor wired (standalone use): close the record only
+        await closePosition(condition.domain, condition.positionId, {
+          currentValueUsd: priceData.currentPrice,
+        });
+      }
 
       return {
         exitCondition: condition,
@@ -415,6 +605,57 @@ export class PositionMonitor {
   }
 }
 
+/**
+ * Monitor condition -> persisted record
+ */
+function toRecord(condition: ExitCondition, status: ExitConditionStatus): ExitConditionRecord {
+  return {
+    id: condition.id,
+    positionId: condition.positionId,
+    domain: condition.domain,
+    type: condition.type,
+    triggerPrice: condition.triggerPrice,
+    triggerPriceDirection: condition.triggerPriceDirection,
+    triggerTime: condition.triggerTime,
+    marginThreshold: condition.marginThreshold,
+    trailingPercent: condition.trailingPercent,
+    highWaterMark: condition.highWaterMark,
+    status,
+    createdAt: condition.createdAt,
+    triggeredAt: condition.triggeredAt,
+    metadata: condition.metadata,
+  };
+}
+
+/**
+ * Persisted record -> monitor condition
+ */
+function fromRecord(record: ExitConditionRecord): ExitCondition {
+  return {
+    id: record.id,
+    positionId: record.positionId,
+    domain: record.domain,
+    type: record.type as ExitType,
+    triggerPrice: record.triggerPrice,
+    triggerPriceDirection: record.triggerPriceDirection,
+    triggerTime: record.triggerTime,
+    marginThreshold: record.marginThreshold,
+    trailingPercent: record.trailingPercent,
+    highWaterMark: record.highWaterMark,
+    active: record.status === 'active',
+    createdAt: record.createdAt,
+    triggeredAt: record.triggeredAt,
+    metadata: record.metadata,
+  };
+}
+
+/**
+ * Whether a price has reached a trigger from the given direction
+ */
+function crossesTrigger(price: number, triggerPrice: number, direction: 'above' | 'below'): boolean {
+  return direction === 'above' ? price >= triggerPrice : price <= triggerPrice;
+}
+
 // =============================================================================
 // SINGLETON INSTANCE
 // =============================================================================
@@ -427,17 +668,21 @@ export const positionMonitor = new PositionMonitor();
 /**
  * Get current prices for all open positions using real APIs
  */
-async function getCurrentPrices(): Promise<Map<string, PriceData>> {
+async function getCurrentPrices(options: { streamedOnly?: boolean } = {}): Promise<Map<string, PriceData>> {
   const prices = new Map<string, PriceData>();
 
-  const domains: Domain[] = ['dlmm', 'perps', 'polymarket', 'spot'];
+  const domains: Domain[] = options.streamedOnly
+    ? ['perps', 'polymarket']
+    : ['dlmm', 'perps', 'polymarket', 'spot'];
 
-  // Fetch all Hyperliquid prices at once (for perps)
-  let hyperliquidMids: Record<string, string> = {};
-  try {
-    hyperliquidMids = await hyperliquidClient.getAllMids();
-  } catch (error) {
-    console.warn('[PositionMonitor] Failed to fetch Hyperliquid prices:', error);
+  // Fetch all Hyperliquid prices at once (for perps) - streamed if fresh
+  let hyperliquidMids = priceStream.getMids();
+  if (Object.keys(hyperliquidMids).length === 0 && !options.streamedOnly) {
+    try {
+      hyperliquidMids = await hyperliquidClient.getAllMids();
+    } catch (error) {
+      console.warn('[PositionMonitor] Failed to fetch Hyperliquid prices:', error);
+    }
   }
 
   for (const domain of domains) {
@@ -445,21 +690,27 @@ async function getCurrentPrices(): Promise<Map<string, PriceData>> {
 
     for (const position of positions) {
       let currentPrice = position.currentValueUsd || position.entryValueUsd;
+      let markPrice: number | undefined;
       let marginRatio: number | undefined;
+      let streamKey: string | undefined;
 
       try {
         switch (domain) {
           case 'perps': {
             // Perps: Use Hyperliquid prices
-            const symbol = position.target; // e.g., "BTC", "ETH"
+            const symbol = String(position.metadata?.symbol ?? position.target); // e.g., "BTC", "ETH"
             const midPrice = hyperliquidMids[symbol];
+            priceStream.watchPerps([symbol]);
+            streamKey = `hyperliquid:${symbol}`;
             if (midPrice) {
-              const entryPrice = (position.metadata as Record<string, unknown>)?.entry_price as number || 0;
-              const size = (position.metadata as Record<string, unknown>)?.size_usd as number || position.entryValueUsd;
-              const side = (position.metadata as Record<string, unknown>)?.side as string || 'LONG';
-              const leverage = (position.metadata as Record<string, unknown>)?.leverage as number || 1;
+              const metadata = position.metadata as Record<string, unknown>;
+              const entryPrice = Number(metadata?.entry_price ?? metadata?.entryPrice ?? metadata?.fillPrice) || 0;
+              const size = metadata?.size_usd as number || position.entryValueUsd;
+              const side = String(metadata?.side || 'LONG').toUpperCase();
+              const leverage = metadata?.leverage as number || 1;
 
               const price = parseFloat(midPrice);
+              markPrice = price;
 
               // Calculate P&L based on position side
               let pnl = 0;
@@ -509,11 +760,24 @@ async function getCurrentPrices(): Promise<Map<string, PriceData>> {
           }
 
           case 'polymarket': {
-            // Polymarket: Current share price
-            const shares = (position.metadata as Record<string, unknown>)?.shares as number || 1;
-            const currentSharePrice = (position.metadata as Record<string, unknown>)?.current_price as number;
+            // Polymarket: Streamed outcome price, else the last recorded share price
+            const metadata = (position.metadata ?? {}) as Record<string, unknown>;
+            const outcome = String(metadata.outcome ?? 'YES').toUpperCase() === 'NO' ? 'NO' : 'YES';
+            const tokenId = (metadata.tokenId as string | undefined)
+              ?? await priceStream.watchPolymarketMarket(position.target, outcome);
+            if (tokenId) {
+              priceStream.watchPolymarketTokens([tokenId]);
+              streamKey = `polymarket:${tokenId}`;
+            }
+
+            const entrySharePrice = Number(metadata.fillPrice ?? metadata.entry_price) || 0;
+            const shares = Number(metadata.shares)
+              || (entrySharePrice > 0 ? position.entryValueUsd / entrySharePrice : 1);
+            const streamedPrice = tokenId ? priceStream.getPrice('polymarket', tokenId) : undefined;
+            const currentSharePrice = streamedPrice ?? (metadata.current_price as number);
             if (currentSharePrice && shares) {
               currentPrice = shares * currentSharePrice;
+              markPrice = streamedPrice;
             }
             break;
           }
@@ -522,10 +786,15 @@ async function getCurrentPrices(): Promise<Map<string, PriceData>> {
         console.warn(`[PositionMonitor] Failed to get price for ${position.id}:`, error);
       }
 
+      // Without a fresh streamed price, a tick check has nothing new to compare
+      if (options.streamedOnly && markPrice === undefined) continue;
+
       prices.set(position.id, {
         positionId: position.id,
         currentPrice,
+        markPrice,
         marginRatio,
+        streamKey,
       });
     }
   }
@@ -598,6 +867,68 @@ export function registerSafetyExits(
   return exitIds;
 }
 
+/**
+ * Bracket legs requested at entry
+ */
+export interface BracketExits {
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  trailingStopPercent?: number;    // Percent, e.g. 5 = 5%
+  takeProfitOrderId?: string;      // Exchange trigger order (live)
+  stopLossOrderId?: string;
+}
+
+/**
+ * Mirror a position's bracket orders into exit conditions.
+ * Live, the exchange triggers fill first and these keep the database in step;
+ * in paper mode they are the execution. All legs share one OCO group.
+ */
+export function registerBracketExits(
+  positionId: string,
+  domain: Domain,
+  side: 'LONG' | 'SHORT',
+  bracket: BracketExits
+): string[] {
+  const exitIds: string[] = [];
+  const isLong = side === 'LONG';
+  const metadata = { bracket: true, ocoGroup: positionId, side };
+
+  if (bracket.takeProfitPrice) {
+    exitIds.push(positionMonitor.registerExit({
+      positionId,
+      domain,
+      type: 'take_profit',
+      triggerPrice: bracket.takeProfitPrice,
+      triggerPriceDirection: isLong ? 'above' : 'below',
+      metadata: { ...metadata, exchangeOrderId: bracket.takeProfitOrderId },
+    }));
+  }
+
+  if (bracket.stopLossPrice) {
+    exitIds.push(positionMonitor.registerExit({
+      positionId,
+      domain,
+      type: 'stop_loss',
+      triggerPrice: bracket.stopLossPrice,
+      triggerPriceDirection: isLong ? 'below' : 'above',
+      metadata: { ...metadata, exchangeOrderId: bracket.stopLossOrderId },
+    }));
+  }
+
+  if (bracket.trailingStopPercent) {
+    exitIds.push(positionMonitor.registerExit({
+      positionId,
+      domain,
+      type: 'trailing_stop',
+      trailingPercent: bracket.trailingStopPercent / 100,
+      triggerPriceDirection: isLong ? 'below' : 'above',
+      metadata,
+    }));
+  }
+
+  return exitIds;
+}
+
 // =============================================================================
 // PERPS LIQUIDATION PREVENTION
 // =============================================================================
@@ -797,6 +1128,10 @@ export async function executeEmergencyReduce(
   }
 }
 
+// Minimum gap between partial emergency reductions of the same position
+const EMERGENCY_REDUCE_COOLDOWN_MS = 2 * 60 * 1000;
+const lastEmergencyReduceAt = new Map<string, number>();
+
 /**
  * Monitor all perps positions for liquidation risk
  * Should be called periodically (every 1-5 minutes for perps)
@@ -805,19 +1140,24 @@ export async function checkAllPerpsLiquidationRisk(): Promise<LiquidationRiskRes
   const positions = await getOpenPositions('perps');
   const results: LiquidationRiskResult[] = [];
 
-  // Fetch all current prices from Hyperliquid
-  let hyperliquidMids: Record<string, string> = {};
-  try {
-    hyperliquidMids = await hyperliquidClient.getAllMids();
-  } catch (error) {
-    console.warn('[PositionMonitor] Failed to fetch Hyperliquid prices for liquidation check:', error);
-    // Return empty results if we can't get prices
-    return [];
+  if (positions.length === 0) return results;
+
+  // Use streamed prices when fresh, else fetch all current prices from Hyperliquid
+  let hyperliquidMids = priceStream.getMids();
+  if (Object.keys(hyperliquidMids).length === 0) {
+    try {
+      hyperliquidMids = await hyperliquidClient.getAllMids();
+    } catch (error) {
+      console.warn('[PositionMonitor] Failed to fetch Hyperliquid prices for liquidation check:', error);
+      // Return empty results if we can't get prices
+      return [];
+    }
   }
 
   for (const position of positions) {
-    const symbol = position.target; // e.g., "BTC", "ETH"
+    const symbol = String(position.metadata?.symbol ?? position.target); // e.g., "BTC", "ETH"
     const midPriceStr = hyperliquidMids[symbol];
+    priceStream.watchPerps([symbol]);
 
     if (!midPriceStr) {
       console.warn(`[PositionMonitor] No price for ${symbol}, skipping liquidation check`);
@@ -888,8 +1228,13 @@ export async function checkAllPerpsLiquidationRisk(): Promise<LiquidationRiskRes
           break;
       }
 
-      if (reducePercent > 0) {
+      // Ticks can re-check every few seconds; don't stack partial reductions
+      const lastReduce = lastEmergencyReduceAt.get(position.id) ?? 0;
+      const coolingDown = reducePercent < 1 && Date.now() - lastReduce < EMERGENCY_REDUCE_COOLDOWN_MS;
+
+      if (reducePercent > 0 && !coolingDown) {
         const reason = `Liquidation risk ${assessment.riskLevel}: margin at ${(marginRatio * 100).toFixed(1)}%`;
+        lastEmergencyReduceAt.set(position.id, Date.now());
         await executeEmergencyReduce(position.id, 'perps', reducePercent, reason);
       }
     }
@@ -909,11 +1254,15 @@ export async function checkAllPerpsLiquidationRisk(): Promise<LiquidationRiskRes
 
 /**
  * Start dedicated perps liquidation monitor
- * Runs more frequently than position monitor (every 2 minutes)
+ * Runs more frequently than position monitor (every 2 minutes), and on
+ * streamed ticks for coins with open positions
  */
 export class PerpsLiquidationMonitor {
   private checkInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private symbols: Set<string> = new Set();
+  private unsubscribeStream: (() => void) | null = null;
+  private scheduleTickCheck = createTickScheduler(() => this.check(), 'PerpsMonitor');
   private readonly CHECK_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
 
   start(): void {
@@ -937,6 +1286,8 @@ export class PerpsLiquidationMonitor {
       }
     }, this.CHECK_INTERVAL_MS);
 
+    this.unsubscribeStream = priceStream.onTick(tick => this.handleTick(tick));
+
     console.log(`[PerpsMonitor] Checking every ${this.CHECK_INTERVAL_MS / 1000} seconds`);
   }
 
@@ -945,12 +1296,24 @@ export class PerpsLiquidationMonitor {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
     }
+    this.unsubscribeStream?.();
+    this.unsubscribeStream = null;
     this.isRunning = false;
     console.log('[PerpsMonitor] Stopped');
   }
 
+  /**
+   * Schedule a check when a tick arrives for a coin with an open position
+   */
+  handleTick(tick: PriceTick): void {
+    if (tick.source === 'hyperliquid' && this.symbols.has(tick.symbol)) {
+      this.scheduleTickCheck();
+    }
+  }
+
   private async check(): Promise<void> {
     const results = await checkAllPerpsLiquidationRisk();
+    this.symbols = new Set(results.map(r => r.symbol));
     const atRisk = results.filter(r => r.riskLevel !== 'safe');
 
     if (atRisk.length > 0) {
@@ -0,0 +1,264 @@
+/**
+ * Position Sizing Service
+ *
+ * Proposes trade sizes instead of trusting the agent's amountUsd:
+ * - kelly: fractional Kelly from the edge. Polymarket uses the agent's
+ *   estimated probability against the outcome price; other domains use
+ *   confidence as the win probability and the TP/SL distance as the payoff
+ *   ratio (1:1 without a bracket).
+ * - vol_target: size so the position's expected daily move is a fixed
+ *   fraction of the domain balance, using realized volatility from Hyperliquid
+ *   candles
+ * - hybrid: the smaller of the two
+ *
+ * Every mode is capped at MAX_POSITION_PCT of the domain balance (the same 20%
+ * the balance-check hook enforces). Exposed to subagents as the suggest_size
+ * MCP tool and applied to decisions by the position-sizing PreDecision hook.
+ */
+
+import type { AgentDecision, Domain } from '../types/index.js';
+import { getDomainBalance } from '../data/provider.js';
+import { hyperliquidClient } from '../clients/hyperliquid/client.js';
+import { gammaClient } from '../clients/polymarket/client.js';
+import { estimateReturnStats } from './risk-engine.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SizingMode = 'kelly' | 'vol_target' | 'hybrid';
+
+export interface SizingConfig {
+  mode: SizingMode;
+  kellyMultiplier: number;     // Fraction of full Kelly (0.25 = quarter Kelly)
+  targetDailyVol: number;      // Daily P&L volatility per position, as a fraction of balance
+  maxPositionPct: number;      // Hard cap as a fraction of balance
+  enforcement: 'cap' | 'replace';
+}
+
+/**
+ * What the sizer needs to know about a trade
+ */
+export interface SizingInput {
+  domain: Domain;
+  balance: number;
+  confidence: number;              // 0-1
+  estimatedProbability?: number;   // Polymarket: probability of the outcome bought (0-100)
+  outcomePrice?: number;           // Polymarket: price of the outcome bought (0-1)
+  payoffRatio?: number;            // Reward/risk; defaults to 1
+  dailyVolatility?: number;        // Realized daily volatility of the underlying
+}
+
+export interface SizeSuggestion {
+  recommendedUsd: number;
+  maxUsd: number;
+  mode: SizingMode;
+  kellyFraction?: number;          // Full Kelly fraction before the multiplier
+  kellyUsd?: number;
+  volTargetUsd?: number;
+  dailyVolatility?: number;
+  rationale: string[];
+}
+
+const MIN_CANDLES = 12;
+
+const OPEN_ACTIONS = ['add_liquidity', 'open_long', 'open_short', 'buy_yes', 'buy_no', 'buy'];
+
+// =============================================================================
+// CALCULATIONS
+// =============================================================================
+
+/**
+ * Sizing settings from environment
+ */
+export function getSizingConfig(): SizingConfig {
+  const mode = process.env.SIZING_MODE;
+  return {
+    mode: mode === 'vol_target' || mode === 'hybrid' ? mode : 'kelly',
+    kellyMultiplier: parseFloat(process.env.KELLY_FRACTION || '0.25'),
+    targetDailyVol: parseFloat(process.env.TARGET_DAILY_VOL || '0.01'),
+    maxPositionPct: parseFloat(process.env.MAX_POSITION_PCT || '0.2'),
+    enforcement: process.env.SIZING_ENFORCEMENT === 'replace' ? 'replace' : 'cap',
+  };
+}
+
+/**
+ * Full Kelly fraction for a bet winning `payoffRatio` per unit risked with
+ * probability `winProbability`. Negative = no edge.
+ */
+export function kellyFraction(winProbability: number, payoffRatio: number): number {
+  if (payoffRatio <= 0) return 0;
+  return winProbability - (1 - winProbability) / payoffRatio;
+}
+
+/**
+ * Full Kelly fraction for buying a binary outcome at `price` (0-1)
+ */
+export function binaryKellyFraction(probability: number, price: number): number {
+  if (price <= 0 || price >= 1) return 0;
+  return kellyFraction(probability, (1 - price) / price);
+}
+
+/**
+ * Propose a size for a trade (pure - inputs already loaded)
+ */
+export function computeSize(input: SizingInput, config: SizingConfig = getSizingConfig()): SizeSuggestion {
+  const maxUsd = Math.max(0, input.balance * config.maxPositionPct);
+  const rationale: string[] = [];
+
+  // Kelly
+  let fullKelly: number;
+  if (input.domain === 'polymarket' && input.estimatedProbability !== undefined && input.outcomePrice !== undefined) {
+    fullKelly = binaryKellyFraction(input.estimatedProbability / 100, input.outcomePrice);
+    rationale.push(`Kelly: ${input.estimatedProbability.toFixed(0)}% estimate vs $${input.outcomePrice.toFixed(2)} price`);
+  } else {
+    const payoff = input.payoffRatio ?? 1;
+    fullKelly = kellyFraction(input.confidence, payoff);
+    rationale.push(`Kelly: ${(input.confidence * 100).toFixed(0)}% confidence at ${payoff.toFixed(2)}:1 payoff`);
+  }
+  const kellyUsd = Math.max(0, fullKelly * config.kellyMultiplier * input.balance);
+
+  // Vol target (needs a tradeable underlying)
+  let volTargetUsd: number | undefined;
+  if (input.dailyVolatility && input.dailyVolatility > 0) {
+    volTargetUsd = (config.targetDailyVol * input.balance) / input.dailyVolatility;
+    rationale.push(`Vol target: ${(config.targetDailyVol * 100).toFixed(1)}% of balance at ${(input.dailyVolatility * 100).toFixed(1)}% daily vol`);
+  }
+
+  let recommended: number;
+  switch (config.mode) {
+    case 'vol_target':
+      recommended = volTargetUsd ?? kellyUsd;
+      break;
+    case 'hybrid':
+      recommended = volTargetUsd !== undefined ? Math.min(kellyUsd, volTargetUsd) : kellyUsd;
+      break;
+    default:
+      recommended = kellyUsd;
+  }
+
+  if (fullKelly <= 0) {
+    rationale.push('No edge: Kelly fraction is not positive');
+  }
+  if (recommended > maxUsd) {
+    rationale.push(`Capped at ${(config.maxPositionPct * 100).toFixed(0)}% of balance`);
+  }
+
+  return {
+    recommendedUsd: Math.min(recommended, maxUsd),
+    maxUsd,
+    mode: config.mode,
+    kellyFraction: fullKelly,
+    kellyUsd,
+    volTargetUsd,
+    dailyVolatility: input.dailyVolatility,
+    rationale,
+  };
+}
+
+// =============================================================================
+// MARKET DATA
+// =============================================================================
+
+/**
+ * Realized daily volatility from hourly Hyperliquid candles (undefined if unlisted)
+ */
+export async function getRealizedVolatility(symbol: string): Promise<number | undefined> {
+  const candles = await hyperliquidClient.getCandles(symbol, '1h', 72);
+  if (candles.length < MIN_CANDLES) return undefined;
+
+  const stats = estimateReturnStats({ [symbol]: candles.map(c => [c.time, c.close]) }, 24);
+  return stats.volatility.get(symbol);
+}
+
+/**
+ * Reward/risk ratio from a bracket, if both legs are set
+ */
+export function bracketPayoffRatio(
+  side: 'LONG' | 'SHORT',
+  entryPrice: number,
+  takeProfitPrice?: number,
+  stopLossPrice?: number
+): number | undefined {
+  if (!takeProfitPrice || !stopLossPrice || entryPrice <= 0) return undefined;
+
+  const direction = side === 'LONG' ? 1 : -1;
+  const reward = (takeProfitPrice - entryPrice) * direction;
+  const risk = (entryPrice - stopLossPrice) * direction;
+  return reward > 0 && risk > 0 ? reward / risk : undefined;
+}
+
+/**
+ * Load balance, prices and volatility for a trade and propose a size
+ */
+export async function suggestSize(
+  domain: Domain,
+  args: {
+    target?: string;
+    confidence: number;
+    outcome?: 'YES' | 'NO';
+    estimatedProbability?: number;
+    symbol?: string;
+    side?: 'LONG' | 'SHORT';
+    takeProfitPrice?: number;
+    stopLossPrice?: number;
+  },
+  config: SizingConfig = getSizingConfig()
+): Promise<SizeSuggestion> {
+  const balance = await getDomainBalance(domain);
+  const input: SizingInput = { domain, balance, confidence: args.confidence };
+
+  if (domain === 'polymarket') {
+    if (args.target && args.estimatedProbability !== undefined) {
+      const market = await gammaClient.getMarket(args.target);
+      if (market) {
+        const prices = gammaClient.getMarketPrices(market);
+        input.outcomePrice = args.outcome === 'NO' ? prices.noPrice : prices.yesPrice;
+        input.estimatedProbability = args.estimatedProbability;
+      }
+    }
+  } else {
+    const symbol = args.symbol ?? (domain === 'perps' ? args.target : undefined);
+    if (symbol) {
+      input.dailyVolatility = await getRealizedVolatility(symbol.toUpperCase());
+
+      if (domain === 'perps' && args.takeProfitPrice && args.stopLossPrice) {
+        const entryPrice = await hyperliquidClient.getMarkPrice(symbol).catch(() => 0);
+        input.payoffRatio = bracketPayoffRatio(args.side ?? 'LONG', entryPrice, args.takeProfitPrice, args.stopLossPrice);
+      }
+    }
+  }
+
+  return computeSize(input, config);
+}
+
+/**
+ * Propose a size for an opening decision (null for other actions)
+ */
+export async function sizeDecision(
+  domain: Domain,
+  decision: AgentDecision,
+  config: SizingConfig = getSizingConfig()
+): Promise<SizeSuggestion | null> {
+  if (!OPEN_ACTIONS.includes(decision.action) || !decision.target) {
+    return null;
+  }
+
+  const metadata = decision.metadata ?? {};
+  const estimatedProbability = Number(metadata.estimatedProbability);
+  const outcome = decision.action === 'buy_no' ? 'NO' : 'YES';
+
+  return suggestSize(domain, {
+    target: decision.target,
+    confidence: decision.confidence,
+    outcome,
+    // The agent estimates P(YES); a NO bet wins with the complement
+    estimatedProbability: Number.isFinite(estimatedProbability)
+      ? (outcome === 'NO' ? 100 - estimatedProbability : estimatedProbability)
+      : undefined,
+    symbol: metadata.symbol as string | undefined,
+    side: decision.action === 'open_short' ? 'SHORT' : 'LONG',
+    takeProfitPrice: Number(metadata.takeProfitPrice) || undefined,
+    stopLossPrice: Number(metadata.stopLossPrice) || undefined,
+  }, config);
+}
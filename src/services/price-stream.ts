@@ -0,0 +1,494 @@
+/**
+ * Price Stream
+ *
+ * Pushes live prices to the position monitors instead of waiting for their
+ * polling interval:
+ * - Hyperliquid: `allMids` for every perp, plus `trades` for watched coins
+ * - Polymarket: CLOB market channel for watched outcome tokens
+ *
+ * Each socket reconnects with exponential backoff. While a socket is down the
+ * stream polls the REST APIs for that source instead, so ticks keep flowing
+ * either way and consumers only ever subscribe with onTick().
+ */
+
+import { getConfig } from '../config.js';
+import { hyperliquidClient } from '../clients/hyperliquid/client.js';
+import { gammaClient } from '../clients/polymarket/client.js';
+import { polymarketClobClient } from '../clients/polymarket/clob-client.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PriceSource = 'hyperliquid' | 'polymarket';
+
+export interface PriceTick {
+  source: PriceSource;
+  symbol: string;       // Perp coin (e.g. "BTC") or Polymarket outcome token ID
+  price: number;
+  timestamp: number;
+  via: 'stream' | 'poll';
+}
+
+export type TickHandler = (tick: PriceTick) => void;
+
+/**
+ * The socket surface we use - satisfied by the global WebSocket (Bun, Node 22+)
+ * and by the `ws` package
+ */
+export interface SocketLike {
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type SocketFactory = (url: string) => Promise<SocketLike>;
+
+const POLYMARKET_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60_000;
+const HEARTBEAT_MS = 30_000;       // Hyperliquid drops sockets idle for 60s
+const POLL_INTERVAL_MS = 10_000;
+const STALE_AFTER_MS = 30_000;
+
+async function defaultSocketFactory(url: string): Promise<SocketLike> {
+  const NativeWebSocket = (globalThis as { WebSocket?: new (url: string) => SocketLike }).WebSocket;
+  if (NativeWebSocket) {
+    return new NativeWebSocket(url);
+  }
+
+  const { default: WebSocket } = await import('ws');
+  return new WebSocket(url) as unknown as SocketLike;
+}
+
+/**
+ * Backoff before reconnect attempt N: doubles from 1s up to 60s, plus up to 20% jitter
+ */
+export function getReconnectDelay(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * Math.pow(2, attempt));
+  return Math.round(base * (1 + 0.2 * random()));
+}
+
+// =============================================================================
+// STREAM CONNECTION
+// =============================================================================
+
+interface ConnectionHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+}
+
+/**
+ * One auto-reconnecting socket
+ */
+class StreamConnection {
+  private socket: SocketLike | null = null;
+  private attempt = 0;
+  private connected = false;
+  private stopped = true;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly url: string,
+    private readonly heartbeat: string,
+    private readonly handlers: ConnectionHandlers,
+    private readonly socketFactory: SocketFactory
+  ) {}
+
+  connect(): void {
+    this.stopped = false;
+    this.open().catch(error => {
+      console.warn(`[PriceStream] ${this.name} connect failed:`, error instanceof Error ? error.message : error);
+      this.scheduleReconnect();
+    });
+  }
+
+  close(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.teardown();
+  }
+
+  send(message: unknown): void {
+    if (this.socket && this.connected) {
+      this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private async open(): Promise<void> {
+    const socket = await this.socketFactory(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.connected = true;
+      console.log(`[PriceStream] ${this.name} connected`);
+      this.handlers.onOpen();
+
+      this.heartbeatTimer = setInterval(() => this.send(this.heartbeat), HEARTBEAT_MS);
+    };
+
+    socket.onmessage = (event) => {
+      const data = typeof event.data === 'string' ? event.data : String(event.data);
+      try {
+        this.handlers.onMessage(data);
+      } catch (error) {
+        console.warn(`[PriceStream] ${this.name} bad message:`, error);
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose follows; reconnect is handled there
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.teardown();
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+
+    const delay = getReconnectDelay(this.attempt++);
+    console.warn(`[PriceStream] ${this.name} disconnected, reconnecting in ${(delay / 1000).toFixed(1)}s (polling meanwhile)`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private teardown(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onclose = socket.onerror = null;
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    }
+    this.connected = false;
+  }
+}
+
+// =============================================================================
+// PRICE STREAM CLASS
+// =============================================================================
+
+/**
+ * Live prices for the monitors
+ * Call start() to connect; watch*() to add subscriptions
+ */
+export class PriceStream {
+  private prices = new Map<string, PriceTick>();
+  private handlers = new Set<TickHandler>();
+  private perpsCoins = new Set<string>();
+  private polymarketTokens = new Set<string>();
+  private tokenIdCache = new Map<string, string | null>();
+  private hyperliquid: StreamConnection | null = null;
+  private polymarket: StreamConnection | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(private readonly socketFactory: SocketFactory = defaultSocketFactory) {}
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('[PriceStream] Already running');
+      return;
+    }
+
+    console.log('[PriceStream] Starting price stream...');
+    this.isRunning = true;
+
+    this.hyperliquid = new StreamConnection(
+      'Hyperliquid',
+      getConfig().network.hyperliquidWs,
+      JSON.stringify({ method: 'ping' }),
+      {
+        onOpen: () => this.subscribeHyperliquid([...this.perpsCoins], true),
+        onMessage: data => this.handleHyperliquidMessage(data),
+      },
+      this.socketFactory
+    );
+
+    this.polymarket = new StreamConnection(
+      'Polymarket',
+      POLYMARKET_WS_URL,
+      'PING',
+      {
+        onOpen: () => this.subscribePolymarket(),
+        onMessage: data => this.handlePolymarketMessage(data),
+      },
+      this.socketFactory
+    );
+
+    this.hyperliquid.connect();
+    if (this.polymarketTokens.size > 0) {
+      this.polymarket.connect();
+    }
+
+    // Fallback polling for whichever source is down
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => console.warn('[PriceStream] Poll failed:', error));
+    }, POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.hyperliquid?.close();
+    this.polymarket?.close();
+    this.hyperliquid = null;
+    this.polymarket = null;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.isRunning = false;
+    console.log('[PriceStream] Stopped');
+  }
+
+  /**
+   * Subscribe to ticks. Returns an unsubscribe function.
+   */
+  onTick(handler: TickHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Add perp coins to the trades subscription
+   */
+  watchPerps(symbols: string[]): void {
+    const added = symbols.filter(s => s && !this.perpsCoins.has(s));
+    if (added.length === 0) return;
+
+    added.forEach(s => this.perpsCoins.add(s));
+    this.subscribeHyperliquid(added, false);
+  }
+
+  /**
+   * Add Polymarket outcome tokens to the market channel
+   */
+  watchPolymarketTokens(tokenIds: string[]): void {
+    const added = tokenIds.filter(t => t && !this.polymarketTokens.has(t));
+    if (added.length === 0) return;
+
+    added.forEach(t => this.polymarketTokens.add(t));
+
+    if (this.polymarket?.isConnected()) {
+      this.subscribePolymarket();
+    } else if (this.isRunning && this.polymarket) {
+      this.polymarket.connect();
+    }
+  }
+
+  /**
+   * Watch the token for a market outcome. Returns the token ID (cached).
+   */
+  async watchPolymarketMarket(conditionId: string, outcome: 'YES' | 'NO'): Promise<string | undefined> {
+    const cacheKey = `${conditionId}:${outcome}`;
+
+    if (!this.tokenIdCache.has(cacheKey)) {
+      const market = await gammaClient.getMarket(conditionId);
+      const tokenIds = market ? gammaClient.getOutcomeTokenIds(market) : {};
+      this.tokenIdCache.set(`${conditionId}:YES`, tokenIds.yes ?? null);
+      this.tokenIdCache.set(`${conditionId}:NO`, tokenIds.no ?? null);
+    }
+
+    const tokenId = this.tokenIdCache.get(cacheKey) ?? undefined;
+    if (tokenId) {
+      this.watchPolymarketTokens([tokenId]);
+    }
+    return tokenId;
+  }
+
+  /**
+   * Latest price, if fresher than maxAgeMs
+   */
+  getPrice(source: PriceSource, symbol: string, maxAgeMs: number = STALE_AFTER_MS): number | undefined {
+    const tick = this.prices.get(`${source}:${symbol}`);
+    if (!tick || Date.now() - tick.timestamp > maxAgeMs) return undefined;
+    return tick.price;
+  }
+
+  /**
+   * Fresh Hyperliquid prices in getAllMids() shape (empty if none are fresh)
+   */
+  getMids(maxAgeMs: number = STALE_AFTER_MS): Record<string, string> {
+    const mids: Record<string, string> = {};
+    const cutoff = Date.now() - maxAgeMs;
+    for (const tick of this.prices.values()) {
+      if (tick.source === 'hyperliquid' && tick.timestamp >= cutoff) {
+        mids[tick.symbol] = String(tick.price);
+      }
+    }
+    return mids;
+  }
+
+  /**
+   * Whether a source is currently on a live socket
+   */
+  isStreaming(source: PriceSource): boolean {
+    const connection = source === 'hyperliquid' ? this.hyperliquid : this.polymarket;
+    return connection?.isConnected() ?? false;
+  }
+
+  // ===========================================================================
+  // SUBSCRIPTIONS
+  // ===========================================================================
+
+  private subscribeHyperliquid(coins: string[], includeMids: boolean): void {
+    if (!this.hyperliquid?.isConnected()) return;
+
+    if (includeMids) {
+      this.hyperliquid.send({ method: 'subscribe', subscription: { type: 'allMids' } });
+    }
+    for (const coin of coins) {
+      this.hyperliquid.send({ method: 'subscribe', subscription: { type: 'trades', coin } });
+    }
+  }
+
+  private subscribePolymarket(): void {
+    if (this.polymarketTokens.size === 0) return;
+    this.polymarket?.send({ assets_ids: [...this.polymarketTokens], type: 'market' });
+  }
+
+  // ===========================================================================
+  // MESSAGE PARSING
+  // ===========================================================================
+
+  private handleHyperliquidMessage(data: string): void {
+    const message = JSON.parse(data) as { channel?: string; data?: unknown };
+
+    if (message.channel === 'allMids') {
+      const mids = (message.data as { mids?: Record<string, string> })?.mids ?? {};
+      const now = Date.now();
+      for (const [coin, mid] of Object.entries(mids)) {
+        this.publish({ source: 'hyperliquid', symbol: coin, price: parseFloat(mid), timestamp: now, via: 'stream' });
+      }
+    } else if (message.channel === 'trades') {
+      const trades = (message.data as Array<{ coin: string; px: string; time: number }>) ?? [];
+      const last = trades[trades.length - 1];
+      if (last) {
+        this.publish({ source: 'hyperliquid', symbol: last.coin, price: parseFloat(last.px), timestamp: last.time || Date.now(), via: 'stream' });
+      }
+    }
+  }
+
+  private handlePolymarketMessage(data: string): void {
+    if (data === 'PONG') return;
+
+    const parsed = JSON.parse(data) as PolymarketEvent | PolymarketEvent[];
+    const events = Array.isArray(parsed) ? parsed : [parsed];
+    const now = Date.now();
+
+    for (const event of events) {
+      switch (event.event_type) {
+        case 'book': {
+          const bestBid = Math.max(...(event.bids ?? []).map(l => parseFloat(l.price)));
+          const bestAsk = Math.min(...(event.asks ?? []).map(l => parseFloat(l.price)));
+          if (Number.isFinite(bestBid) && Number.isFinite(bestAsk) && event.asset_id) {
+            this.publish({ source: 'polymarket', symbol: event.asset_id, price: (bestBid + bestAsk) / 2, timestamp: now, via: 'stream' });
+          }
+          break;
+        }
+        case 'price_change': {
+          for (const change of event.price_changes ?? []) {
+            const bid = parseFloat(change.best_bid ?? '');
+            const ask = parseFloat(change.best_ask ?? '');
+            const price = Number.isFinite(bid) && Number.isFinite(ask) ? (bid + ask) / 2 : parseFloat(change.price);
+            if (Number.isFinite(price)) {
+              this.publish({ source: 'polymarket', symbol: change.asset_id, price, timestamp: now, via: 'stream' });
+            }
+          }
+          break;
+        }
+        case 'last_trade_price': {
+          const price = parseFloat(event.price ?? '');
+          if (Number.isFinite(price) && event.asset_id) {
+            this.publish({ source: 'polymarket', symbol: event.asset_id, price, timestamp: now, via: 'stream' });
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  // ===========================================================================
+  // POLLING FALLBACK
+  // ===========================================================================
+
+  private async poll(): Promise<void> {
+    const now = Date.now();
+
+    if (!this.hyperliquid?.isConnected()) {
+      const mids = await hyperliquidClient.getAllMids().catch(() => ({} as Record<string, string>));
+      for (const [coin, mid] of Object.entries(mids)) {
+        this.publish({ source: 'hyperliquid', symbol: coin, price: parseFloat(mid), timestamp: now, via: 'poll' });
+      }
+    }
+
+    if (!this.polymarket?.isConnected()) {
+      for (const tokenId of this.polymarketTokens) {
+        try {
+          const book = await polymarketClobClient.getOrderBook(tokenId);
+          const bestBid = book.bids[0]?.price;
+          const bestAsk = book.asks[0]?.price;
+          if (bestBid && bestAsk) {
+            this.publish({ source: 'polymarket', symbol: tokenId, price: (bestBid + bestAsk) / 2, timestamp: now, via: 'poll' });
+          }
+        } catch {
+          // Keep the last price
+        }
+      }
+    }
+  }
+
+  private publish(tick: PriceTick): void {
+    if (!Number.isFinite(tick.price) || tick.price <= 0) return;
+
+    this.prices.set(`${tick.source}:${tick.symbol}`, tick);
+    for (const handler of this.handlers) {
+      try {
+        handler(tick);
+      } catch (error) {
+        console.warn('[PriceStream] Tick handler failed:', error);
+      }
+    }
+  }
+}
+
+interface PolymarketEvent {
+  event_type?: 'book' | 'price_change' | 'last_trade_price' | 'tick_size_change';
+  asset_id?: string;
+  price?: string;
+  bids?: Array<{ price: string; size: string }>;
+  asks?: Array<{ price: string; size: string }>;
+  price_changes?: Array<{ asset_id: string; price: string; best_bid?: string; best_ask?: string }>;
+}
+
+// Singleton price stream
+export const priceStream = new PriceStream();
@@ -0,0 +1,229 @@
+/**
+ * Polymarket Resolution Watcher
+ *
+ * A Polymarket position otherwise stays open at its last price after the
+ * market resolves. This service polls the Gamma API for the markets behind
+ * open positions and, once a market has resolved:
+ * - Cancels resting orders left on it
+ * - Settles held shares at the payout ($1 winner, $0 loser, $0.50 on a
+ *   50-50 resolution), credits the domain balance and closes the position
+ *   with its realized P&L
+ * - Notifies listeners so the outcome reaches the learning system and alerts
+ */
+
+import type { Position } from '../types/index.js';
+import {
+  getOpenPositions,
+  getDomainBalance,
+  updateDomainBalance,
+  closePosition,
+} from '../data/provider.js';
+import { gammaClient, type MarketResolution } from '../clients/polymarket/client.js';
+import { positionCache } from './position-cache.js';
+import { positionShares, saleOutcome, getOpenRestingOrders, cancelRestingOrder } from './resting-orders.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How a position settles at resolution
+ */
+export interface PositionSettlement {
+  positionId: string;
+  conditionId: string;
+  outcome: 'YES' | 'NO';
+  shares: number;
+  payoutPerShare: number;
+  payoutUsd: number;
+  costBasisUsd: number;       // Every share bought, including ones sold before resolution
+  pnl: number;                // Payout plus earlier partial sales, minus costBasisUsd
+  pnlPercent: number;
+}
+
+/**
+ * Emitted when the watcher settles a position
+ */
+export interface PolymarketPositionSettled {
+  position: Position;
+  settlement: PositionSettlement;
+  resolution: MarketResolution;
+}
+
+type PositionSettledHandler = (event: PolymarketPositionSettled) => Promise<void> | void;
+
+// =============================================================================
+// CALCULATIONS
+// =============================================================================
+
+/**
+ * Market a position was bought in (ids from older positions use conditionId)
+ */
+export function positionConditionId(position: Position): string {
+  const metadata = position.metadata ?? {};
+  return String(metadata.condition_id ?? metadata.conditionId ?? position.target);
+}
+
+/**
+ * Settle the shares still held at the resolution payout. P&L from shares
+ * sold before resolution is carried in the position's metadata.
+ */
+export function settlePosition(position: Position, resolution: MarketResolution): PositionSettlement {
+  const outcome = String(position.metadata?.outcome ?? 'YES').toUpperCase() === 'NO' ? 'NO' : 'YES';
+  const shares = positionShares(position);
+  const payoutPerShare = outcome === 'YES' ? resolution.yesPayout : resolution.noPayout;
+  const payoutUsd = shares * payoutPerShare;
+  const sale = saleOutcome(position, 1, payoutUsd);
+
+  return {
+    positionId: position.id,
+    conditionId: positionConditionId(position),
+    outcome,
+    shares,
+    payoutPerShare,
+    payoutUsd,
+    costBasisUsd: sale.realizedCostBasisUsd,
+    pnl: sale.realizedPnlUsd,
+    pnlPercent: sale.realizedPnlPercent,
+  };
+}
+
+// =============================================================================
+// RESOLUTION WATCHER CLASS
+// =============================================================================
+
+/**
+ * Settles open Polymarket positions whose markets have resolved
+ * Call start() to run in the background
+ */
+export class PolymarketResolutionWatcher {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private handlers: PositionSettledHandler[] = [];
+  private readonly CHECK_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('[ResolutionWatcher] Already running');
+      return;
+    }
+
+    console.log('[ResolutionWatcher] Starting Polymarket resolution watcher...');
+    this.isRunning = true;
+
+    // Run immediately
+    this.check().catch(err => console.error('[ResolutionWatcher] Initial check failed:', err));
+
+    // Set up interval
+    this.checkInterval = setInterval(async () => {
+      try {
+        await this.check();
+      } catch (error) {
+        console.error('[ResolutionWatcher] Check failed:', error);
+      }
+    }, this.CHECK_INTERVAL_MS);
+
+    console.log(`[ResolutionWatcher] Checking every ${this.CHECK_INTERVAL_MS / 1000} seconds`);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.isRunning = false;
+    console.log('[ResolutionWatcher] Stopped');
+  }
+
+  /**
+   * Subscribe to positions settled at resolution
+   */
+  onPositionSettled(handler: PositionSettledHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Settle every open position whose market has resolved
+   */
+  async check(): Promise<PositionSettlement[]> {
+    const positions = await getOpenPositions('polymarket');
+    if (positions.length === 0) return [];
+
+    // One lookup per market, however many positions it holds
+    const byMarket = new Map<string, Position[]>();
+    for (const position of positions) {
+      const conditionId = positionConditionId(position);
+      byMarket.set(conditionId, [...(byMarket.get(conditionId) ?? []), position]);
+    }
+
+    const settlements: PositionSettlement[] = [];
+
+    for (const [conditionId, marketPositions] of byMarket) {
+      const market = await gammaClient.getMarket(conditionId);
+      const resolution = market ? gammaClient.getResolution(market) : null;
+      if (!resolution) continue;
+
+      console.log(`🏁 [ResolutionWatcher] ${market!.question} resolved ${resolution.winner ?? '50-50'}`);
+      await this.cancelOrders(conditionId);
+
+      for (const position of marketPositions) {
+        try {
+          settlements.push(await this.settle(position, resolution));
+        } catch (error) {
+          console.error(`[ResolutionWatcher] Failed to settle ${position.id}:`, error);
+        }
+      }
+    }
+
+    return settlements;
+  }
+
+  /**
+   * Resting orders on a resolved market can no longer fill
+   */
+  private async cancelOrders(conditionId: string): Promise<void> {
+    const orders = await getOpenRestingOrders('polymarket');
+    for (const order of orders.filter(o => o.target === conditionId)) {
+      await cancelRestingOrder(order, 'Market resolved').catch(error => {
+        console.warn(`[ResolutionWatcher] Failed to cancel order ${order.orderId}:`, error);
+      });
+    }
+  }
+
+  private async settle(position: Position, resolution: MarketResolution): Promise<PositionSettlement> {
+    const settlement = settlePosition(position, resolution);
+
+    console.log(`   ${settlement.outcome} x${settlement.shares.toFixed(2)} @ $${settlement.payoutPerShare.toFixed(2)}`);
+    console.log(`   P&L: $${settlement.pnl.toFixed(2)} (${settlement.pnlPercent >= 0 ? '+' : ''}${settlement.pnlPercent.toFixed(1)}%)`);
+
+    await closePosition('polymarket', position.id, {
+      currentValueUsd: settlement.payoutUsd,
+      realizedPnl: settlement.pnl,
+      metadata: {
+        ...position.metadata,
+        closeReason: 'resolution',
+        resolvedOutcome: resolution.winner ?? '50-50',
+        payoutPerShare: settlement.payoutPerShare,
+        realizedPnlUsd: settlement.pnl,
+        realizedCostBasisUsd: settlement.costBasisUsd,
+      },
+    });
+
+    const balance = await getDomainBalance('polymarket');
+    await updateDomainBalance('polymarket', balance + settlement.payoutUsd);
+    positionCache.markClosed('polymarket', position, settlement.pnl);
+
+    for (const handler of this.handlers) {
+      try {
+        await handler({ position, settlement, resolution });
+      } catch (error) {
+        console.warn('[ResolutionWatcher] Settlement handler failed:', error);
+      }
+    }
+
+    return settlement;
+  }
+}
+
+// Singleton resolution watcher
+export const polymarketResolutionWatcher = new PolymarketResolutionWatcher();
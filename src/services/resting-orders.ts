@@ -0,0 +1,445 @@
+/**
+ * Resting Orders
+ *
+ * Tracks limit orders left on the book after execution (Polymarket GTC/GTD)
+ * and books their fills as they arrive:
+ * - buys reserve `size × limitPrice` from the domain balance up front and
+ *   grow (or open) the position as shares fill
+ * - sells credit proceeds and shrink the position, closing it when an
+ *   order for the whole position completes; a sell whose position was
+ *   closed some other way is cancelled, never credited
+ *
+ * Each cycle `syncRestingOrders` pulls fills from the venue, then cancels
+ * orders past their GTD expiry or older than RESTING_ORDER_MAX_AGE_MINUTES,
+ * returning any unspent reserve.
+ */
+
+import type { Domain, Position } from '../types/index.js';
+import type { RestingOrderRecord } from '../types/internal.js';
+import type { RestingOrderRequest } from '../execution/index.js';
+import type { RestingOrderSync } from '../venues/types.js';
+import { venueRegistry } from '../venues/index.js';
+import { positionCache } from './position-cache.js';
+import {
+  getDomainBalance,
+  updateDomainBalance,
+  getOpenPositions,
+  createPosition,
+  increasePosition,
+  reducePosition,
+  closePosition,
+  createRestingOrder,
+  updateRestingOrder,
+  getRestingOrders,
+} from '../data/provider.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RestingFill {
+  shares: number;
+  price: number;
+  usd: number;               // shares × price
+}
+
+/**
+ * A position a resting sell closed, for the outcome and alert path
+ */
+export interface RestingOrderClose {
+  position: Position;
+  pnl: number;               // Summed over every sale of the position
+  pnlPercent: number;
+  exitValueUsd: number;      // Cost basis + P&L
+}
+
+export interface RestingOrderSyncSummary {
+  checked: number;
+  filled: number;            // Orders that received fills
+  cancelled: number;
+  expired: number;
+  closed: RestingOrderClose[];
+}
+
+/**
+ * What selling part of a position realizes, with the position's running totals
+ */
+export interface SaleOutcome {
+  costBasisUsd: number;          // Sold share of the cost basis
+  pnl: number;                   // This sale
+  realizedPnlUsd: number;        // All sales so far, this one included
+  realizedCostBasisUsd: number;
+  realizedPnlPercent: number;
+}
+
+// Default age after which an unfilled order is cancelled
+const DEFAULT_MAX_AGE_MINUTES = 360;
+
+// Shares below this are rounding noise
+const SHARE_EPSILON = 1e-6;
+
+// =============================================================================
+// PURE HELPERS
+// =============================================================================
+
+/**
+ * Maximum age of a resting order in ms (0 = never cancel for age)
+ */
+export function getRestingOrderMaxAgeMs(): number {
+  const minutes = parseFloat(process.env.RESTING_ORDER_MAX_AGE_MINUTES ?? '');
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_MAX_AGE_MINUTES) * 60_000;
+}
+
+/**
+ * Why an open order should come off the book, or null if it can stay
+ */
+export function restingOrderStaleness(
+  order: Pick<RestingOrderRecord, 'expiresAt' | 'createdAt'>,
+  now: Date = new Date(),
+  maxAgeMs: number = getRestingOrderMaxAgeMs()
+): 'expired' | 'stale' | null {
+  if (order.expiresAt && order.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (maxAgeMs > 0 && now.getTime() - order.createdAt.getTime() >= maxAgeMs) return 'stale';
+  return null;
+}
+
+/**
+ * The fill a sync adds on top of what was already booked
+ */
+export function restingFillDelta(
+  order: Pick<RestingOrderRecord, 'filledSize' | 'avgFillPrice' | 'limitPrice'>,
+  sync: Pick<RestingOrderSync, 'filledSize' | 'avgFillPrice'>
+): RestingFill | null {
+  const shares = sync.filledSize - order.filledSize;
+  if (shares <= SHARE_EPSILON) return null;
+
+  const newAvg = sync.avgFillPrice ?? order.limitPrice;
+  const previousCost = order.filledSize * (order.avgFillPrice ?? order.limitPrice);
+  const usd = Math.max(0, sync.filledSize * newAvg - previousCost);
+  return { shares, price: usd / shares, usd };
+}
+
+/**
+ * Shares held by a Polymarket position
+ */
+export function positionShares(position: Pick<Position, 'entryValueUsd' | 'metadata'>): number {
+  const metadata = position.metadata ?? {};
+  const entryPrice = Number(metadata.fillPrice ?? metadata.entry_price) || 0;
+  return Number(metadata.shares) || (entryPrice > 0 ? position.entryValueUsd / entryPrice : 0);
+}
+
+/**
+ * P&L of selling `proportion` of a position for `proceedsUsd`. Earlier
+ * partial sales are carried in metadata, so a final sale reports the whole.
+ */
+export function saleOutcome(
+  position: Pick<Position, 'entryValueUsd' | 'metadata'>,
+  proportion: number,
+  proceedsUsd: number
+): SaleOutcome {
+  const metadata = position.metadata ?? {};
+  const costBasisUsd = position.entryValueUsd * proportion;
+  const pnl = proceedsUsd - costBasisUsd;
+  const realizedPnlUsd = (Number(metadata.realizedPnlUsd) || 0) + pnl;
+  const realizedCostBasisUsd = (Number(metadata.realizedCostBasisUsd) || 0) + costBasisUsd;
+
+  return {
+    costBasisUsd,
+    pnl,
+    realizedPnlUsd,
+    realizedCostBasisUsd,
+    realizedPnlPercent: realizedCostBasisUsd > 0 ? (realizedPnlUsd / realizedCostBasisUsd) * 100 : 0,
+  };
+}
+
+// =============================================================================
+// BOOKING
+// =============================================================================
+
+/**
+ * Take a partial sale out of an open position: the sold share of cost
+ * basis, shares and value come off, and its P&L joins the running total
+ */
+export async function reduceSoldPosition(
+  position: Position,
+  proportion: number,
+  sale: SaleOutcome,
+  currentValueUsd: number,
+  price?: number
+): Promise<void> {
+  const metadata = position.metadata ?? {};
+  await reducePosition(position.id, {
+    proportion,
+    currentValueUsd,
+    price,
+    metadata: {
+      ...metadata,
+      ...(metadata.shares !== undefined ? { shares: Math.max(0, positionShares(position) * (1 - proportion)) } : {}),
+      realizedPnlUsd: sale.realizedPnlUsd,
+      realizedCostBasisUsd: sale.realizedCostBasisUsd,
+    },
+  });
+}
+
+/**
+ * Cancel every open order working a position, e.g. once it has closed
+ */
+export async function cancelPositionOrders(
+  domain: Domain,
+  positionId: string,
+  reason = 'Position closed',
+  exceptOrderId?: string
+): Promise<number> {
+  const orders = (await getOpenRestingOrders(domain))
+    .filter(order => order.positionId === positionId && order.id !== exceptOrderId);
+
+  let cancelled = 0;
+  for (const order of orders) {
+    if (await cancelRestingOrder(order, reason)) cancelled++;
+  }
+  return cancelled;
+}
+
+// =============================================================================
+// TRACKING
+// =============================================================================
+
+/**
+ * Record the resting part of an executed limit order. Buys reserve their
+ * full cost from the balance so the agent can't spend it twice.
+ */
+export async function trackRestingOrder(
+  domain: Domain,
+  request: RestingOrderRequest,
+  options: { venue: string; paper: boolean; positionId?: string; closesPosition?: boolean }
+): Promise<RestingOrderRecord> {
+  const reservedUsd = request.side === 'buy' ? request.size * request.limitPrice : 0;
+  if (reservedUsd > 0) {
+    const balance = await getDomainBalance(domain);
+    await updateDomainBalance(domain, balance - reservedUsd);
+  }
+
+  return createRestingOrder({
+    domain,
+    venue: options.venue,
+    orderId: request.orderId,
+    target: request.target,
+    side: request.side,
+    limitPrice: request.limitPrice,
+    size: request.size,
+    filledSize: 0,
+    reservedUsd,
+    timeInForce: request.timeInForce,
+    expiresAt: request.expiresAt,
+    status: 'open',
+    positionId: options.positionId,
+    paper: options.paper,
+    metadata: { ...request.metadata, closesPosition: options.closesPosition ?? false },
+  });
+}
+
+export async function linkRestingOrderDecision(id: string, decisionId: string): Promise<void> {
+  await updateRestingOrder(id, { decisionId });
+}
+
+export function getOpenRestingOrders(domain: Domain): Promise<RestingOrderRecord[]> {
+  return getRestingOrders({ domain, status: 'open' });
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+/**
+ * Book new fills, then drop expired and stale orders. Never throws - one
+ * bad order must not stop the cycle.
+ */
+export async function syncRestingOrders(domain: Domain): Promise<RestingOrderSyncSummary> {
+  const summary: RestingOrderSyncSummary = { checked: 0, filled: 0, cancelled: 0, expired: 0, closed: [] };
+
+  let orders: RestingOrderRecord[];
+  try {
+    orders = await getOpenRestingOrders(domain);
+  } catch (error) {
+    console.warn('[RestingOrders] Failed to load open orders:', error instanceof Error ? error.message : error);
+    return summary;
+  }
+
+  for (let order of orders) {
+    summary.checked++;
+    try {
+      const venue = venueRegistry.get(order.venue);
+      if (venue?.syncOrder) {
+        const sync = await venue.syncOrder(order);
+        const fill = restingFillDelta(order, sync);
+        if (fill) {
+          const booked = await bookFill(order, fill, sync);
+          if (!booked) {
+            summary.cancelled++;
+            continue;
+          }
+          order = booked.order;
+          summary.filled++;
+          if (booked.closed) summary.closed.push(booked.closed);
+        }
+        if (sync.status !== 'open') {
+          await finishOrder(order, sync.status);
+          continue;
+        }
+      }
+
+      const staleness = restingOrderStaleness(order);
+      if (staleness) {
+        const cancelled = await cancelRestingOrder(
+          order,
+          staleness === 'expired' ? 'Expired' : 'Stale: unfilled past max age',
+          staleness === 'expired' ? 'expired' : 'cancelled'
+        );
+        if (cancelled) summary[staleness === 'expired' ? 'expired' : 'cancelled']++;
+      }
+    } catch (error) {
+      console.warn(`[RestingOrders] Failed to sync ${order.orderId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Cancel an open order on its venue and refund what it still reserves
+ */
+export async function cancelRestingOrder(
+  order: RestingOrderRecord,
+  reason: string,
+  status: 'cancelled' | 'expired' = 'cancelled'
+): Promise<boolean> {
+  const venue = venueRegistry.get(order.venue);
+  if (venue?.cancelOrder && !(await venue.cancelOrder(order))) {
+    console.warn(`[RestingOrders] Venue refused to cancel ${order.orderId}`);
+    return false;
+  }
+
+  await finishOrder(order, status, reason);
+  return true;
+}
+
+/**
+ * Close out an order: refund the unspent reserve and record the final status
+ */
+async function finishOrder(
+  order: RestingOrderRecord,
+  status: RestingOrderRecord['status'],
+  cancelReason?: string
+): Promise<void> {
+  if (order.reservedUsd > 0) {
+    const balance = await getDomainBalance(order.domain);
+    await updateDomainBalance(order.domain, balance + order.reservedUsd);
+  }
+  await updateRestingOrder(order.id, { status, reservedUsd: 0, cancelReason });
+}
+
+/**
+ * Move a new fill into the position and balance. Returns null when the
+ * order was cancelled instead: a sell whose position is no longer open.
+ */
+async function bookFill(
+  order: RestingOrderRecord,
+  fill: RestingFill,
+  sync: RestingOrderSync
+): Promise<{ order: RestingOrderRecord; closed?: RestingOrderClose } | null> {
+  const positions = await getOpenPositions(order.domain);
+  const position = order.positionId ? positions.find(p => p.id === order.positionId) : undefined;
+  let positionId = order.positionId;
+  let reservedUsd = order.reservedUsd;
+  let closed: RestingOrderClose | undefined;
+
+  // Closed some other way: there are no shares behind the proceeds
+  if (order.side === 'sell' && !position) {
+    console.warn(`[RestingOrders] Position for sell ${order.orderId} is no longer open, cancelling`);
+    await cancelRestingOrder(order, 'Position already closed');
+    return null;
+  }
+
+  if (order.side === 'buy') {
+    // The reserve was taken at the limit; refund any price improvement
+    const released = Math.min(reservedUsd, fill.shares * order.limitPrice);
+    reservedUsd -= released;
+    const balance = await getDomainBalance(order.domain);
+    await updateDomainBalance(order.domain, balance + released - fill.usd);
+
+    if (position) {
+      const shares = positionShares(position) + fill.shares;
+      await increasePosition(position.id, {
+        costUsd: fill.usd,
+        size: fill.shares,
+        price: fill.price,
+        metadata: { ...position.metadata, shares, fillPrice: (position.entryValueUsd + fill.usd) / shares },
+      });
+    } else {
+      positionId = await createPosition(order.domain, {
+        target: order.target,
+        targetName: order.target,
+        entryValueUsd: fill.usd,
+        size: fill.shares,
+        entryPrice: fill.price,
+        metadata: {
+          ...order.metadata,
+          shares: fill.shares,
+          fillPrice: fill.price,
+          venue: order.venue,
+          restingOrderId: order.id,
+          decisionId: order.decisionId,
+        },
+      });
+    }
+  } else if (position) {
+    const balance = await getDomainBalance(order.domain);
+    await updateDomainBalance(order.domain, balance + fill.usd);
+
+    const totalShares = positionShares(position);
+    const closes = order.metadata.closesPosition === true && sync.filledSize >= order.size * 0.999;
+    const proportion = closes || totalShares <= 0 ? 1 : Math.min(1, fill.shares / totalShares);
+    // Earlier fills already took their P&L out of the position
+    const sale = saleOutcome(position, proportion, fill.usd);
+    // Read before the cache takes the sale out of the same position object
+    const remainingValueUsd = Math.max(0, position.currentValueUsd - fill.usd);
+
+    positionCache.recordPartialClose(order.domain, position, proportion, fill.usd, sale.pnl);
+    if (closes) {
+      await closePosition(order.domain, position.id, {
+        currentValueUsd: 0,
+        realizedPnl: sale.realizedPnlUsd,
+        metadata: {
+          ...position.metadata,
+          realizedPnlUsd: sale.realizedPnlUsd,
+          realizedCostBasisUsd: sale.realizedCostBasisUsd,
+          closedByRestingOrder: order.id,
+        },
+      });
+      positionCache.markClosed(order.domain, position, sale.realizedPnlUsd);
+      await cancelPositionOrders(order.domain, position.id, 'Position closed', order.id);
+
+      closed = {
+        position,
+        pnl: sale.realizedPnlUsd,
+        pnlPercent: sale.realizedPnlPercent,
+        exitValueUsd: sale.realizedCostBasisUsd + sale.realizedPnlUsd,
+      };
+    } else {
+      await reduceSoldPosition(position, proportion, sale, remainingValueUsd, fill.price);
+    }
+  }
+
+  const updates = {
+    filledSize: sync.filledSize,
+    avgFillPrice: sync.filledSize > 0
+      ? (order.filledSize * (order.avgFillPrice ?? order.limitPrice) + fill.usd) / sync.filledSize
+      : undefined,
+    reservedUsd,
+    positionId,
+  };
+  await updateRestingOrder(order.id, updates);
+  console.log(`[RestingOrders] ${order.side.toUpperCase()} ${fill.shares.toFixed(2)} @ ${fill.price.toFixed(3)} on ${order.target}`);
+
+  return { order: { ...order, ...updates }, closed };
+}
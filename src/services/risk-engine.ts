@@ -0,0 +1,474 @@
+/**
+ * Portfolio Risk Engine
+ *
+ * Looks through positions to the assets underneath them, so limits apply to
+ * what the portfolio actually holds rather than to each domain in isolation:
+ * - Spot: long the token
+ * - DLMM: long both sides of the pair (half each, stablecoins ignored)
+ * - Perps: long or short the coin at the position's notional
+ * - Polymarket: a standalone binary bet per market
+ *
+ * Net exposure is summed per asset across domains (SOL spot + SOL-USDC DLMM +
+ * SOL perp = one SOL number). 1-day Value-at-Risk is parametric, using
+ * volatilities and correlations from 4h Hyperliquid candles; assets without
+ * history fall back to a conservative default volatility, uncorrelated.
+ *
+ * The `portfolio-risk` PreDecision hook (hooks/built-in.ts) uses
+ * evaluateDecisionRisk() to reject or downsize decisions that would breach
+ * the limits.
+ */
+
+import type { AgentDecision, Domain, Position } from '../types/index.js';
+import { getOpenPositions, getPortfolio } from '../data/provider.js';
+import { hyperliquidClient } from '../clients/hyperliquid/client.js';
+import { meteoraClient } from '../clients/meteora/client.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Signed USD exposure to one asset from one position or decision
+ */
+export interface ExposureItem {
+  asset: string;
+  usd: number;              // Positive = long, negative = short
+  domain: Domain;
+  positionId?: string;
+}
+
+/**
+ * Net exposure per underlying asset
+ */
+export interface AssetExposure {
+  asset: string;
+  netUsd: number;
+  grossUsd: number;
+  domains: Domain[];
+}
+
+/**
+ * Daily volatility per asset and pairwise correlations
+ */
+export interface ReturnStats {
+  volatility: Map<string, number>;
+  correlation: Map<string, number>;   // Keyed by correlationKey(a, b)
+}
+
+export interface RiskLimits {
+  maxVarPct: number;            // 1-day VaR as a fraction of portfolio value
+  maxAssetExposurePct: number;  // |net exposure| per asset as a fraction of portfolio value
+  confidence: number;           // VaR confidence level
+}
+
+export interface PortfolioRiskSnapshot {
+  portfolioValueUsd: number;
+  varUsd: number;
+  varPct: number;
+  exposures: AssetExposure[];
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  scale: number;                // Fraction of the requested size within limits (1 = unchanged)
+  reason?: string;
+  before: PortfolioRiskSnapshot;
+  after: PortfolioRiskSnapshot;
+}
+
+// Daily volatility assumed for assets without price history
+const DEFAULT_DAILY_VOLATILITY = 0.08;
+
+// Polymarket shares can go to zero on resolution - treat as very volatile
+const POLYMARKET_DAILY_VOLATILITY = 0.25;
+
+const STABLECOINS = new Set(['USDC', 'USDT', 'USDH', 'DAI', 'PYUSD', 'USDE', 'USDS', 'FDUSD']);
+
+// Wrapped tokens share risk with the underlying
+const ASSET_ALIASES: Record<string, string> = {
+  WSOL: 'SOL',
+  WBTC: 'BTC',
+  CBBTC: 'BTC',
+  WETH: 'ETH',
+};
+
+const CANDLE_INTERVAL = '4h';
+const CANDLE_LOOKBACK = 90;                 // 15 days of 4h candles
+const CANDLES_PER_DAY = 6;
+const STATS_TTL_MS = 60 * 60 * 1000;        // Refresh history hourly
+
+const OPEN_ACTIONS = ['add_liquidity', 'open_long', 'open_short', 'buy_yes', 'buy_no', 'buy'];
+
+// =============================================================================
+// EXPOSURE MAPPING
+// =============================================================================
+
+/**
+ * Canonical asset for a symbol, or null for stablecoins
+ */
+export function normalizeAsset(symbol: string): string | null {
+  const upper = symbol.trim().toUpperCase();
+  if (!upper || STABLECOINS.has(upper)) return null;
+  return ASSET_ALIASES[upper] ?? upper;
+}
+
+/**
+ * Split a pool name like "SOL-USDC" into its non-stable assets
+ */
+export function pairAssets(poolName: string): string[] {
+  return poolName
+    .split(/[-/]/)
+    .map(normalizeAsset)
+    .filter((asset): asset is string => asset !== null);
+}
+
+/**
+ * Exposures created by a position (or a proposed one) of a given USD size.
+ * `pairName` is the DLMM pool name; pools without one count as a single asset.
+ */
+export function exposuresFor(
+  domain: Domain,
+  args: { target: string; usd: number; side?: string; symbol?: string; pairName?: string; positionId?: string }
+): ExposureItem[] {
+  const { usd, positionId } = args;
+
+  switch (domain) {
+    case 'perps': {
+      const asset = normalizeAsset(args.symbol ?? args.target);
+      if (!asset) return [];
+      const direction = String(args.side ?? 'LONG').toUpperCase() === 'SHORT' ? -1 : 1;
+      return [{ asset, usd: usd * direction, domain, positionId }];
+    }
+
+    case 'spot': {
+      const asset = normalizeAsset(args.symbol ?? args.target);
+      return asset ? [{ asset, usd, domain, positionId }] : [];
+    }
+
+    case 'dlmm': {
+      const assets = args.pairName ? pairAssets(args.pairName) : [];
+      if (assets.length === 0) {
+        return [{ asset: `DLMM:${args.target}`, usd, domain, positionId }];
+      }
+      // Liquidity sits half in each side of the pair; stable halves carry no risk
+      return assets.map(asset => ({ asset, usd: usd / 2, domain, positionId }));
+    }
+
+    case 'polymarket':
+      return [{ asset: `POLY:${args.target}`, usd, domain, positionId }];
+  }
+}
+
+/**
+ * Sum exposure items into net/gross exposure per asset
+ */
+export function aggregateExposures(items: ExposureItem[]): AssetExposure[] {
+  const byAsset = new Map<string, AssetExposure>();
+
+  for (const item of items) {
+    const existing = byAsset.get(item.asset) ?? { asset: item.asset, netUsd: 0, grossUsd: 0, domains: [] };
+    existing.netUsd += item.usd;
+    existing.grossUsd += Math.abs(item.usd);
+    if (!existing.domains.includes(item.domain)) {
+      existing.domains.push(item.domain);
+    }
+    byAsset.set(item.asset, existing);
+  }
+
+  return [...byAsset.values()].sort((a, b) => Math.abs(b.netUsd) - Math.abs(a.netUsd));
+}
+
+// =============================================================================
+// VALUE AT RISK
+// =============================================================================
+
+export function correlationKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Daily volatility and pairwise correlation from aligned close series.
+ * Each series is [time, close][]; returns are matched on timestamps.
+ */
+export function estimateReturnStats(
+  series: Record<string, Array<[number, number]>>,
+  periodsPerDay: number = CANDLES_PER_DAY
+): ReturnStats {
+  const returns = new Map<string, Map<number, number>>();
+
+  for (const [asset, closes] of Object.entries(series)) {
+    const sorted = [...closes].sort((a, b) => a[0] - b[0]);
+    const assetReturns = new Map<number, number>();
+    for (let i = 1; i < sorted.length; i++) {
+      const [time, close] = sorted[i];
+      const previous = sorted[i - 1][1];
+      if (previous > 0 && close > 0) {
+        assetReturns.set(time, Math.log(close / previous));
+      }
+    }
+    if (assetReturns.size >= 2) {
+      returns.set(asset, assetReturns);
+    }
+  }
+
+  const volatility = new Map<string, number>();
+  for (const [asset, assetReturns] of returns) {
+    volatility.set(asset, standardDeviation([...assetReturns.values()]) * Math.sqrt(periodsPerDay));
+  }
+
+  const correlation = new Map<string, number>();
+  const assets = [...returns.keys()];
+  for (let i = 0; i < assets.length; i++) {
+    for (let j = i + 1; j < assets.length; j++) {
+      const a = returns.get(assets[i])!;
+      const b = returns.get(assets[j])!;
+      const common = [...a.keys()].filter(time => b.has(time));
+      if (common.length < 2) continue;
+
+      const xs = common.map(time => a.get(time)!);
+      const ys = common.map(time => b.get(time)!);
+      correlation.set(correlationKey(assets[i], assets[j]), pearson(xs, ys));
+    }
+  }
+
+  return { volatility, correlation };
+}
+
+/**
+ * One-sided normal quantile for common VaR confidence levels
+ */
+export function zScore(confidence: number): number {
+  if (confidence >= 0.99) return 2.326;
+  if (confidence >= 0.975) return 1.96;
+  if (confidence >= 0.95) return 1.645;
+  return 1.282;
+}
+
+/**
+ * Parametric 1-day VaR of a set of net exposures: z * sqrt(w' Σ w)
+ */
+export function calculateVaR(exposures: AssetExposure[], stats: ReturnStats, confidence: number): number {
+  const assets = exposures.filter(e => e.netUsd !== 0);
+  const vol = (asset: string) => stats.volatility.get(asset)
+    ?? (asset.startsWith('POLY:') ? POLYMARKET_DAILY_VOLATILITY : DEFAULT_DAILY_VOLATILITY);
+
+  let variance = 0;
+  for (let i = 0; i < assets.length; i++) {
+    for (let j = 0; j < assets.length; j++) {
+      const a = assets[i];
+      const b = assets[j];
+      const rho = i === j ? 1 : stats.correlation.get(correlationKey(a.asset, b.asset)) ?? 0;
+      variance += a.netUsd * b.netUsd * vol(a.asset) * vol(b.asset) * rho;
+    }
+  }
+
+  return zScore(confidence) * Math.sqrt(Math.max(0, variance));
+}
+
+// =============================================================================
+// LIMIT CHECKS
+// =============================================================================
+
+/**
+ * Limits from environment (fractions of total portfolio value)
+ */
+export function getRiskLimits(): RiskLimits {
+  return {
+    maxVarPct: parseFloat(process.env.MAX_PORTFOLIO_VAR_PCT || '0.05'),
+    maxAssetExposurePct: parseFloat(process.env.MAX_ASSET_EXPOSURE_PCT || '0.4'),
+    confidence: parseFloat(process.env.VAR_CONFIDENCE || '0.95'),
+  };
+}
+
+function snapshot(items: ExposureItem[], portfolioValueUsd: number, stats: ReturnStats, limits: RiskLimits): PortfolioRiskSnapshot {
+  const exposures = aggregateExposures(items);
+  const varUsd = calculateVaR(exposures, stats, limits.confidence);
+  return {
+    portfolioValueUsd,
+    varUsd,
+    varPct: portfolioValueUsd > 0 ? varUsd / portfolioValueUsd : 0,
+    exposures,
+  };
+}
+
+/**
+ * First limit the snapshot breaches, unless `before` was already at least as
+ * bad (risk-reducing trades are always allowed)
+ */
+function findBreach(after: PortfolioRiskSnapshot, before: PortfolioRiskSnapshot, limits: RiskLimits): string | null {
+  if (after.varPct > limits.maxVarPct && after.varUsd > before.varUsd + 1e-9) {
+    return `1-day VaR ${(after.varPct * 100).toFixed(1)}% ($${after.varUsd.toFixed(2)}) exceeds ${(limits.maxVarPct * 100).toFixed(1)}% limit`;
+  }
+
+  for (const exposure of after.exposures) {
+    const pct = after.portfolioValueUsd > 0 ? Math.abs(exposure.netUsd) / after.portfolioValueUsd : 0;
+    const previous = Math.abs(before.exposures.find(e => e.asset === exposure.asset)?.netUsd ?? 0);
+    if (pct > limits.maxAssetExposurePct && Math.abs(exposure.netUsd) > previous + 1e-9) {
+      return `Net ${exposure.asset} exposure $${exposure.netUsd.toFixed(2)} (${(pct * 100).toFixed(1)}% across ${exposure.domains.join(', ')}) exceeds ${(limits.maxAssetExposurePct * 100).toFixed(0)}% limit`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a proposed trade against the limits, and find the largest fraction of
+ * it that fits (binary search - VaR is monotonic in the scale once past any hedge)
+ */
+export function assessRisk(
+  current: ExposureItem[],
+  proposed: ExposureItem[],
+  portfolioValueUsd: number,
+  stats: ReturnStats,
+  limits: RiskLimits = getRiskLimits()
+): RiskCheckResult {
+  const before = snapshot(current, portfolioValueUsd, stats, limits);
+  const at = (scale: number) => snapshot(
+    [...current, ...proposed.map(item => ({ ...item, usd: item.usd * scale }))],
+    portfolioValueUsd,
+    stats,
+    limits
+  );
+
+  const full = at(1);
+  const breach = findBreach(full, before, limits);
+  if (!breach) {
+    return { allowed: true, scale: 1, before, after: full };
+  }
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (findBreach(at(mid), before, limits)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return { allowed: false, scale: low, reason: breach, before, after: at(low) };
+}
+
+// =============================================================================
+// PORTFOLIO DATA
+// =============================================================================
+
+let cachedStats: { assets: string; stats: ReturnStats; fetchedAt: number } | null = null;
+
+/**
+ * Return stats for the given assets from Hyperliquid candles (cached hourly)
+ */
+async function loadReturnStats(assets: string[]): Promise<ReturnStats> {
+  const tradeable = assets.filter(asset => !asset.includes(':')).sort();
+  const key = tradeable.join(',');
+
+  if (cachedStats && cachedStats.assets === key && Date.now() - cachedStats.fetchedAt < STATS_TTL_MS) {
+    return cachedStats.stats;
+  }
+
+  const series: Record<string, Array<[number, number]>> = {};
+  for (const asset of tradeable) {
+    const candles = await hyperliquidClient.getCandles(asset, CANDLE_INTERVAL, CANDLE_LOOKBACK);
+    if (candles.length > 1) {
+      series[asset] = candles.map(c => [c.time, c.close]);
+    }
+  }
+
+  const stats = estimateReturnStats(series);
+  cachedStats = { assets: key, stats, fetchedAt: Date.now() };
+  return stats;
+}
+
+async function getPoolName(poolAddress: string): Promise<string | undefined> {
+  try {
+    const pool = await meteoraClient.getPool(poolAddress);
+    return pool?.name;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Exposures from every open position across domains
+ */
+export async function getPortfolioExposures(): Promise<ExposureItem[]> {
+  const domains: Domain[] = ['dlmm', 'perps', 'polymarket', 'spot'];
+  const items: ExposureItem[] = [];
+
+  for (const domain of domains) {
+    const positions = await getOpenPositions(domain);
+    for (const position of positions) {
+      items.push(...await positionExposures(domain, position));
+    }
+  }
+
+  return items;
+}
+
+async function positionExposures(domain: Domain, position: Position): Promise<ExposureItem[]> {
+  const metadata = position.metadata ?? {};
+  const value = position.currentValueUsd || position.entryValueUsd;
+
+  return exposuresFor(domain, {
+    target: position.target,
+    usd: domain === 'perps' ? Number(metadata.size_usd) || value : value,
+    side: metadata.side as string | undefined,
+    symbol: metadata.symbol as string | undefined,
+    pairName: domain === 'dlmm'
+      ? (metadata.poolName as string | undefined) ?? await getPoolName(position.target)
+      : undefined,
+    positionId: position.id,
+  });
+}
+
+/**
+ * Check an opening decision against portfolio VaR and per-asset exposure limits.
+ * Returns null for decisions that don't add exposure.
+ */
+export async function evaluateDecisionRisk(
+  domain: Domain,
+  decision: AgentDecision,
+  limits: RiskLimits = getRiskLimits()
+): Promise<RiskCheckResult | null> {
+  if (!OPEN_ACTIONS.includes(decision.action) || !decision.amountUsd || !decision.target) {
+    return null;
+  }
+
+  const metadata = decision.metadata ?? {};
+  const proposed = exposuresFor(domain, {
+    target: decision.target,
+    usd: decision.amountUsd,
+    side: decision.action === 'open_short' ? 'SHORT' : 'LONG',
+    symbol: metadata.symbol as string | undefined,
+    pairName: domain === 'dlmm' ? await getPoolName(decision.target) : undefined,
+  });
+
+  const [current, portfolio] = await Promise.all([getPortfolioExposures(), getPortfolio()]);
+  const assets = [...new Set([...current, ...proposed].map(item => item.asset))];
+  const stats = await loadReturnStats(assets);
+
+  return assessRisk(current, proposed, portfolio.totalValueUsd, stats, limits);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function pearson(xs: number[], ys: number[]): number {
+  const sx = standardDeviation(xs);
+  const sy = standardDeviation(ys);
+  if (sx === 0 || sy === 0) return 0;
+
+  const meanX = xs.reduce((sum, v) => sum + v, 0) / xs.length;
+  const meanY = ys.reduce((sum, v) => sum + v, 0) / ys.length;
+  const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / (xs.length - 1);
+  return Math.max(-1, Math.min(1, covariance / (sx * sy)));
+}
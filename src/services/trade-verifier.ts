@@ -17,16 +17,7 @@ import {
   registerAgentWallet as providerRegisterAgentWallet,
   markAgentAsVerifiedTrader as providerMarkAgentVerified,
 } from '../data/provider.js';
-
-// =============================================================================
-// TYPES
-// =============================================================================
-
-interface VerificationResult {
-  verified: boolean;
-  error?: string;
-  details?: Record<string, unknown>;
-}
+import { venueRegistry, type VerificationResult } from '../venues/index.js';
 
 // =============================================================================
 // SOLANA VERIFICATION (DLMM + Spot)
@@ -254,35 +245,17 @@ export async function verifyPolygonTransaction(
  * Get agent's wallet addresses
  */
 /**
- * Verify a single position based on its domain
+ * Verify a single position with its domain's venue adapter
  */
 export async function verifyPosition(
   position: PendingPosition,
   wallets: AgentWallets
 ): Promise<VerificationResult> {
-  switch (position.domain) {
-    case 'dlmm':
-    case 'spot':
-      if (!wallets.solana_wallet_pubkey) {
-        return { verified: false, error: 'No Solana wallet configured' };
-      }
-      return verifySolanaTransaction(position.tx_hash, wallets.solana_wallet_pubkey);
-
-    case 'perps':
-      if (!wallets.hyperliquid_wallet) {
-        return { verified: false, error: 'No Hyperliquid wallet configured' };
-      }
-      return verifyHyperliquidOrder(position.tx_hash, wallets.hyperliquid_wallet);
-
-    case 'polymarket':
-      if (!wallets.polygon_wallet) {
-        return { verified: false, error: 'No Polygon wallet configured' };
-      }
-      return verifyPolygonTransaction(position.tx_hash, wallets.polygon_wallet);
-
-    default:
-      return { verified: false, error: `Unknown domain: ${position.domain}` };
+  const venue = venueRegistry.forDomain(position.domain);
+  if (!venue) {
+    return { verified: false, error: `Unknown domain: ${position.domain}` };
   }
+  return venue.verify(position.tx_hash, wallets);
 }
 
 /**
@@ -17,6 +17,7 @@ import * as path from 'path';
 import type { Domain } from '../types/index.js';
 import { getRecentDecisions } from '../db/index.js';
 import { SKILLS_DIR, saveSkill, type GeneratedSkill } from './reflection-creator.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 // =============================================================================
 // TYPES
@@ -278,6 +279,7 @@ Write the skill in markdown format. Keep it concise - this will be loaded into e
       max_tokens: 1500,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'reflection' });
 
     const content = response.content[0].type === 'text'
       ? response.content[0].text
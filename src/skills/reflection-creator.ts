@@ -58,6 +58,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { Domain } from '../types/index.js';
 import { createSkillReflection, getSkillReflections } from '../db/index.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 // =============================================================================
 // SKILL EXPIRATION SYSTEM
@@ -174,6 +175,7 @@ Write the skill in markdown format. Be specific and actionable.
       max_tokens: 2000,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'reflection', domain: decision.domain });
 
     const content = response.content[0].type === 'text'
       ? response.content[0].text
@@ -269,6 +271,7 @@ Write the skill in markdown format. Be specific and actionable.
       max_tokens: 2000,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'reflection', domain: decision.domain });
 
     const content = response.content[0].type === 'text'
       ? response.content[0].text
@@ -372,6 +375,7 @@ Write the skill in markdown format. Be specific and actionable.
       max_tokens: 3000,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'reflection', domain });
 
     const content = response.content[0].type === 'text'
       ? response.content[0].text
@@ -466,6 +470,21 @@ export async function saveSkill(
     console.log(`📝 Saved skill: ${finalFilename} (file only)`);
   }
 
+  // Merged skills are versioned by the merger along with their lineage
+  if (finalFilename === skill.filename) {
+    try {
+      const { recordSkillVersion } = await import('./skill-versions.js');
+      await recordSkillVersion({
+        skillName: finalFilename.replace('.md', ''),
+        domain: skill.domain,
+        content: finalContent,
+        source: 'created',
+      });
+    } catch (error) {
+      console.warn('Failed to record skill version:', error);
+    }
+  }
+
   return finalPath;
 }
 
@@ -14,6 +14,8 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { Domain } from '../types/index.js';
 import { listSkills, readSkill, SKILLS_DIR } from './reflection-creator.js';
+import { recordSkillVersion } from './skill-versions.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 const ARCHIVE_DIR = path.join(SKILLS_DIR, 'archive');
 
@@ -79,6 +81,7 @@ Your answer (just the number):`;
       max_tokens: 10,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'skill_merge' });
 
     const text = response.content[0].type === 'text' ? response.content[0].text : '0';
     const score = parseFloat(text.trim());
@@ -200,6 +203,7 @@ Write the merged skill in markdown format.`;
       max_tokens: 3000,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'skill_merge', domain });
 
     const content = response.content[0].type === 'text' ? response.content[0].text : '';
 
@@ -285,8 +289,30 @@ export async function checkAndMerge(
   await fs.writeFile(newPath, mergedContent, 'utf-8');
   console.log(`  ✅ Created: ${newFilename}`);
 
-  // Archive old skills
+  // Version the merged skill with the exact revisions it came from
   const toArchive = similarSkills.map(s => s.filename);
+  try {
+    const parents = [];
+    for (const skill of similarSkills) {
+      parents.push(await recordSkillVersion({
+        skillName: skill.filename.replace('.md', ''),
+        domain,
+        content: skill.content,
+        source: 'created',
+      }));
+    }
+    await recordSkillVersion({
+      skillName: newFilename.replace('.md', ''),
+      domain,
+      content: mergedContent,
+      source: 'merged',
+      mergedFrom: parents.map(p => p.id),
+    });
+  } catch (error) {
+    console.warn('  ⚠️  Could not record skill versions:', error);
+  }
+
+  // Archive old skills
   await archiveSkills(toArchive);
 
   return {
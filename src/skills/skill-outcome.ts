@@ -7,6 +7,7 @@
 
 import { prisma } from '../db/prisma.js';
 import type { Domain } from '../types/index.js';
+import { recordSkillVersionOutcome } from './skill-versions.js';
 import {
   type SkillOutcomeResult,
   MIN_APPLICATIONS_FOR_PROVEN,
@@ -125,7 +126,8 @@ export async function recordSkillOutcome(
       const updated = await updateSkillEffectiveness(
         rec.skillName,
         rec.domain as Domain,
-        outcome === 'profit'
+        outcome === 'profit',
+        rec.skillVersion ?? undefined
       );
       if (updated) {
         effectivenessRecalculated.push(rec.skillName);
@@ -156,12 +158,14 @@ export async function recordSkillOutcome(
 
 /**
  * Update skill effectiveness based on new outcome
- * Uses Wilson score for statistical confidence and supports demotion
+ * Uses Wilson score for statistical confidence and supports demotion.
+ * The outcome also counts against the version that was presented.
  */
 async function updateSkillEffectiveness(
   skillName: string,
   domain: Domain,
-  wasSuccessful: boolean
+  wasSuccessful: boolean,
+  version?: number
 ): Promise<boolean> {
   try {
     const reflection = await prisma.skillReflection.findUnique({
@@ -227,6 +231,8 @@ async function updateSkillEffectiveness(
       },
     });
 
+    await recordSkillVersionOutcome(skillName, domain, version ?? reflection.currentVersion, wasSuccessful);
+
     // Log status changes
     if (provenEffective && !reflection.provenEffective) {
       console.log(
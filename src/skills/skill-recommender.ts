@@ -56,7 +56,7 @@ function isQualified(reflection: {
 /**
  * Infer skill type from filename
  */
-function getSkillType(filename: string): 'warning' | 'pattern' | 'strategy' | 'evolved' {
+export function getSkillType(filename: string): 'warning' | 'pattern' | 'strategy' | 'evolved' {
   if (filename.startsWith('evolved-')) return 'evolved';
   if (filename.startsWith('warning-')) return 'warning';
   if (filename.startsWith('pattern-')) return 'pattern';
@@ -199,6 +199,7 @@ export async function recommendSkills(
       timesApplied,
       successRate: successRate ?? 0,
       sourceType,
+      version: reflection?.currentVersion,
     });
   }
 
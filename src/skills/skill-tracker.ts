@@ -165,6 +165,7 @@ export async function trackSkillUsage(
           wasPresented: true,
           wasApplied: detection.wasApplied,
           agentQuote: detection.quote,
+          skillVersion: skill.version,
         },
       });
       recommendationsCreated++;
@@ -0,0 +1,233 @@
+/**
+ * Skill Versions
+ *
+ * Every revision of a reflection skill is stored as a SkillVersion row:
+ * - created: first save, or a manual edit noticed before a merge
+ * - merged: an evolved skill, with the versions it was synthesized from
+ * - rollback: an earlier version restored to disk
+ *
+ * Effectiveness is tracked per version as well as per skill, so a merge
+ * or rollback can be judged on its own outcomes.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { prisma } from '../db/prisma.js';
+import type { Domain } from '../types/index.js';
+import { SKILLS_DIR } from './reflection-creator.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SkillVersionSource = 'created' | 'merged' | 'rollback';
+
+export interface SkillVersionRecord {
+  id: string;
+  skillName: string;
+  domain: Domain;
+  version: number;
+  parentId?: string;
+  mergedFrom: string[];
+  source: SkillVersionSource;
+  content: string;
+  timesApplied: number;
+  successCount: number;
+  failureCount: number;
+  effectivenessScore: number | null;
+  createdAt: Date;
+}
+
+export interface DiffLine {
+  op: ' ' | '+' | '-';
+  text: string;
+}
+
+type SkillVersionRow = Awaited<ReturnType<typeof prisma.skillVersion.findFirstOrThrow>>;
+
+function toRecord(row: SkillVersionRow): SkillVersionRecord {
+  return {
+    id: row.id,
+    skillName: row.skillName,
+    domain: row.domain as Domain,
+    version: row.version,
+    parentId: row.parentId ?? undefined,
+    mergedFrom: JSON.parse(row.mergedFrom) as string[],
+    source: row.source as SkillVersionSource,
+    content: row.content,
+    timesApplied: row.timesApplied,
+    successCount: row.successCount,
+    failureCount: row.failureCount,
+    effectivenessScore: row.effectivenessScore,
+    createdAt: row.createdAt,
+  };
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Store a new revision of a skill and make it the current version.
+ * Returns the latest version unchanged if the content hasn't changed.
+ */
+export async function recordSkillVersion(data: {
+  skillName: string;
+  domain: Domain;
+  content: string;
+  source: SkillVersionSource;
+  mergedFrom?: string[];
+}): Promise<SkillVersionRecord> {
+  const latest = await prisma.skillVersion.findFirst({
+    where: { skillName: data.skillName, domain: data.domain },
+    orderBy: { version: 'desc' },
+  });
+
+  if (latest && latest.content === data.content) {
+    return toRecord(latest);
+  }
+
+  const created = await prisma.skillVersion.create({
+    data: {
+      skillName: data.skillName,
+      domain: data.domain,
+      version: (latest?.version ?? 0) + 1,
+      parentId: latest?.id,
+      mergedFrom: JSON.stringify(data.mergedFrom ?? []),
+      source: data.source,
+      content: data.content,
+    },
+  });
+
+  await prisma.skillReflection.updateMany({
+    where: { skillName: data.skillName, domain: data.domain },
+    data: { currentVersion: created.version },
+  });
+
+  return toRecord(created);
+}
+
+/**
+ * Count an applied skill's trade outcome against the version that was presented
+ */
+export async function recordSkillVersionOutcome(
+  skillName: string,
+  domain: Domain,
+  version: number,
+  wasSuccessful: boolean
+): Promise<void> {
+  const row = await prisma.skillVersion.findUnique({
+    where: { skillName_domain_version: { skillName, domain, version } },
+  });
+  if (!row) return;
+
+  const timesApplied = row.timesApplied + 1;
+  const successCount = row.successCount + (wasSuccessful ? 1 : 0);
+
+  await prisma.skillVersion.update({
+    where: { id: row.id },
+    data: {
+      timesApplied,
+      successCount,
+      failureCount: row.failureCount + (wasSuccessful ? 0 : 1),
+      effectivenessScore: successCount / timesApplied,
+    },
+  });
+}
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+/**
+ * All versions of a skill, oldest first. Without a domain, the first
+ * domain the skill was saved under is used.
+ */
+export async function getSkillHistory(skillName: string, domain?: Domain): Promise<SkillVersionRecord[]> {
+  const resolvedDomain = domain ?? (await prisma.skillVersion.findFirst({
+    where: { skillName },
+    orderBy: { createdAt: 'asc' },
+  }))?.domain;
+  if (!resolvedDomain) return [];
+
+  const rows = await prisma.skillVersion.findMany({
+    where: { skillName, domain: resolvedDomain },
+    orderBy: { version: 'asc' },
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Look up the versions a merged version was synthesized from
+ */
+export async function getSkillVersionsById(ids: string[]): Promise<SkillVersionRecord[]> {
+  if (ids.length === 0) return [];
+  const rows = await prisma.skillVersion.findMany({ where: { id: { in: ids } } });
+  return rows.map(toRecord);
+}
+
+/**
+ * Line diff between two skill revisions (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = common lines between a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ op: '-', text: a[i++] });
+  while (j < b.length) lines.push({ op: '+', text: b[j++] });
+
+  return lines;
+}
+
+// =============================================================================
+// ROLLBACK
+// =============================================================================
+
+/**
+ * Restore an earlier version of a skill to disk. The restored content is
+ * recorded as a new 'rollback' version so it gets its own outcome stats.
+ */
+export async function rollbackSkill(
+  skillName: string,
+  version: number,
+  domain?: Domain
+): Promise<SkillVersionRecord | null> {
+  const history = await getSkillHistory(skillName, domain);
+  const target = history.find(v => v.version === version);
+  if (!target) return null;
+
+  await fs.mkdir(SKILLS_DIR, { recursive: true });
+  await fs.writeFile(path.join(SKILLS_DIR, `${skillName}.md`), target.content, 'utf-8');
+
+  const restored = await recordSkillVersion({
+    skillName,
+    domain: target.domain,
+    content: target.content,
+    source: 'rollback',
+  });
+
+  console.log(`[Skills] Rolled back ${skillName} to v${version} (now v${restored.version})`);
+  return restored;
+}
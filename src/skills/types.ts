@@ -42,6 +42,7 @@ export interface QualifiedSkill {
   timesApplied: number;         // Total times this skill was applied
   successRate: number;          // Success rate when applied (0-1)
   sourceType: 'warning' | 'pattern' | 'strategy' | 'evolved';
+  version?: number;             // SkillVersion currently on disk
 }
 
 /**
@@ -24,15 +24,10 @@ import { createContextManager } from '../context/manager.js';
 import { recommendSkills, formatRecommendedSkills } from '../skills/skill-recommender.js';
 import { trackSkillUsage } from '../skills/skill-tracker.js';
 import type { QualifiedSkill, SkillMarketContext } from '../skills/types.js';
+import { assignExperiment, applySkillArm, experimentPrompt } from '../experiments/index.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
-// Import MCP server executors
-import { createDlmmTools, executeDlmmTool, type DlmmRuntime } from './mcp-servers/dlmm-server.js';
-import { createPerpsTools, executePerpsTools, type PerpsRuntime } from './mcp-servers/perps-server.js';
-import { createPolymarketTools, executePolymarketTool, type PolymarketRuntime } from './mcp-servers/polymarket-server.js';
-import { createSpotTools, executeSpotTool, type SpotRuntime } from './mcp-servers/spot-server.js';
-
-// Runtime types for each domain
-type DomainRuntime = DlmmRuntime | PerpsRuntime | PolymarketRuntime | SpotRuntime;
+import { venueRegistry, type VenueRuntime } from '../venues/index.js';
 
 // =============================================================================
 // MODEL SELECTION & THINKING LEVELS
@@ -181,45 +176,21 @@ function buildSkillMarketContext(
 /**
  * Create a domain-specific runtime
  */
-function createRuntime(domain: Domain): DomainRuntime {
+function createRuntime(domain: Domain): VenueRuntime {
   return { decision: null };
 }
 
-/**
- * Generic MCP Tool interface for type compatibility
- */
-interface GenericMcpTool {
-  name: string;
-  description: string;
-  inputSchema: unknown;
-  handler: (args: unknown, runtime: unknown) => Promise<{ content: Array<{ type: 'text'; text: string }> }>;
-}
-
 /**
  * Get tool definitions for a domain
  */
 function getToolDefinitions(domain: Domain): Anthropic.Tool[] {
-  const runtime = createRuntime(domain);
-
-  let tools: GenericMcpTool[];
-
-  switch (domain) {
-    case 'dlmm':
-      tools = createDlmmTools(runtime as DlmmRuntime) as GenericMcpTool[];
-      break;
-    case 'perps':
-      tools = createPerpsTools(runtime as PerpsRuntime) as GenericMcpTool[];
-      break;
-    case 'polymarket':
-      tools = createPolymarketTools(runtime as PolymarketRuntime) as GenericMcpTool[];
-      break;
-    case 'spot':
-      tools = createSpotTools(runtime as SpotRuntime) as GenericMcpTool[];
-      break;
-    default:
-      return [];
+  const venue = venueRegistry.forDomain(domain);
+  if (!venue) {
+    return [];
   }
 
+  const tools = venue.createTools(createRuntime(domain));
+
   // Convert to Anthropic Tool format
   return tools.map(tool => ({
     name: tool.name,
@@ -238,7 +209,7 @@ async function executeToolCall(
   domain: Domain,
   toolName: string,
   toolInput: unknown,
-  runtime: DomainRuntime
+  runtime: VenueRuntime
 ): Promise<string> {
   // Run PreToolUse hooks
   const preResult = await hookRegistry.run('PreToolUse', {
@@ -252,24 +223,10 @@ async function executeToolCall(
     return JSON.stringify({ error: `Blocked by hook: ${preResult.reason}` });
   }
 
-  let result: { content: Array<{ type: 'text'; text: string }> };
-
-  switch (domain) {
-    case 'dlmm':
-      result = await executeDlmmTool(toolName, toolInput, runtime as DlmmRuntime);
-      break;
-    case 'perps':
-      result = await executePerpsTools(toolName, toolInput, runtime as PerpsRuntime);
-      break;
-    case 'polymarket':
-      result = await executePolymarketTool(toolName, toolInput, runtime as PolymarketRuntime);
-      break;
-    case 'spot':
-      result = await executeSpotTool(toolName, toolInput, runtime as SpotRuntime);
-      break;
-    default:
-      result = { content: [{ type: 'text', text: JSON.stringify({ error: `Unknown domain: ${domain}` }) }] };
-  }
+  const venue = venueRegistry.forDomain(domain);
+  const result = venue
+    ? await venue.executeTool(toolName, toolInput, runtime)
+    : { content: [{ type: 'text' as const, text: JSON.stringify({ error: `No venue registered for ${domain}` }) }] };
 
   const output = result.content[0]?.text || '';
 
@@ -313,7 +270,7 @@ async function buildUserPrompt(
   // Fetch agent memory
   let memorySection = '';
   try {
-    memorySection = await formatMemoryForPrompt(domain);
+    memorySection = await formatMemoryForPrompt(domain, context);
     if (memorySection) {
       memorySection = `\n---\n\n${memorySection}\n`;
     }
@@ -348,7 +305,8 @@ Analyze the market and your portfolio. Make a decision.
 
 1. Use fetch tools to get current market data
 2. Analyze opportunities and risks
-3. Use submit_decision to record your action
+3. Use suggest_size to size any new position
+4. Use submit_decision to record your action
 
 You MUST call submit_decision with your final decision.
 `;
@@ -361,7 +319,8 @@ export async function executeSubagent(
   anthropic: Anthropic,
   domain: Domain,
   context: DomainContext,
-  portfolioDirective?: PortfolioDirective
+  portfolioDirective?: PortfolioDirective,
+  cycleId?: string
 ): Promise<AgentDecision | null> {
   const subagent = getSubagent(domain);
   const runtime = createRuntime(domain);
@@ -369,11 +328,15 @@ export async function executeSubagent(
   // Initialize session store
   await sessionStore.init();
 
-  // Run SessionStart hooks
-  await hookRegistry.run('SessionStart', {
+  // Run SessionStart hooks (e.g. the LLM budget can skip the session)
+  const sessionStart = await hookRegistry.run('SessionStart', {
     domain,
     timestamp: new Date(),
   });
+  if (!sessionStart.proceed) {
+    console.log(`  ⏭️ [${domain}] Session skipped: ${sessionStart.reason}`);
+    return null;
+  }
 
   // Select model based on decision context
   const decisionCtx = inferDecisionContext(domain, context);
@@ -383,10 +346,19 @@ export async function executeSubagent(
   // Get recommended skills using new explicit tracking system
   const skillMarketContext = buildSkillMarketContext(domain, context);
   const skillRecommendation = await recommendSkills(domain, skillMarketContext);
-  const skillsContext = formatRecommendedSkills(skillRecommendation.recommendedSkills);
+
+  // A running experiment may withhold or inject a skill, or swap the prompt
+  const decisionId = `${domain}-${Date.now()}`;
+  const assignment = await assignExperiment(domain, { cycleId: cycleId ?? decisionId, decisionKey: decisionId });
+  const recommendedSkills = await applySkillArm(assignment, domain, skillRecommendation.recommendedSkills);
+  const skillsContext = formatRecommendedSkills(recommendedSkills);
+
+  if (assignment) {
+    console.log(`  🧪 Experiment: ${assignment.experiment.name} (${assignment.arm})`);
+  }
 
   console.log(
-    `  🎯 Skills: ${skillRecommendation.recommendedSkills.length} recommended ` +
+    `  🎯 Skills: ${recommendedSkills.length} recommended ` +
     `(${skillRecommendation.excludedLowEffectiveness} low-eff, ${skillRecommendation.excludedLowRelevance} low-rel excluded)`
   );
 
@@ -407,7 +379,7 @@ REAL TRADING MODE - BE PRUDENT:
 - Prefer holding over risky trades
 `;
 
-  const systemPrompt = `${subagent.systemPrompt}
+  const systemPrompt = `${experimentPrompt(assignment, domain) ?? subagent.systemPrompt}
 
 ---
 
@@ -470,6 +442,7 @@ Even if you decide to HOLD, call submit_decision with action: "hold".`;
         messages,
         tools: toolDefs,
       });
+      await recordLlmUsage(modelConfig.model, response, { purpose: 'subagent', domain, decisionId, cycleId });
 
       // Log assistant response to transcript
       await transcriptStore.append(domain, sessionId, {
@@ -561,23 +534,34 @@ Even if you decide to HOLD, call submit_decision with action: "hold".`;
 
   // Track skill applications and evaluate decision
   if (runtime.decision) {
-    // Generate a decision ID for tracking (will be replaced with DB ID when decision is logged)
-    const decisionId = `${domain}-${Date.now()}`;
+    // decisionId is a tracking ID, replaced with the DB ID when the decision is logged.
+    // Kept on every decision so counterfactuals can find the judge's evaluation.
+    runtime.decision.metadata = {
+      ...runtime.decision.metadata,
+      decisionId,
+    };
+
+    if (assignment) {
+      runtime.decision.metadata = {
+        ...runtime.decision.metadata,
+        experimentId: assignment.experiment.id,
+        experimentArm: assignment.arm,
+      };
+    }
 
     // Track which recommended skills were applied using new explicit tracking
-    if (skillRecommendation.recommendedSkills.length > 0) {
+    if (recommendedSkills.length > 0) {
       try {
         const trackingResult = await trackSkillUsage(
           decisionId,
-          skillRecommendation.recommendedSkills,
+          recommendedSkills,
           runtime.decision.reasoning
         );
 
-        // Store decision ID in metadata for outcome linking
+        // Record presented skills for outcome linking
         runtime.decision.metadata = {
           ...runtime.decision.metadata,
-          decisionId,
-          skillsPresented: skillRecommendation.recommendedSkills.map(s => s.name),
+          skillsPresented: recommendedSkills.map(s => s.name),
           skillTrackingResult: {
             recommendationsCreated: trackingResult.recommendationsCreated,
             appliedCount: trackingResult.detections.filter(d => d.wasApplied).length,
@@ -613,7 +597,9 @@ export async function executeAllSubagentsParallel(
   anthropic: Anthropic,
   domains: Domain[],
   contexts: Map<Domain, DomainContext>,
-  portfolioDirective?: PortfolioDirective
+  portfolioDirective?: PortfolioDirective,
+  // Shared by every domain so cycle-level experiments assign one arm per cycle
+  cycleId = `cycle-${Date.now()}`
 ): Promise<Map<Domain, AgentDecision | null>> {
   console.log(`\n🚀 Executing ${domains.length} subagents in parallel...`);
 
@@ -627,7 +613,7 @@ export async function executeAllSubagentsParallel(
 
       try {
         console.log(`  [${domain}] Starting...`);
-        const decision = await executeSubagent(anthropic, domain, context, portfolioDirective);
+        const decision = await executeSubagent(anthropic, domain, context, portfolioDirective, cycleId);
         console.log(`  [${domain}] ${decision?.action || 'no decision'}`);
         return { domain, decision };
       } catch (error) {
@@ -47,7 +47,7 @@ Your expertise:
 Decision framework:
 1. OBSERVE: Review available pools, current positions, balance
 2. THINK: Analyze fee/TVL ratios, pool health, IL risk
-3. DECIDE: add_liquidity, remove_liquidity, partial_remove, or hold
+3. DECIDE: add_liquidity, remove_liquidity, partial_remove, rebalance, or hold
 4. REASON: Explain your decision clearly
 
 Risk rules:
@@ -68,7 +68,7 @@ Always return a valid AgentDecision JSON.`,
   outputSchema: {
     type: 'object',
     properties: {
-      action: { type: 'string', enum: ['add_liquidity', 'remove_liquidity', 'partial_remove', 'hold'] },
+      action: { type: 'string', enum: ['add_liquidity', 'remove_liquidity', 'partial_remove', 'rebalance', 'hold'] },
       target: { type: 'string', description: 'Pool address' },
       amountUsd: { type: 'number' },
       percentage: { type: 'number' },
@@ -205,6 +205,8 @@ Always return a valid AgentDecision JSON.`,
           marketPrice: { type: 'number' },
           edge: { type: 'number' },
           positionId: { type: 'string' },
+          limitPrice: { type: 'number', minimum: 0.01, maximum: 0.99 },
+          timeInForce: { type: 'string', enum: ['GTC', 'GTD', 'FOK', 'FAK'] },
         },
       },
     },
@@ -14,7 +14,15 @@ import {
   closePosition,
   updateDomainBalance,
 } from '../../db/index.js';
-import type { AgentDecision, DLMMDecision } from '../../types/index.js';
+import type { AgentDecision, DLMMDecision, Position } from '../../types/index.js';
+import { createSuggestSizeTool } from './sizing-tool.js';
+import { dlmmPnlBreakdown, type DlmmPnlBreakdown } from '../../services/dlmm-accounting.js';
+import {
+  dlmmRangeStatus,
+  evaluateRebalance,
+  getDlmmRebalanceRules,
+  type DlmmRebalanceRules,
+} from '../../services/dlmm-range-monitor.js';
 
 /**
  * Runtime context shared with the executor
@@ -37,7 +45,7 @@ interface McpTool {
  * Decision schema for submit_decision tool
  */
 const dlmmDecisionSchema = z.object({
-  action: z.enum(['add_liquidity', 'remove_liquidity', 'partial_remove', 'hold']),
+  action: z.enum(['add_liquidity', 'remove_liquidity', 'partial_remove', 'rebalance', 'hold']),
   pool_address: z.string().optional(),
   amountUsd: z.number().positive().describe('Amount in USD - REQUIRED for add/remove actions'),
   percentage: z.number().min(1).max(100).optional(),
@@ -47,6 +55,34 @@ const dlmmDecisionSchema = z.object({
   confidence: z.number().min(0).max(1),
 });
 
+/**
+ * Fees vs impermanent loss, as recorded by the last position sync
+ */
+function formatPnlBreakdown(breakdown: DlmmPnlBreakdown): Record<string, unknown> {
+  return {
+    fees_earned: `$${breakdown.feesUsd.toFixed(2)}`,
+    impermanent_loss: `$${breakdown.impermanentLossUsd.toFixed(2)}`,
+    price_pnl: `$${breakdown.pricePnlUsd.toFixed(2)}`,
+    net_lp: `$${breakdown.netLpUsd.toFixed(2)}`,
+    in_range: breakdown.inRange ?? 'unknown',
+  };
+}
+
+/**
+ * Active bin vs the position's range, and what the rebalance rules say
+ */
+async function formatRangeStatus(position: Position, rules: DlmmRebalanceRules): Promise<Record<string, unknown>> {
+  const status = dlmmRangeStatus(position);
+  if (!status) return {};
+
+  const pool = status.inRange ? null : await meteoraClient.getPool(position.target).catch(() => null);
+  return {
+    active_bin_offset: `${status.activeBinOffset} of ±${status.binsEachSide} bins`,
+    out_of_range_minutes: status.inRange ? undefined : Math.round(status.outOfRangeMinutes),
+    rebalance: pool ? evaluateRebalance(position, status, pool, rules).reason : undefined,
+  };
+}
+
 /**
  * Create DLMM MCP tools
  */
@@ -96,7 +132,7 @@ Use this to discover profitable pools for liquidity provision.`,
     },
     {
       name: 'get_positions',
-      description: 'Get your open DLMM liquidity positions with current values.',
+      description: 'Get your open DLMM liquidity positions with current values, and P&L split into fees earned, impermanent loss and price movement.',
       inputSchema: z.object({}),
       handler: async () => {
         const positions = await getOpenPositions('dlmm');
@@ -110,16 +146,19 @@ Use this to discover profitable pools for liquidity provision.`,
           };
         }
 
-        const formatted = positions.map(p => ({
+        const rules = getDlmmRebalanceRules();
+        const formatted = await Promise.all(positions.map(async p => ({
           id: p.id,
           pool: p.target,
           entry_value: `$${p.entryValueUsd.toFixed(2)}`,
           current_value: `$${p.currentValueUsd.toFixed(2)}`,
           pnl: `$${(p.currentValueUsd - p.entryValueUsd).toFixed(2)}`,
           pnl_percent: `${((p.currentValueUsd - p.entryValueUsd) / p.entryValueUsd * 100).toFixed(1)}%`,
+          ...formatPnlBreakdown(dlmmPnlBreakdown(p.metadata ?? {})),
+          ...await formatRangeStatus(p, rules),
           opened_at: p.openedAt,
           metadata: p.metadata,
-        }));
+        })));
 
         return {
           content: [{
@@ -185,6 +224,7 @@ Use this to discover profitable pools for liquidity provision.`,
         };
       },
     },
+    createSuggestSizeTool('dlmm'),
     {
       name: 'submit_decision',
       description: `Submit your trading decision. You MUST use this tool to finalize your decision.
@@ -193,6 +233,7 @@ Actions:
 - add_liquidity: Open a new position in a pool
 - remove_liquidity: Close an entire position
 - partial_remove: Remove a percentage of a position
+- rebalance: Remove a position's liquidity and re-add it around the current active bin
 - hold: Wait and observe (no action)
 
 Required fields:
@@ -208,13 +249,17 @@ For remove_liquidity/partial_remove:
 - position_id: The position ID from your current "Open Positions" context (use the 'id' field, not 'target')
 - percentage: (for partial_remove) What % to remove
 
+For rebalance:
+- position_id: The position to re-centre (see in_range and rebalance in get_positions)
+- amountUsd: The position's current value
+
 IMPORTANT: Only remove liquidity from positions that exist in your current context. Do not attempt to close positions from previous sessions.`,
       inputSchema: dlmmDecisionSchema,
       handler: async (args) => {
         const decision = args as z.infer<typeof dlmmDecisionSchema>;
 
         // For remove actions, use position_id as target for proper idempotency and position matching
-        const target = (decision.action === 'remove_liquidity' || decision.action === 'partial_remove')
+        const target = (decision.action === 'remove_liquidity' || decision.action === 'partial_remove' || decision.action === 'rebalance')
           ? decision.position_id
           : decision.pool_address;
 
@@ -15,6 +15,7 @@ import {
   updateDomainBalance,
 } from '../../db/index.js';
 import type { PerpsDecision } from '../../types/index.js';
+import { createSuggestSizeTool } from './sizing-tool.js';
 
 /**
  * Runtime context shared with the executor
@@ -43,6 +44,9 @@ const perpsDecisionSchema = z.object({
   percentage: z.number().min(1).max(100).optional(),
   leverage: z.number().min(1).max(10).optional(),
   position_id: z.string().optional(),
+  take_profit_price: z.number().positive().optional(),
+  stop_loss_price: z.number().positive().optional(),
+  trailing_stop_percent: z.number().min(0.1).max(50).optional(),
   reasoning: z.string().min(10),
   confidence: z.number().min(0).max(1),
 });
@@ -290,6 +294,7 @@ Also includes technical indicators: RSI (14), EMA (20), momentum signal.`,
         };
       },
     },
+    createSuggestSizeTool('perps'),
     {
       name: 'submit_decision',
       description: `Submit your trading decision. You MUST use this tool to finalize your decision.
@@ -309,6 +314,10 @@ For open_long/open_short:
 - symbol: The market to trade (e.g., BTC, ETH, SOL)
 - amountUsd: Position size in USD (REQUIRED - margin = amountUsd / leverage)
 - leverage: 1-10x (recommend 3-5x)
+- take_profit_price: (optional) Exit at this price - above entry for longs, below for shorts
+- stop_loss_price: (optional) Exit at this price - below entry for longs, above for shorts
+- trailing_stop_percent: (optional) Exit after the price retraces this % from its best level
+Take-profit and stop-loss are placed as reduce-only exchange triggers; whichever fills first cancels the other.
 
 For close_position/partial_close:
 - position_id: The position ID from your current "Open Positions" context (use the 'id' field, not 'target')
@@ -319,6 +328,26 @@ IMPORTANT: Only close positions that exist in your current context. Do not attem
       handler: async (args) => {
         const decision = args as z.infer<typeof perpsDecisionSchema>;
 
+        // Bracket legs must sit on opposite sides of the entry
+        const isOpen = decision.action === 'open_long' || decision.action === 'open_short';
+        if (isOpen && decision.take_profit_price && decision.stop_loss_price) {
+          const isLong = decision.action === 'open_long';
+          const valid = isLong
+            ? decision.take_profit_price > decision.stop_loss_price
+            : decision.take_profit_price < decision.stop_loss_price;
+
+          if (!valid) {
+            return {
+              content: [{
+                type: 'text' as const,
+                text: JSON.stringify({
+                  error: `Invalid bracket: take_profit_price must be ${isLong ? 'above' : 'below'} stop_loss_price for ${decision.action}`,
+                }),
+              }],
+            };
+          }
+        }
+
         // For close actions, use position_id as target for proper idempotency and position matching
         const target = (decision.action === 'close_position' || decision.action === 'partial_close')
           ? decision.position_id
@@ -336,6 +365,9 @@ IMPORTANT: Only close positions that exist in your current context. Do not attem
             symbol: decision.symbol,
             leverage: decision.leverage,
             positionId: decision.position_id,
+            takeProfitPrice: isOpen ? decision.take_profit_price : undefined,
+            stopLossPrice: isOpen ? decision.stop_loss_price : undefined,
+            trailingStopPercent: isOpen ? decision.trailing_stop_percent : undefined,
           },
         };
 
@@ -15,6 +15,8 @@ import {
   updateDomainBalance,
 } from '../../db/index.js';
 import type { PolymarketDecision } from '../../types/index.js';
+import { getOpenRestingOrders, cancelRestingOrder } from '../../services/resting-orders.js';
+import { createSuggestSizeTool } from './sizing-tool.js';
 
 /**
  * Runtime context shared with the executor
@@ -43,6 +45,9 @@ const polymarketDecisionSchema = z.object({
   percentage: z.number().min(1).max(100).optional(),
   position_id: z.string().optional(),
   estimated_probability: z.number().min(0).max(100).optional(),
+  limit_price: z.number().min(0.01).max(0.99).optional().describe('Share price for a limit order; omit to take the book'),
+  time_in_force: z.enum(['GTC', 'GTD', 'FOK', 'FAK']).optional().describe('Limit order lifetime (default GTC)'),
+  expires_in_minutes: z.number().positive().optional().describe('GTD expiry, minutes from now'),
   reasoning: z.string().min(10),
   confidence: z.number().min(0).max(1),
 });
@@ -352,6 +357,67 @@ Returns expected value, Kelly bet size, and recommendation.`,
         };
       },
     },
+    {
+      name: 'get_open_orders',
+      description: 'Get your resting limit orders (unfilled or partly filled) with their reserved USD.',
+      inputSchema: z.object({}),
+      handler: async () => {
+        const orders = await getOpenRestingOrders('polymarket');
+        const formatted = orders.map(o => ({
+          id: o.id,
+          condition_id: o.target,
+          outcome: o.metadata.outcome,
+          side: o.side,
+          limit_price: o.limitPrice,
+          shares: o.size.toFixed(2),
+          filled: `${((o.filledSize / o.size) * 100).toFixed(0)}%`,
+          reserved: `$${o.reservedUsd.toFixed(2)}`,
+          time_in_force: o.timeInForce,
+          expires_at: o.expiresAt?.toISOString(),
+          placed_at: o.createdAt.toISOString(),
+        }));
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ count: orders.length, orders: formatted }, null, 2),
+          }],
+        };
+      },
+    },
+    {
+      name: 'cancel_order',
+      description: 'Cancel a resting limit order and release its reserved USD. Fills so far are kept.',
+      inputSchema: z.object({
+        order_id: z.string().describe('The order id from get_open_orders'),
+      }),
+      handler: async (args) => {
+        const { order_id } = args as { order_id: string };
+        const order = (await getOpenRestingOrders('polymarket')).find(o => o.id === order_id || o.orderId === order_id);
+
+        if (!order) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ error: `No open order ${order_id}` }),
+            }],
+          };
+        }
+
+        const cancelled = await cancelRestingOrder(order, 'Cancelled by agent');
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              status: cancelled ? 'cancelled' : 'cancel_failed',
+              order_id: order.id,
+              released_usd: cancelled ? order.reservedUsd : 0,
+            }),
+          }],
+        };
+      },
+    },
+    createSuggestSizeTool('polymarket'),
     {
       name: 'submit_decision',
       description: `Submit your trading decision. You MUST use this tool to finalize your decision.
@@ -376,6 +442,12 @@ For sell/partial_sell:
 - position_id: The position ID from your current "Open Positions" context (use the 'id' field, not 'target')
 - percentage: (for partial_sell) What % to sell
 
+Limit orders (optional, any buy or sell):
+- limit_price: Share price (0.01-0.99). Whatever the book offers at this price or better fills now
+- time_in_force: GTC rests until filled or cancelled (default), GTD until expires_in_minutes,
+  FOK fills completely or not at all, FAK fills what it can and drops the rest
+- Resting buys reserve their USD until filled or cancelled; unfilled orders are cancelled automatically when stale
+
 IMPORTANT: Only sell positions that exist in your current context. Do not attempt to sell positions from previous sessions.`,
       inputSchema: polymarketDecisionSchema,
       handler: async (args) => {
@@ -398,6 +470,13 @@ IMPORTANT: Only sell positions that exist in your current context. Do not attemp
             conditionId: decision.condition_id,
             estimatedProbability: decision.estimated_probability,
             positionId: decision.position_id,
+            limitPrice: decision.limit_price,
+            timeInForce: decision.limit_price !== undefined
+              ? decision.time_in_force ?? (decision.expires_in_minutes ? 'GTD' : 'GTC')
+              : undefined,
+            expiresAt: decision.expires_in_minutes
+              ? new Date(Date.now() + decision.expires_in_minutes * 60_000).toISOString()
+              : undefined,
           },
         };
 
@@ -408,6 +487,7 @@ IMPORTANT: Only sell positions that exist in your current context. Do not attemp
               status: 'decision_recorded',
               action: decision.action,
               confidence: decision.confidence,
+              limit_price: decision.limit_price,
               message: 'Decision submitted. Hooks will validate before execution.',
             }),
           }],
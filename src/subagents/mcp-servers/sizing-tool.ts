@@ -0,0 +1,71 @@
+/**
+ * suggest_size MCP Tool
+ *
+ * Shared by every domain server: proposes a position size from confidence,
+ * probability estimate and realized volatility (see services/position-sizing).
+ * The position-sizing hook applies the same numbers to submitted decisions.
+ */
+
+import { z } from 'zod';
+import type { Domain } from '../../types/index.js';
+import { suggestSize } from '../../services/position-sizing.js';
+
+const suggestSizeSchema = z.object({
+  target: z.string().optional().describe('Pool address, symbol, condition ID or token mint'),
+  confidence: z.number().min(0).max(1),
+  outcome: z.enum(['YES', 'NO']).optional().describe('Polymarket: outcome to buy'),
+  estimated_probability: z.number().min(0).max(100).optional().describe('Polymarket: your YES probability (0-100)'),
+  symbol: z.string().optional().describe('Underlying symbol for volatility (e.g. SOL)'),
+  side: z.enum(['LONG', 'SHORT']).optional(),
+  take_profit_price: z.number().positive().optional(),
+  stop_loss_price: z.number().positive().optional(),
+});
+
+/**
+ * Create the suggest_size tool for a domain
+ */
+export function createSuggestSizeTool(domain: Domain) {
+  return {
+    name: 'suggest_size',
+    description: `Get a recommended position size in USD before submitting a decision.
+Uses fractional Kelly (edge from your confidence, or your probability estimate on Polymarket)
+and/or volatility targeting, capped at 20% of balance.
+Decisions larger than the recommendation are reduced to it by risk hooks.`,
+    inputSchema: suggestSizeSchema as z.ZodType<unknown>,
+    handler: async (args: unknown) => {
+      const input = args as z.infer<typeof suggestSizeSchema>;
+      const outcome = input.outcome ?? 'YES';
+
+      const suggestion = await suggestSize(domain, {
+        target: input.target,
+        confidence: input.confidence,
+        outcome,
+        estimatedProbability: input.estimated_probability !== undefined && outcome === 'NO'
+          ? 100 - input.estimated_probability
+          : input.estimated_probability,
+        symbol: input.symbol,
+        side: input.side,
+        takeProfitPrice: input.take_profit_price,
+        stopLossPrice: input.stop_loss_price,
+      });
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            recommended_usd: Number(suggestion.recommendedUsd.toFixed(2)),
+            max_usd: Number(suggestion.maxUsd.toFixed(2)),
+            mode: suggestion.mode,
+            kelly_fraction: suggestion.kellyFraction !== undefined
+              ? Number(suggestion.kellyFraction.toFixed(4))
+              : undefined,
+            daily_volatility: suggestion.dailyVolatility !== undefined
+              ? `${(suggestion.dailyVolatility * 100).toFixed(2)}%`
+              : undefined,
+            rationale: suggestion.rationale,
+          }, null, 2),
+        }],
+      };
+    },
+  };
+}
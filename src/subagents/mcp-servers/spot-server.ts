@@ -16,6 +16,7 @@ import {
   updateDomainBalance,
 } from '../../db/index.js';
 import type { SpotDecision } from '../../types/index.js';
+import { createSuggestSizeTool } from './sizing-tool.js';
 
 /**
  * Runtime context shared with the executor
@@ -337,6 +338,7 @@ Higher score = more attractive for trading.`,
         };
       },
     },
+    createSuggestSizeTool('spot'),
     {
       name: 'submit_decision',
       description: `Submit your trading decision. You MUST use this tool to finalize your decision.
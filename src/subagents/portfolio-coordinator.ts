@@ -17,6 +17,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import type { Domain, Portfolio } from '../types/index.js';
 import { getPortfolio, getRecentDecisions } from '../db/index.js';
+import { recordLlmUsage } from '../services/llm-usage.js';
 
 // =============================================================================
 // TYPES
@@ -342,6 +343,7 @@ Respond in JSON format only:
       max_tokens: 300,
       messages: [{ role: 'user', content: prompt }],
     });
+    await recordLlmUsage(response.model, response, { purpose: 'coordinator' });
 
     const text = response.content[0].type === 'text' ? response.content[0].text : '{}';
 
@@ -621,7 +623,7 @@ async function fetchBinancePrices(): Promise<{
 /**
  * Fetch Fear & Greed Index from Alternative.me
  */
-async function fetchFearGreedIndex(): Promise<number> {
+export async function fetchFearGreedIndex(): Promise<number> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 5000);
 
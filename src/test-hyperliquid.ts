@@ -33,6 +33,7 @@ async function main() {
   console.log('✅ Simulated LONG ETH $1000');
   console.log('   Fill Price:', sim.fillPrice.toFixed(2));
   console.log('   Order ID:', sim.orderId);
+  console.log('   Fee:', sim.feeUsd.toFixed(4), '| Unfilled:', sim.unfilledUsd.toFixed(2), `(${sim.source})`);
 
   // Test 4: Calculate liquidation
   console.log('\n--- Test 4: Calculate Liquidation Price ---');
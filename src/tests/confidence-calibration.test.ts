@@ -0,0 +1,87 @@
+/**
+ * Confidence Calibration Tests
+ *
+ * Tests the mapping from the agent's self-reported confidence to win rate:
+ * - Isotonic fit pools decreasing win rates into monotone blocks
+ * - Platt fit recovers an overconfident agent's real win rates
+ * - Decisions keep their raw confidence in metadata
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AgentDecision } from '../types/index.js';
+import type { ConfidenceOutcome } from '../types/internal.js';
+import {
+  fitIsotonic,
+  fitPlatt,
+  calibratedConfidence,
+  calibrateDecision,
+  getRawConfidence,
+} from '../services/confidence-calibration.js';
+
+function outcomes(confidence: number, wins: number, losses: number): ConfidenceOutcome[] {
+  return [
+    ...Array.from({ length: wins }, () => ({ confidence, won: true })),
+    ...Array.from({ length: losses }, () => ({ confidence, won: false })),
+  ];
+}
+
+describe('Confidence Calibration', () => {
+  it('should pool adjacent violators into a monotone isotonic fit', () => {
+    const model = fitIsotonic([
+      { confidence: 0.5, won: true },
+      { confidence: 0.6, won: false },
+      { confidence: 0.7, won: true },
+      { confidence: 0.8, won: true },
+    ]);
+
+    expect(model.points).toEqual([
+      { confidence: 0.55, winRate: 0.5 },
+      { confidence: 0.75, winRate: 1 },
+    ]);
+    expect(calibratedConfidence(model, 0.65)).toBeCloseTo(0.75, 6);
+    expect(calibratedConfidence(model, 0.3)).toBe(0.5);
+    expect(calibratedConfidence(model, 0.95)).toBe(1);
+
+    const noisy = fitIsotonic([
+      ...outcomes(0.9, 3, 7),
+      ...outcomes(0.7, 6, 4),
+      ...outcomes(0.5, 2, 8),
+      ...outcomes(0.6, 5, 5),
+    ]);
+    const rates = noisy.points!.map(p => p.winRate);
+    expect(rates).toEqual([...rates].sort((a, b) => a - b));
+  });
+
+  it('should fit a Platt curve to an overconfident agent', () => {
+    // Wins half as often as it claims
+    const model = fitPlatt([...outcomes(0.8, 40, 60), ...outcomes(0.4, 20, 80)]);
+
+    expect(model.slope).toBeGreaterThan(0);
+    expect(calibratedConfidence(model, 0.8)).toBeCloseTo(0.4, 1);
+    expect(calibratedConfidence(model, 0.4)).toBeCloseTo(0.2, 1);
+  });
+
+  it('should rewrite confidence and keep the raw value in metadata', () => {
+    const decision: AgentDecision = {
+      domain: 'spot',
+      action: 'buy',
+      target: 'BONK',
+      amountUsd: 200,
+      reasoning: 'Momentum',
+      confidence: 0.8,
+      metadata: { mint: 'bonk-mint' },
+    };
+    const model = fitIsotonic([...outcomes(0.8, 2, 8), ...outcomes(0.6, 1, 9)]);
+
+    const calibrated = calibrateDecision(decision, model);
+    expect(calibrated.confidence).toBeCloseTo(0.2, 6);
+    expect(calibrated.metadata).toMatchObject({ mint: 'bonk-mint', rawConfidence: 0.8, confidenceCalibration: 'isotonic' });
+    expect(getRawConfidence(calibrated)).toBe(0.8);
+
+    expect(calibrateDecision(decision, null)).toBe(decision);
+    expect(calibrateDecision({ ...decision, action: 'hold' }, model).confidence).toBe(0.8);
+    // Exits keep the agent's confidence
+    expect(calibrateDecision({ ...decision, action: 'sell' }, model)).toEqual({ ...decision, action: 'sell' });
+    expect(getRawConfidence(decision)).toBe(0.8);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Counterfactual Tests
+ *
+ * Tests the evaluation of decisions that were never executed:
+ * - Mapping holds and blocked decisions to the trade they would have made
+ * - Position metadata for valuing the trade through its venue
+ * - P&L and the insight stored on the evaluation
+ * - Calibration notes for the judge feedback prompt
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AgentDecision } from '../types/index.js';
+import type { VenueQuote } from '../venues/types.js';
+import {
+  hypotheticalTrade,
+  counterfactualMetadata,
+  counterfactualPnlPercent,
+  describeCounterfactual,
+} from '../learning/counterfactual.js';
+import { summarizeCounterfactuals } from '../learning/judge-feedback.js';
+
+function decision(overrides: Partial<AgentDecision>): AgentDecision {
+  return {
+    domain: 'perps',
+    action: 'hold',
+    reasoning: 'Waiting for confirmation',
+    confidence: 0.6,
+    ...overrides,
+  };
+}
+
+function quote(overrides: Partial<VenueQuote> = {}): VenueQuote {
+  return {
+    venue: 'hyperliquid',
+    target: 'SOL',
+    side: 'buy',
+    amountUsd: 100,
+    filledUsd: 99.5,
+    price: 150,
+    feeUsd: 0.05,
+    slippageUsd: 0.45,
+    partial: false,
+    ...overrides,
+  };
+}
+
+describe('Counterfactuals', () => {
+  it('should map holds and blocked opens to the trade they would have made', () => {
+    expect(hypotheticalTrade('perps', decision({ target: 'SOL' }))).toMatchObject({ action: 'open_long', amountUsd: 100 });
+    expect(hypotheticalTrade('perps', decision({ target: 'SOL', metadata: { side: 'short' } }))?.action).toBe('open_short');
+    expect(hypotheticalTrade('dlmm', decision({ domain: 'dlmm', target: 'pool' }))?.action).toBe('add_liquidity');
+
+    const blocked = decision({ domain: 'spot', action: 'buy', target: 'mint', amountUsd: 250 });
+    expect(hypotheticalTrade('spot', blocked)).toMatchObject({ action: 'buy', amountUsd: 250 });
+
+    // Polymarket opens name the outcome in the action
+    const buyNo = decision({ domain: 'polymarket', action: 'buy_no', target: 'm1', amountUsd: 40 });
+    expect(hypotheticalTrade('polymarket', buyNo)).toMatchObject({ action: 'buy_no', amountUsd: 40 });
+    expect(hypotheticalTrade('polymarket', decision({ domain: 'polymarket', target: 'm1' }))?.action).toBe('buy_yes');
+    expect(hypotheticalTrade('polymarket', decision({ domain: 'polymarket', target: 'm1', metadata: { outcome: 'NO' } }))?.action).toBe('buy_no');
+
+    // Nothing to open
+    expect(hypotheticalTrade('perps', decision({}))).toBeNull();
+    expect(hypotheticalTrade('perps', decision({ action: 'close_position', target: 'SOL' }))).toBeNull();
+  });
+
+  it('should build position metadata the venue can value', () => {
+    const long = hypotheticalTrade('perps', decision({ target: 'SOL', metadata: { leverage: 3 } }))!;
+    expect(counterfactualMetadata('perps', long, quote())).toMatchObject({
+      venue: 'hyperliquid',
+      side: 'LONG',
+      leverage: 3,
+      entryPrice: 150,
+      size_usd: 99.5,
+    });
+
+    const bet = hypotheticalTrade('polymarket', decision({ domain: 'polymarket', target: 'm1', metadata: { outcome: 'no' } }))!;
+    expect(counterfactualMetadata('polymarket', bet, quote({ venue: 'polymarket', price: 0.25, filledUsd: 50 }))).toMatchObject({
+      outcome: 'NO',
+      fillPrice: 0.25,
+      shares: 200,
+    });
+
+    // Outcome from the action when metadata doesn't carry one
+    const buyNo = hypotheticalTrade('polymarket', decision({ domain: 'polymarket', action: 'buy_no', target: 'm1' }))!;
+    expect(counterfactualMetadata('polymarket', buyNo, quote({ venue: 'polymarket', price: 0.4, filledUsd: 100 }))?.outcome).toBe('NO');
+
+    // No usable price
+    expect(counterfactualMetadata('spot', long, quote({ price: 0 }))).toBeNull();
+  });
+
+  it('should describe whether skipping the trade was right', () => {
+    expect(counterfactualPnlPercent(100, 106)).toBeCloseTo(6, 6);
+    expect(counterfactualPnlPercent(0, 50)).toBe(0);
+
+    expect(describeCounterfactual({ target: 'SOL', reason: 'hold', pnlPercent: 6 }, 24))
+      .toBe('Holding off SOL missed +6.0% over 24h - too conservative');
+    expect(describeCounterfactual({ target: 'SOL', reason: 'hook_blocked', pnlPercent: -4 }, 24))
+      .toBe('Hook block on SOL avoided -4.0% over 24h');
+  });
+
+  it('should summarize counterfactuals per reason for calibration', () => {
+    const notes = summarizeCounterfactuals([
+      { counterfactualReason: 'hold', counterfactualPnlPercent: 5 },
+      { counterfactualReason: 'hold', counterfactualPnlPercent: 3 },
+      { counterfactualReason: 'hold', counterfactualPnlPercent: -2 },
+      { counterfactualReason: 'hook_blocked', counterfactualPnlPercent: -6 },
+      { counterfactualReason: null, counterfactualPnlPercent: null },
+    ]);
+
+    expect(notes).toEqual([
+      'Holds: 2/3 would have profited, avg +2.0% - too conservative',
+      'Hook blocks: 0/1 would have profited, avg -6.0% - saved money',
+    ]);
+  });
+});
@@ -158,6 +158,16 @@ describe('Hyperliquid Client', () => {
       hyperliquidClient.placeOrder('BTC', 'LONG', 1000, 5)
     ).rejects.toThrow('Wallet not initialized');
   });
+
+  it('should validate bracket legs against the entry side', async () => {
+    const { validateBracket } = await import('../clients/hyperliquid/client.js');
+
+    expect(() => validateBracket('LONG', 100, { takeProfitPrice: 110, stopLossPrice: 95 })).not.toThrow();
+    expect(() => validateBracket('SHORT', 100, { takeProfitPrice: 90, stopLossPrice: 105 })).not.toThrow();
+
+    expect(() => validateBracket('LONG', 100, { takeProfitPrice: 95 })).toThrow('Take-profit');
+    expect(() => validateBracket('SHORT', 100, { stopLossPrice: 95 })).toThrow('Stop-loss');
+  });
 });
 
 // =============================================================================
@@ -237,6 +247,148 @@ describe('Position Monitor - Risk Assessment', () => {
     expect(exitCondition!.type).toBe('take_profit');
     expect(exitCondition!.triggerPrice).toBe(110000);
   });
+
+  it('should mirror short bracket legs with inverted directions in one OCO group', async () => {
+    const { positionMonitor, registerBracketExits } = await import('../services/position-monitor.js');
+
+    const ids = registerBracketExits('test-position-4', 'perps', 'SHORT', {
+      takeProfitPrice: 90000,
+      stopLossPrice: 105000,
+      trailingStopPercent: 5,
+      stopLossOrderId: 'hl_42',
+    });
+
+    const exits = positionMonitor.getExitsForPosition('test-position-4');
+    expect(ids).toHaveLength(3);
+
+    const takeProfit = exits.find(e => e.type === 'take_profit')!;
+    const stopLoss = exits.find(e => e.type === 'stop_loss')!;
+    const trailing = exits.find(e => e.type === 'trailing_stop')!;
+
+    expect(takeProfit.triggerPriceDirection).toBe('below');
+    expect(stopLoss.triggerPriceDirection).toBe('above');
+    expect(stopLoss.metadata?.exchangeOrderId).toBe('hl_42');
+    expect(trailing.trailingPercent).toBeCloseTo(0.05, 6);
+    expect(new Set(exits.map(e => e.metadata?.ocoGroup))).toEqual(new Set(['test-position-4']));
+
+    positionMonitor.removeExitsForPosition('test-position-4');
+  });
+
+  it('should rehydrate persisted exit conditions on start', async () => {
+    vi.resetModules();
+    vi.doMock('../data/provider.js', () => ({
+      getOpenPositions: vi.fn().mockResolvedValue([]),
+      closePosition: vi.fn(),
+      createExitCondition: vi.fn().mockResolvedValue(undefined),
+      updateExitCondition: vi.fn().mockResolvedValue(undefined),
+      getActiveExitConditions: vi.fn().mockResolvedValue([{
+        id: 'persisted-1',
+        positionId: 'test-position-5',
+        domain: 'perps',
+        type: 'trailing_stop',
+        trailingPercent: 0.05,
+        triggerPriceDirection: 'below',
+        highWaterMark: 120,
+        status: 'active',
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        metadata: { ocoGroup: 'test-position-5' },
+      }]),
+    }));
+
+    const { PositionMonitor } = await import('../services/position-monitor.js');
+    const monitor = new PositionMonitor();
+
+    expect(await monitor.rehydrate()).toBe(1);
+    const [restored] = monitor.getExitsForPosition('test-position-5');
+    expect(restored.active).toBe(true);
+    expect(restored.highWaterMark).toBe(120);
+
+    vi.doUnmock('../data/provider.js');
+  });
+
+  it('should hand triggered exits to the exit executor at the current value', async () => {
+    vi.resetModules();
+    const closePosition = vi.fn();
+    vi.doMock('../data/provider.js', () => ({
+      getOpenPositions: vi.fn(async (domain: string) => domain === 'spot'
+        ? [{ id: 'test-position-6', domain: 'spot', target: 'SOL', entryValueUsd: 100, currentValueUsd: 112, status: 'open', openedAt: '2025-01-01T00:00:00.000Z', metadata: {} }]
+        : []),
+      closePosition,
+      createExitCondition: vi.fn().mockResolvedValue(undefined),
+      updateExitCondition: vi.fn().mockResolvedValue(undefined),
+      getActiveExitConditions: vi.fn().mockResolvedValue([]),
+    }));
+    vi.doMock('../clients/hyperliquid/client.js', () => ({
+      hyperliquidClient: { getAllMids: vi.fn().mockResolvedValue({}) },
+    }));
+
+    const { PositionMonitor } = await import('../services/position-monitor.js');
+    const monitor = new PositionMonitor();
+    const executor = vi.fn().mockResolvedValue(undefined);
+    monitor.setExitExecutor(executor);
+
+    monitor.registerExit({
+      positionId: 'test-position-6',
+      domain: 'spot',
+      type: 'time_based',
+      triggerTime: new Date('2025-01-02T00:00:00.000Z'),
+    });
+
+    const [exit] = await monitor.checkAllExits();
+    expect(exit.success).toBe(true);
+    expect(executor).toHaveBeenCalledWith(expect.objectContaining({ positionId: 'test-position-6' }), 112, exit.reason);
+    // The executor owns the close; the monitor doesn't just flip the record
+    expect(closePosition).not.toHaveBeenCalled();
+
+    vi.doUnmock('../data/provider.js');
+    vi.doUnmock('../clients/hyperliquid/client.js');
+  });
+
+  it('should leave DLMM exits to the interval check on price ticks', async () => {
+    vi.resetModules();
+    const getOpenPositions = vi.fn(async (domain: string) => domain === 'dlmm'
+      ? [{ id: 'test-position-7', domain: 'dlmm', target: 'pool-1', entryValueUsd: 100, currentValueUsd: 90, status: 'open', openedAt: '2025-01-01T00:00:00.000Z', metadata: {} }]
+      : []);
+    const getPool = vi.fn().mockResolvedValue(null);
+    vi.doMock('../data/provider.js', () => ({
+      getOpenPositions,
+      closePosition: vi.fn(),
+      createExitCondition: vi.fn().mockResolvedValue(undefined),
+      updateExitCondition: vi.fn().mockResolvedValue(undefined),
+      getActiveExitConditions: vi.fn().mockResolvedValue([]),
+    }));
+    vi.doMock('../clients/hyperliquid/client.js', () => ({
+      hyperliquidClient: { getAllMids: vi.fn().mockResolvedValue({}) },
+    }));
+    vi.doMock('../clients/meteora/client.js', () => ({
+      meteoraClient: { getPool, calculateApr: vi.fn().mockReturnValue(0) },
+    }));
+
+    const { PositionMonitor } = await import('../services/position-monitor.js');
+    const monitor = new PositionMonitor();
+    const executor = vi.fn().mockResolvedValue(undefined);
+    monitor.setExitExecutor(executor);
+
+    monitor.registerExit({
+      positionId: 'test-position-7',
+      domain: 'dlmm',
+      type: 'time_based',
+      triggerTime: new Date('2025-01-02T00:00:00.000Z'),
+    });
+
+    expect(await monitor.checkAllExits({ streamedOnly: true })).toEqual([]);
+    expect(getOpenPositions).not.toHaveBeenCalledWith('dlmm');
+    expect(getPool).not.toHaveBeenCalled();
+    expect(monitor.getActiveExits()).toHaveLength(1);
+
+    // The regular check still covers it
+    expect(await monitor.checkAllExits()).toHaveLength(1);
+    expect(executor).toHaveBeenCalledTimes(1);
+
+    vi.doUnmock('../data/provider.js');
+    vi.doUnmock('../clients/hyperliquid/client.js');
+    vi.doUnmock('../clients/meteora/client.js');
+  });
 });
 
 // =============================================================================
@@ -21,6 +21,10 @@ import {
   closePosition,
   logDecision,
   resetTestData,
+  createExitCondition,
+  updateExitCondition,
+  getActiveExitConditions,
+  getExitConditionHistory,
 } from '../data/provider.js';
 
 describe('Database Layer Tests', () => {
@@ -505,6 +509,48 @@ describe('Database Layer Tests', () => {
     });
   });
 
+  describe('Exit Condition Persistence', () => {
+    it('should keep active conditions and trigger history', async () => {
+      const positionId = await createPosition('perps', {
+        target: 'TEST_SOL',
+        entryValueUsd: 500,
+        metadata: {},
+      });
+
+      await createExitCondition({
+        id: crypto.randomUUID(),
+        positionId,
+        domain: 'perps',
+        type: 'stop_loss',
+        triggerPrice: 90,
+        triggerPriceDirection: 'below',
+        status: 'active',
+        createdAt: new Date(),
+        metadata: { ocoGroup: positionId },
+      });
+
+      const active = await getActiveExitConditions();
+      const stop = active.find(c => c.positionId === positionId);
+      expect(stop?.triggerPrice).toBe(90);
+      expect(stop?.metadata?.ocoGroup).toBe(positionId);
+
+      await updateExitCondition(stop!.id, {
+        status: 'triggered',
+        triggerReason: 'Stop loss triggered at $89',
+        executionPrice: 89,
+        triggeredAt: new Date(),
+      });
+
+      const stillActive = await getActiveExitConditions();
+      expect(stillActive.some(c => c.id === stop!.id)).toBe(false);
+
+      const history = await getExitConditionHistory({ positionId });
+      expect(history).toHaveLength(1);
+      expect(history[0].status).toBe('triggered');
+      expect(history[0].executionPrice).toBe(89);
+    });
+  });
+
   describe('Transaction Integrity', () => {
     it('should rollback on error', async () => {
       const domain: Domain = 'spot';
@@ -0,0 +1,137 @@
+/**
+ * DLMM Accounting Tests
+ *
+ * Tests fee and impermanent loss accounting for DLMM positions:
+ * - Strategy weights sum to the whole deposit
+ * - Liquidity matches HODL at entry and falls behind it as the price moves
+ * - Fees accrue with time only while the active bin is in range
+ * - The P&L split recorded on a position
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Position } from '../types/index.js';
+import type { MeteoraPool } from '../clients/meteora/client.js';
+import {
+  binWeights,
+  dlmmValueRatios,
+  estimateDailyFeesUsd,
+  accountDlmmPosition,
+  dlmmPnlBreakdown,
+} from '../services/dlmm-accounting.js';
+
+function pool(overrides: Partial<MeteoraPool> = {}): MeteoraPool {
+  return {
+    address: 'pool-1',
+    name: 'SOL-USDC',
+    mint_x: 'sol',
+    mint_y: 'usdc',
+    reserve_x: '0',
+    reserve_y: '0',
+    reserve_x_amount: 0,
+    reserve_y_amount: 0,
+    bin_step: 20,
+    base_fee_percentage: '0.2',
+    max_fee_percentage: '2',
+    protocol_fee_percentage: '5',
+    liquidity: '1000000',
+    reward_mint_x: '',
+    reward_mint_y: '',
+    fees_24h: 2000,
+    today_fees: 2000,
+    trade_volume_24h: 1_000_000,
+    cumulative_trade_volume: '0',
+    cumulative_fee_volume: '0',
+    current_price: 100,
+    apr: 0,
+    apy: 0,
+    farm_apr: 0,
+    farm_apy: 0,
+    hide: false,
+    ...overrides,
+  };
+}
+
+function position(metadata: Record<string, unknown> = {}): Position {
+  return {
+    id: 'pos-1',
+    domain: 'dlmm',
+    target: 'pool-1',
+    entryValueUsd: 1000,
+    currentValueUsd: 1000,
+    status: 'open',
+    openedAt: '2025-06-01T00:00:00Z',
+    metadata: { strategy: 'spot', ...metadata },
+  };
+}
+
+describe('DLMM Accounting', () => {
+  it('should spread the deposit across bins by strategy', () => {
+    for (const strategy of ['spot', 'curve', 'bid-ask'] as const) {
+      const weights = binWeights(strategy, 10);
+      expect(weights).toHaveLength(21);
+      expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+    }
+
+    const curve = binWeights('curve', 10);
+    const bidAsk = binWeights('bid-ask', 10);
+    expect(curve[10]).toBeGreaterThan(curve[0]);
+    expect(bidAsk[0]).toBeGreaterThan(bidAsk[10]);
+  });
+
+  it('should match HODL at entry and lose to it either way', () => {
+    const atEntry = dlmmValueRatios(1, 20);
+    expect(atEntry.lp).toBeCloseTo(1, 10);
+    expect(atEntry.hodl).toBeCloseTo(1, 10);
+    expect(atEntry.inRange).toBe(true);
+
+    for (const ratio of [0.8, 0.95, 1.05, 1.2]) {
+      const { lp, hodl } = dlmmValueRatios(ratio, 20);
+      expect(hodl).toBeGreaterThan(lp);
+    }
+  });
+
+  it('should go out of range past the outer bins', () => {
+    // 34 bins of 20bps either side cover roughly +/-7%
+    expect(dlmmValueRatios(1.06, 20).inRange).toBe(true);
+    expect(dlmmValueRatios(1.1, 20).inRange).toBe(false);
+    expect(dlmmValueRatios(0.9, 20).inRange).toBe(false);
+
+    // Above the range the position is all quote token and stops gaining
+    expect(dlmmValueRatios(1.2, 20).lp).toBeCloseTo(dlmmValueRatios(1.5, 20).lp, 10);
+  });
+
+  it('should earn fees on its share of volume only while in range', () => {
+    const params = { volume24hUsd: 1_000_000, feeRate: 0.002, positionValueUsd: 10_000, poolTvlUsd: 1_000_000 };
+    expect(estimateDailyFeesUsd({ ...params, inRange: true })).toBeCloseTo(20, 10);
+    expect(estimateDailyFeesUsd({ ...params, inRange: false })).toBe(0);
+    expect(estimateDailyFeesUsd({ ...params, poolTvlUsd: 0, inRange: true })).toBe(0);
+  });
+
+  it('should accrue fees since the last sync', () => {
+    const now = new Date('2025-06-02T00:00:00Z');
+    const first = accountDlmmPosition(position(), pool(), now)!;
+
+    // One day in range at entry: 1,000,000 * 0.2% * (1000 / 1,000,000)
+    expect(first.feesAccruedUsd).toBeCloseTo(2, 6);
+    expect(first.impermanentLossUsd).toBeCloseTo(0, 6);
+    expect(first.currentValueUsd).toBeCloseTo(1002, 6);
+    expect(first.metadata.entryPoolPrice).toBe(100);
+
+    // Half a day later, out of range: IL but no new fees
+    const later = new Date('2025-06-02T12:00:00Z');
+    const second = accountDlmmPosition(position(first.metadata), pool({ current_price: 80 }), later)!;
+    expect(second.inRange).toBe(false);
+    expect(second.feesAccruedUsd).toBe(0);
+    expect(second.feesEarnedUsd).toBeCloseTo(2, 6);
+    expect(second.impermanentLossUsd).toBeGreaterThan(0);
+    expect(second.pricePnlUsd).toBeLessThan(0);
+    expect(second.currentValueUsd).toBeCloseTo(second.lpValueUsd + 2, 6);
+  });
+
+  it('should read the P&L split from position metadata', () => {
+    expect(dlmmPnlBreakdown({ feesEarned: 12, impermanentLossUsd: 5, pricePnlUsd: -30, inRange: true }))
+      .toEqual({ feesUsd: 12, impermanentLossUsd: 5, pricePnlUsd: -30, rebalanceCostsUsd: 0, netLpUsd: 7, inRange: true });
+    expect(dlmmPnlBreakdown({}))
+      .toEqual({ feesUsd: 0, impermanentLossUsd: 0, pricePnlUsd: 0, rebalanceCostsUsd: 0, netLpUsd: 0, inRange: undefined });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * DLMM Range Monitor Tests
+ *
+ * Tests out-of-range detection and rebalancing rules:
+ * - Active bin offset from the entry price
+ * - Range status from synced position metadata
+ * - The live active bin against the position's bins, when it was read
+ * - Rebalancing waits, and only when fees outweigh gas and swap costs
+ * - A rebalance starts a new range without losing the P&L split
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { Position } from '../types/index.js';
+import type { MeteoraPool } from '../clients/meteora/client.js';
+import {
+  activeBinOffset,
+  dlmmRangeStatus,
+  evaluateRebalance,
+  getDlmmRebalanceRules,
+  rebalanceDecision,
+} from '../services/dlmm-range-monitor.js';
+import { accountDlmmPosition, recenterDlmmMetadata } from '../services/dlmm-accounting.js';
+
+const rules = { autoRebalance: true, waitMinutes: 30, gasUsd: 0.5, paybackHours: 24 };
+
+const pool = {
+  trade_volume_24h: 1_000_000,
+  liquidity: '1000000',
+  base_fee_percentage: '0.2',
+  bin_step: 20,
+};
+
+function position(metadata: Record<string, unknown>, currentValueUsd = 1000): Position {
+  return {
+    id: 'pos-1',
+    domain: 'dlmm',
+    target: 'pool-1',
+    entryValueUsd: 1000,
+    currentValueUsd,
+    status: 'open',
+    openedAt: '2025-06-01T00:00:00Z',
+    metadata: { strategy: 'curve', entryPoolPrice: 100, binStep: 20, binsEachSide: 34, ...metadata },
+  };
+}
+
+describe('DLMM Range Monitor', () => {
+  afterEach(() => {
+    delete process.env.DLMM_REBALANCE_WAIT_MINUTES;
+    delete process.env.DLMM_AUTO_REBALANCE;
+  });
+
+  it('should count bins between the entry and current price', () => {
+    expect(activeBinOffset(100, 100, 20)).toBe(0);
+    expect(activeBinOffset(100 * Math.pow(1.002, 10), 100, 20)).toBe(10);
+    expect(activeBinOffset(100 / Math.pow(1.002, 40), 100, 20)).toBe(-40);
+    expect(activeBinOffset(0, 100, 20)).toBe(0);
+  });
+
+  it('should flag positions whose active bin left the range', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    expect(dlmmRangeStatus(position({ poolPrice: 103 }), now)).toMatchObject({ inRange: true, outOfRangeMinutes: 0 });
+
+    const above = dlmmRangeStatus(position({ poolPrice: 110, outOfRangeSince: '2025-06-01T11:15:00Z' }), now);
+    expect(above).toMatchObject({ inRange: false, direction: 'above', outOfRangeMinutes: 45 });
+    expect(above!.activeBinOffset).toBeGreaterThan(34);
+
+    expect(dlmmRangeStatus(position({ poolPrice: 90 }), now)?.direction).toBe('below');
+
+    // Not synced yet
+    expect(dlmmRangeStatus(position({ poolPrice: undefined }), now)).toBeNull();
+  });
+
+  it('should check the live active bin against the bins a position covers', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    // The price says in range, the pool's active bin has moved past the top
+    const onChain = position({ poolPrice: 101, minBinId: 966, maxBinId: 1034, poolActiveBinId: 1040 });
+    expect(dlmmRangeStatus(onChain, now)).toMatchObject({ inRange: false, direction: 'above', activeBinOffset: 40, binsEachSide: 34 });
+
+    // Paper positions span binsEachSide around the deposit's active bin
+    const paper = position({ poolPrice: 120, entryActiveBinId: 500, binsEachSide: 10, poolActiveBinId: 495 });
+    expect(dlmmRangeStatus(paper, now)).toMatchObject({ inRange: true, activeBinOffset: -5, binsEachSide: 10 });
+
+    // No live bin: estimated from the price
+    expect(dlmmRangeStatus(position({ poolPrice: 101, entryActiveBinId: 500 }), now)).toMatchObject({ inRange: true, activeBinOffset: 5 });
+  });
+
+  it('should only accrue fees while the live active bin is in range', () => {
+    const meteoraPool = { ...pool, current_price: 100 } as MeteoraPool;
+    const now = new Date('2025-06-02T00:00:00Z');
+    const held = position({ minBinId: 966, maxBinId: 1034 });
+
+    const out = accountDlmmPosition(held, meteoraPool, now, 1040)!;
+    expect(out).toMatchObject({ inRange: false, feesAccruedUsd: 0 });
+    expect(out.metadata).toMatchObject({ poolActiveBinId: 1040, outOfRangeSince: now.toISOString() });
+
+    const inside = accountDlmmPosition(held, meteoraPool, now, 1000)!;
+    expect(inside.inRange).toBe(true);
+    expect(inside.feesAccruedUsd).toBeGreaterThan(0);
+
+    // Without the live bin the price decides
+    expect(accountDlmmPosition(held, meteoraPool, now)!.metadata.poolActiveBinId).toBeUndefined();
+  });
+
+  it('should wait before rebalancing and require fees to cover costs', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const fresh = position({ poolPrice: 110, outOfRangeSince: '2025-06-01T11:50:00Z' });
+    const stale = position({ poolPrice: 110, outOfRangeSince: '2025-06-01T10:00:00Z' });
+
+    expect(evaluateRebalance(fresh, dlmmRangeStatus(fresh, now)!, pool, rules).rebalance).toBe(false);
+
+    // $1000 of a $1M pool earns $2/day on $1M volume at 0.2%; costs are $0.50 gas + $1 swap fee
+    const check = evaluateRebalance(stale, dlmmRangeStatus(stale, now)!, pool, rules);
+    expect(check).toMatchObject({ rebalance: true });
+    expect(check.expectedFeesUsd).toBeCloseTo(2, 6);
+    expect(check.costUsd).toBeCloseTo(1.5, 6);
+
+    const quiet = evaluateRebalance(stale, dlmmRangeStatus(stale, now)!, { ...pool, trade_volume_24h: 100_000 }, rules);
+    expect(quiet.rebalance).toBe(false);
+    expect(quiet.reason).toMatch(/don't cover costs/);
+
+    const inRange = position({ poolPrice: 100 });
+    expect(evaluateRebalance(inRange, dlmmRangeStatus(inRange, now)!, pool, rules).reason).toBe('In range');
+  });
+
+  it('should read rules from the environment', () => {
+    process.env.DLMM_REBALANCE_WAIT_MINUTES = '90';
+    process.env.DLMM_AUTO_REBALANCE = 'false';
+    expect(getDlmmRebalanceRules()).toMatchObject({ autoRebalance: false, waitMinutes: 90, gasUsd: 0.5 });
+  });
+
+  it('should build a rebalance for the whole position on the side it left', () => {
+    const decision = rebalanceDecision(position({ poolPrice: 90, venue: 'meteora', positionAddress: 'onchain-1' }, 950), 'Out of range');
+
+    expect(decision).toMatchObject({
+      domain: 'dlmm',
+      action: 'rebalance',
+      target: 'pos-1',
+      amountUsd: 950,
+      metadata: {
+        positionId: 'pos-1',
+        poolAddress: 'pool-1',
+        positionAddress: 'onchain-1',
+        strategy: 'curve',
+        rangeDirection: 'below',
+        venue: 'meteora',
+      },
+    });
+  });
+
+  it('should keep the P&L split across a rebalance', () => {
+    const meteoraPool = { ...pool, current_price: 110 } as MeteoraPool;
+    const now = new Date('2025-06-01T00:00:00Z');
+
+    const before = accountDlmmPosition(position({}), meteoraPool, now)!;
+    const costs = 1.5;
+    const metadata = recenterDlmmMetadata(before, before.currentValueUsd - costs, costs, now);
+    expect(metadata).toMatchObject({ entryPoolPrice: 110, inRange: true, rebalanceCount: 1, rebalanceCostsUsd: 1.5 });
+
+    // Re-marked at the new entry, the position is worth what went back in
+    const after = accountDlmmPosition(position(metadata), meteoraPool, now)!;
+    expect(after.currentValueUsd).toBeCloseTo(before.currentValueUsd - costs, 6);
+
+    // Price P&L + fees - IL - rebalance costs still explains the whole P&L
+    const pnl = after.currentValueUsd - 1000;
+    expect(after.pricePnlUsd + after.feesEarnedUsd - after.impermanentLossUsd - costs).toBeCloseTo(pnl, 6);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Experiment Tests
+ *
+ * Tests the A/B framework for skills and prompts:
+ * - Deterministic arm assignment at the configured treatment share
+ * - Withholding and injecting the skill under test
+ * - Confidence intervals for per-arm rates and lift
+ * - Experiment reports from logged decisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ExperimentDecision, ExperimentRecord } from '../types/internal.js';
+import type { QualifiedSkill } from '../skills/types.js';
+import {
+  assignArm,
+  applySkillArm,
+  experimentPrompt,
+  summarizeExperiment,
+  wilsonInterval,
+  rateDifference,
+  meanDifference,
+} from '../experiments/index.js';
+import { registerPromptVariant } from '../prompts/index.js';
+
+const experiment: ExperimentRecord = {
+  id: 'exp-1',
+  name: 'low-tvl-warning',
+  kind: 'skill',
+  domain: 'dlmm',
+  unit: 'decision',
+  treatmentShare: 0.5,
+  skillName: 'warning-dlmm-1',
+  status: 'running',
+  createdAt: new Date('2026-01-01'),
+};
+
+function skill(name: string): QualifiedSkill {
+  return {
+    name,
+    domain: 'dlmm',
+    content: `# ${name}`,
+    relevanceScore: 0.8,
+    provenEffective: true,
+    timesApplied: 5,
+    successRate: 0.6,
+    sourceType: 'warning',
+  };
+}
+
+function decisions(arm: ExperimentDecision['arm'], wins: number, losses: number, holds = 0): ExperimentDecision[] {
+  return [
+    ...Array.from({ length: wins }, () => ({ domain: 'dlmm' as const, arm, action: 'add_liquidity', outcome: 'profit' as const, pnlPercent: 5 })),
+    ...Array.from({ length: losses }, () => ({ domain: 'dlmm' as const, arm, action: 'add_liquidity', outcome: 'loss' as const, pnlPercent: -4 })),
+    ...Array.from({ length: holds }, () => ({ domain: 'dlmm' as const, arm, action: 'hold' })),
+  ];
+}
+
+describe('Experiments', () => {
+  it('should assign arms deterministically at the treatment share', () => {
+    expect(assignArm('exp-1', 'dlmm-123', 0.5)).toBe(assignArm('exp-1', 'dlmm-123', 0.5));
+
+    const arms = Array.from({ length: 2000 }, (_, i) => assignArm('exp-1', `unit-${i}`, 0.3));
+    const share = arms.filter(a => a === 'treatment').length / arms.length;
+    expect(share).toBeGreaterThan(0.25);
+    expect(share).toBeLessThan(0.35);
+  });
+
+  it('should withhold the skill in control and inject it in treatment', async () => {
+    const recommended = [skill('warning-dlmm-1'), skill('pattern-dlmm-2')];
+
+    const control = await applySkillArm({ experiment, arm: 'control' }, 'dlmm', recommended);
+    expect(control.map(s => s.name)).toEqual(['pattern-dlmm-2']);
+
+    const treatment = await applySkillArm({ experiment, arm: 'treatment' }, 'dlmm', recommended);
+    expect(treatment.map(s => s.name)).toEqual(['warning-dlmm-1', 'pattern-dlmm-2']);
+
+    expect(await applySkillArm(null, 'dlmm', recommended)).toBe(recommended);
+  });
+
+  it('should swap in the prompt variant for the assigned arm', () => {
+    registerPromptVariant('test-terse', domain => `Terse ${domain} prompt`);
+    const promptExperiment: ExperimentRecord = { ...experiment, kind: 'prompt', skillName: undefined, treatmentPrompt: 'test-terse' };
+
+    expect(experimentPrompt({ experiment: promptExperiment, arm: 'treatment' }, 'perps')).toBe('Terse perps prompt');
+    expect(experimentPrompt({ experiment: promptExperiment, arm: 'control' }, 'perps')).toBeUndefined();
+    expect(experimentPrompt({ experiment, arm: 'treatment' }, 'perps')).toBeUndefined();
+  });
+
+  it('should compute confidence intervals for rates and lift', () => {
+    const rate = wilsonInterval(7, 10);
+    expect(rate.estimate).toBeCloseTo(0.7, 6);
+    expect(rate.low).toBeCloseTo(0.3968, 3);
+    expect(rate.high).toBeCloseTo(0.8922, 3);
+
+    // Newcombe's worked example: 56/70 vs 48/80 -> 0.2 [0.0524, 0.3339]
+    const lift = rateDifference({ successes: 56, total: 70 }, { successes: 48, total: 80 });
+    expect(lift.estimate).toBeCloseTo(0.2, 6);
+    expect(lift.low).toBeCloseTo(0.0524, 3);
+    expect(lift.high).toBeCloseTo(0.3339, 3);
+
+    const pnl = meanDifference([4, 6, 5, 5], [1, 2, 0, 1]);
+    expect(pnl.estimate).toBeCloseTo(4, 6);
+    expect(pnl.low).toBeGreaterThan(0);
+  });
+
+  it('should report lift and significance from logged decisions', () => {
+    const report = summarizeExperiment(experiment, [
+      ...decisions('control', 8, 12, 5),
+      ...decisions('treatment', 17, 3, 2),
+    ]);
+
+    expect(report.control.decisions).toBe(25);
+    expect(report.control.closed).toBe(20);
+    expect(report.treatment.wins).toBe(17);
+    expect(report.lift.winRate.estimate).toBeCloseTo(0.45, 6);
+    expect(report.lift.winRate.low).toBeGreaterThan(0);
+    expect(report.significant).toBe(true);
+    expect(report.enoughData).toBe(true);
+
+    const early = summarizeExperiment(experiment, [...decisions('control', 2, 1), ...decisions('treatment', 3, 0)]);
+    expect(early.enoughData).toBe(false);
+    expect(early.significant).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Hook Audit Tests
+ *
+ * Tests the hook audit log:
+ * - Every execution reaches the sink with the decision and any modification
+ * - A failing sink doesn't affect the hook result
+ * - Audit lines for blocked, resized and passed executions
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AgentDecision } from '../types/index.js';
+import type { HookExecutionSummary } from '../hooks/types.js';
+import type { HookExecutionRecord } from '../types/internal.js';
+import { hookRegistry } from '../hooks/registry.js';
+import { describeHookExecution } from '../hooks/audit.js';
+
+const decision: AgentDecision = {
+  domain: 'perps',
+  action: 'open_long',
+  target: 'ETH',
+  amountUsd: 500,
+  reasoning: 'Breakout',
+  confidence: 0.7,
+  metadata: { decisionId: 'perps-123' },
+};
+
+function record(overrides: Partial<HookExecutionRecord>): HookExecutionRecord {
+  return {
+    id: 'exec-1',
+    hookName: 'position-sizing',
+    event: 'PreDecision',
+    domain: 'perps',
+    proceeded: true,
+    action: 'open_long',
+    target: 'ETH',
+    durationMs: 3,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Hook Audit', () => {
+  afterEach(() => {
+    hookRegistry.setExecutionSink(null);
+    hookRegistry.unregister('test-halve');
+    hookRegistry.unregister('test-block');
+  });
+
+  it('should send every execution to the sink', async () => {
+    const recorded: HookExecutionSummary[] = [];
+    hookRegistry.setExecutionSink(async summary => {
+      recorded.push(summary);
+    });
+
+    hookRegistry.register({
+      name: 'test-halve',
+      event: 'PreDecision',
+      priority: 1,
+      enabled: true,
+      hook: async (ctx) => ({ proceed: true, modifiedInput: { ...ctx.decision!, amountUsd: 250 } }),
+    });
+    hookRegistry.register({
+      name: 'test-block',
+      event: 'PreDecision',
+      priority: 2,
+      enabled: true,
+      hook: async () => ({ proceed: false, reason: 'Too much leverage' }),
+    });
+
+    const result = await hookRegistry.run('PreDecision', { domain: 'perps', decision, sessionId: 's-1', timestamp: new Date() });
+    expect(result.proceed).toBe(false);
+
+    expect(recorded.map(r => [r.hookName, r.proceeded])).toEqual([['test-halve', true], ['test-block', false]]);
+    expect(recorded[0]).toMatchObject({ action: 'open_long', target: 'ETH', decisionId: 'perps-123', sessionId: 's-1' });
+    expect((recorded[0].modifiedInput as AgentDecision).amountUsd).toBe(250);
+    expect(recorded[1]).toMatchObject({ reason: 'Too much leverage', modifiedInput: undefined });
+  });
+
+  it('should not let a failing sink affect hooks', async () => {
+    hookRegistry.setExecutionSink(async () => {
+      throw new Error('database unavailable');
+    });
+    hookRegistry.register({
+      name: 'test-halve',
+      event: 'PreDecision',
+      priority: 1,
+      enabled: true,
+      hook: async (ctx) => ({ proceed: true, modifiedInput: { ...ctx.decision!, amountUsd: 250 } }),
+    });
+
+    const result = await hookRegistry.run('PreDecision', { domain: 'perps', decision, timestamp: new Date() });
+    expect(result.proceed).toBe(true);
+    expect((result.modifiedInput as AgentDecision).amountUsd).toBe(250);
+  });
+
+  it('should describe blocked, resized and passed executions', () => {
+    expect(describeHookExecution(record({ proceeded: false, reason: 'Max 3 positions' })))
+      .toBe('BLOCKED open_long ETH - Max 3 positions');
+    expect(describeHookExecution(record({ modifiedInput: { ...decision, amountUsd: 120 }, reason: 'Kelly cap' })))
+      .toBe('MODIFIED open_long ETH - amountUsd → $120.00');
+    expect(describeHookExecution(record({ action: undefined, target: undefined })))
+      .toBe('ok');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Hook Config Tests
+ *
+ * Tests hooks.yaml parsing and application:
+ * - Conditions parse into field / operator / value
+ * - Invalid configs are rejected with the offending key
+ * - Parameters resolve domain override > hook value > env > default
+ * - Rules block or resize matching decisions
+ * - Applying a config toggles hooks and replaces rule hooks
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { AgentDecision } from '../types/index.js';
+import { hookRegistry } from '../hooks/registry.js';
+import { parseHookConfig, applyHookConfig, hookParam } from '../hooks/config.js';
+import { parseCondition, decisionFacts, evaluateRule, type HookRule } from '../hooks/rules.js';
+
+const perpsLong: AgentDecision = {
+  domain: 'perps',
+  action: 'open_long',
+  target: 'ETH',
+  amountUsd: 400,
+  reasoning: 'Breakout',
+  confidence: 0.7,
+  metadata: { leverage: '10x' },
+};
+
+describe('Hook Config', () => {
+  beforeEach(() => {
+    applyHookConfig({ hooks: {}, rules: [] });
+    hookRegistry.clear();
+  });
+
+  it('should parse conditions', () => {
+    expect(parseCondition('leverage > 5')).toEqual({ field: 'leverage', op: '>', value: 5 });
+    expect(parseCondition('metadata.side == "long"')).toEqual({ field: 'metadata.side', op: '==', value: 'long' });
+    expect(parseCondition('fearGreed<=20')).toEqual({ field: 'fearGreed', op: '<=', value: 20 });
+    expect(() => parseCondition('leverage is high')).toThrow(/Invalid condition/);
+  });
+
+  it('should reject invalid configs', () => {
+    expect(() => parseHookConfig({ hooks: { 'position-limit': { enabled: 'no' } } })).toThrow(/enabled/);
+    expect(() => parseHookConfig({ hooks: { 'position-limit': { domains: { forex: { maxPositions: 2 } } } } })).toThrow(/forex/);
+    expect(() => parseHookConfig({ rules: [{ name: 'x', when: 'leverage > 5', action: 'panic' }] })).toThrow(/action/);
+    expect(() => parseHookConfig({ rules: [{ name: 'x', when: 'a > 1' }, { name: 'x', when: 'b > 1' }] })).toThrow(/Duplicate/);
+    expect(parseHookConfig(null)).toEqual({ hooks: {}, rules: [] });
+  });
+
+  it('should resolve parameters by domain, hook, env and default', () => {
+    applyHookConfig(parseHookConfig({
+      hooks: { 'position-limit': { maxPositions: 4, domains: { polymarket: { maxPositions: 6 } } } },
+    }));
+
+    expect(hookParam('position-limit', 'maxPositions', 'polymarket', 3)).toBe(6);
+    expect(hookParam('position-limit', 'maxPositions', 'perps', 3)).toBe(4);
+
+    process.env.HOOK_CONFIG_TEST_THRESHOLD = '0.8';
+    try {
+      expect(hookParam('confidence-threshold', 'threshold', 'perps', 0.6, 'HOOK_CONFIG_TEST_THRESHOLD')).toBe(0.8);
+    } finally {
+      delete process.env.HOOK_CONFIG_TEST_THRESHOLD;
+    }
+    expect(hookParam('confidence-threshold', 'threshold', 'perps', 0.6, 'HOOK_CONFIG_TEST_THRESHOLD')).toBe(0.6);
+  });
+
+  it('should block or scale decisions that match a rule', () => {
+    const [block, scale] = parseHookConfig({
+      rules: [
+        { name: 'no-leverage-in-fear', when: ['leverage > 5', 'fearGreed < 20'] },
+        { name: 'halve-big-longs', when: ['action == open_long', 'amountUsd > 300'], action: 'scale', scale: 0.5 },
+      ],
+    }).rules as HookRule[];
+
+    const facts = decisionFacts('perps', perpsLong);
+    expect(facts.leverage).toBe(10);
+
+    expect(evaluateRule(block, perpsLong, { ...facts, fearGreed: 15 })?.proceed).toBe(false);
+    expect(evaluateRule(block, perpsLong, { ...facts, fearGreed: 50 })).toBeNull();
+    // Unknown market facts never match
+    expect(evaluateRule(block, perpsLong, facts)).toBeNull();
+
+    const scaled = evaluateRule(scale, perpsLong, facts);
+    expect(scaled?.proceed).toBe(true);
+    expect((scaled?.modifiedInput as AgentDecision).amountUsd).toBe(200);
+  });
+
+  it('should toggle hooks and replace rule hooks when applied', () => {
+    hookRegistry.register({
+      name: 'dummy',
+      event: 'PreDecision',
+      priority: 10,
+      enabled: true,
+      hook: async () => ({ proceed: true }),
+    });
+
+    applyHookConfig(parseHookConfig({
+      hooks: { dummy: { enabled: false } },
+      rules: [{ name: 'no-leverage', domains: ['perps'], when: 'leverage > 5' }],
+    }));
+    expect(hookRegistry.getHooks().find(h => h.name === 'dummy')?.enabled).toBe(false);
+    expect(hookRegistry.getHooks().find(h => h.name === 'rule:no-leverage')).toMatchObject({ priority: 9, domains: ['perps'] });
+
+    applyHookConfig({ hooks: {}, rules: [] });
+    expect(hookRegistry.getHooks().map(h => [h.name, h.enabled])).toEqual([['dummy', true]]);
+  });
+});
@@ -5,9 +5,15 @@
  * - resilient-fetch: Retry logic, exponential backoff, timeout handling
  * - rate-limiter: Cooldown calculation, state transitions, quota management
  * - model-executor: Fallback chains, model availability, error handling
+ * - market-archive: Record/replay of market data responses
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MarketArchive, parseDataSource, setDataSource } from '../infra/market-archive.js';
+import { resilientFetch, ResilientFetchError } from '../infra/resilient-fetch.js';
 
 describe('Resilient Fetch', () => {
   describe('Retry Logic', () => {
@@ -493,6 +499,71 @@ describe('Model Executor', () => {
   });
 });
 
+describe('Market Archive', () => {
+  let archiveDir: string;
+
+  beforeEach(async () => {
+    archiveDir = await mkdtemp(path.join(os.tmpdir(), 'claudefi-archive-'));
+  });
+
+  afterEach(async () => {
+    setDataSource('live');
+    await rm(archiveDir, { recursive: true, force: true });
+  });
+
+  it('should parse DATA_SOURCE values', () => {
+    expect(parseDataSource(undefined).mode).toBe('live');
+    expect(parseDataSource('replay:/tmp/archive')).toEqual({ mode: 'replay', path: '/tmp/archive' });
+    expect(parseDataSource('record').mode).toBe('live'); // path required
+  });
+
+  it('should round-trip responses through the compressed archive', async () => {
+    const recorder = new MarketArchive(archiveDir);
+    const url = 'https://api.example.com/info';
+    const init = { method: 'POST', body: JSON.stringify({ type: 'allMids' }) };
+
+    await recorder.record(url, init, { BTC: '100' }, new Date('2025-01-01T00:00:00Z'));
+    await recorder.record(url, init, { BTC: '110' }, new Date('2025-01-01T01:00:00Z'));
+
+    const files = await readdir(archiveDir);
+    expect(files.every(f => f.endsWith('.jsonl.gz'))).toBe(true);
+
+    // Fresh instance reads from disk
+    const reader = new MarketArchive(archiveDir);
+    expect(await reader.lookup(url, init)).toEqual({ BTC: '110' });
+
+    reader.setClock(new Date('2025-01-01T00:30:00Z'));
+    expect(await reader.lookup(url, init)).toEqual({ BTC: '100' });
+
+    reader.setClock(new Date('2024-12-31T00:00:00Z'));
+    expect(await reader.lookup(url, init)).toBeUndefined();
+
+    // Body is part of the key
+    expect(await reader.lookup(url, { method: 'POST', body: '{}' })).toBeUndefined();
+
+    // The recorder only indexes what is on disk once it is asked to look something up
+    void recorder.record(url, init, { BTC: '120' }, new Date('2025-01-01T02:00:00Z'));
+    expect(await recorder.lookup(url, init)).toEqual({ BTC: '120' });
+  });
+
+  it('should serve resilientFetch from the archive in replay mode', async () => {
+    const url = 'https://api.example.com/pools';
+    await new MarketArchive(archiveDir).record(url, undefined, [{ address: 'pool1' }]);
+
+    setDataSource({ mode: 'replay', path: archiveDir });
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    expect(await resilientFetch(url)).toEqual([{ address: 'pool1' }]);
+
+    const miss = await resilientFetch<never>('https://api.example.com/missing').catch((e: ResilientFetchError) => e);
+    expect(miss).toBeInstanceOf(ResilientFetchError);
+    expect(miss.statusCode).toBe(404);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
+
 // Helper functions (simplified implementations for testing)
 
 async function resilientFetchMock(
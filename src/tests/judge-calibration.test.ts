@@ -0,0 +1,247 @@
+/**
+ * Judge Calibration Tests
+ *
+ * Tests whether judge quality scores are measured against P&L:
+ * - Brier score, rank correlation and reliability curve
+ * - Weighting the judge by calibration
+ * - Prompt notes on the judge's own bias
+ * - Down-weighting inline judge modifications
+ * - Calibrated modifications in the pre-execution review
+ * - Realized P&L reaching evaluations once a traded decision closes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { AgentDecision, DomainContext } from '../types/index.js';
+import {
+  brierScore,
+  rankCorrelation,
+  reliabilityCurve,
+  calibrate,
+  describeCalibration,
+  MIN_CALIBRATION_SAMPLES,
+  type CalibrationSample,
+} from '../learning/judge-calibration.js';
+import { applyModifications, type InlineJudgeResult } from '../learning/inline-judge.js';
+
+function samples(count: number, sample: (i: number) => CalibrationSample): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => sample(i));
+}
+
+describe('Judge Calibration', () => {
+  it('should compute Brier score and rank correlation', () => {
+    expect(brierScore([{ qualityScore: 0.8, pnlPercent: 5 }, { qualityScore: 0.6, pnlPercent: -2 }])).toBeCloseTo(0.2, 6);
+
+    expect(rankCorrelation([1, 2, 3, 4], [10, 20, 30, 40])).toBeCloseTo(1, 6);
+    expect(rankCorrelation([1, 2, 3, 4], [40, 30, 20, 10])).toBeCloseTo(-1, 6);
+    // Tied scores share the average rank
+    expect(rankCorrelation([1, 2, 2, 3], [1, 2, 3, 4])).toBeCloseTo(0.9487, 3);
+    expect(rankCorrelation([0.5, 0.5, 0.5], [1, 2, 3])).toBe(0);
+  });
+
+  it('should bin outcomes into a reliability curve', () => {
+    const curve = reliabilityCurve([
+      { qualityScore: 0.1, pnlPercent: -3 },
+      { qualityScore: 0.9, pnlPercent: 4 },
+      { qualityScore: 1, pnlPercent: -1 },
+    ]);
+
+    expect(curve).toHaveLength(5);
+    expect(curve[0]).toMatchObject({ count: 1, winRate: 0 });
+    expect(curve[4]).toMatchObject({ count: 2, winRate: 0.5, meanPnlPercent: 1.5 });
+  });
+
+  it('should keep full weight for a well-calibrated judge and cut it for a poor one', () => {
+    // Scores track outcomes
+    const good = calibrate('perps', 'fast', samples(40, i => ({
+      qualityScore: i % 2 === 0 ? 0.8 : 0.2,
+      pnlPercent: i % 2 === 0 ? 4 : -3,
+    })));
+    expect(good.brierSkill).toBeGreaterThan(0.5);
+    expect(good.weight).toBe(1);
+
+    // Scores are high regardless of outcome
+    const poor = calibrate('perps', 'thorough', samples(40, i => ({
+      qualityScore: 0.85,
+      pnlPercent: i % 2 === 0 ? 2 : -5,
+    })));
+    expect(poor.brierSkill).toBeLessThan(0);
+    expect(poor.weight).toBe(0);
+
+    // Not enough evidence to judge the judge
+    const early = calibrate('spot', 'fast', samples(MIN_CALIBRATION_SAMPLES - 1, () => ({ qualityScore: 0.9, pnlPercent: -1 })));
+    expect(early.weight).toBe(1);
+  });
+
+  it('should tell an overconfident judge to score more conservatively', () => {
+    const overconfident = calibrate('dlmm', 'async', samples(30, i => ({
+      qualityScore: 0.8,
+      pnlPercent: i < 12 ? 3 : -2,
+    })));
+
+    const note = describeCalibration(overconfident);
+    expect(note).toContain('averaged 80% but 40%');
+    expect(note).toContain('more conservatively');
+  });
+
+  it('should move the decision only part of the way for a down-weighted judge', () => {
+    const decision: AgentDecision = {
+      domain: 'perps',
+      action: 'open_long',
+      target: 'SOL',
+      amountUsd: 400,
+      reasoning: 'Breakout',
+      confidence: 0.8,
+    };
+    const result: InlineJudgeResult = {
+      shouldProceed: true,
+      qualityScore: 0.6,
+      warnings: [],
+      keyInsight: null,
+      suggestedModifications: { adjustedConfidence: 0.6, adjustedAmount: 200 },
+      latencyMs: 0,
+    };
+
+    expect(applyModifications(decision, result)).toMatchObject({ confidence: 0.6, amountUsd: 200 });
+
+    const halved = applyModifications(decision, result, 0.5);
+    expect(halved.confidence).toBeCloseTo(0.7, 6);
+    expect(halved.amountUsd).toBeCloseTo(300, 6);
+
+    expect(applyModifications(decision, result, 0)).toMatchObject({ confidence: 0.8, amountUsd: 400 });
+  });
+
+  it('should weight the judge\'s modifications by calibration when reviewing a decision', async () => {
+    vi.resetModules();
+    vi.doMock('@anthropic-ai/sdk', () => ({
+      default: class {
+        messages = {
+          create: vi.fn().mockResolvedValue({
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                shouldProceed: true,
+                qualityScore: 0.7,
+                warnings: [],
+                suggestedModifications: { adjustedConfidence: 0.6, adjustedAmount: 200 },
+              }),
+            }],
+          }),
+        };
+      },
+    }));
+    vi.doMock('../learning/judge-calibration.js', () => ({
+      getCachedCalibration: vi.fn().mockResolvedValue(null),
+      describeCalibration: vi.fn(),
+      getJudgeWeight: vi.fn().mockResolvedValue(0.5),
+    }));
+    vi.doMock('../services/llm-usage.js', () => ({ recordLlmUsage: vi.fn() }));
+
+    const { reviewDecision } = await import('../learning/inline-judge.js');
+    const context = { domain: 'perps', balance: 2000, positions: [], recentDecisions: [] } as unknown as DomainContext;
+    const review = await reviewDecision({
+      domain: 'perps',
+      action: 'open_long',
+      target: 'SOL',
+      amountUsd: 400,
+      reasoning: 'Breakout',
+      confidence: 0.7,
+    }, context);
+
+    expect(review.mode).toBe('fast');
+    expect(review.decision!.confidence).toBeCloseTo(0.65, 6);
+    expect(review.decision!.amountUsd).toBeCloseTo(300, 6);
+
+    vi.doUnmock('@anthropic-ai/sdk');
+    vi.doUnmock('../learning/judge-calibration.js');
+    vi.doUnmock('../services/llm-usage.js');
+  });
+
+  it('should calibrate on realized P&L once a traded decision closes', async () => {
+    type Row = Record<string, unknown> & { id: string; decisionId: string };
+    const evaluations: Row[] = [];
+    const decisions = new Map<string, { outcome: string; pnlPercent: number }>();
+    const fakePrisma = {
+      decision: {
+        findUnique: async ({ where }: { where: { id: string } }) => decisions.get(where.id) ?? null,
+      },
+      decisionEvaluation: {
+        create: async ({ data }: { data: Row }) => {
+          const row = { ...data, id: `eval-${evaluations.length + 1}`, createdAt: new Date() };
+          evaluations.push(row);
+          return row;
+        },
+        findMany: async ({ where }: { where: { decisionId?: string; domain?: string } }) => evaluations.filter(row =>
+          where.decisionId !== undefined
+            ? row.decisionId === where.decisionId
+            : row.domain === where.domain && row.qualityScore != null && row.actualPnlPercent != null
+        ),
+        update: async ({ where, data }: { where: { id: string }; data: Partial<Row> }) =>
+          Object.assign(evaluations.find(row => row.id === where.id)!, data),
+        updateMany: async ({ where, data }: { where: { decisionId: string }; data: Partial<Row> }) => {
+          const rows = evaluations.filter(row => row.decisionId === where.decisionId);
+          rows.forEach(row => Object.assign(row, data));
+          return { count: rows.length };
+        },
+      },
+    };
+
+    vi.resetModules();
+    vi.doMock('../db/prisma.js', () => ({ prisma: fakePrisma, default: fakePrisma }));
+    vi.doMock('@anthropic-ai/sdk', () => ({
+      default: class {
+        messages = {
+          create: vi.fn().mockResolvedValue({
+            content: [{ type: 'text', text: JSON.stringify({ shouldProceed: true, qualityScore: 0.8, warnings: [] }) }],
+          }),
+        };
+      },
+    }));
+    vi.doMock('../services/llm-usage.js', () => ({ recordLlmUsage: vi.fn() }));
+
+    const { reviewDecision } = await import('../learning/inline-judge.js');
+    const { saveJudgeEvaluation, linkEvaluationsToDecision } = await import('../learning/judge-feedback.js');
+    const { getJudgeCalibration } = await import('../learning/judge-calibration.js');
+    const { recordTradeOutcome } = await import('../orchestrator/ralph-loop.js');
+
+    // Execute: the inline judge scores the decision under the executor's tracking id
+    const context = { domain: 'perps', balance: 2000, positions: [], recentDecisions: [] } as unknown as DomainContext;
+    await reviewDecision({
+      domain: 'perps',
+      action: 'open_long',
+      target: 'SOL',
+      amountUsd: 400,
+      reasoning: 'Breakout',
+      confidence: 0.7,
+      metadata: { decisionId: 'perps-1700000000000' },
+    }, context);
+    await vi.waitFor(() => expect(evaluations).toHaveLength(1));
+
+    // Logged: evaluations follow the DB decision id
+    await linkEvaluationsToDecision('perps-1700000000000', 'db-1');
+
+    // Close: realized P&L lands on the evaluation
+    await recordTradeOutcome('db-1', 24, 6);
+    expect(evaluations[0]).toMatchObject({ decisionId: 'db-1', actualOutcome: 'profit', actualPnlPercent: 6, judgeWasRight: true });
+
+    // A slower evaluation saved after the close still gets the outcome
+    decisions.set('db-1', { outcome: 'profit', pnlPercent: 6 });
+    await saveJudgeEvaluation({
+      decisionId: 'perps-1700000000000',
+      domain: 'perps',
+      action: 'open_long',
+      wasGoodDecision: false,
+      qualityScore: 0.3,
+      keyInsight: 'Late',
+      insightType: 'timing',
+      judgeMode: 'async',
+    });
+    expect(evaluations[1]).toMatchObject({ decisionId: 'db-1', actualPnlPercent: 6, judgeWasRight: false });
+
+    const calibration = await getJudgeCalibration('perps');
+    expect(calibration.map(c => [c.mode, c.samples])).toEqual(expect.arrayContaining([['fast', 1], ['async', 1]]));
+
+    vi.doUnmock('../db/prisma.js');
+    vi.doUnmock('@anthropic-ai/sdk');
+    vi.doUnmock('../services/llm-usage.js');
+  });
+});
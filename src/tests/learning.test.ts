@@ -283,6 +283,20 @@ describe('Learning Pipeline E2E', () => {
       expect(perpsFacts).toContain('Perps-specific learning');
       expect(perpsFacts).not.toContain('Spot-specific learning');
     });
+
+    it('should recall the most relevant facts first', async () => {
+      const domain: Domain = 'perps';
+
+      await remember(domain, 'ETH funding spikes before weekly options expiry', 'medium', 'test');
+      await remember(domain, 'SOL shorts get squeezed when funding turns negative', 'medium', 'test');
+      await remember(domain, 'Expired lesson about SOL funding', 'high', 'test', new Date(Date.now() - 1000));
+
+      const facts = await recall(domain, { query: 'short SOL negative funding', limit: 2 });
+
+      expect(facts[0]).toBe('SOL shorts get squeezed when funding turns negative');
+      expect(facts).toHaveLength(2);
+      expect(facts).not.toContain('Expired lesson about SOL funding');
+    });
   });
 
   describe('Skill Creation Pipeline', () => {
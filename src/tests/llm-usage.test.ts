@@ -0,0 +1,91 @@
+/**
+ * LLM Usage Tests
+ *
+ * Tests the usage ledger's pure parts:
+ * - Token counts and cost from an API response
+ * - Unknown models priced by family
+ * - Spend by domain and purpose, and per decision
+ * - The budget day starts at UTC midnight
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Message } from '@anthropic-ai/sdk/resources/messages';
+import type { LlmUsageRecord } from '../types/internal.js';
+import { getModelPrice, MODEL_PRICES } from '../config/models.js';
+import { usageFromMessage, usageCost, summarizeUsage, budgetDayStart } from '../services/llm-usage.js';
+
+function record(overrides: Partial<LlmUsageRecord>): LlmUsageRecord {
+  return {
+    id: 'u1',
+    model: 'claude-opus-4-5-20251101',
+    purpose: 'subagent',
+    inputTokens: 1000,
+    outputTokens: 500,
+    thinkingTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0.1,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('LLM Usage', () => {
+  it('should price a response from its token usage', () => {
+    const message = {
+      content: [
+        { type: 'thinking', thinking: 'x'.repeat(400), signature: 'sig' },
+        { type: 'text', text: 'hold', citations: null },
+      ],
+      usage: {
+        input_tokens: 10_000,
+        output_tokens: 2_000,
+        cache_read_input_tokens: 20_000,
+        cache_creation_input_tokens: 0,
+      },
+    } as unknown as Message;
+
+    const usage = usageFromMessage(message);
+    expect(usage).toEqual({
+      inputTokens: 10_000,
+      outputTokens: 2_000,
+      thinkingTokens: 100,
+      cacheReadTokens: 20_000,
+      cacheWriteTokens: 0,
+    });
+
+    // 10k * $5 + 2k * $25 + 20k * $0.50 per million
+    expect(usageCost('claude-opus-4-5-20251101', usage)).toBeCloseTo(0.11, 6);
+  });
+
+  it('should price unknown models by family', () => {
+    expect(getModelPrice('claude-3-5-haiku-20241022')).toBe(MODEL_PRICES['claude-3-5-haiku-20241022']);
+    expect(getModelPrice('claude-haiku-9')).toBe(MODEL_PRICES['claude-3-5-haiku-20241022']);
+    expect(getModelPrice('claude-sonnet-9')).toBe(MODEL_PRICES['claude-sonnet-4-20250514']);
+    expect(getModelPrice('something-new')).toBe(MODEL_PRICES['claude-opus-4-5-20251101']);
+  });
+
+  it('should summarize spend by domain, purpose and decision', () => {
+    const summary = summarizeUsage([
+      record({ domain: 'perps', decisionId: 'perps-1', costUsd: 0.3 }),
+      record({ domain: 'perps', decisionId: 'perps-1', purpose: 'inline_judge', costUsd: 0.05 }),
+      record({ domain: 'spot', decisionId: 'spot-1', costUsd: 0.2 }),
+      record({ purpose: 'coordinator', costUsd: 0.05 }),
+    ]);
+
+    expect(summary.calls).toBe(4);
+    expect(summary.costUsd).toBeCloseTo(0.6, 6);
+    expect(summary.byDomain.perps).toBeCloseTo(0.35, 6);
+    expect(summary.byDomain.shared).toBeCloseTo(0.05, 6);
+    expect(summary.byPurpose.subagent).toBeCloseTo(0.5, 6);
+    expect(summary.decisions).toBe(2);
+    expect(summary.costPerDecisionUsd).toBeCloseTo(0.3, 6);
+
+    expect(summarizeUsage([]).costPerDecisionUsd).toBe(0);
+  });
+
+  it('should start the budget day at UTC midnight', () => {
+    expect(budgetDayStart(new Date('2025-03-14T23:59:00Z')).toISOString()).toBe('2025-03-14T00:00:00.000Z');
+    expect(budgetDayStart(new Date('2025-03-15T00:00:01Z')).toISOString()).toBe('2025-03-15T00:00:00.000Z');
+  });
+});
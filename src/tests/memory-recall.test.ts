@@ -0,0 +1,140 @@
+/**
+ * Semantic Memory Recall Tests
+ *
+ * Tests the TF-IDF ranking behind recall():
+ * - Tokenizing and term frequencies
+ * - Ranking facts by relevance to a query
+ * - Importance as a tie-breaker when nothing matches
+ * - Building a query from the domain context
+ * - Parsing facts and expiry from legacy MEMORY.md files
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DomainContext } from '../types/index.js';
+import type { MemoryFactRecord } from '../types/internal.js';
+import {
+  tokenize,
+  termFrequencies,
+  inverseDocumentFrequencies,
+  cosineSimilarity,
+  rankFacts,
+  contextQuery,
+} from '../memory/semantic.js';
+import { parseLegacyMemoryFile } from '../memory/index.js';
+
+function fact(
+  text: string,
+  importance: MemoryFactRecord['importance'] = 'medium',
+  createdAt = new Date('2026-01-01')
+): MemoryFactRecord {
+  return {
+    id: text,
+    domain: 'perps',
+    fact: text,
+    importance,
+    terms: termFrequencies(text),
+    createdAt,
+  };
+}
+
+describe('Semantic Memory Recall', () => {
+  it('should tokenize without stopwords and fold plurals', () => {
+    expect(tokenize('The SOL trades are volatile at $100')).toEqual(['sol', 'trade', 'volatile', '$100']);
+    expect(termFrequencies('funding funding rate')).toEqual({ funding: 2 / 3, rate: 1 / 3 });
+  });
+
+  it('should weight rare terms above common ones', () => {
+    const docs = [termFrequencies('sol leverage'), termFrequencies('btc leverage'), termFrequencies('eth leverage')];
+    const idf = inverseDocumentFrequencies(docs);
+
+    expect(idf.get('sol')!).toBeGreaterThan(idf.get('leverage')!);
+    expect(cosineSimilarity(docs[0], docs[0], idf)).toBeCloseTo(1, 6);
+    expect(cosineSimilarity(docs[0], termFrequencies('polymarket election'), idf)).toBe(0);
+  });
+
+  it('should rank facts by relevance to the query', () => {
+    const facts = [
+      fact('Polymarket election markets overreact to polls'),
+      fact('SOL perps funding turns negative after liquidation cascades'),
+      fact('Keep BTC leverage under 3x during CPI releases'),
+    ];
+
+    const ranked = rankFacts(facts, 'open_long SOL funding rate negative');
+    expect(ranked[0].record.fact).toContain('SOL perps funding');
+    expect(ranked[0].similarity).toBeGreaterThan(0);
+    expect(ranked[2].similarity).toBe(0);
+  });
+
+  it('should fall back to importance and recency when nothing matches', () => {
+    const facts = [
+      fact('Old medium fact', 'medium', new Date('2026-01-01')),
+      fact('Critical risk rule', 'high', new Date('2025-06-01')),
+      fact('New medium fact', 'medium', new Date('2026-02-01')),
+    ];
+
+    const ranked = rankFacts(facts, 'unrelated query');
+    expect(ranked.map(r => r.record.fact)).toEqual(['Critical risk rule', 'New medium fact', 'Old medium fact']);
+  });
+
+  it('should build the query from positions, markets and recent decisions', () => {
+    const context = {
+      domain: 'perps',
+      balance: 1000,
+      positions: [{
+        id: 'p1',
+        domain: 'perps',
+        target: 'ETH',
+        entryValueUsd: 100,
+        currentValueUsd: 100,
+        status: 'open',
+        openedAt: '2026-01-01T00:00:00Z',
+        metadata: { side: 'SHORT' },
+      }],
+      markets: [{ id: 'SOL', name: 'SOL Perp', domain: 'perps', metadata: {} }],
+      recentDecisions: [{ action: 'open_short', target: 'ETH', reasoning: 'Funding flipped', confidence: 0.7 }],
+      performanceSnapshots: [],
+      timestamp: '2026-01-01T00:00:00Z',
+    } as unknown as DomainContext;
+
+    const query = contextQuery(context);
+    for (const term of ['perps', 'ETH', 'SHORT', 'SOL Perp', 'open_short', 'Funding flipped']) {
+      expect(query).toContain(term);
+    }
+  });
+});
+
+describe('Legacy Memory Import', () => {
+  const now = new Date('2026-01-10T00:00:00.000Z');
+
+  it('should read importance, source and both expiry formats', () => {
+    const content = [
+      '# DLMM Memory',
+      '',
+      '⭐ **[HIGH]** Curve strategy wins in chop (from: reflection)',
+      '_Added: 2026-01-01T00:00:00.000Z | Expires: 2026-02-01T00:00:00.000Z_',
+      '',
+      '📝 **[LOW]** Fee spike on JUP pools',
+      '_Expires: 2026-03-01_',
+      '',
+      '📌 **[MEDIUM]** Bin step 10 pools are thin [EXPIRES: 2026-04-01]',
+      '_Added: 2026-01-02T00:00:00.000Z_',
+    ].join('\n');
+
+    expect(parseLegacyMemoryFile(content, now)).toEqual([
+      { fact: 'Curve strategy wins in chop', importance: 'high', source: 'reflection', expiresAt: new Date('2026-02-01T00:00:00.000Z') },
+      { fact: 'Fee spike on JUP pools', importance: 'low', source: undefined, expiresAt: new Date('2026-03-01') },
+      { fact: 'Bin step 10 pools are thin [EXPIRES: 2026-04-01]', importance: 'medium', source: undefined, expiresAt: new Date('2026-04-01') },
+    ]);
+  });
+
+  it('should drop facts whose metadata line has expired', () => {
+    const content = [
+      '⭐ **[HIGH]** Stale funding edge',
+      '_Added: 2025-12-01T00:00:00.000Z | Expires: 2026-01-01T00:00:00.000Z_',
+      '📝 **[MEDIUM]** Still relevant',
+      '_Added: 2025-12-01T00:00:00.000Z_',
+    ].join('\n');
+
+    expect(parseLegacyMemoryFile(content, now).map(f => f.fact)).toEqual(['Still relevant']);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Memory Reconciliation Tests
+ *
+ * Tests conflict detection behind `claudefi memory --reconcile`:
+ * - Stance of a fact (advice for, against, neutral)
+ * - Contradictions keep the newer fact
+ * - Duplicates keep the more important fact
+ * - Each fact is superseded at most once
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MemoryFactRecord } from '../types/internal.js';
+import { termFrequencies } from '../memory/semantic.js';
+import { factStance, detectConflicts } from '../memory/reconcile.js';
+
+function fact(
+  id: string,
+  text: string,
+  createdAt: Date,
+  importance: MemoryFactRecord['importance'] = 'medium'
+): MemoryFactRecord {
+  return { id, domain: 'dlmm', fact: text, importance, terms: termFrequencies(text), createdAt };
+}
+
+describe('Memory Reconciliation', () => {
+  it('should read the stance of a fact', () => {
+    expect(factStance('Avoid SOL pools with binStep 10')).toBe(-1);
+    expect(factStance('SOL pools with binStep 10 are safe')).toBe(1);
+    expect(factStance('SOL pools rebalance every 4 hours')).toBe(0);
+  });
+
+  it('should keep the newer fact when two contradict', () => {
+    const older = fact('old', 'SOL-USDC pools with binStep 10 are safe', new Date('2026-01-01'));
+    const newer = fact('new', 'Avoid SOL-USDC pools with binStep 10', new Date('2026-03-01'));
+    const unrelated = fact('other', 'Polymarket election markets overreact to polls', new Date('2026-02-01'));
+
+    const conflicts = detectConflicts([older, newer, unrelated]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kind).toBe('contradiction');
+    expect(conflicts[0].kept.id).toBe('new');
+    expect(conflicts[0].superseded.id).toBe('old');
+  });
+
+  it('should keep the more important of two duplicates', () => {
+    const important = fact('high', 'Exit DLMM positions when volume drops below $50k', new Date('2026-01-01'), 'high');
+    const copy = fact('medium', 'Exit DLMM positions when volume drops below $50k', new Date('2026-03-01'));
+
+    const [conflict] = detectConflicts([important, copy]);
+    expect(conflict.kind).toBe('duplicate');
+    expect(conflict.kept.id).toBe('high');
+    expect(conflict.superseded.id).toBe('medium');
+  });
+
+  it('should not flag neutral facts about the same subject as contradictions', () => {
+    const conflicts = detectConflicts([
+      fact('a', 'BONK-SOL pool volume peaks during US hours', new Date('2026-01-01')),
+      fact('b', 'BONK-SOL pool fees are highest on weekends', new Date('2026-02-01')),
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should supersede each fact at most once', () => {
+    const text = 'Exit DLMM positions when volume drops below $50k';
+    const conflicts = detectConflicts([
+      fact('a', text, new Date('2026-01-01')),
+      fact('b', text, new Date('2026-02-01')),
+      fact('c', text, new Date('2026-03-01')),
+    ]);
+
+    const superseded = conflicts.map(c => c.superseded.id);
+    expect(new Set(superseded).size).toBe(superseded.length);
+    expect(superseded).not.toContain('c');
+  });
+});
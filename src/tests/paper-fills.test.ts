@@ -0,0 +1,193 @@
+/**
+ * Paper Fill Tests
+ *
+ * Tests the fill math used by paper trading:
+ * - Book walking (multi-level slippage, partial fills)
+ * - Flat estimates when no depth is available
+ * - Hyperliquid IOC limit and fee tiers
+ * - Perps estimates priced at the streamed mark when Hyperliquid is down
+ * - DLMM deposits record the pool price and active bin they went in at
+ * - Fill summaries used for P&L bookkeeping
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  walkBook,
+  estimateFill,
+  summarizeFills,
+  toExecutionFill,
+  PERPS_TAKER_FEE_RATE,
+} from '../execution/index.js';
+import { walkL2Book, getFeeTier } from '../clients/hyperliquid/client.js';
+
+describe('Paper Fills', () => {
+  describe('walkBook', () => {
+    const asks = [
+      { price: 100, size: 1 },
+      { price: 101, size: 2 },
+    ];
+    const bids = [
+      { price: 99, size: 1 },
+      { price: 98, size: 2 },
+    ];
+
+    it('should fill a buy inside the top level at the reference price', () => {
+      const fill = walkBook(asks, 50, 'buy', 100);
+
+      expect(fill.filledUsd).toBeCloseTo(50, 6);
+      expect(fill.avgPrice).toBeCloseTo(100, 6);
+      expect(fill.slippageUsd).toBeCloseTo(0, 6);
+      expect(fill.partial).toBe(false);
+    });
+
+    it('should charge slippage when a buy walks several levels', () => {
+      // $100 at 100 (1 unit) + $101 at 101 (1 unit) = 2 units for $201
+      const fill = walkBook(asks, 201, 'buy', 100);
+
+      expect(fill.filledUsd).toBeCloseTo(200, 6);
+      expect(fill.slippageUsd).toBeCloseTo(1, 6);
+      expect(fill.avgPrice).toBeCloseTo(100.5, 6);
+      expect(fill.partial).toBe(false);
+    });
+
+    it('should sell base units worth the notional and mark the shortfall as slippage', () => {
+      // $200 at reference 100 = 2 units: 1 @ 99 + 1 @ 98
+      const fill = walkBook(bids, 200, 'sell', 100);
+
+      expect(fill.filledUsd).toBeCloseTo(200, 6);
+      expect(fill.slippageUsd).toBeCloseTo(3, 6);
+      expect(fill.avgPrice).toBeCloseTo(98.5, 6);
+    });
+
+    it('should report a partial fill when the book runs out', () => {
+      const fill = walkBook(asks, 1000, 'buy', 100);
+
+      // Whole book: 3 units for $302
+      expect(fill.partial).toBe(true);
+      expect(fill.filledUsd).toBeCloseTo(300, 6);
+      expect(fill.slippageUsd).toBeCloseTo(2, 6);
+    });
+  });
+
+  describe('estimateFill', () => {
+    it('should apply flat slippage and the fee rate', () => {
+      const fill = estimateFill(1000, PERPS_TAKER_FEE_RATE, 50, 'buy');
+
+      expect(fill.source).toBe('estimate');
+      expect(fill.slippageUsd).toBeCloseTo(0.5, 6);
+      expect(fill.feeUsd).toBeCloseTo(0.45, 6);
+      expect(fill.filledUsd + fill.slippageUsd).toBeCloseTo(1000, 6);
+      expect(fill.avgPrice).toBeGreaterThan(50);
+    });
+  });
+
+  describe('Hyperliquid orders', () => {
+    const asks = [
+      { price: 100, size: 1 },
+      { price: 100.5, size: 1 },
+      { price: 102, size: 5 },
+    ];
+
+    it('should stop walking at the IOC limit and leave the remainder unfilled', () => {
+      // 3 units wanted, limit 101: only the first two levels fill
+      const fill = walkL2Book(asks, 3, 101, true);
+
+      expect(fill.filledSize).toBeCloseTo(2, 6);
+      expect(fill.filledUsd).toBeCloseTo(200.5, 6);
+    });
+
+    it('should walk bids down to the limit for sells', () => {
+      const bids = [{ price: 99, size: 1 }, { price: 97, size: 5 }];
+      const fill = walkL2Book(bids, 2, 98, false);
+
+      expect(fill.filledSize).toBeCloseTo(1, 6);
+      expect(fill.filledUsd).toBeCloseTo(99, 6);
+    });
+
+    it('should pick the fee tier by 14-day volume', () => {
+      expect(getFeeTier(0).takerRate).toBe(PERPS_TAKER_FEE_RATE);
+      expect(getFeeTier(30_000_000).takerRate).toBe(0.00035);
+      expect(getFeeTier(1e12).takerRate).toBe(0.00024);
+    });
+  });
+
+  describe('simulatePerpsFill', () => {
+    it('should price the fallback estimate at the streamed mark', async () => {
+      vi.resetModules();
+      vi.doMock('../clients/hyperliquid/client.js', async (importOriginal) => ({
+        ...(await importOriginal<typeof import('../clients/hyperliquid/client.js')>()),
+        hyperliquidClient: { simulateOrder: vi.fn().mockRejectedValue(new Error('Hyperliquid down')) },
+      }));
+      vi.doMock('../services/price-stream.js', () => ({
+        priceStream: { getPrice: vi.fn((source: string, symbol: string) => (symbol === 'SOL' ? 150 : undefined)) },
+      }));
+
+      const { simulatePerpsFill } = await import('../execution/paper-fills.js');
+
+      const fill = await simulatePerpsFill('SOL', 'buy', 1000, 3);
+      expect(fill).toMatchObject({ source: 'estimate', referencePrice: 150 });
+      expect(fill.avgPrice).toBeGreaterThan(150);
+
+      // Nothing streamed either
+      expect((await simulatePerpsFill('DOGE', 'buy', 1000)).referencePrice).toBe(0);
+
+      vi.doUnmock('../clients/hyperliquid/client.js');
+      vi.doUnmock('../services/price-stream.js');
+    });
+  });
+
+  describe('simulateDlmmFill', () => {
+    it('should record the pool price and active bin of the deposit', async () => {
+      vi.resetModules();
+      const { TOKENS } = await import('../clients/jupiter/client.js');
+      vi.doMock('../clients/meteora/client.js', () => ({
+        meteoraClient: {
+          getPool: vi.fn().mockResolvedValue({
+            name: 'SOL-USDC', address: 'pool-1', mint_y: TOKENS.USDC, current_price: 150,
+            liquidity: '1000000', base_fee_percentage: '0.2', bin_step: 20,
+          }),
+        },
+      }));
+      vi.doMock('../clients/meteora/liquidity.js', () => ({
+        getMeteoraLiquidity: () => ({
+          getBinDepth: vi.fn().mockResolvedValue({
+            activeBinId: 812,
+            activePrice: 150,
+            bins: [
+              { binId: 812, price: 150, xAmount: 100, yAmount: 15000 },
+              { binId: 813, price: 150.3, xAmount: 100, yAmount: 0 },
+            ],
+          }),
+        }),
+      }));
+
+      const { simulateDlmmFill, toExecutionFill: toFill } = await import('../execution/paper-fills.js');
+
+      const fill = await simulateDlmmFill('pool-1', 'deposit', 1000);
+      expect(fill).toMatchObject({ source: 'bins', poolPrice: 150, activeBinId: 812 });
+      expect(toFill('pool-1', fill).metadata).toMatchObject({ poolPrice: 150, activeBinId: 812 });
+
+      vi.doUnmock('../clients/meteora/client.js');
+      vi.doUnmock('../clients/meteora/liquidity.js');
+    });
+  });
+
+  describe('summarizeFills', () => {
+    it('should total costs for buys and proceeds for sells', () => {
+      const fill = walkBook([{ price: 100, size: 1 }, { price: 102, size: 10 }], 202, 'buy', 100);
+      const summary = summarizeFills([
+        toExecutionFill('BTC', { ...fill, requestedUsd: 202, feeUsd: 0.1, source: 'book' }),
+      ]);
+
+      expect(summary.filledUsd).toBeCloseTo(200, 6);
+      expect(summary.slippageUsd).toBeCloseTo(2, 6);
+      expect(summary.costUsd).toBeCloseTo(202.1, 6);
+      expect(summary.proceedsUsd).toBeCloseTo(197.9, 6);
+      expect(summary.partial).toBe(false);
+    });
+
+    it('should handle results without fills', () => {
+      expect(summarizeFills(undefined).costUsd).toBe(0);
+    });
+  });
+});
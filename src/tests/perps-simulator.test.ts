@@ -0,0 +1,111 @@
+/**
+ * Perps Paper Simulator Tests
+ *
+ * Tests funding accrual and liquidation for paper perps positions:
+ * - Funding direction (longs pay positive rates) and whole-hour accrual
+ * - Mark-to-market net of funding
+ * - Liquidation when the mark crosses the liquidation price
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Position } from '../types/index.js';
+import {
+  calculateFundingPayment,
+  isLiquidated,
+  simulatePerpsPosition,
+} from '../services/perps-simulator.js';
+
+function perpsPosition(metadata: Record<string, unknown>): Position {
+  return {
+    id: 'pos-1',
+    domain: 'perps',
+    target: 'BTC',
+    entryValueUsd: 1000,
+    currentValueUsd: 1000,
+    status: 'open',
+    openedAt: '2025-01-01T00:00:00.000Z',
+    metadata: { entryPrice: 100, leverage: 5, ...metadata },
+  };
+}
+
+describe('Perps Paper Simulator', () => {
+  describe('funding', () => {
+    it('should charge longs and pay shorts when the rate is positive', () => {
+      expect(calculateFundingPayment(1000, 0.0001, 'LONG', 3)).toBeCloseTo(0.3, 6);
+      expect(calculateFundingPayment(1000, 0.0001, 'SHORT', 3)).toBeCloseTo(-0.3, 6);
+    });
+
+    it('should accrue whole hours only and carry the remainder', () => {
+      const position = perpsPosition({ side: 'long' });
+      const result = simulatePerpsPosition(
+        position,
+        { markPrice: 100, fundingRate: 0.0001 },
+        new Date('2025-01-01T02:30:00.000Z')
+      )!;
+
+      expect(result.fundingHours).toBe(2);
+      expect(result.fundingUsd).toBeCloseTo(0.2, 6);
+      expect(result.currentValueUsd).toBeCloseTo(999.8, 6);
+      expect(result.metadata.lastFundingAt).toBe('2025-01-01T02:00:00.000Z');
+      expect(result.liquidated).toBe(false);
+    });
+
+    it('should add to funding already paid', () => {
+      const position = perpsPosition({
+        side: 'short',
+        fundingPaidUsd: 1,
+        lastFundingAt: '2025-01-01T05:00:00.000Z',
+      });
+      const result = simulatePerpsPosition(
+        position,
+        { markPrice: 90, fundingRate: 0.0001 },
+        new Date('2025-01-01T06:00:00.000Z')
+      )!;
+
+      // Short receives 0.01% on $900 notional; +$100 price P&L
+      expect(result.fundingUsd).toBeCloseTo(-0.09, 6);
+      expect(result.fundingPaidUsd).toBeCloseTo(0.91, 6);
+      expect(result.currentValueUsd).toBeCloseTo(1099.09, 6);
+    });
+  });
+
+  describe('liquidation', () => {
+    it('should detect the mark crossing the liquidation price', () => {
+      expect(isLiquidated('LONG', 82, 83)).toBe(true);
+      expect(isLiquidated('LONG', 84, 83)).toBe(false);
+      expect(isLiquidated('SHORT', 118, 117)).toBe(true);
+      expect(isLiquidated('SHORT', 116, 117)).toBe(false);
+    });
+
+    it('should forfeit the margin when a long is liquidated', () => {
+      // 5x long from 100: liquidation at 100 * (1 - 0.2 + 0.03) = 83
+      const position = perpsPosition({ side: 'long' });
+      const result = simulatePerpsPosition(
+        position,
+        { markPrice: 82, fundingRate: 0 },
+        new Date('2025-01-01T00:10:00.000Z')
+      )!;
+
+      expect(result.liquidationPrice).toBeCloseTo(83, 6);
+      expect(result.liquidated).toBe(true);
+      expect(result.currentValueUsd).toBeCloseTo(800, 6);
+      expect(result.realizedPnl).toBeCloseTo(-200, 6);
+    });
+
+    it('should liquidate when funding exhausts the margin', () => {
+      const position = perpsPosition({ side: 'long', fundingPaidUsd: 199.5 });
+      const result = simulatePerpsPosition(
+        position,
+        { markPrice: 100, fundingRate: 0.001 },
+        new Date('2025-01-01T01:00:00.000Z')
+      )!;
+
+      expect(result.liquidated).toBe(true);
+    });
+
+    it('should skip positions without an entry price', () => {
+      const position = perpsPosition({ entryPrice: undefined });
+      expect(simulatePerpsPosition(position, { markPrice: 100, fundingRate: 0 })).toBeNull();
+    });
+  });
+});
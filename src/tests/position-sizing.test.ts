@@ -0,0 +1,136 @@
+/**
+ * Position Sizing Tests
+ *
+ * Tests the sizing modes behind suggest_size and the position-sizing hook:
+ * - Kelly from confidence/payoff and from Polymarket probability vs price
+ * - Volatility targeting and the hybrid minimum
+ * - Balance cap
+ * - Resized decisions passed along via HookResult.modifiedInput
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AgentDecision } from '../types/index.js';
+import { hookRegistry } from '../hooks/registry.js';
+import {
+  kellyFraction,
+  binaryKellyFraction,
+  bracketPayoffRatio,
+  computeSize,
+  type SizingConfig,
+} from '../services/position-sizing.js';
+
+const config: SizingConfig = {
+  mode: 'kelly',
+  kellyMultiplier: 0.25,
+  targetDailyVol: 0.01,
+  maxPositionPct: 0.2,
+  enforcement: 'cap',
+};
+
+describe('Position Sizing', () => {
+  describe('Kelly', () => {
+    it('should size from win probability and payoff', () => {
+      expect(kellyFraction(0.6, 1)).toBeCloseTo(0.2, 6);
+      expect(kellyFraction(0.5, 2)).toBeCloseTo(0.25, 6);
+      expect(kellyFraction(0.4, 1)).toBeLessThan(0);
+    });
+
+    it('should size binary outcomes from probability vs price', () => {
+      // 60% estimate on a $0.50 outcome: b = 1, f = 0.2
+      expect(binaryKellyFraction(0.6, 0.5)).toBeCloseTo(0.2, 6);
+      // Priced above the estimate: no edge
+      expect(binaryKellyFraction(0.3, 0.4)).toBeLessThan(0);
+    });
+
+    it('should read the payoff ratio from a bracket', () => {
+      expect(bracketPayoffRatio('LONG', 100, 110, 95)).toBeCloseTo(2, 6);
+      expect(bracketPayoffRatio('SHORT', 100, 90, 105)).toBeCloseTo(2, 6);
+      expect(bracketPayoffRatio('LONG', 100, 90, 95)).toBeUndefined();
+    });
+  });
+
+  describe('computeSize', () => {
+    it('should apply fractional Kelly to the balance', () => {
+      const size = computeSize({ domain: 'spot', balance: 1000, confidence: 0.7 }, config);
+
+      // (0.7 - 0.3) * 0.25 * 1000
+      expect(size.recommendedUsd).toBeCloseTo(100, 6);
+      expect(size.maxUsd).toBeCloseTo(200, 6);
+    });
+
+    it('should use the probability estimate for Polymarket', () => {
+      const size = computeSize({
+        domain: 'polymarket',
+        balance: 1000,
+        confidence: 0.9,
+        estimatedProbability: 60,
+        outcomePrice: 0.5,
+      }, config);
+
+      expect(size.kellyFraction).toBeCloseTo(0.2, 6);
+      expect(size.recommendedUsd).toBeCloseTo(50, 6);
+    });
+
+    it('should size to the volatility target and take the smaller in hybrid mode', () => {
+      const input = { domain: 'perps' as const, balance: 1000, confidence: 0.9, dailyVolatility: 0.05 };
+
+      // $10 daily vol budget / 5% daily vol = $200 notional
+      expect(computeSize(input, { ...config, mode: 'vol_target', maxPositionPct: 1 }).recommendedUsd).toBeCloseTo(200, 6);
+      // Kelly $200 vs vol target $100 at 10% daily vol
+      expect(computeSize({ ...input, dailyVolatility: 0.1 }, { ...config, mode: 'hybrid', maxPositionPct: 1 }).recommendedUsd)
+        .toBeCloseTo(100, 6);
+    });
+
+    it('should cap at the max position size and report no edge as zero', () => {
+      const capped = computeSize({ domain: 'spot', balance: 1000, confidence: 0.99 }, { ...config, kellyMultiplier: 1 });
+      expect(capped.recommendedUsd).toBeCloseTo(200, 6);
+
+      const noEdge = computeSize({ domain: 'spot', balance: 1000, confidence: 0.4 }, config);
+      expect(noEdge.recommendedUsd).toBe(0);
+      expect(noEdge.rationale.join(' ')).toContain('No edge');
+    });
+  });
+
+  describe('modifiedInput', () => {
+    afterEach(() => {
+      hookRegistry.unregister('test-resize');
+      hookRegistry.unregister('test-observe');
+    });
+
+    it('should hand the resized decision to later hooks and the caller', async () => {
+      let observed: number | undefined;
+
+      hookRegistry.register({
+        name: 'test-resize',
+        event: 'PreDecision',
+        priority: 1,
+        enabled: true,
+        hook: async (ctx) => ({ proceed: true, modifiedInput: { ...ctx.decision!, amountUsd: 40 } }),
+      });
+      hookRegistry.register({
+        name: 'test-observe',
+        event: 'PreDecision',
+        priority: 2,
+        enabled: true,
+        hook: async (ctx) => {
+          observed = ctx.decision?.amountUsd;
+          return { proceed: true };
+        },
+      });
+
+      const decision: AgentDecision = {
+        domain: 'spot',
+        action: 'buy',
+        target: 'TOKEN',
+        amountUsd: 100,
+        reasoning: 'Test decision',
+        confidence: 0.8,
+      };
+      const result = await hookRegistry.run('PreDecision', { domain: 'spot', decision, timestamp: new Date() });
+
+      expect(observed).toBe(40);
+      expect((result.modifiedInput as AgentDecision).amountUsd).toBe(40);
+      expect(decision.amountUsd).toBe(100);
+    });
+  });
+});
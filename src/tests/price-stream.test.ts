@@ -0,0 +1,138 @@
+/**
+ * Price Stream Tests
+ *
+ * Tests the streaming price feed against fake sockets:
+ * - Subscriptions sent on connect and when coins/tokens are watched
+ * - Hyperliquid allMids/trades and Polymarket book/price_change parsing
+ * - Reconnect with backoff after a dropped socket
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PriceStream, getReconnectDelay, type PriceTick, type SocketLike } from '../services/price-stream.js';
+
+class FakeSocket implements SocketLike {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  sent: unknown[] = [];
+
+  constructor(public url: string) {}
+
+  send(data: string): void {
+    this.sent.push(data === 'PING' ? data : JSON.parse(data));
+  }
+
+  close(): void {}
+
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+async function flush(): Promise<void> {
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+describe('Price Stream', () => {
+  let sockets: FakeSocket[];
+  let stream: PriceStream;
+  let ticks: PriceTick[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sockets = [];
+    ticks = [];
+    stream = new PriceStream(async (url) => {
+      const socket = new FakeSocket(url);
+      sockets.push(socket);
+      return socket;
+    });
+    stream.onTick(tick => ticks.push(tick));
+  });
+
+  afterEach(() => {
+    stream.stop();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should double the reconnect delay up to the cap', () => {
+    expect(getReconnectDelay(0, () => 0)).toBe(1000);
+    expect(getReconnectDelay(3, () => 0)).toBe(8000);
+    expect(getReconnectDelay(20, () => 0)).toBe(60_000);
+    expect(getReconnectDelay(0, () => 1)).toBe(1200);
+  });
+
+  it('should subscribe to allMids and watched trades, and publish mids', async () => {
+    stream.start();
+    await flush();
+
+    const hyperliquid = sockets[0];
+    hyperliquid.onopen?.({});
+    stream.watchPerps(['BTC']);
+
+    expect(hyperliquid.sent).toEqual([
+      { method: 'subscribe', subscription: { type: 'allMids' } },
+      { method: 'subscribe', subscription: { type: 'trades', coin: 'BTC' } },
+    ]);
+
+    hyperliquid.receive({ channel: 'allMids', data: { mids: { BTC: '50000.5', ETH: '3000' } } });
+    hyperliquid.receive({ channel: 'trades', data: [{ coin: 'BTC', px: '50010', time: Date.now() }] });
+
+    expect(ticks.map(t => [t.symbol, t.price])).toEqual([
+      ['BTC', 50000.5],
+      ['ETH', 3000],
+      ['BTC', 50010],
+    ]);
+    expect(stream.getPrice('hyperliquid', 'BTC')).toBe(50010);
+    expect(stream.getMids()).toEqual({ BTC: '50010', ETH: '3000' });
+    expect(stream.isStreaming('hyperliquid')).toBe(true);
+  });
+
+  it('should publish Polymarket mids for watched tokens', async () => {
+    stream.start();
+    stream.watchPolymarketTokens(['token-yes']);
+    await flush();
+
+    const polymarket = sockets.find(s => s.url.includes('polymarket'))!;
+    polymarket.onopen?.({});
+    expect(polymarket.sent).toEqual([{ assets_ids: ['token-yes'], type: 'market' }]);
+
+    polymarket.receive([{
+      event_type: 'book',
+      asset_id: 'token-yes',
+      bids: [{ price: '0.40', size: '100' }, { price: '0.42', size: '50' }],
+      asks: [{ price: '0.46', size: '80' }],
+    }]);
+    polymarket.receive({
+      event_type: 'price_change',
+      price_changes: [{ asset_id: 'token-yes', price: '0.45', best_bid: '0.44', best_ask: '0.48' }],
+    });
+
+    expect(ticks).toHaveLength(2);
+    expect(ticks[0].price).toBeCloseTo(0.44, 6);
+    expect(ticks[1].price).toBeCloseTo(0.46, 6);
+    expect(stream.getPrice('polymarket', 'token-yes')).toBeCloseTo(0.46, 6);
+  });
+
+  it('should reconnect with backoff and resubscribe after a drop', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    stream.start();
+    await flush();
+
+    sockets[0].onopen?.({});
+    stream.watchPerps(['ETH']);
+    sockets[0].onclose?.({});
+    expect(stream.isStreaming('hyperliquid')).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sockets).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].onopen?.({});
+    expect(sockets[1].sent).toContainEqual({ method: 'subscribe', subscription: { type: 'trades', coin: 'ETH' } });
+  });
+});
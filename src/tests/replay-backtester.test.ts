@@ -0,0 +1,147 @@
+/**
+ * Replay Backtester Tests
+ *
+ * Drives the replay loop with a scripted decider (no LLM calls) to check:
+ * - Contexts are built from recorded snapshots
+ * - Paper fills are booked into the simulated ledger
+ * - Mark-to-market and per-domain BacktestResult output
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AgentDecision, Domain, DomainContext, Market, Position } from '../types/index.js';
+import {
+  runReplayBacktest,
+  markPositionValue,
+  type MarketSnapshot,
+} from '../sandbox/replay-backtester.js';
+import { setDataSource } from '../infra/market-archive.js';
+
+function perpsMarket(price: number): Market {
+  return { id: 'BTC', name: 'BTC Perp', domain: 'perps', metadata: { price } };
+}
+
+function snapshot(timestamp: string, price: number): MarketSnapshot {
+  return { timestamp, markets: { perps: [perpsMarket(price)] } };
+}
+
+describe('Replay Backtester', () => {
+  // An empty archive keeps paper fills offline (no book -> flat estimate)
+  let archiveDir: string;
+
+  beforeAll(async () => {
+    archiveDir = await mkdtemp(path.join(os.tmpdir(), 'claudefi-replay-'));
+    setDataSource({ mode: 'replay', path: archiveDir });
+  });
+
+  afterAll(async () => {
+    setDataSource('live');
+    await rm(archiveDir, { recursive: true, force: true });
+  });
+
+  it('should replay scripted decisions and produce a per-domain result', async () => {
+    const snapshots = [
+      snapshot('2025-01-01T00:00:00.000Z', 100),
+      snapshot('2025-01-01T00:30:00.000Z', 105),
+      snapshot('2025-01-01T01:00:00.000Z', 110),
+    ];
+
+    const seenContexts: DomainContext[] = [];
+    const script: Array<Partial<AgentDecision>> = [
+      { action: 'open_long', target: 'BTC', amountUsd: 100, metadata: { leverage: 2 } },
+      { action: 'hold' },
+      { action: 'close_position', target: 'BTC' },
+    ];
+
+    let step = 0;
+    const report = await runReplayBacktest(snapshots, {
+      domains: ['perps'],
+      initialBalance: 1000,
+      label: 'scripted',
+      decide: async (domains, contexts) => {
+        const context = contexts.get('perps')!;
+        seenContexts.push(context);
+
+        const planned = script[step++];
+        const decision: AgentDecision = {
+          domain: 'perps',
+          action: planned.action!,
+          target: planned.target,
+          amountUsd: planned.amountUsd,
+          reasoning: 'scripted',
+          confidence: 0.8,
+          metadata: planned.action === 'close_position'
+            ? { positionId: context.positions[0]?.id }
+            : planned.metadata,
+        };
+        return new Map<Domain, AgentDecision | null>(domains.map(d => [d, decision]));
+      },
+    });
+
+    // Contexts come from the snapshot and the simulated ledger
+    expect(seenContexts[0].markets[0].metadata.price).toBe(100);
+    expect(seenContexts[0].timestamp).toBe('2025-01-01T00:00:00.000Z');
+    // $100 notional fills as $99.95 + $0.05 slippage + $0.045 taker fee; 2x takes $49.975 margin
+    expect(seenContexts[1].balance).toBeCloseTo(949.93, 6);
+    expect(seenContexts[1].positions[0].currentValueUsd).toBeCloseTo(54.9725, 6); // margin + 5% of $99.95
+
+    // Long $99.95 notional from 100 -> 110 = +$9.995 (+20% on margin), less entry and exit costs
+    const result = report.results.perps!;
+    expect(result.strategyName).toBe('scripted');
+    expect(result.totalTrades).toBe(1);
+    expect(result.totalPnl).toBeCloseTo(9.796, 3);
+    expect(result.trades[0].direction).toBe('long');
+    expect(result.startDate.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+
+    expect(report.decisions).toHaveLength(3);
+    expect(report.decisions.filter(d => d.executed)).toHaveLength(2);
+  });
+
+  it('should settle open positions at the last recorded marks', async () => {
+    const report = await runReplayBacktest(
+      [snapshot('2025-01-01T00:00:00.000Z', 100), snapshot('2025-01-01T00:30:00.000Z', 90)],
+      {
+        domains: ['perps'],
+        decide: async (domains, contexts) => {
+          const hasPosition = contexts.get('perps')!.positions.length > 0;
+          const decision: AgentDecision = hasPosition
+            ? { domain: 'perps', action: 'hold', reasoning: 'wait', confidence: 0.5 }
+            : {
+                domain: 'perps',
+                action: 'open_short',
+                target: 'BTC',
+                amountUsd: 200,
+                reasoning: 'scripted',
+                confidence: 0.7,
+                metadata: { leverage: 3 },
+              };
+          return new Map<Domain, AgentDecision | null>(domains.map(d => [d, decision]));
+        },
+      }
+    );
+
+    const trade = report.results.perps!.trades[0];
+    expect(trade.reason).toBe('end_of_replay');
+    expect(trade.direction).toBe('short');
+    expect(trade.pnl).toBeCloseTo(19.81, 6); // 10% of $199.90 notional, less $0.10 slippage + $0.09 fee
+  });
+
+  it('should value DLMM positions with sqrt price ratio plus fees', () => {
+    const position: Position = {
+      id: 'p1',
+      domain: 'dlmm',
+      target: 'pool',
+      entryValueUsd: 1000,
+      currentValueUsd: 1000,
+      status: 'open',
+      openedAt: '2025-01-01T00:00:00.000Z',
+      metadata: { entryPrice: 100, apr: 36.5 },
+    };
+
+    // Price x4 -> value x2, plus 1 day of 36.5% APR = $1
+    const value = markPositionValue(position, 400, new Date('2025-01-02T00:00:00.000Z'));
+    expect(value).toBeCloseTo(2001, 2);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Resolution Watcher Tests
+ *
+ * Tests Polymarket settlement:
+ * - Resolution is read from closed markets' outcome prices
+ * - Open, proposed or disputed markets are left alone
+ * - Held shares settle at $1/$0 (or $0.50 on a 50-50 resolution)
+ * - Shares sold before resolution count in the P&L but not the payout
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Position } from '../types/index.js';
+import { gammaClient, type PolyMarket } from '../clients/polymarket/client.js';
+import { settlePosition, positionConditionId } from '../services/resolution-watcher.js';
+
+function market(overrides: Partial<PolyMarket>): PolyMarket {
+  return {
+    id: '1',
+    condition_id: '0xabc',
+    question: 'Will it happen?',
+    endDate: '2025-06-01T00:00:00Z',
+    active: false,
+    closed: true,
+    archived: false,
+    bestBid: 0,
+    bestAsk: 0,
+    lastTradePrice: 0.99,
+    outcomePrices: '["1", "0"]',
+    umaResolutionStatus: 'resolved',
+    ...overrides,
+  };
+}
+
+function position(metadata: Record<string, unknown>): Position {
+  return {
+    id: 'pos-1',
+    domain: 'polymarket',
+    target: '0xabc',
+    entryValueUsd: 60,
+    currentValueUsd: 95,
+    status: 'open',
+    openedAt: '2025-05-01T00:00:00Z',
+    metadata,
+  };
+}
+
+describe('Resolution Watcher', () => {
+  it('should read the winner from a resolved market', () => {
+    expect(gammaClient.getResolution(market({}))).toEqual({ yesPayout: 1, noPayout: 0, winner: 'YES' });
+    expect(gammaClient.getResolution(market({ outcomePrices: [0, 1] }))).toEqual({ yesPayout: 0, noPayout: 1, winner: 'NO' });
+    expect(gammaClient.getResolution(market({ outcomePrices: '["0.5", "0.5"]' })))
+      .toEqual({ yesPayout: 0.5, noPayout: 0.5, winner: undefined });
+  });
+
+  it('should leave unresolved markets alone', () => {
+    expect(gammaClient.getResolution(market({ closed: false }))).toBeNull();
+    expect(gammaClient.getResolution(market({ umaResolutionStatus: 'disputed' }))).toBeNull();
+    expect(gammaClient.getResolution(market({ outcomePrices: '["0.97", "0.03"]' }))).toBeNull();
+    expect(gammaClient.getResolution(market({ outcomePrices: undefined }))).toBeNull();
+  });
+
+  it('should settle held shares at the payout', () => {
+    const yes = settlePosition(position({ outcome: 'YES', shares: 100 }), { yesPayout: 1, noPayout: 0, winner: 'YES' });
+    expect(yes).toMatchObject({ outcome: 'YES', shares: 100, payoutUsd: 100, pnl: 40 });
+    expect(yes.pnlPercent).toBeCloseTo(66.67, 1);
+
+    // Shares from the fill price when the position didn't record them
+    const no = settlePosition(position({ outcome: 'NO', fillPrice: 0.4 }), { yesPayout: 1, noPayout: 0, winner: 'YES' });
+    expect(no).toMatchObject({ outcome: 'NO', shares: 150, payoutUsd: 0, pnl: -60, pnlPercent: -100 });
+
+    const split = settlePosition(position({ outcome: 'NO', shares: 100 }), { yesPayout: 0.5, noPayout: 0.5 });
+    expect(split.payoutUsd).toBe(50);
+  });
+
+  it('should settle only the shares left after a partial sell', async () => {
+    const held: Position = { ...position({ outcome: 'YES', shares: 100 }), entryValueUsd: 50, currentValueUsd: 60 };
+
+    vi.resetModules();
+    vi.doMock('../data/provider.js', () => ({
+      reducePosition: async (_id: string, sale: { proportion: number; currentValueUsd: number; metadata: Record<string, unknown> }) => {
+        held.entryValueUsd *= 1 - sale.proportion;
+        held.currentValueUsd = sale.currentValueUsd;
+        held.metadata = sale.metadata;
+      },
+    }));
+
+    try {
+      const { saleOutcome, reduceSoldPosition } = await import('../services/resting-orders.js');
+      const { settlePosition: settle } = await import('../services/resolution-watcher.js');
+
+      // Sell 40 of 100 shares at $0.60: $24 for $20 of cost basis
+      const sale = saleOutcome(held, 0.4, 24);
+      await reduceSoldPosition(held, 0.4, sale, 36, 0.6);
+      expect(held.entryValueUsd).toBeCloseTo(30, 6);
+      expect(held.metadata).toMatchObject({ shares: 60, realizedPnlUsd: 4, realizedCostBasisUsd: 20 });
+
+      // The other 60 pay $1: $4 + ($60 - $30) on the full $50
+      const settlement = settle(held, { yesPayout: 1, noPayout: 0, winner: 'YES' });
+      expect(settlement).toMatchObject({ shares: 60, payoutUsd: 60, costBasisUsd: 50 });
+      expect(settlement.pnl).toBeCloseTo(34, 6);
+      expect(settlement.pnlPercent).toBeCloseTo(68, 6);
+    } finally {
+      vi.doUnmock('../data/provider.js');
+      vi.resetModules();
+    }
+  });
+
+  it('should find the market behind a position', () => {
+    expect(positionConditionId(position({ condition_id: '0xdef' }))).toBe('0xdef');
+    expect(positionConditionId(position({ conditionId: '0x123' }))).toBe('0x123');
+    expect(positionConditionId(position({}))).toBe('0xabc');
+  });
+});
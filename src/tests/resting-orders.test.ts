@@ -0,0 +1,208 @@
+/**
+ * Resting Order Tests
+ *
+ * Tests the pure parts of Polymarket limit orders:
+ * - Only the marketable part of a limit order walks the book
+ * - Resting orders fill against crossing liquidity at their limit
+ * - Fill deltas between syncs, and position share counts
+ * - Expired and stale orders come off the book
+ * - buy_yes/buy_no/sell map to an order side and outcome
+ * - Synced fills move shares, cost basis and P&L into the position
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AgentDecision, Domain, Position } from '../types/index.js';
+import type { RestingOrderRecord } from '../types/internal.js';
+import { walkBook, matchRestingOrder } from '../execution/index.js';
+import { polymarketOrderSide } from '../execution/polymarket-executor.js';
+import { restingOrderStaleness, restingFillDelta, positionShares } from '../services/resting-orders.js';
+
+const asks = [
+  { price: 0.52, size: 100 },
+  { price: 0.55, size: 200 },
+  { price: 0.60, size: 500 },
+];
+
+function decision(action: string, metadata?: Record<string, unknown>): AgentDecision {
+  return { domain: 'polymarket', action, target: '0xabc', amountUsd: 50, reasoning: 'Mispriced', confidence: 0.7, metadata };
+}
+
+describe('Resting Orders', () => {
+  it('should only walk levels at or better than the limit', () => {
+    const walked = walkBook(asks, 200, 'buy', 0.51, 0.55);
+
+    // 100 @ 0.52 + 200 @ 0.55 = $162 of the $200 budget
+    expect(walked.avgPrice).toBeCloseTo(162 / 300, 6);
+    expect(walked.partial).toBe(true);
+  });
+
+  it('should fill a resting buy at its limit up to the crossing size', () => {
+    const order = { side: 'buy' as const, limitPrice: 0.55, size: 400, filledSize: 0 };
+    expect(matchRestingOrder(order, asks)).toEqual({ filledSize: 300, avgFillPrice: 0.55 });
+
+    const filled = matchRestingOrder({ ...order, filledSize: 300, avgFillPrice: 0.55 }, asks);
+    expect(filled.filledSize).toBe(400);
+
+    // Nothing crosses a lower bid
+    expect(matchRestingOrder({ ...order, limitPrice: 0.5 }, asks)).toEqual({ filledSize: 0, avgFillPrice: undefined });
+  });
+
+  it('should fill a resting sell against bids at or above the limit', () => {
+    const bids = [{ price: 0.48, size: 50 }, { price: 0.45, size: 100 }];
+    const order = { side: 'sell' as const, limitPrice: 0.46, size: 80, filledSize: 0 };
+    expect(matchRestingOrder(order, bids)).toEqual({ filledSize: 50, avgFillPrice: 0.46 });
+  });
+
+  it('should price only the new part of a fill', () => {
+    const order = { filledSize: 100, avgFillPrice: 0.5, limitPrice: 0.5 };
+
+    const fill = restingFillDelta(order, { filledSize: 150, avgFillPrice: 0.48 });
+    // 150 @ 0.48 = $72, of which $50 was booked before
+    expect(fill?.shares).toBe(50);
+    expect(fill?.usd).toBeCloseTo(22, 6);
+    expect(fill?.price).toBeCloseTo(0.44, 6);
+
+    expect(restingFillDelta(order, { filledSize: 100 })).toBeNull();
+    expect(restingFillDelta({ filledSize: 0, limitPrice: 0.4 }, { filledSize: 10 })?.usd).toBeCloseTo(4, 6);
+  });
+
+  it('should count position shares from metadata or entry price', () => {
+    expect(positionShares({ entryValueUsd: 50, metadata: { shares: 120 } })).toBe(120);
+    expect(positionShares({ entryValueUsd: 50, metadata: { fillPrice: 0.5 } })).toBe(100);
+    expect(positionShares({ entryValueUsd: 50, metadata: {} })).toBe(0);
+  });
+
+  it('should take expired and stale orders off the book', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const hour = 3_600_000;
+
+    expect(restingOrderStaleness({ createdAt: new Date(now.getTime() - hour), expiresAt: new Date(now.getTime() - 1) }, now, 6 * hour))
+      .toBe('expired');
+    expect(restingOrderStaleness({ createdAt: new Date(now.getTime() - 7 * hour) }, now, 6 * hour)).toBe('stale');
+    expect(restingOrderStaleness({ createdAt: new Date(now.getTime() - hour) }, now, 6 * hour)).toBeNull();
+    expect(restingOrderStaleness({ createdAt: new Date(0) }, now, 0)).toBeNull();
+  });
+
+  it('should map agent actions to an order side and outcome', () => {
+    expect(polymarketOrderSide(decision('buy_yes'))).toEqual({ side: 'buy', outcome: 'YES' });
+    expect(polymarketOrderSide(decision('buy_no'))).toEqual({ side: 'buy', outcome: 'NO' });
+    expect(polymarketOrderSide(decision('buy'))).toEqual({ side: 'buy', outcome: undefined });
+    expect(polymarketOrderSide(decision('partial_sell', { outcome: 'no' }))).toEqual({ side: 'sell', outcome: 'NO' });
+    expect(polymarketOrderSide(decision('open_long'))).toBeNull();
+  });
+});
+
+describe('Resting Order Fills', () => {
+  afterEach(() => {
+    vi.doUnmock('../data/provider.js');
+    vi.doUnmock('../venues/index.js');
+    vi.resetModules();
+  });
+
+  async function loadWithFakes(position: Position | null, fills: Array<{ filledSize: number; avgFillPrice: number }>) {
+    const positions = position ? [position] : [];
+    const calls = {
+      create: [] as Array<Record<string, unknown>>,
+      reduce: [] as Array<Record<string, unknown>>,
+      close: [] as Array<Record<string, unknown>>,
+    };
+    let order: RestingOrderRecord;
+    let balance = 1000;
+
+    vi.resetModules();
+    vi.doMock('../data/provider.js', () => ({
+      getDomainBalance: async () => balance,
+      updateDomainBalance: async (_domain: Domain, next: number) => { balance = next; },
+      getOpenPositions: async () => positions.filter(p => p.status === 'open'),
+      createPosition: async (_domain: Domain, data: Record<string, unknown>) => {
+        calls.create.push(data);
+        return 'pos-new';
+      },
+      increasePosition: async () => {},
+      reducePosition: async (id: string, sale: { proportion: number; currentValueUsd: number; metadata: Record<string, unknown> }) => {
+        calls.reduce.push(sale);
+        const p = positions.find(p => p.id === id)!;
+        p.entryValueUsd *= 1 - sale.proportion;
+        p.currentValueUsd = sale.currentValueUsd;
+        p.metadata = sale.metadata;
+      },
+      closePosition: async (_domain: Domain, id: string, data: Record<string, unknown>) => {
+        calls.close.push(data);
+        positions.find(p => p.id === id)!.status = 'closed';
+      },
+      getRestingOrders: async () => [order],
+      updateRestingOrder: async (_id: string, updates: Partial<RestingOrderRecord>) => {
+        order = { ...order, ...updates };
+      },
+      createRestingOrder: async () => {},
+    }));
+    vi.doMock('../venues/index.js', () => ({
+      venueRegistry: {
+        get: () => ({ syncOrder: async () => ({ status: 'open', ...fills.shift()! }) }),
+      },
+    }));
+
+    const { syncRestingOrders } = await import('../services/resting-orders.js');
+    return {
+      calls,
+      balance: () => balance,
+      order: () => order,
+      setOrder: (next: RestingOrderRecord) => { order = next; },
+      sync: () => syncRestingOrders('polymarket'),
+    };
+  }
+
+  function restingOrder(overrides: Partial<RestingOrderRecord>): RestingOrderRecord {
+    return {
+      id: 'ro-1', domain: 'polymarket', venue: 'polymarket', orderId: 'paper_1', target: '0xabc',
+      side: 'sell', limitPrice: 0.6, size: 100, filledSize: 0, reservedUsd: 0, timeInForce: 'GTC',
+      status: 'open', paper: true, metadata: {}, createdAt: new Date(), updatedAt: new Date(),
+      ...overrides,
+    };
+  }
+
+  it('should shrink the position on partial sells and sum P&L across fills', async () => {
+    const position: Position = {
+      id: 'pos-1', domain: 'polymarket', target: '0xabc', entryValueUsd: 50, currentValueUsd: 60,
+      status: 'open', openedAt: '2025-06-01T00:00:00Z', metadata: { shares: 100, fillPrice: 0.5 },
+    };
+    const fake = await loadWithFakes(position, [
+      { filledSize: 40, avgFillPrice: 0.6 },
+      { filledSize: 100, avgFillPrice: 0.6 },
+    ]);
+    fake.setOrder(restingOrder({ positionId: 'pos-1', metadata: { closesPosition: true } }));
+
+    // 40 of 100 shares at 0.6 = $24 against $20 of cost basis
+    expect((await fake.sync()).closed).toEqual([]);
+    expect(fake.calls.reduce[0]).toMatchObject({ proportion: 0.4, currentValueUsd: 36 });
+    expect(fake.calls.reduce[0].metadata).toMatchObject({ shares: 60, realizedPnlUsd: 4, realizedCostBasisUsd: 20 });
+    expect(position.entryValueUsd).toBeCloseTo(30, 6);
+
+    // The last 60 shares: $36 against the remaining $30, so $10 on $50 in total
+    const summary = await fake.sync();
+    expect(fake.calls.close).toHaveLength(1);
+    expect(fake.calls.close[0].realizedPnl).toBeCloseTo(10, 6);
+    expect(summary.closed).toHaveLength(1);
+    expect(summary.closed[0].pnl).toBeCloseTo(10, 6);
+    expect(summary.closed[0].pnlPercent).toBeCloseTo(20, 6);
+    expect(summary.closed[0].exitValueUsd).toBeCloseTo(60, 6);
+  });
+
+  it('should cancel a sell whose position already closed instead of crediting it', async () => {
+    const fake = await loadWithFakes(null, [{ filledSize: 40, avgFillPrice: 0.6 }]);
+    fake.setOrder(restingOrder({ positionId: 'pos-gone' }));
+
+    const summary = await fake.sync();
+    expect(summary).toMatchObject({ filled: 0, cancelled: 1 });
+    expect(fake.balance()).toBe(1000);
+    expect(fake.order().status).toBe('cancelled');
+  });
+
+  it('should link positions opened by buy fills to the order decision', async () => {
+    const fake = await loadWithFakes(null, [{ filledSize: 50, avgFillPrice: 0.4 }]);
+    fake.setOrder(restingOrder({ side: 'buy', limitPrice: 0.4, reservedUsd: 40, decisionId: 'dec-1' }));
+
+    await fake.sync();
+    expect(fake.calls.create[0].metadata).toMatchObject({ decisionId: 'dec-1', shares: 50, restingOrderId: 'ro-1' });
+  });
+});
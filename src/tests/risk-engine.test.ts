@@ -0,0 +1,119 @@
+/**
+ * Portfolio Risk Engine Tests
+ *
+ * Tests exposure netting and VaR limits used by the portfolio-risk hook:
+ * - Mapping positions to underlying assets (DLMM pairs, perps shorts, stables)
+ * - Netting one asset across domains
+ * - Parametric VaR with correlations
+ * - Downsizing and rejecting decisions that breach limits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exposuresFor,
+  aggregateExposures,
+  estimateReturnStats,
+  calculateVaR,
+  assessRisk,
+  correlationKey,
+  type ExposureItem,
+  type ReturnStats,
+  type RiskLimits,
+} from '../services/risk-engine.js';
+
+const limits: RiskLimits = { maxVarPct: 0.05, maxAssetExposurePct: 0.4, confidence: 0.95 };
+
+function stats(vols: Record<string, number>, correlations: Array<[string, string, number]> = []): ReturnStats {
+  return {
+    volatility: new Map(Object.entries(vols)),
+    correlation: new Map(correlations.map(([a, b, rho]) => [correlationKey(a, b), rho])),
+  };
+}
+
+describe('Portfolio Risk Engine', () => {
+  describe('exposures', () => {
+    it('should net one asset across spot, DLMM and perps', () => {
+      const items: ExposureItem[] = [
+        ...exposuresFor('spot', { target: 'So111', symbol: 'SOL', usd: 100 }),
+        ...exposuresFor('dlmm', { target: 'pool', pairName: 'SOL-USDC', usd: 200 }),
+        ...exposuresFor('perps', { target: 'SOL', side: 'SHORT', usd: 150 }),
+      ];
+
+      const [sol] = aggregateExposures(items);
+      expect(sol.asset).toBe('SOL');
+      expect(sol.netUsd).toBeCloseTo(50, 6);   // 100 + 100 (half the pool) - 150
+      expect(sol.grossUsd).toBeCloseTo(350, 6);
+      expect(sol.domains).toEqual(['spot', 'dlmm', 'perps']);
+    });
+
+    it('should split volatile pairs and treat wrapped tokens as the underlying', () => {
+      const items = exposuresFor('dlmm', { target: 'pool', pairName: 'WSOL-JUP', usd: 300 });
+      expect(items.map(i => [i.asset, i.usd])).toEqual([['SOL', 150], ['JUP', 150]]);
+    });
+  });
+
+  describe('VaR', () => {
+    it('should estimate daily volatility and correlation from candles', () => {
+      const closes = [100, 110, 99, 108.9, 98.01];
+      const result = estimateReturnStats({
+        A: closes.map((c, i) => [i, c]),
+        B: closes.map((c, i) => [i, c * 2]),
+      }, 1);
+
+      expect(result.volatility.get('A')).toBeCloseTo(result.volatility.get('B')!, 9);
+      expect(result.correlation.get(correlationKey('A', 'B'))).toBeCloseTo(1, 6);
+    });
+
+    it('should diversify uncorrelated exposures and offset hedged ones', () => {
+      const s = stats({ BTC: 0.05, ETH: 0.05 }, [['BTC', 'ETH', 1]]);
+      const single = calculateVaR(aggregateExposures([{ asset: 'BTC', usd: 1000, domain: 'perps' }]), s, 0.95);
+      expect(single).toBeCloseTo(1.645 * 50, 6);
+
+      const hedged = calculateVaR(aggregateExposures([
+        { asset: 'BTC', usd: 1000, domain: 'perps' },
+        { asset: 'ETH', usd: -1000, domain: 'perps' },
+      ]), s, 0.95);
+      expect(hedged).toBeCloseTo(0, 6);
+
+      const uncorrelated = calculateVaR(aggregateExposures([
+        { asset: 'BTC', usd: 1000, domain: 'perps' },
+        { asset: 'SOL', usd: 1000, domain: 'spot' },   // Default 8% vol, no correlation
+      ]), s, 0.95);
+      expect(uncorrelated).toBeCloseTo(1.645 * Math.sqrt(50 ** 2 + 80 ** 2), 6);
+    });
+  });
+
+  describe('limits', () => {
+    it('should downsize a trade that breaches the per-asset exposure limit', () => {
+      const current = exposuresFor('spot', { target: 'SOL', usd: 300 });
+      const proposed = exposuresFor('perps', { target: 'SOL', usd: 200 });
+
+      const result = assessRisk(current, proposed, 1000, stats({ SOL: 0.01 }), limits);
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('SOL');
+      expect(result.scale).toBeCloseTo(0.5, 3);   // Only $100 more fits under 40%
+      expect(result.before.exposures[0].netUsd).toBeCloseTo(300, 6);
+    });
+
+    it('should reject when VaR is already at the limit', () => {
+      const current = exposuresFor('perps', { target: 'BTC', usd: 1000 });
+      const proposed = exposuresFor('perps', { target: 'ETH', usd: 500 });
+      const s = stats({ BTC: 0.03, ETH: 0.03 }, [['BTC', 'ETH', 0.9]]);
+
+      const result = assessRisk(current, proposed, 1000, s, { ...limits, maxAssetExposurePct: 2, maxVarPct: 0.0494 });
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('VaR');
+      expect(result.scale).toBeLessThan(0.01);
+    });
+
+    it('should allow hedges even when the portfolio is over its limits', () => {
+      const current = exposuresFor('spot', { target: 'SOL', usd: 800 });
+      const proposed = exposuresFor('perps', { target: 'SOL', side: 'SHORT', usd: 300 });
+
+      const result = assessRisk(current, proposed, 1000, stats({ SOL: 0.05 }), limits);
+      expect(result.allowed).toBe(true);
+      expect(result.after.varUsd).toBeLessThan(result.before.varUsd);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Skill Version Tests
+ *
+ * Tests the line diff behind `claudefi skills diff`:
+ * - Unchanged revisions
+ * - Added, removed and replaced lines
+ * - Lines dropped by a merge
+ *
+ * And recording / rollback against an in-memory SkillVersion table:
+ * - Versions increment, unchanged content isn't re-recorded
+ * - Outcomes count against the version that was presented
+ * - Rollback restores the file and records a new version
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { diffLines } from '../skills/skill-versions.js';
+
+interface VersionRow {
+  id: string;
+  skillName: string;
+  domain: string;
+  version: number;
+  parentId: string | null;
+  mergedFrom: string;
+  source: string;
+  content: string;
+  timesApplied: number;
+  successCount: number;
+  failureCount: number;
+  effectivenessScore: number | null;
+  createdAt: Date;
+}
+
+/**
+ * Just enough of prisma.skillVersion / skillReflection for skill-versions.ts
+ */
+function fakePrisma() {
+  const rows: VersionRow[] = [];
+  const reflections = new Map<string, number>();
+  const matches = (row: VersionRow, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) =>
+      key === 'id' && typeof value === 'object' && value !== null
+        ? (value as { in: string[] }).in.includes(row.id)
+        : row[key as keyof VersionRow] === value
+    );
+  const sorted = (list: VersionRow[], orderBy?: Record<string, 'asc' | 'desc'>) => {
+    if (!orderBy) return list;
+    const [key, dir] = Object.entries(orderBy)[0];
+    return [...list].sort((a, b) => {
+      const diff = Number(a[key as keyof VersionRow]) - Number(b[key as keyof VersionRow]);
+      return dir === 'asc' ? diff : -diff;
+    });
+  };
+
+  return {
+    rows,
+    reflections,
+    prisma: {
+      skillVersion: {
+        findFirst: async ({ where, orderBy }: { where: Record<string, unknown>; orderBy?: Record<string, 'asc' | 'desc'> }) =>
+          sorted(rows.filter(r => matches(r, where)), orderBy)[0] ?? null,
+        findMany: async ({ where, orderBy }: { where: Record<string, unknown>; orderBy?: Record<string, 'asc' | 'desc'> }) =>
+          sorted(rows.filter(r => matches(r, where)), orderBy),
+        findUnique: async ({ where }: { where: { skillName_domain_version: Record<string, unknown> } }) =>
+          rows.find(r => matches(r, where.skillName_domain_version)) ?? null,
+        create: async ({ data }: { data: Omit<VersionRow, 'id' | 'timesApplied' | 'successCount' | 'failureCount' | 'effectivenessScore' | 'createdAt' | 'parentId'> & { parentId?: string } }) => {
+          const row: VersionRow = {
+            ...data,
+            id: `v-${rows.length + 1}`,
+            parentId: data.parentId ?? null,
+            timesApplied: 0,
+            successCount: 0,
+            failureCount: 0,
+            effectivenessScore: null,
+            createdAt: new Date(Date.UTC(2026, 0, rows.length + 1)),
+          };
+          rows.push(row);
+          return row;
+        },
+        update: async ({ where, data }: { where: { id: string }; data: Partial<VersionRow> }) => {
+          const row = rows.find(r => r.id === where.id)!;
+          Object.assign(row, data);
+          return row;
+        },
+      },
+      skillReflection: {
+        updateMany: async ({ where, data }: { where: { skillName: string }; data: { currentVersion: number } }) => {
+          reflections.set(where.skillName, data.currentVersion);
+          return { count: 1 };
+        },
+      },
+    },
+  };
+}
+
+describe('Skill Versions', () => {
+  it('should report no changes for identical revisions', () => {
+    const content = '# Warning\n\nAvoid pools under $50k TVL';
+    expect(diffLines(content, content).every(line => line.op === ' ')).toBe(true);
+  });
+
+  it('should mark added, removed and replaced lines', () => {
+    const before = ['# Warning', 'Avoid pools under $50k TVL', 'Exit after 24h'].join('\n');
+    const after = ['# Warning', 'Avoid pools under $100k TVL', 'Exit after 24h', 'Check volume first'].join('\n');
+
+    expect(diffLines(before, after)).toEqual([
+      { op: ' ', text: '# Warning' },
+      { op: '-', text: 'Avoid pools under $50k TVL' },
+      { op: '+', text: 'Avoid pools under $100k TVL' },
+      { op: ' ', text: 'Exit after 24h' },
+      { op: '+', text: 'Check volume first' },
+    ]);
+  });
+
+  it('should mark lines dropped by a merge', () => {
+    const lines = diffLines('# Warning\nAvoid low TVL\nAvoid new pools', '# Warning\nAvoid low TVL');
+    expect(lines.filter(l => l.op === '-').map(l => l.text)).toEqual(['Avoid new pools']);
+    expect(lines.some(l => l.op === '+')).toBe(false);
+  });
+});
+
+describe('Skill Version History', () => {
+  let skillsDir: string;
+  let db: ReturnType<typeof fakePrisma>;
+
+  beforeEach(async () => {
+    skillsDir = await mkdtemp(path.join(os.tmpdir(), 'claudefi-skills-'));
+    db = fakePrisma();
+    vi.resetModules();
+    vi.doMock('../db/prisma.js', () => ({ prisma: db.prisma }));
+    vi.doMock('../skills/reflection-creator.js', () => ({ SKILLS_DIR: skillsDir }));
+  });
+
+  afterEach(async () => {
+    vi.doUnmock('../db/prisma.js');
+    vi.doUnmock('../skills/reflection-creator.js');
+    await rm(skillsDir, { recursive: true, force: true });
+  });
+
+  it('should number new revisions and skip unchanged content', async () => {
+    const { recordSkillVersion, getSkillHistory } = await import('../skills/skill-versions.js');
+
+    const v1 = await recordSkillVersion({ skillName: 'warning-dlmm-low-tvl', domain: 'dlmm', content: 'Avoid low TVL', source: 'created' });
+    const same = await recordSkillVersion({ skillName: 'warning-dlmm-low-tvl', domain: 'dlmm', content: 'Avoid low TVL', source: 'created' });
+    const v2 = await recordSkillVersion({
+      skillName: 'warning-dlmm-low-tvl',
+      domain: 'dlmm',
+      content: 'Avoid TVL under $100k',
+      source: 'merged',
+      mergedFrom: ['other-v1'],
+    });
+
+    expect(same.id).toBe(v1.id);
+    expect(v2).toMatchObject({ version: 2, parentId: v1.id, source: 'merged', mergedFrom: ['other-v1'] });
+    expect(db.reflections.get('warning-dlmm-low-tvl')).toBe(2);
+    expect((await getSkillHistory('warning-dlmm-low-tvl')).map(v => v.version)).toEqual([1, 2]);
+  });
+
+  it('should count outcomes against the version that was presented', async () => {
+    const { recordSkillVersion, recordSkillVersionOutcome, getSkillHistory } = await import('../skills/skill-versions.js');
+
+    await recordSkillVersion({ skillName: 'pattern-perps-funding', domain: 'perps', content: 'v1', source: 'created' });
+    await recordSkillVersion({ skillName: 'pattern-perps-funding', domain: 'perps', content: 'v2', source: 'merged' });
+
+    await recordSkillVersionOutcome('pattern-perps-funding', 'perps', 1, true);
+    await recordSkillVersionOutcome('pattern-perps-funding', 'perps', 1, false);
+    await recordSkillVersionOutcome('pattern-perps-funding', 'perps', 2, true);
+    await recordSkillVersionOutcome('pattern-perps-funding', 'perps', 9, true); // Unknown version is ignored
+
+    const [v1, v2] = await getSkillHistory('pattern-perps-funding', 'perps');
+    expect(v1).toMatchObject({ timesApplied: 2, successCount: 1, failureCount: 1, effectivenessScore: 0.5 });
+    expect(v2).toMatchObject({ timesApplied: 1, successCount: 1, effectivenessScore: 1 });
+  });
+
+  it('should restore an earlier version to disk as a new rollback version', async () => {
+    const { recordSkillVersion, rollbackSkill, getSkillHistory } = await import('../skills/skill-versions.js');
+
+    await recordSkillVersion({ skillName: 'warning-dlmm-new-pools', domain: 'dlmm', content: 'Original advice', source: 'created' });
+    await recordSkillVersion({ skillName: 'warning-dlmm-new-pools', domain: 'dlmm', content: 'Worse merged advice', source: 'merged' });
+
+    const restored = await rollbackSkill('warning-dlmm-new-pools', 1);
+
+    expect(restored).toMatchObject({ version: 3, source: 'rollback', content: 'Original advice' });
+    expect(await readFile(path.join(skillsDir, 'warning-dlmm-new-pools.md'), 'utf-8')).toBe('Original advice');
+    expect((await getSkillHistory('warning-dlmm-new-pools', 'dlmm')).map(v => v.source)).toEqual(['created', 'merged', 'rollback']);
+    expect(db.reflections.get('warning-dlmm-new-pools')).toBe(3);
+
+    expect(await rollbackSkill('warning-dlmm-new-pools', 7)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Venue Adapter Tests
+ *
+ * Tests the venue registry the orchestrator routes through:
+ * - Built-in venues registered for every domain
+ * - Venue selection from decision metadata, environment and defaults
+ * - Executing decisions on a custom adapter without touching the loop
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AgentDecision } from '../types/index.js';
+import { venueRegistry, BUILT_IN_VENUES, type VenueAdapter } from '../venues/index.js';
+import { executeDecisionForDomain } from '../execution/index.js';
+
+function testVenue(id: string, executed: AgentDecision[] = []): VenueAdapter {
+  return {
+    id,
+    name: `Test ${id}`,
+    domain: 'perps',
+    listMarkets: async () => [{ id: 'SOL', name: 'SOL Perp', domain: 'perps', metadata: {} }],
+    quote: async () => null,
+    execute: async (decision, options) => {
+      executed.push(decision);
+      return {
+        success: true,
+        mode: options.paperTrading ? 'paper' : 'real',
+        fills: [{ target: decision.target ?? 'unknown', sizeUsd: decision.amountUsd ?? 0 }],
+      };
+    },
+    close: async () => ({ success: true, mode: 'paper' }),
+    syncPositions: async () => [],
+    verify: async () => ({ verified: true }),
+    createTools: () => [],
+    executeTool: async () => ({ content: [] }),
+  };
+}
+
+const decision: AgentDecision = {
+  domain: 'perps',
+  action: 'open_long',
+  target: 'SOL',
+  amountUsd: 100,
+  reasoning: 'Test decision',
+  confidence: 0.8,
+  metadata: { leverage: 2 },
+};
+
+describe('Venues', () => {
+  afterEach(() => {
+    venueRegistry.unregister('test-drift');
+    venueRegistry.unregister('test-other');
+    delete process.env.VENUE_PERPS;
+  });
+
+  it('should register a built-in venue for every domain', () => {
+    expect(BUILT_IN_VENUES).toHaveLength(4);
+    expect(venueRegistry.forDomain('dlmm')?.id).toBe('meteora');
+    expect(venueRegistry.forDomain('perps')?.id).toBe('hyperliquid');
+    expect(venueRegistry.forDomain('polymarket')?.id).toBe('polymarket');
+    expect(venueRegistry.forDomain('spot')?.id).toBe('jupiter');
+  });
+
+  it('should pick the venue from decision metadata, then environment, then the default', () => {
+    venueRegistry.register(testVenue('test-drift'));
+    venueRegistry.register(testVenue('test-other'));
+
+    expect(venueRegistry.forDecision('perps', decision)?.id).toBe('hyperliquid');
+
+    process.env.VENUE_PERPS = 'test-drift';
+    expect(venueRegistry.forDecision('perps', decision)?.id).toBe('test-drift');
+
+    const routed = { ...decision, metadata: { ...decision.metadata, venue: 'test-other' } };
+    expect(venueRegistry.forDecision('perps', routed)?.id).toBe('test-other');
+
+    // Unknown venues fall back to the default rather than failing the trade
+    process.env.VENUE_PERPS = 'missing';
+    expect(venueRegistry.forDomain('perps')?.id).toBe('hyperliquid');
+  });
+
+  it('should execute decisions on a registered adapter and report its id', async () => {
+    const executed: AgentDecision[] = [];
+    venueRegistry.register(testVenue('test-drift', executed));
+
+    const routed = { ...decision, metadata: { ...decision.metadata, venue: 'test-drift' } };
+    const result = await executeDecisionForDomain('perps', routed, { paperTrading: true });
+
+    expect(result.success).toBe(true);
+    expect(result.venue).toBe('test-drift');
+    expect(result.fills?.[0].sizeUsd).toBe(100);
+    expect(executed).toHaveLength(1);
+  });
+
+  it('should skip duplicate registrations', () => {
+    venueRegistry.register(testVenue('test-drift'));
+    venueRegistry.register(testVenue('test-drift'));
+
+    expect(venueRegistry.list('perps').filter(v => v.id === 'test-drift')).toHaveLength(1);
+  });
+});
@@ -1,13 +1,15 @@
 /**
  * AgentActivityPanel
  *
- * Shows real-time agent activity across all domains.
+ * Shows real-time agent activity across all domains, and the latest
+ * decisions the hooks blocked or resized.
  */
 
 import React from 'react';
 import { Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
 import { useAppContext, Domain, AgentActivity } from '../../context/AppContext.js';
+import { useHookLog } from '../../hooks/useHookLog.js';
 import { AgentChat } from './AgentChat.js';
 
 const DOMAIN_COLORS: Record<Domain, string> = {
@@ -63,6 +65,7 @@ const AgentRow: React.FC<{ agent: AgentActivity }> = ({ agent }) => {
 export const AgentActivityPanel: React.FC = () => {
   const { state } = useAppContext();
   const { agents, cycleNumber, lastCycleTime } = state;
+  const { entries: hookLog } = useHookLog();
 
   const totalToolCalls = Object.values(agents).reduce(
     (sum, a) => sum + a.toolCalls,
@@ -118,6 +121,23 @@ export const AgentActivityPanel: React.FC = () => {
               ))}
           </Box>
         )}
+
+        {/* Decisions stopped or changed by hooks */}
+        {hookLog.length > 0 && (
+          <Box marginTop={1} flexDirection="column">
+            <Text dimColor bold>Hook Activity:</Text>
+            {hookLog.map((entry) => (
+              <Box key={entry.id}>
+                <Text color={DOMAIN_COLORS[entry.domain]}>
+                  {entry.domain}:
+                </Text>
+                <Text color={entry.blocked ? 'red' : 'yellow'} wrap="truncate-end">
+                  {' '}{entry.hookName} {entry.summary}
+                </Text>
+              </Box>
+            ))}
+          </Box>
+        )}
       </Box>
 
       <Box marginTop={1} flexGrow={1}>
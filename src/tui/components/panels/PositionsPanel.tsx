@@ -9,6 +9,7 @@ import { Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
 import { usePortfolio } from '../../hooks/usePortfolio.js';
 import { Domain, Position } from '../../context/AppContext.js';
+import { dlmmPnlBreakdown } from '../../../services/dlmm-accounting.js';
 
 const DOMAIN_COLORS: Record<Domain, string> = {
   dlmm: 'blue',
@@ -65,6 +66,8 @@ const DomainColumn: React.FC<DomainColumnProps> = ({ domain, positions, balance
           {positions.slice(0, 3).map((p) => {
             const pnlColor = p.pnl >= 0 ? 'green' : 'red';
             const pnlSign = p.pnl >= 0 ? '+' : '';
+            // LP positions split P&L into fees earned and impermanent loss
+            const lp = domain === 'dlmm' ? dlmmPnlBreakdown(p.metadata ?? {}) : null;
 
             return (
               <Box
@@ -84,6 +87,15 @@ const DomainColumn: React.FC<DomainColumnProps> = ({ domain, positions, balance
                     {pnlSign}{p.pnlPercent.toFixed(0)}%
                   </Text>
                 </Box>
+                {lp && (
+                  <Box justifyContent="space-between">
+                    <Text color="green" dimColor>fee+{lp.feesUsd.toFixed(0)}</Text>
+                    <Text color="red" dimColor>IL-{lp.impermanentLossUsd.toFixed(0)}</Text>
+                  </Box>
+                )}
+                {lp?.inRange === false && (
+                  <Text color="yellow">out of range</Text>
+                )}
               </Box>
             );
           })}
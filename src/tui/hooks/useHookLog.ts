@@ -0,0 +1,70 @@
+/**
+ * useHookLog Hook
+ *
+ * Polls recent blocked and resized decisions from the hook audit log.
+ */
+
+import { useEffect, useCallback, useState } from 'react';
+import { useAppContext, Domain } from '../context/AppContext.js';
+
+const POLL_INTERVAL = 10000; // 10 seconds
+const MAX_ENTRIES = 4;
+
+export interface HookLogEntry {
+  id: string;
+  domain: Domain;
+  hookName: string;
+  summary: string;
+  blocked: boolean;
+  createdAt: Date;
+}
+
+export function useHookLog() {
+  const { state } = useAppContext();
+  const [entries, setEntries] = useState<HookLogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHookLog = useCallback(async () => {
+    try {
+      const { getHookExecutions } = await import('../../db/index.js');
+      const { describeHookExecution } = await import('../../hooks/audit.js');
+
+      // Only decisions the hooks stopped or changed are worth the space
+      const executions = await getHookExecutions({ event: 'PreDecision', limit: 50 });
+      const interesting = executions
+        .filter(e => !e.proceeded || e.modifiedInput !== undefined)
+        .slice(0, MAX_ENTRIES);
+
+      setEntries(interesting.map(e => ({
+        id: e.id,
+        domain: e.domain,
+        hookName: e.hookName,
+        summary: describeHookExecution(e),
+        blocked: !e.proceeded,
+        createdAt: e.createdAt,
+      })));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch hook log');
+    }
+  }, []);
+
+  // Initial fetch and polling
+  useEffect(() => {
+    fetchHookLog();
+
+    const interval = setInterval(fetchHookLog, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchHookLog]);
+
+  // Refresh on trigger
+  useEffect(() => {
+    if (state.refreshTrigger > 0) {
+      fetchHookLog();
+    }
+  }, [state.refreshTrigger, fetchHookLog]);
+
+  return { entries, error, refresh: fetchHookLog };
+}
+
+export default useHookLog;
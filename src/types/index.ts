@@ -200,7 +200,7 @@ export interface AgentDecision {
  */
 export interface DLMMDecision extends AgentDecision {
   domain: 'dlmm';
-  action: 'add_liquidity' | 'remove_liquidity' | 'partial_remove' | 'hold';
+  action: 'add_liquidity' | 'remove_liquidity' | 'partial_remove' | 'rebalance' | 'hold';
   metadata?: {
     poolAddress?: string;
     strategy?: 'spot' | 'curve' | 'bid-ask';
@@ -219,10 +219,20 @@ export interface PerpsDecision extends AgentDecision {
     symbol?: string;
     leverage?: number;
     positionId?: string;
+    takeProfitPrice?: number;
+    stopLossPrice?: number;
+    trailingStopPercent?: number;  // e.g. 5 = trail 5% from the best price
     [key: string]: unknown;
   };
 }
 
+/**
+ * How long a limit order stays on the book:
+ * GTC until cancelled, GTD until expiresAt, FOK fills completely or not at all,
+ * FAK fills what it can immediately and cancels the rest
+ */
+export type TimeInForce = 'GTC' | 'GTD' | 'FOK' | 'FAK';
+
 /**
  * Polymarket-specific decision
  */
@@ -233,6 +243,9 @@ export interface PolymarketDecision extends AgentDecision {
     conditionId?: string;
     positionId?: string;
     estimatedProbability?: number;
+    limitPrice?: number;           // Share price (0.01-0.99); market order if omitted
+    timeInForce?: TimeInForce;     // Default GTC for limit orders
+    expiresAt?: string;            // ISO time, for GTD
     [key: string]: unknown;
   };
 }
@@ -1,4 +1,4 @@
-import type { Domain } from './index.js';
+import type { Domain, TimeInForce } from './index.js';
 
 export interface AgentWallets {
   solana_wallet_pubkey?: string;
@@ -26,3 +26,175 @@ export interface CommunitySkillRecord {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export type ExitConditionStatus = 'active' | 'triggered' | 'cancelled' | 'failed';
+
+/**
+ * Persisted exit condition (see PositionMonitor)
+ */
+export interface ExitConditionRecord {
+  id: string;
+  positionId: string;
+  domain: Domain;
+  type: string;
+  triggerPrice?: number;
+  triggerPriceDirection?: 'above' | 'below';
+  triggerTime?: Date;
+  marginThreshold?: number;
+  trailingPercent?: number;
+  highWaterMark?: number;
+  status: ExitConditionStatus;
+  triggerReason?: string;
+  executionPrice?: number;
+  createdAt: Date;
+  triggeredAt?: Date;
+  cancelledAt?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export type RestingOrderStatus = 'open' | 'filled' | 'cancelled' | 'expired';
+
+/**
+ * Limit order left on a venue's book (see services/resting-orders)
+ */
+export interface RestingOrderRecord {
+  id: string;
+  domain: Domain;
+  venue: string;
+  orderId: string;               // Venue order id (paper_... in paper mode)
+  target: string;                // Market, e.g. Polymarket condition id
+  side: 'buy' | 'sell';
+  limitPrice: number;
+  size: number;                  // Units on the book when placed (shares)
+  filledSize: number;
+  avgFillPrice?: number;
+  reservedUsd: number;           // Balance held back for the unfilled part of a buy
+  timeInForce: TimeInForce;
+  expiresAt?: Date;
+  status: RestingOrderStatus;
+  cancelReason?: string;
+  positionId?: string;           // Position the fills go to (created on first buy fill)
+  decisionId?: string;
+  paper: boolean;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Persisted hook execution (see HookRegistry audit log)
+ */
+export interface HookExecutionRecord {
+  id: string;
+  hookName: string;
+  event: string;
+  domain: Domain;
+  proceeded: boolean;
+  reason?: string;
+  modifiedInput?: unknown;
+  action?: string;
+  target?: string;
+  decisionId?: string;
+  sessionId?: string;
+  durationMs: number;
+  createdAt: Date;
+}
+
+/**
+ * Filters for the hook audit log
+ */
+export interface HookExecutionQuery {
+  domain?: Domain;
+  hookName?: string;
+  event?: string;
+  blocked?: boolean;
+  since?: Date;
+  limit?: number;
+}
+
+export type LlmPurpose =
+  | 'subagent'
+  | 'coordinator'
+  | 'inline_judge'
+  | 'judge'
+  | 'reflection'
+  | 'skill_merge'
+  | 'chat'
+  | 'other';
+
+/**
+ * Tokens and cost of one model call (see src/services/llm-usage.ts)
+ */
+export interface LlmUsageRecord {
+  id: string;
+  model: string;
+  purpose: LlmPurpose;
+  domain?: Domain;
+  cycleId?: string;
+  decisionId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  createdAt: Date;
+}
+
+export type ExperimentKind = 'skill' | 'prompt';
+export type ExperimentArm = 'control' | 'treatment';
+
+/**
+ * Controlled experiment (see src/experiments)
+ */
+export interface ExperimentRecord {
+  id: string;
+  name: string;
+  kind: ExperimentKind;
+  domain?: Domain;
+  unit: 'decision' | 'cycle';
+  treatmentShare: number;
+  skillName?: string;
+  controlPrompt?: string;
+  treatmentPrompt?: string;
+  status: 'running' | 'stopped';
+  createdAt: Date;
+  stoppedAt?: Date;
+}
+
+/**
+ * A decision logged under an experiment, with its outcome once closed
+ */
+export interface ExperimentDecision {
+  domain: Domain;
+  arm: ExperimentArm;
+  action: string;
+  outcome?: 'profit' | 'loss' | 'pending';
+  pnlPercent?: number;
+}
+
+/**
+ * Self-reported confidence of a closed decision and how it turned out
+ */
+export interface ConfidenceOutcome {
+  confidence: number;
+  won: boolean;
+}
+
+export type MemoryImportance = 'low' | 'medium' | 'high';
+
+/**
+ * Persisted memory fact (see src/memory)
+ */
+export interface MemoryFactRecord {
+  id: string;
+  domain: Domain | 'general';
+  fact: string;
+  importance: MemoryImportance;
+  source?: string;
+  terms: Record<string, number>;
+  createdAt: Date;
+  expiresAt?: Date;
+  supersededById?: string;
+  supersededAt?: Date;
+}
@@ -0,0 +1,424 @@
+/**
+ * Built-in Venues
+ *
+ * Adapters for the venues claudefi ships with. Each wraps the existing
+ * client, executor, paper-fill simulator, MCP tools and on-chain verifier
+ * for its domain:
+ * - meteora (dlmm)
+ * - hyperliquid (perps)
+ * - polymarket (polymarket)
+ * - jupiter (spot)
+ */
+
+import type { AgentDecision, Domain, Position } from '../types/index.js';
+import type { CloseOptions, VenueAdapter, VenueQuote, VenueTool } from './types.js';
+import { venueRegistry } from './registry.js';
+import { meteoraClient } from '../clients/meteora/client.js';
+import { getMeteoraLiquidity } from '../clients/meteora/liquidity.js';
+import { hyperliquidClient } from '../clients/hyperliquid/client.js';
+import { gammaClient } from '../clients/polymarket/client.js';
+import { geckoTerminalClient } from '../clients/geckoterminal/client.js';
+import { jupiterClient } from '../clients/jupiter/client.js';
+import { executeDLMMDecision } from '../execution/dlmm-executor.js';
+import { executePerpsDecision } from '../execution/perps-executor.js';
+import {
+  executePolymarketDecision,
+  polymarketOrderSide,
+  syncPolymarketOrder,
+  cancelPolymarketOrder,
+} from '../execution/polymarket-executor.js';
+import { executeSpotDecision } from '../execution/spot-executor.js';
+import {
+  simulateDlmmFill,
+  simulatePerpsFill,
+  simulatePolymarketFill,
+  simulateSpotFill,
+  type PaperFill,
+} from '../execution/paper-fills.js';
+import { simulatePerpsPosition } from '../services/perps-simulator.js';
+import { accountDlmmPosition, dlmmBinRange } from '../services/dlmm-accounting.js';
+import { getDataSource } from '../infra/market-archive.js';
+import {
+  verifySolanaTransaction,
+  verifyHyperliquidOrder,
+  verifyPolygonTransaction,
+} from '../services/trade-verifier.js';
+import { createDlmmTools, executeDlmmTool, type DlmmRuntime } from '../subagents/mcp-servers/dlmm-server.js';
+import { createPerpsTools, executePerpsTools, type PerpsRuntime } from '../subagents/mcp-servers/perps-server.js';
+import { createPolymarketTools, executePolymarketTool, type PolymarketRuntime } from '../subagents/mcp-servers/polymarket-server.js';
+import { createSpotTools, executeSpotTool, type SpotRuntime } from '../subagents/mcp-servers/spot-server.js';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toQuote(
+  venue: string,
+  target: string,
+  side: VenueQuote['side'],
+  fill: PaperFill
+): VenueQuote {
+  return {
+    venue,
+    target,
+    side,
+    amountUsd: fill.requestedUsd,
+    filledUsd: fill.filledUsd,
+    price: fill.avgPrice,
+    feeUsd: fill.feeUsd,
+    slippageUsd: fill.slippageUsd,
+    partial: fill.partial,
+  };
+}
+
+/**
+ * Build the decision that exits a position, carrying its metadata so the
+ * executor sees the same side/symbol/outcome it opened with
+ */
+function closeDecision(
+  venue: string,
+  domain: Domain,
+  action: string,
+  position: Position,
+  options: CloseOptions
+): AgentDecision {
+  const percentage = Math.max(0, Math.min(options.percentage ?? 100, 100)) || 100;
+  const value = position.currentValueUsd > 0 ? position.currentValueUsd : position.entryValueUsd;
+
+  return {
+    domain,
+    action,
+    target: position.target,
+    amountUsd: value * (percentage / 100),
+    percentage,
+    reasoning: `Close requested outside the agent loop (${percentage}%)`,
+    confidence: 1,
+    metadata: {
+      ...position.metadata,
+      positionId: position.id,
+      venue,
+    },
+  };
+}
+
+// =============================================================================
+// METEORA (DLMM)
+// =============================================================================
+
+export const meteoraVenue: VenueAdapter = {
+  id: 'meteora',
+  name: 'Meteora DLMM',
+  domain: 'dlmm',
+
+  async listMarkets(limit = 10) {
+    const pools = await meteoraClient.getTopPools(limit);
+    return pools.map(pool => ({
+      id: pool.address,
+      name: pool.name,
+      domain: 'dlmm' as const,
+      metadata: {
+        tvl: parseFloat(pool.liquidity),
+        apr: meteoraClient.calculateApr(pool),
+        currentPrice: pool.current_price,
+        fees24h: pool.fees_24h,
+      },
+    }));
+  },
+
+  async quote(decision) {
+    if (!decision.target || !decision.amountUsd) return null;
+    const deposit = decision.action === 'add_liquidity';
+    if (!deposit && decision.action !== 'remove_liquidity' && decision.action !== 'partial_remove') return null;
+
+    const fill = await simulateDlmmFill(decision.target, deposit ? 'deposit' : 'withdraw', decision.amountUsd);
+    return toQuote(this.id, decision.target, deposit ? 'buy' : 'sell', fill);
+  },
+
+  execute: (decision, options) => executeDLMMDecision(decision, options),
+
+  close(position, options) {
+    return executeDLMMDecision(closeDecision(this.id, 'dlmm', 'remove_liquidity', position, options), options);
+  },
+
+  async syncPositions(positions) {
+    const syncs = [];
+    for (const position of positions) {
+      // Bin-by-bin value plus fees accrued since the last sync (see dlmm-accounting)
+      const pool = await meteoraClient.getPool(position.target).catch(() => null);
+      if (!pool) continue;
+
+      // Positions that know their bins are checked against the live active bin (not in replay, where it isn't the replayed pool's)
+      const activeBinId = dlmmBinRange(position.metadata ?? {}) && getDataSource().mode !== 'replay'
+        ? await getMeteoraLiquidity().getBinDepth(pool.address, 0).then(depth => depth.activeBinId).catch(() => undefined)
+        : undefined;
+
+      const accounting = accountDlmmPosition(position, pool, new Date(), activeBinId);
+      if (!accounting) continue;
+
+      syncs.push({
+        positionId: position.id,
+        currentValueUsd: accounting.currentValueUsd,
+        price: accounting.price,
+        metadata: accounting.metadata,
+      });
+    }
+    return syncs;
+  },
+
+  async verify(reference, wallets) {
+    if (!wallets.solana_wallet_pubkey) {
+      return { verified: false, error: 'No Solana wallet configured' };
+    }
+    return verifySolanaTransaction(reference, wallets.solana_wallet_pubkey);
+  },
+
+  createTools: (runtime) => createDlmmTools(runtime as DlmmRuntime) as VenueTool[],
+  executeTool: (name, args, runtime) => executeDlmmTool(name, args, runtime as DlmmRuntime),
+};
+
+// =============================================================================
+// HYPERLIQUID (PERPS)
+// =============================================================================
+
+export const hyperliquidVenue: VenueAdapter = {
+  id: 'hyperliquid',
+  name: 'Hyperliquid',
+  domain: 'perps',
+
+  async listMarkets(limit = 20) {
+    const markets = await hyperliquidClient.getMarkets();
+    return markets.slice(0, limit).map(market => ({
+      id: market.symbol,
+      name: `${market.symbol} Perp`,
+      domain: 'perps' as const,
+      metadata: {
+        price: market.markPrice,
+        change24h: market.volume24h,
+        fundingRate: market.fundingRate,
+        volume24h: market.volume24h,
+        openInterest: market.openInterest,
+      },
+    }));
+  },
+
+  async quote(decision) {
+    if (!decision.target || !decision.amountUsd) return null;
+    const symbol = String(decision.metadata?.symbol ?? decision.target);
+
+    let side: VenueQuote['side'];
+    if (decision.action === 'open_long' || decision.action === 'open_short') {
+      side = decision.action === 'open_long' ? 'buy' : 'sell';
+    } else if (decision.action === 'close_position' || decision.action === 'reduce_position') {
+      side = String(decision.metadata?.side ?? 'LONG').toUpperCase() === 'SHORT' ? 'buy' : 'sell';
+    } else {
+      return null;
+    }
+
+    const fill = await simulatePerpsFill(symbol, side, decision.amountUsd);
+    return toQuote(this.id, symbol, side, fill);
+  },
+
+  execute: (decision, options) => executePerpsDecision(decision, options),
+
+  close(position, options) {
+    const action = (options.percentage ?? 100) < 100 ? 'reduce_position' : 'close_position';
+    return executePerpsDecision(closeDecision(this.id, 'perps', action, position, options), options);
+  },
+
+  async syncPositions(positions) {
+    if (positions.length === 0) return [];
+
+    const markets = new Map((await hyperliquidClient.getMarkets()).map(m => [m.symbol, m]));
+    const syncs = [];
+    for (const position of positions) {
+      const market = markets.get(String(position.metadata?.symbol ?? position.target));
+      if (!market) continue;
+
+      // Mark only - funding is accrued by the perps simulator on its own schedule
+      const result = simulatePerpsPosition(position, { markPrice: market.markPrice, fundingRate: 0 }, new Date());
+      if (!result) continue;
+
+      syncs.push({ positionId: position.id, currentValueUsd: result.currentValueUsd, price: result.markPrice });
+    }
+    return syncs;
+  },
+
+  async verify(reference, wallets) {
+    if (!wallets.hyperliquid_wallet) {
+      return { verified: false, error: 'No Hyperliquid wallet configured' };
+    }
+    return verifyHyperliquidOrder(reference, wallets.hyperliquid_wallet);
+  },
+
+  createTools: (runtime) => createPerpsTools(runtime as PerpsRuntime) as VenueTool[],
+  executeTool: (name, args, runtime) => executePerpsTools(name, args, runtime as PerpsRuntime),
+};
+
+// =============================================================================
+// POLYMARKET
+// =============================================================================
+
+export const polymarketVenue: VenueAdapter = {
+  id: 'polymarket',
+  name: 'Polymarket',
+  domain: 'polymarket',
+
+  async listMarkets(limit = 20) {
+    const markets = await gammaClient.getTrendingMarkets(limit);
+    return markets.map(market => {
+      const prices = gammaClient.getMarketPrices(market);
+      const volume = (market.volume24hrClob || 0) + (market.volume24hrAmm || 0);
+      return {
+        id: market.id || market.condition_id,
+        name: market.question,
+        domain: 'polymarket' as const,
+        metadata: {
+          conditionId: market.condition_id,
+          yesPrice: prices.yesPrice,
+          noPrice: prices.noPrice,
+          volume24h: volume,
+          liquidity: market.liquidity,
+          endDate: market.endDate,
+        },
+      };
+    });
+  },
+
+  async quote(decision) {
+    if (!decision.target || !decision.amountUsd) return null;
+    const order = polymarketOrderSide(decision);
+    if (!order) return null;
+
+    const limitPrice = Number(decision.metadata?.limitPrice) || undefined;
+    const fill = await simulatePolymarketFill(decision.target, order.outcome ?? 'YES', order.side, decision.amountUsd, limitPrice);
+    return toQuote(this.id, decision.target, order.side, fill);
+  },
+
+  execute: (decision, options) => executePolymarketDecision(decision, options),
+
+  close(position, options) {
+    return executePolymarketDecision(closeDecision(this.id, 'polymarket', 'sell', position, options), options);
+  },
+
+  syncOrder: (order) => syncPolymarketOrder(order),
+  cancelOrder: (order) => cancelPolymarketOrder(order),
+
+  async syncPositions(positions) {
+    const syncs = [];
+    for (const position of positions) {
+      const market = await gammaClient.getMarket(position.target).catch(() => null);
+      if (!market) continue;
+
+      const metadata = position.metadata ?? {};
+      const prices = gammaClient.getMarketPrices(market);
+      const price = String(metadata.outcome ?? 'YES').toUpperCase() === 'NO' ? prices.noPrice : prices.yesPrice;
+      const entryPrice = Number(metadata.fillPrice ?? metadata.entry_price) || 0;
+      const shares = Number(metadata.shares) || (entryPrice > 0 ? position.entryValueUsd / entryPrice : 0);
+      if (!shares || !price) continue;
+
+      syncs.push({ positionId: position.id, currentValueUsd: shares * price, price });
+    }
+    return syncs;
+  },
+
+  async verify(reference, wallets) {
+    if (!wallets.polygon_wallet) {
+      return { verified: false, error: 'No Polygon wallet configured' };
+    }
+    return verifyPolygonTransaction(reference, wallets.polygon_wallet);
+  },
+
+  createTools: (runtime) => createPolymarketTools(runtime as PolymarketRuntime) as VenueTool[],
+  executeTool: (name, args, runtime) => executePolymarketTool(name, args, runtime as PolymarketRuntime),
+};
+
+// =============================================================================
+// JUPITER (SPOT)
+// =============================================================================
+
+export const jupiterVenue: VenueAdapter = {
+  id: 'jupiter',
+  name: 'Jupiter',
+  domain: 'spot',
+
+  async listMarkets(limit = 20) {
+    const pools = await geckoTerminalClient.getTrendingPools(limit);
+    return pools.map(pool => ({
+      id: pool.address,
+      name: pool.symbol || pool.name,
+      domain: 'spot' as const,
+      metadata: {
+        price: pool.priceUsd,
+        change24h: pool.priceChange24h,
+        volume24h: pool.volume24h,
+        liquidity: pool.liquidity,
+        buys24h: pool.buys24h,
+        sells24h: pool.sells24h,
+      },
+    }));
+  },
+
+  async quote(decision) {
+    if (!decision.target || !decision.amountUsd) return null;
+    const side = decision.action === 'buy' ? 'buy' : decision.action === 'sell' || decision.action === 'partial_sell' ? 'sell' : null;
+    if (!side) return null;
+
+    const mint = typeof decision.metadata?.mint === 'string' ? decision.metadata.mint : decision.target;
+    const fill = await simulateSpotFill(mint, side, decision.amountUsd);
+    return toQuote(this.id, mint, side, fill);
+  },
+
+  execute: (decision, options) => executeSpotDecision(decision, options),
+
+  close(position, options) {
+    const action = (options.percentage ?? 100) < 100 ? 'partial_sell' : 'sell';
+    return executeSpotDecision(closeDecision(this.id, 'spot', action, position, options), options);
+  },
+
+  async syncPositions(positions) {
+    const held = positions.filter(p => Number(p.metadata?.tokenAmount) > 0);
+    if (held.length === 0) return [];
+
+    const mintOf = (position: Position) => String(position.metadata?.mint ?? position.target);
+    const prices = await jupiterClient.getPrices([...new Set(held.map(mintOf))]);
+
+    const syncs = [];
+    for (const position of held) {
+      const price = prices.get(mintOf(position));
+      if (!price) continue;
+      syncs.push({
+        positionId: position.id,
+        currentValueUsd: Number(position.metadata.tokenAmount) * price,
+        price,
+      });
+    }
+    return syncs;
+  },
+
+  async verify(reference, wallets) {
+    if (!wallets.solana_wallet_pubkey) {
+      return { verified: false, error: 'No Solana wallet configured' };
+    }
+    return verifySolanaTransaction(reference, wallets.solana_wallet_pubkey);
+  },
+
+  createTools: (runtime) => createSpotTools(runtime as SpotRuntime) as VenueTool[],
+  executeTool: (name, args, runtime) => executeSpotTool(name, args, runtime as SpotRuntime),
+};
+
+// =============================================================================
+// AUTO-REGISTER
+// =============================================================================
+
+venueRegistry.register(meteoraVenue);
+venueRegistry.register(hyperliquidVenue);
+venueRegistry.register(polymarketVenue);
+venueRegistry.register(jupiterVenue);
+
+// Export venue ids for easy reference
+export const BUILT_IN_VENUES = [
+  'meteora',
+  'hyperliquid',
+  'polymarket',
+  'jupiter',
+] as const;
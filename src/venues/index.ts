@@ -0,0 +1,80 @@
+/**
+ * Venue Adapters
+ *
+ * Pluggable exchange/protocol integrations. Each domain trades through one
+ * or more venues; the orchestrator only talks to the registry.
+ *
+ * Usage:
+ *   import { venueRegistry } from './venues';
+ *
+ *   // Add a venue (e.g. Drift for perps)
+ *   venueRegistry.register(driftVenue);
+ *
+ *   // Route a decision
+ *   const venue = venueRegistry.forDecision('perps', decision);
+ *   const result = await venue?.execute(decision, { paperTrading: true });
+ */
+
+import type { Domain, Position } from '../types/index.js';
+import { updatePositionValue, updatePositionMetadata } from '../data/provider.js';
+import { venueRegistry } from './registry.js';
+import type { PositionSync } from './types.js';
+
+// Types
+export type {
+  VenueAdapter,
+  VenueQuote,
+  VenueRuntime,
+  VenueTool,
+  PositionSync,
+  VerificationResult,
+  ExecutionOptions,
+  CloseOptions,
+} from './types.js';
+
+// Registry (singleton)
+export { venueRegistry } from './registry.js';
+
+// Built-in venues (auto-registered on import)
+export { BUILT_IN_VENUES } from './built-in.js';
+
+// Initialize built-in venues by importing the module
+import './built-in.js';
+
+/**
+ * Mark a domain's open positions to their venues' prices and persist the new
+ * values. Returns the positions with updated values; positions whose venue
+ * couldn't price them are returned unchanged.
+ */
+export async function syncVenuePositions(domain: Domain, positions: Position[]): Promise<Position[]> {
+  // Group by the venue each position was opened on
+  const byVenue = new Map<string, Position[]>();
+  for (const position of positions) {
+    const venue = venueRegistry.forDomain(domain, position.metadata?.venue as string | undefined);
+    if (!venue) continue;
+    byVenue.set(venue.id, [...(byVenue.get(venue.id) ?? []), position]);
+  }
+
+  const synced = new Map<string, PositionSync>();
+  for (const [venueId, venuePositions] of byVenue) {
+    try {
+      const syncs = await venueRegistry.get(venueId)!.syncPositions(venuePositions);
+      for (const sync of syncs) {
+        synced.set(sync.positionId, sync);
+        await updatePositionValue(sync.positionId, sync.currentValueUsd, sync.price);
+        if (sync.metadata) {
+          await updatePositionMetadata(sync.positionId, sync.metadata);
+        }
+      }
+    } catch (error) {
+      console.warn(`[Venues] Failed to sync ${venueId} positions:`, error);
+    }
+  }
+
+  return positions.map(position => {
+    const sync = synced.get(position.id);
+    return sync
+      ? { ...position, currentValueUsd: sync.currentValueUsd, metadata: sync.metadata ?? position.metadata }
+      : position;
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Venue Registry
+ *
+ * Adapters register themselves here; the orchestrator looks them up by domain.
+ * When a domain has several venues the choice is, in order:
+ * 1. The venue recorded on the decision or position (`metadata.venue`)
+ * 2. VENUE_<DOMAIN> from environment (e.g. VENUE_PERPS=drift)
+ * 3. The first adapter registered for the domain
+ */
+
+import type { AgentDecision, Domain } from '../types/index.js';
+import type { VenueAdapter } from './types.js';
+
+class VenueRegistry {
+  private adapters: VenueAdapter[] = [];
+
+  /**
+   * Register a venue adapter
+   */
+  register(adapter: VenueAdapter): void {
+    if (this.adapters.some(a => a.id === adapter.id)) {
+      console.warn(`[Venues] Venue "${adapter.id}" already registered, skipping`);
+      return;
+    }
+
+    this.adapters.push(adapter);
+  }
+
+  /**
+   * Unregister a venue by id
+   */
+  unregister(id: string): boolean {
+    const index = this.adapters.findIndex(a => a.id === id);
+    if (index >= 0) {
+      this.adapters.splice(index, 1);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get a venue by id
+   */
+  get(id: string): VenueAdapter | undefined {
+    return this.adapters.find(a => a.id === id);
+  }
+
+  /**
+   * All registered venues, optionally for one domain
+   */
+  list(domain?: Domain): VenueAdapter[] {
+    return domain ? this.adapters.filter(a => a.domain === domain) : [...this.adapters];
+  }
+
+  /**
+   * Resolve the venue for a domain (see module doc for precedence)
+   */
+  forDomain(domain: Domain, venueId?: string): VenueAdapter | undefined {
+    const candidates = this.list(domain);
+    const requested = venueId ?? process.env[`VENUE_${domain.toUpperCase()}`];
+
+    if (requested) {
+      const match = candidates.find(a => a.id === requested);
+      if (match) return match;
+      console.warn(`[Venues] No ${domain} venue "${requested}", using default`);
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * Resolve the venue a decision should execute on
+   */
+  forDecision(domain: Domain, decision: AgentDecision): VenueAdapter | undefined {
+    const venue = decision.metadata?.venue;
+    return this.forDomain(domain, typeof venue === 'string' ? venue : undefined);
+  }
+}
+
+// Singleton instance
+export const venueRegistry = new VenueRegistry();
@@ -0,0 +1,112 @@
+/**
+ * Venue Adapter Types
+ *
+ * A venue is one exchange or protocol a domain trades on (Hyperliquid for
+ * perps, Meteora for DLMM, ...). Everything the orchestrator needs from a
+ * venue goes through this interface, so adding one (Drift perps, Orca
+ * Whirlpools) means writing an adapter, not editing the loop.
+ */
+
+import type { AgentDecision, Domain, Market, Position } from '../types/index.js';
+import type { AgentWallets, RestingOrderRecord } from '../types/internal.js';
+import type { ExecutionResult } from '../execution/index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ExecutionOptions {
+  paperTrading: boolean;
+}
+
+export interface CloseOptions extends ExecutionOptions {
+  percentage?: number;        // 1-100, defaults to a full close
+}
+
+/**
+ * Expected fill for a decision before it is executed
+ */
+export interface VenueQuote {
+  venue: string;
+  target: string;
+  side: 'buy' | 'sell';
+  amountUsd: number;
+  filledUsd: number;
+  price: number;              // Expected average execution price (0 if unknown)
+  feeUsd: number;
+  slippageUsd: number;
+  partial: boolean;
+}
+
+/**
+ * Fresh valuation of an open position
+ */
+export interface PositionSync {
+  positionId: string;
+  currentValueUsd: number;
+  price?: number;
+  metadata?: Record<string, unknown>;   // Replaces the position's metadata when set
+}
+
+/**
+ * Cumulative fill state of a resting limit order
+ */
+export interface RestingOrderSync {
+  filledSize: number;
+  avgFillPrice?: number;
+  status: RestingOrderRecord['status'];
+}
+
+export interface VerificationResult {
+  verified: boolean;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Shared state between a subagent session and its MCP tools
+ */
+export interface VenueRuntime {
+  decision: AgentDecision | null;
+}
+
+export interface VenueTool {
+  name: string;
+  description: string;
+  inputSchema: unknown;
+  handler: (args: unknown, runtime: unknown) => Promise<{ content: Array<{ type: 'text'; text: string }> }>;
+}
+
+export interface VenueAdapter {
+  id: string;                 // Stable key stored on positions, e.g. 'hyperliquid'
+  name: string;
+  domain: Domain;
+
+  /** Markets the subagent sees each cycle */
+  listMarkets(limit?: number): Promise<Market[]>;
+
+  /** Price a decision without executing it (null for actions that don't trade) */
+  quote(decision: AgentDecision): Promise<VenueQuote | null>;
+
+  /** Execute an agent decision (opens and closes) */
+  execute(decision: AgentDecision, options: ExecutionOptions): Promise<ExecutionResult>;
+
+  /** Exit all or part of an open position outside the agent loop */
+  close(position: Position, options: CloseOptions): Promise<ExecutionResult>;
+
+  /** Mark open positions to the venue's current prices */
+  syncPositions(positions: Position[]): Promise<PositionSync[]>;
+
+  /** Fill state of a resting limit order (venues with limit orders) */
+  syncOrder?(order: RestingOrderRecord): Promise<RestingOrderSync>;
+
+  /** Pull a resting limit order off the book */
+  cancelOrder?(order: RestingOrderRecord): Promise<boolean>;
+
+  /** Confirm a recorded trade reference (tx hash, order id) belongs to our wallet */
+  verify(reference: string, wallets: AgentWallets): Promise<VerificationResult>;
+
+  /** MCP tools for the domain's subagent */
+  createTools(runtime: VenueRuntime): VenueTool[];
+  executeTool(name: string, args: unknown, runtime: VenueRuntime): Promise<{ content: Array<{ type: 'text'; text: string }> }>;
+}